@@ -0,0 +1,202 @@
+/**
+ * 🧪 CRON APIS TESTS
+ * Testes para os cron jobs agendados no vercel.json
+ *
+ * O Vercel Cron chama as rotas com GET; POST fica para execução manual.
+ *
+ * Cobre:
+ * - GET/POST /api/cron/expire-stream-leases (CRON_SECRET)
+ * - GET/POST /api/cron/retry-webhook-events (CRON_SECRET)
+ * - GET/POST /api/cron/process-dunning (CRON_SECRET)
+ * - GET/POST /api/cron/end-canceled-subscriptions (CRON_SECRET)
+ *
+ * Valida:
+ * - ✅ Handler GET exportado para cada rota agendada
+ * - ✅ Autenticação Bearer obrigatória
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import {
+    GET as expireStreamLeasesGet,
+    POST as expireStreamLeasesPost,
+} from '@/app/api/cron/expire-stream-leases/route';
+import { GET as retryWebhookEventsGet } from '@/app/api/cron/retry-webhook-events/route';
+import { GET as processDunningGet } from '@/app/api/cron/process-dunning/route';
+import { GET as endCanceledSubscriptionsGet } from '@/app/api/cron/end-canceled-subscriptions/route';
+import { expireStreamLeases } from '@/lib/stream-lease';
+import { retryWebhookEvents } from '@/lib/webhook-events-server';
+import { endCanceledSubscriptions, processDunning } from '@/lib/subscription-server';
+
+import {
+    expectUnauthorized,
+    expectOk,
+} from '../helpers/auth.helper';
+
+import {
+    createGetRequest,
+    createPostRequest,
+    createBearerHeaders,
+    extractJson,
+} from '../helpers/request.helper';
+
+jest.mock('@/lib/stream-lease', () => ({
+    expireStreamLeases: jest.fn(),
+}));
+
+jest.mock('@/lib/webhook-events-server', () => ({
+    retryWebhookEvents: jest.fn(),
+}));
+
+jest.mock('@/lib/subscription-server', () => ({
+    processDunning: jest.fn(),
+    endCanceledSubscriptions: jest.fn(),
+}));
+
+const originalEnv = process.env;
+
+const scheduledPaths: string[] = JSON.parse(
+    fs.readFileSync(path.join(process.cwd(), 'vercel.json'), 'utf8')
+).crons.map((cron: { path: string }) => cron.path);
+
+describe('⏰ Cron APIs Tests', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        process.env = {
+            ...originalEnv,
+            CRON_SECRET: 'test-cron-secret',
+            NODE_ENV: 'production',
+        };
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+    });
+
+    // ========================================
+    // /api/cron/expire-stream-leases
+    // ========================================
+    describe('/api/cron/expire-stream-leases', () => {
+        it('✅ Deve estar agendado no vercel.json', () => {
+            expect(scheduledPaths).toContain('/api/cron/expire-stream-leases');
+        });
+
+        it('❌ Deve retornar 401 se sem Bearer token', async () => {
+            const response = await expireStreamLeasesGet(createGetRequest('/api/cron/expire-stream-leases'));
+
+            expectUnauthorized(response);
+            expect(expireStreamLeases).not.toHaveBeenCalled();
+        });
+
+        it('✅ Deve executar via GET (Vercel Cron)', async () => {
+            (expireStreamLeases as jest.Mock).mockResolvedValue(3);
+
+            const response = await expireStreamLeasesGet(
+                createGetRequest('/api/cron/expire-stream-leases', createBearerHeaders('test-cron-secret'))
+            );
+
+            expectOk(response);
+            const data = await extractJson(response);
+            expect(data.success).toBe(true);
+            expect(data.expiredCount).toBe(3);
+        });
+
+        it('✅ Deve aceitar POST para execução manual', async () => {
+            (expireStreamLeases as jest.Mock).mockResolvedValue(0);
+
+            const response = await expireStreamLeasesPost(
+                createPostRequest('/api/cron/expire-stream-leases', {}, createBearerHeaders('test-cron-secret'))
+            );
+
+            expectOk(response);
+            expect(expireStreamLeases).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // ========================================
+    // /api/cron/retry-webhook-events
+    // ========================================
+    describe('/api/cron/retry-webhook-events', () => {
+        it('✅ Deve estar agendado no vercel.json', () => {
+            expect(scheduledPaths).toContain('/api/cron/retry-webhook-events');
+        });
+
+        it('❌ Deve retornar 401 se sem Bearer token', async () => {
+            const response = await retryWebhookEventsGet(createGetRequest('/api/cron/retry-webhook-events'));
+
+            expectUnauthorized(response);
+            expect(retryWebhookEvents).not.toHaveBeenCalled();
+        });
+
+        it('✅ Deve executar via GET (Vercel Cron)', async () => {
+            (retryWebhookEvents as jest.Mock).mockResolvedValue({ processed: 2, failed: 1 });
+
+            const response = await retryWebhookEventsGet(
+                createGetRequest('/api/cron/retry-webhook-events', createBearerHeaders('test-cron-secret'))
+            );
+
+            expectOk(response);
+            const data = await extractJson(response);
+            expect(data.processedCount).toBe(2);
+            expect(data.failedCount).toBe(1);
+        });
+    });
+
+    // ========================================
+    // /api/cron/process-dunning
+    // ========================================
+    describe('/api/cron/process-dunning', () => {
+        it('✅ Deve estar agendado no vercel.json', () => {
+            expect(scheduledPaths).toContain('/api/cron/process-dunning');
+        });
+
+        it('❌ Deve retornar 401 se sem Bearer token', async () => {
+            const response = await processDunningGet(createGetRequest('/api/cron/process-dunning'));
+
+            expectUnauthorized(response);
+            expect(processDunning).not.toHaveBeenCalled();
+        });
+
+        it('✅ Deve executar via GET (Vercel Cron)', async () => {
+            (processDunning as jest.Mock).mockResolvedValue({ reminded: 1, expired: 2 });
+
+            const response = await processDunningGet(
+                createGetRequest('/api/cron/process-dunning', createBearerHeaders('test-cron-secret'))
+            );
+
+            expectOk(response);
+            const data = await extractJson(response);
+            expect(data.expiredCount).toBe(2);
+        });
+    });
+
+    // ========================================
+    // /api/cron/end-canceled-subscriptions
+    // ========================================
+    describe('/api/cron/end-canceled-subscriptions', () => {
+        it('✅ Deve estar agendado no vercel.json', () => {
+            expect(scheduledPaths).toContain('/api/cron/end-canceled-subscriptions');
+        });
+
+        it('❌ Deve retornar 401 se sem Bearer token', async () => {
+            const response = await endCanceledSubscriptionsGet(createGetRequest('/api/cron/end-canceled-subscriptions'));
+
+            expectUnauthorized(response);
+            expect(endCanceledSubscriptions).not.toHaveBeenCalled();
+        });
+
+        it('✅ Deve executar via GET (Vercel Cron)', async () => {
+            (endCanceledSubscriptions as jest.Mock).mockResolvedValue(4);
+
+            const response = await endCanceledSubscriptionsGet(
+                createGetRequest('/api/cron/end-canceled-subscriptions', createBearerHeaders('test-cron-secret'))
+            );
+
+            expectOk(response);
+            const data = await extractJson(response);
+            expect(data.canceledCount).toBe(4);
+        });
+    });
+});
@@ -0,0 +1,256 @@
+/**
+ * 🧪 DOWNLOADS API TESTS
+ * Testes para as licenças de download offline
+ *
+ * Cobre:
+ * - GET /api/downloads/license (renovação da licença)
+ * - POST /api/downloads/license (URL tokenizada para o service worker)
+ *
+ * Valida:
+ * - ✅ Autenticação obrigatória (Better Auth)
+ * - ✅ Limite de qualidade do plano (maxQuality/hdr), como na reprodução online
+ * - ✅ Preferência de uso de dados (economia de dados) na qualidade baixada
+ * - ✅ Licença não passa do fim do acesso (trial, cancelamento agendado, carência)
+ */
+
+import { GET as renewLicense, POST as requestLicense } from '@/app/api/downloads/license/route';
+
+import {
+    mockAuthAuthenticated,
+    mockAuthUnauthenticated,
+    clearAuthMocks,
+    createAuthHeaders,
+    createUnauthHeaders,
+    expectUnauthorized,
+    expectOk,
+} from '../helpers/auth.helper';
+
+import {
+    createGetRequest,
+    createPostRequest,
+    extractJson,
+} from '../helpers/request.helper';
+
+// Mock dos módulos necessários
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        userPreferences: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+jest.mock('@/lib/access');
+jest.mock('@/lib/streaming-backends', () => ({
+    getStreamingBackends: jest.fn(),
+    selectStreamingBackends: jest.fn(),
+    fetchFromStreamingBackends: jest.fn(),
+    StreamingBackendsUnavailableError: class extends Error { },
+}));
+jest.mock('@/lib/playback-token', () => ({
+    createPlaybackToken: jest.fn(() => 'token'),
+    getPlaybackUrl: jest.fn((token: string, url: string) => `/api/streaming/play?token=${token}&src=${encodeURIComponent(url)}`),
+}));
+
+import { hasStreamingAccess, getUserPlanInfo } from '@/lib/access';
+import {
+    getStreamingBackends,
+    selectStreamingBackends,
+    fetchFromStreamingBackends,
+} from '@/lib/streaming-backends';
+import { createPlaybackToken } from '@/lib/playback-token';
+import { prisma } from '@/lib/prisma';
+
+const backend = { name: 'primary', url: 'https://api.example.com/resolve' };
+
+const hdPlanInfo = {
+    planId: 'plan-duo',
+    planName: 'Duo',
+    maxScreens: 2,
+    maxQuality: '1080p',
+    hdr: false,
+    accountOwnerId: 'test-user-id-123',
+    isOwner: true,
+    isTrial: false,
+    trialEndsAt: null,
+    subscriptionStatus: 'active',
+    currentPeriodEnd: new Date('2026-04-01T00:00:00.000Z'),
+    accessEndsAt: null,
+};
+
+function backendResponse(body: unknown) {
+    return { backend, response: new Response(JSON.stringify(body), { status: 200 }) };
+}
+
+describe('💾 Downloads API Tests', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (hasStreamingAccess as jest.Mock).mockResolvedValue(true);
+        (getUserPlanInfo as jest.Mock).mockResolvedValue(hdPlanInfo);
+        (getStreamingBackends as jest.Mock).mockReturnValue([backend]);
+        (selectStreamingBackends as jest.Mock).mockReturnValue([backend]);
+        (prisma.userPreferences.findUnique as jest.Mock).mockResolvedValue(null);
+    });
+
+    afterEach(() => {
+        clearAuthMocks();
+    });
+
+    // ========================================
+    // GET /api/downloads/license
+    // ========================================
+    describe('GET /api/downloads/license', () => {
+        it('✅ Deve emitir a licença completa para assinatura que renova', async () => {
+            mockAuthAuthenticated();
+
+            const response = await renewLicense(createGetRequest('/api/downloads/license', createAuthHeaders()));
+
+            expectOk(response);
+            const data = await extractJson(response);
+            const days = (Date.parse(data.licenseExpiresAt) - Date.now()) / (24 * 60 * 60 * 1000);
+            expect(days).toBeGreaterThan(29);
+        });
+
+        it('✅ Deve limitar a licença ao fim do período com cancelamento agendado', async () => {
+            mockAuthAuthenticated();
+            const accessEndsAt = new Date(Date.now() + 5 * 24 * 60 * 60 * 1000);
+            (getUserPlanInfo as jest.Mock).mockResolvedValue({ ...hdPlanInfo, currentPeriodEnd: accessEndsAt, accessEndsAt });
+
+            const response = await renewLicense(createGetRequest('/api/downloads/license', createAuthHeaders()));
+
+            expectOk(response);
+            const data = await extractJson(response);
+            expect(data.licenseExpiresAt).toBe(accessEndsAt.toISOString());
+        });
+
+        it('✅ Deve limitar a licença ao fim da carência de past_due', async () => {
+            mockAuthAuthenticated();
+            const graceEndsAt = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+            (getUserPlanInfo as jest.Mock).mockResolvedValue({
+                ...hdPlanInfo,
+                subscriptionStatus: 'past_due',
+                accessEndsAt: graceEndsAt,
+            });
+
+            const response = await renewLicense(createGetRequest('/api/downloads/license', createAuthHeaders()));
+
+            expectOk(response);
+            const data = await extractJson(response);
+            expect(data.licenseExpiresAt).toBe(graceEndsAt.toISOString());
+        });
+
+        it('❌ Deve retornar 403 sem acesso ao streaming', async () => {
+            mockAuthAuthenticated();
+            (hasStreamingAccess as jest.Mock).mockResolvedValue(false);
+
+            const response = await renewLicense(createGetRequest('/api/downloads/license', createAuthHeaders()));
+
+            expect(response.status).toBe(403);
+        });
+    });
+
+    // ========================================
+    // POST /api/downloads/license
+    // ========================================
+    describe('POST /api/downloads/license', () => {
+        it('❌ Deve retornar 401 se não autenticado', async () => {
+            mockAuthUnauthenticated();
+
+            const request = createPostRequest('/api/downloads/license', { tmdbId: 550, mediaType: 'movie' }, createUnauthHeaders());
+            const response = await requestLicense(request);
+
+            expectUnauthorized(response);
+        });
+
+        it('✅ Deve pedir ao backend apenas a qualidade do plano', async () => {
+            mockAuthAuthenticated();
+            (fetchFromStreamingBackends as jest.Mock).mockResolvedValue(backendResponse({
+                url: 'https://cdn.example.com/1080.mp4',
+                qualities: [{ label: '1080p', url: 'https://cdn.example.com/1080.mp4' }],
+            }));
+
+            const request = createPostRequest('/api/downloads/license', { tmdbId: 550, mediaType: 'movie' }, createAuthHeaders());
+            await requestLicense(request);
+
+            expect(fetchFromStreamingBackends).toHaveBeenCalledWith([backend], expect.objectContaining({
+                maxQuality: '1080p',
+                hdr: false,
+            }));
+        });
+
+        it('✅ Deve baixar a melhor qualidade permitida se o backend ignorar o limite', async () => {
+            mockAuthAuthenticated();
+            (fetchFromStreamingBackends as jest.Mock).mockResolvedValue(backendResponse({
+                url: 'https://cdn.example.com/4k.mp4',
+                qualities: [
+                    { label: '4K', url: 'https://cdn.example.com/4k.mp4' },
+                    { label: '1080p', url: 'https://cdn.example.com/1080.mp4' },
+                ],
+                defaultQuality: '4K',
+            }));
+
+            const request = createPostRequest('/api/downloads/license', { tmdbId: 550, mediaType: 'movie' }, createAuthHeaders());
+            const response = await requestLicense(request);
+
+            expectOk(response);
+            expect(createPlaybackToken).toHaveBeenCalledWith(expect.objectContaining({
+                url: 'https://cdn.example.com/1080.mp4',
+            }));
+            const data = await extractJson(response);
+            expect(data.url).toContain(encodeURIComponent('https://cdn.example.com/1080.mp4'));
+        });
+
+        it('✅ Deve enviar o limite do plano para a escolha da variante HLS', async () => {
+            mockAuthAuthenticated();
+            (fetchFromStreamingBackends as jest.Mock).mockResolvedValue(backendResponse({
+                url: 'https://cdn.example.com/master.m3u8',
+            }));
+
+            const request = createPostRequest('/api/downloads/license', { tmdbId: 550, mediaType: 'movie' }, createAuthHeaders());
+            const response = await requestLicense(request);
+
+            expectOk(response);
+            const data = await extractJson(response);
+            expect(data.format).toBe('hls');
+            expect(data.quality).toEqual({ maxHeight: 1080, preferredMaxHeight: null, hdr: false });
+        });
+
+        it('✅ Deve baixar até 480p com economia de dados', async () => {
+            mockAuthAuthenticated();
+            (prisma.userPreferences.findUnique as jest.Mock).mockResolvedValue({ dataUsage: 'saveData' });
+            (fetchFromStreamingBackends as jest.Mock).mockResolvedValue(backendResponse({
+                url: 'https://cdn.example.com/1080.mp4',
+                qualities: [
+                    { label: '1080p', url: 'https://cdn.example.com/1080.mp4' },
+                    { label: '480p', url: 'https://cdn.example.com/480.mp4' },
+                ],
+                defaultQuality: '1080p',
+            }));
+
+            const request = createPostRequest('/api/downloads/license', { tmdbId: 550, mediaType: 'movie' }, createAuthHeaders());
+            const response = await requestLicense(request);
+
+            expectOk(response);
+            expect(createPlaybackToken).toHaveBeenCalledWith(expect.objectContaining({
+                url: 'https://cdn.example.com/480.mp4',
+            }));
+            const data = await extractJson(response);
+            expect(data.quality.preferredMaxHeight).toBe(480);
+        });
+
+        it('❌ Deve retornar 404 se nenhuma qualidade couber no plano', async () => {
+            mockAuthAuthenticated();
+            (fetchFromStreamingBackends as jest.Mock).mockResolvedValue(backendResponse({
+                url: 'https://cdn.example.com/4k.mp4',
+                qualities: [{ label: '4K', url: 'https://cdn.example.com/4k.mp4' }],
+            }));
+
+            const request = createPostRequest('/api/downloads/license', { tmdbId: 550, mediaType: 'movie' }, createAuthHeaders());
+            const response = await requestLicense(request);
+
+            expect(response.status).toBe(404);
+            const data = await extractJson(response);
+            expect(data.error).toBe('api.streaming.qualityNotAvailable');
+            expect(createPlaybackToken).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -2,7 +2,7 @@
  * 🧪 SETTINGS API TESTS
  * Testes completos para /api/settings/*
  * 
- * Cobre 8 endpoints:
+ * Cobre 9 endpoints:
  * - PUT /api/settings/name (204)
  * - PUT /api/settings/avatar (204)
  * - POST /api/settings/change-email (204)
@@ -11,6 +11,7 @@
  * - DELETE /api/settings/sessions (204)
  * - POST /api/settings/delete-account (204)
  * - POST /api/settings/subscription/cancel (204)
+ * - POST /api/settings/subscription/resume (204)
  * 
  * Valida:
  * - ✅ Autenticação obrigatória (todas)
@@ -26,6 +27,7 @@ import { GET as preferencesGet, PUT as preferencesUpdate } from '@/app/api/setti
 import { DELETE as sessionsDelete } from '@/app/api/settings/sessions/route';
 import { POST as deleteAccount } from '@/app/api/settings/delete-account/route';
 import { POST as cancelSubscription } from '@/app/api/settings/subscription/cancel/route';
+import { POST as resumeSubscription } from '@/app/api/settings/subscription/resume/route';
 import { prisma } from '@/lib/prisma';
 
 import {
@@ -597,7 +599,10 @@ describe('⚙️ Settings API Tests', () => {
             (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
                 id: 'sub-1',
                 userId: 'test-user-id-123',
+                planId: 'plan_duo',
                 status: 'active',
+                gatewaySubscriptionId: null,
+                currentPeriodEnd: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
             });
 
             (prisma.subscription.update as jest.Mock).mockResolvedValue({
@@ -653,6 +658,93 @@ describe('⚙️ Settings API Tests', () => {
                 where: { userId: 'test-user-id-123' }, // ✅ Da sessão
             });
         });
+
+        it('✅ Deve agendar o cancelamento para o fim do período sem remover o plano', async () => {
+            mockAuthAuthenticated();
+
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+                id: 'sub-1',
+                userId: 'test-user-id-123',
+                planId: 'plan_duo',
+                status: 'active',
+                gatewaySubscriptionId: null,
+                currentPeriodEnd: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+                cancelAtPeriodEnd: false,
+            });
+
+            (prisma.subscription.update as jest.Mock).mockResolvedValue({
+                id: 'sub-1',
+                status: 'active',
+                cancelAtPeriodEnd: true,
+            });
+
+            const response = await cancelSubscription();
+
+            expectNoContent(response);
+            expect(prisma.subscription.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'sub-1' },
+                data: expect.objectContaining({ cancelAtPeriodEnd: true }),
+            }));
+            expect(prisma.user.update).not.toHaveBeenCalled();
+            expect(prisma.family.delete).not.toHaveBeenCalled();
+        });
+    });
+
+    // ========================================
+    // POST /api/settings/subscription/resume
+    // ========================================
+    describe('POST /api/settings/subscription/resume', () => {
+        it('❌ Deve retornar 401 se não autenticado', async () => {
+            mockAuthUnauthenticated();
+
+            const response = await resumeSubscription();
+
+            expectUnauthorized(response);
+        });
+
+        it('✅ Deve retornar 204 No Content ao retomar assinatura', async () => {
+            mockAuthAuthenticated();
+
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+                id: 'sub-1',
+                userId: 'test-user-id-123',
+                planId: 'plan_duo',
+                status: 'active',
+                gatewaySubscriptionId: null,
+                cancelAtPeriodEnd: true,
+                currentPeriodEnd: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+            });
+
+            (prisma.subscription.update as jest.Mock).mockResolvedValue({
+                id: 'sub-1',
+                cancelAtPeriodEnd: false,
+            });
+
+            const response = await resumeSubscription();
+
+            await expectEmptyBody(response);
+            expect(prisma.subscription.update).toHaveBeenCalledWith({
+                where: { id: 'sub-1' },
+                data: { cancelAtPeriodEnd: false, canceledAt: null },
+            });
+        });
+
+        it('❌ Deve retornar 404 sem cancelamento agendado', async () => {
+            mockAuthAuthenticated();
+
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+                id: 'sub-1',
+                userId: 'test-user-id-123',
+                status: 'active',
+                cancelAtPeriodEnd: false,
+                currentPeriodEnd: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+            });
+
+            const response = await resumeSubscription();
+
+            expect(response.status).toBe(404);
+            expect(prisma.subscription.update).not.toHaveBeenCalled();
+        });
     });
 
     // ========================================
@@ -0,0 +1,310 @@
+/**
+ * 🧪 STREAMING API TESTS
+ * Testes para o controle de telas simultâneas (stream leases)
+ *
+ * Cobre:
+ * - GET /api/streaming/get-url (adquirir lease)
+ * - POST /api/streaming/heartbeat (renovar lease)
+ * - DELETE /api/streaming/heartbeat (liberar lease próprio)
+ * - GET /api/streaming/leases (listar dispositivos ativos)
+ * - DELETE /api/streaming/leases (desconectar dispositivo)
+ *
+ * Valida:
+ * - ✅ Autenticação obrigatória (Better Auth)
+ * - ✅ Validação Zod do leaseId
+ * - ✅ Status 409/410 quando o lease é perdido
+ * - ✅ Membros de família usam as telas do owner (accountOwnerId)
+ * - ✅ Lease só é adquirido quando há fonte reproduzível
+ */
+
+import { GET as getUrl } from '@/app/api/streaming/get-url/route';
+import { POST as heartbeat, DELETE as releaseLease } from '@/app/api/streaming/heartbeat/route';
+import { GET as listLeases, DELETE as kickLease } from '@/app/api/streaming/leases/route';
+
+import {
+    mockAuthAuthenticated,
+    mockAuthUnauthenticated,
+    clearAuthMocks,
+    createAuthHeaders,
+    createUnauthHeaders,
+    expectUnauthorized,
+    expectNoContent,
+    expectOk,
+} from '../helpers/auth.helper';
+
+import {
+    createGetRequest,
+    createPostRequest,
+    createDeleteRequest,
+    extractJson,
+} from '../helpers/request.helper';
+
+// Mock dos módulos necessários
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/access');
+jest.mock('@/lib/stream-lease');
+jest.mock('@/lib/streaming-backends', () => ({
+    getStreamingBackends: jest.fn(),
+    selectStreamingBackends: jest.fn(),
+    fetchFromStreamingBackends: jest.fn(),
+    StreamingBackendsUnavailableError: class extends Error {
+        constructor(public readonly reason: string) {
+            super(reason);
+        }
+    },
+}));
+
+import { hasStreamingAccess, getUserPlanInfo } from '@/lib/access';
+import { acquireStreamLease, renewStreamLease, releaseStreamLease, listActiveStreams } from '@/lib/stream-lease';
+import {
+    getStreamingBackends,
+    selectStreamingBackends,
+    fetchFromStreamingBackends,
+    StreamingBackendsUnavailableError,
+} from '@/lib/streaming-backends';
+
+const LEASE_ID = 'clx1234567890abcdefghijkl';
+
+const backend = { name: 'primary', url: 'https://api.example.com/resolve' };
+
+const ownerPlanInfo = {
+    planId: 'plan-duo',
+    planName: 'Duo',
+    maxScreens: 2,
+    maxQuality: '1080p',
+    hdr: false,
+    accountOwnerId: 'owner-user-id',
+    isOwner: false,
+    isTrial: false,
+    trialEndsAt: null,
+};
+
+describe('📺 Streaming Lease APIs Tests', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (hasStreamingAccess as jest.Mock).mockResolvedValue(true);
+        (getUserPlanInfo as jest.Mock).mockResolvedValue(ownerPlanInfo);
+    });
+
+    afterEach(() => {
+        clearAuthMocks();
+    });
+
+    // ========================================
+    // GET /api/streaming/get-url
+    // ========================================
+    describe('GET /api/streaming/get-url', () => {
+        const url = '/api/streaming/get-url?tmdbId=550&mediaType=movie';
+
+        beforeEach(() => {
+            (getStreamingBackends as jest.Mock).mockReturnValue([backend]);
+            (selectStreamingBackends as jest.Mock).mockReturnValue([backend]);
+        });
+
+        it('❌ Não deve ocupar tela se nenhum backend atende o conteúdo', async () => {
+            mockAuthAuthenticated();
+            (selectStreamingBackends as jest.Mock).mockReturnValue([]);
+
+            const response = await getUrl(createGetRequest(url, createAuthHeaders()));
+
+            expect(response.status).toBe(404);
+            expect(acquireStreamLease).not.toHaveBeenCalled();
+        });
+
+        it('❌ Não deve ocupar tela se os backends estiverem indisponíveis', async () => {
+            mockAuthAuthenticated();
+            (fetchFromStreamingBackends as jest.Mock).mockRejectedValue(new StreamingBackendsUnavailableError('unavailable'));
+
+            const response = await getUrl(createGetRequest(url, createAuthHeaders()));
+
+            expect(response.status).toBe(503);
+            expect(acquireStreamLease).not.toHaveBeenCalled();
+        });
+
+        it('❌ Não deve ocupar tela se nenhuma qualidade couber no plano', async () => {
+            mockAuthAuthenticated();
+            (fetchFromStreamingBackends as jest.Mock).mockResolvedValue({
+                backend,
+                response: new Response(JSON.stringify({
+                    url: 'https://cdn.example.com/4k.mp4',
+                    qualities: [{ label: '4K', url: 'https://cdn.example.com/4k.mp4' }],
+                }), { status: 200 }),
+            });
+
+            const response = await getUrl(createGetRequest(url, createAuthHeaders()));
+            const data = await extractJson(response);
+
+            expect(response.status).toBe(404);
+            expect(data.error).toBe('api.streaming.qualityNotAvailable');
+            expect(acquireStreamLease).not.toHaveBeenCalled();
+        });
+
+        it('❌ Deve retornar 409 quando a fonte existe mas as telas estão ocupadas', async () => {
+            mockAuthAuthenticated();
+            (fetchFromStreamingBackends as jest.Mock).mockResolvedValue({
+                backend,
+                response: new Response(JSON.stringify({ url: 'https://cdn.example.com/master.m3u8' }), { status: 200 }),
+            });
+            (acquireStreamLease as jest.Mock).mockResolvedValue({ acquired: false, activeStreams: [] });
+
+            const response = await getUrl(createGetRequest(url, createAuthHeaders()));
+            const data = await extractJson(response);
+
+            expect(response.status).toBe(409);
+            expect(data.error).toBe('api.streaming.tooManyScreens');
+            expect(acquireStreamLease).toHaveBeenCalledWith(expect.objectContaining({
+                accountOwnerId: 'owner-user-id',
+                maxScreens: 2,
+            }));
+        });
+    });
+
+    // ========================================
+    // POST /api/streaming/heartbeat
+    // ========================================
+    describe('POST /api/streaming/heartbeat', () => {
+        it('❌ Deve retornar 401 se não autenticado', async () => {
+            mockAuthUnauthenticated();
+
+            const request = createPostRequest('/api/streaming/heartbeat', { leaseId: LEASE_ID }, createUnauthHeaders());
+            const response = await heartbeat(request);
+
+            expectUnauthorized(response);
+        });
+
+        it('❌ Deve validar leaseId', async () => {
+            mockAuthAuthenticated();
+
+            const request = createPostRequest('/api/streaming/heartbeat', { leaseId: 'invalid' }, createAuthHeaders());
+            const response = await heartbeat(request);
+            const data = await extractJson(response);
+
+            expect(response.status).toBe(400);
+            expect(data.error).toBe('api.streaming.invalidLease');
+        });
+
+        it('✅ Deve renovar lease com as telas do plano efetivo', async () => {
+            mockAuthAuthenticated();
+            (renewStreamLease as jest.Mock).mockResolvedValue({
+                status: 'renewed',
+                expiresAt: new Date('2026-01-01T00:01:30Z'),
+            });
+
+            const request = createPostRequest('/api/streaming/heartbeat', { leaseId: LEASE_ID }, createAuthHeaders());
+            const response = await heartbeat(request);
+            const data = await extractJson(response);
+
+            expectOk(response);
+            expect(data.success).toBe(true);
+            expect(data.expiresAt).toBe('2026-01-01T00:01:30.000Z');
+            expect(renewStreamLease).toHaveBeenCalledWith(LEASE_ID, 'test-user-id-123', 2);
+        });
+
+        it('❌ Deve retornar 410 quando o dispositivo foi desconectado', async () => {
+            mockAuthAuthenticated();
+            (renewStreamLease as jest.Mock).mockResolvedValue({ status: 'revoked' });
+
+            const request = createPostRequest('/api/streaming/heartbeat', { leaseId: LEASE_ID }, createAuthHeaders());
+            const response = await heartbeat(request);
+            const data = await extractJson(response);
+
+            expect(response.status).toBe(410);
+            expect(data.error).toBe('api.streaming.leaseRevoked');
+        });
+
+        it('❌ Deve retornar 409 quando o lease expirou e não há telas livres', async () => {
+            mockAuthAuthenticated();
+            (renewStreamLease as jest.Mock).mockResolvedValue({ status: 'limit_reached' });
+
+            const request = createPostRequest('/api/streaming/heartbeat', { leaseId: LEASE_ID }, createAuthHeaders());
+            const response = await heartbeat(request);
+            const data = await extractJson(response);
+
+            expect(response.status).toBe(409);
+            expect(data.error).toBe('api.streaming.tooManyScreens');
+        });
+
+        it('❌ Deve liberar o lease e retornar 403 sem acesso ao streaming', async () => {
+            mockAuthAuthenticated();
+            (hasStreamingAccess as jest.Mock).mockResolvedValue(false);
+
+            const request = createPostRequest('/api/streaming/heartbeat', { leaseId: LEASE_ID }, createAuthHeaders());
+            const response = await heartbeat(request);
+
+            expect(response.status).toBe(403);
+            expect(releaseStreamLease).toHaveBeenCalledWith(LEASE_ID, 'owner-user-id');
+            expect(renewStreamLease).not.toHaveBeenCalled();
+        });
+    });
+
+    // ========================================
+    // DELETE /api/streaming/heartbeat
+    // ========================================
+    describe('DELETE /api/streaming/heartbeat', () => {
+        it('✅ Deve liberar o próprio lease (204)', async () => {
+            mockAuthAuthenticated();
+            (releaseStreamLease as jest.Mock).mockResolvedValue(true);
+
+            const request = createDeleteRequest('/api/streaming/heartbeat', { leaseId: LEASE_ID }, createAuthHeaders());
+            const response = await releaseLease(request);
+
+            expectNoContent(response);
+            expect(releaseStreamLease).toHaveBeenCalledWith(LEASE_ID, 'owner-user-id');
+        });
+    });
+
+    // ========================================
+    // GET /api/streaming/leases
+    // ========================================
+    describe('GET /api/streaming/leases', () => {
+        it('❌ Deve retornar 401 se não autenticado', async () => {
+            mockAuthUnauthenticated();
+
+            const request = createGetRequest('/api/streaming/leases', createUnauthHeaders());
+            const response = await listLeases(request);
+
+            expectUnauthorized(response);
+        });
+
+        it('✅ Deve listar streams da conta do owner', async () => {
+            mockAuthAuthenticated();
+            (listActiveStreams as jest.Mock).mockResolvedValue([]);
+
+            const request = createGetRequest('/api/streaming/leases', createAuthHeaders());
+            const response = await listLeases(request);
+            const data = await extractJson(response);
+
+            expectOk(response);
+            expect(data.maxScreens).toBe(2);
+            expect(listActiveStreams).toHaveBeenCalledWith('owner-user-id', 'test-session-id-123');
+        });
+    });
+
+    // ========================================
+    // DELETE /api/streaming/leases
+    // ========================================
+    describe('DELETE /api/streaming/leases', () => {
+        it('✅ Deve desconectar dispositivo da mesma conta (204)', async () => {
+            mockAuthAuthenticated();
+            (releaseStreamLease as jest.Mock).mockResolvedValue(true);
+
+            const request = createDeleteRequest('/api/streaming/leases', { leaseId: LEASE_ID }, createAuthHeaders());
+            const response = await kickLease(request);
+
+            expectNoContent(response);
+            expect(releaseStreamLease).toHaveBeenCalledWith(LEASE_ID, 'owner-user-id');
+        });
+
+        it('❌ Deve retornar 404 para lease de outra conta', async () => {
+            mockAuthAuthenticated();
+            (releaseStreamLease as jest.Mock).mockResolvedValue(false);
+
+            const request = createDeleteRequest('/api/streaming/leases', { leaseId: LEASE_ID }, createAuthHeaders());
+            const response = await kickLease(request);
+            const data = await extractJson(response);
+
+            expect(response.status).toBe(404);
+            expect(data.error).toBe('api.streaming.leaseNotFound');
+        });
+    });
+});
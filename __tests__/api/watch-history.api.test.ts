@@ -352,6 +352,46 @@ describe('📺 Watch History API Tests', () => {
             expect(response2.status).toBe(400);
         });
 
+        it('❌ Deve validar positionSeconds e durationSeconds', async () => {
+            mockAuthAuthenticated();
+
+            // positionSeconds sem durationSeconds
+            const request1 = createPostRequest(
+                '/api/watch-history',
+                { tmdbId: 550, mediaType: 'movie', progress: 50, positionSeconds: 600 },
+                createAuthHeaders()
+            );
+            const response1 = await watchHistoryPost(request1);
+            expect(response1.status).toBe(400);
+
+            const request2 = createPostRequest(
+                '/api/watch-history',
+                { tmdbId: 550, mediaType: 'movie', progress: 50, positionSeconds: -1, durationSeconds: 1200 },
+                createAuthHeaders()
+            );
+            const response2 = await watchHistoryPost(request2);
+            expect(response2.status).toBe(400);
+        });
+
+        it('✅ Deve salvar positionSeconds limitado à duração', async () => {
+            mockAuthAuthenticated();
+            (prisma.watchHistory.upsert as jest.Mock).mockResolvedValue({});
+
+            const request = createPostRequest(
+                '/api/watch-history',
+                { tmdbId: 550, mediaType: 'movie', progress: 100, positionSeconds: 1200.4, durationSeconds: 1200 },
+                createAuthHeaders()
+            );
+            await watchHistoryPost(request);
+
+            expect(prisma.watchHistory.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    update: expect.objectContaining({ positionSeconds: 1200, durationSeconds: 1200 }),
+                    create: expect.objectContaining({ positionSeconds: 1200, durationSeconds: 1200 }),
+                })
+            );
+        });
+
         it('✅ Deve normalizar progress fora do range (0-100)', async () => {
             mockAuthAuthenticated();
             (prisma.watchHistory.upsert as jest.Mock).mockResolvedValue({});
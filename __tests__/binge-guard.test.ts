@@ -0,0 +1,127 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    BINGE_GUARD_STORAGE_KEY,
+    createSleepTimer,
+    getBingeGuardEpisodeKey,
+    loadBingeGuardState,
+    loadSleepTimer,
+    recordAutoplay,
+    recordInteraction,
+    shouldAskStillWatching,
+    SLEEP_TIMER_STORAGE_KEY,
+    startBingeGuardEpisode,
+} from '../lib/binge-guard';
+
+function createStorage() {
+    const data = new Map<string, string>();
+    return {
+        data,
+        getItem: (key: string) => data.get(key) ?? null,
+        setItem: (key: string, value: string) => { data.set(key, value); },
+        removeItem: (key: string) => { data.delete(key); },
+    };
+}
+
+const MINUTE = 60_000;
+const settings = { episodes: 3, minutes: 0 };
+
+function autoplayEpisodes(storage: ReturnType<typeof createStorage>, count: number, now = 0) {
+    startBingeGuardEpisode(storage, getBingeGuardEpisodeKey(1399, 1, 1), now);
+    for (let episode = 2; episode <= count + 1; episode++) {
+        const key = getBingeGuardEpisodeKey(1399, 1, episode);
+        recordAutoplay(storage, key, now);
+        startBingeGuardEpisode(storage, key, now);
+    }
+    return loadBingeGuardState(storage, now);
+}
+
+describe('Binge Guard', () => {
+    describe('startBingeGuardEpisode', () => {
+        it('should count episodes opened by autoplay', () => {
+            expect(autoplayEpisodes(createStorage(), 2).autoplayedEpisodes).toBe(2);
+        });
+
+        it('should reset the chain when an episode is opened manually', () => {
+            const storage = createStorage();
+            autoplayEpisodes(storage, 2);
+
+            const state = startBingeGuardEpisode(storage, getBingeGuardEpisodeKey(1399, 2, 1), 0);
+            expect(state.autoplayedEpisodes).toBe(0);
+        });
+
+        it('should not count the same episode twice when the player remounts', () => {
+            const storage = createStorage();
+            autoplayEpisodes(storage, 1);
+
+            const state = startBingeGuardEpisode(storage, getBingeGuardEpisodeKey(1399, 1, 2), 0);
+            expect(state.autoplayedEpisodes).toBe(1);
+        });
+
+        it('should ignore corrupted storage', () => {
+            const storage = createStorage();
+            storage.setItem(BINGE_GUARD_STORAGE_KEY, '{broken');
+            expect(loadBingeGuardState(storage, 5).autoplayedEpisodes).toBe(0);
+        });
+    });
+
+    describe('shouldAskStillWatching', () => {
+        it('should ask once the episode limit is reached', () => {
+            expect(shouldAskStillWatching(autoplayEpisodes(createStorage(), 2), settings, 0)).toBe(false);
+            expect(shouldAskStillWatching(autoplayEpisodes(createStorage(), 3), settings, 0)).toBe(true);
+        });
+
+        it('should ask after the time limit without interaction', () => {
+            const state = autoplayEpisodes(createStorage(), 1);
+            const timeLimit = { episodes: 0, minutes: 90 };
+
+            expect(shouldAskStillWatching(state, timeLimit, 89 * MINUTE)).toBe(false);
+            expect(shouldAskStillWatching(state, timeLimit, 90 * MINUTE)).toBe(true);
+        });
+
+        it('should never ask outside an autoplay chain', () => {
+            const state = startBingeGuardEpisode(createStorage(), getBingeGuardEpisodeKey(550, 0, 0), 0);
+            expect(shouldAskStillWatching(state, { episodes: 1, minutes: 1 }, 600 * MINUTE)).toBe(false);
+        });
+
+        it('should stay quiet when both limits are off', () => {
+            const state = autoplayEpisodes(createStorage(), 10);
+            expect(shouldAskStillWatching(state, { episodes: 0, minutes: 0 }, 600 * MINUTE)).toBe(false);
+        });
+
+        it('should reset after an interaction', () => {
+            const storage = createStorage();
+            autoplayEpisodes(storage, 3);
+            recordInteraction(storage, 10 * MINUTE);
+
+            const state = loadBingeGuardState(storage, 10 * MINUTE);
+            expect(state).toMatchObject({ autoplayedEpisodes: 0, lastInteractionAt: 10 * MINUTE });
+            expect(shouldAskStillWatching(state, settings, 10 * MINUTE)).toBe(false);
+        });
+    });
+
+    describe('sleep timer', () => {
+        it('should persist minute timers until they expire', () => {
+            const storage = createStorage();
+            expect(createSleepTimer(storage, 30, 0)).toEqual({ option: 30, endsAt: 30 * MINUTE });
+
+            expect(loadSleepTimer(storage, 29 * MINUTE)).toEqual({ option: 30, endsAt: 30 * MINUTE });
+            expect(loadSleepTimer(storage, 30 * MINUTE)).toBeNull();
+        });
+
+        it('should keep end-of-episode timers out of storage', () => {
+            const storage = createStorage();
+            createSleepTimer(storage, 15, 0);
+
+            expect(createSleepTimer(storage, 'episode', 0)).toEqual({ option: 'episode', endsAt: null });
+            expect(storage.data.has(SLEEP_TIMER_STORAGE_KEY)).toBe(false);
+        });
+
+        it('should clear the timer when turned off', () => {
+            const storage = createStorage();
+            createSleepTimer(storage, 60, 0);
+
+            expect(createSleepTimer(storage, null, 0)).toBeNull();
+            expect(loadSleepTimer(storage, 0)).toBeNull();
+        });
+    });
+});
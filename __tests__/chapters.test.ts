@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { getAdjacentChapterStart, getCurrentChapterIndex, type Chapter } from '../lib/chapters';
+
+const chapters: Chapter[] = [
+    { title: 'Opening', startSeconds: 60 },
+    { title: 'Act I', startSeconds: 600 },
+    { title: 'Act II', startSeconds: 1800 },
+];
+
+describe('Chapters', () => {
+    describe('getCurrentChapterIndex', () => {
+        it('should return the chapter in progress', () => {
+            expect(getCurrentChapterIndex(chapters, 60)).toBe(0);
+            expect(getCurrentChapterIndex(chapters, 1200)).toBe(1);
+            expect(getCurrentChapterIndex(chapters, 5000)).toBe(2);
+        });
+
+        it('should return -1 before the first chapter', () => {
+            expect(getCurrentChapterIndex(chapters, 30)).toBe(-1);
+            expect(getCurrentChapterIndex([], 30)).toBe(-1);
+        });
+    });
+
+    describe('getAdjacentChapterStart', () => {
+        it('should jump to the next chapter', () => {
+            expect(getAdjacentChapterStart(chapters, 30, 'next')).toBe(60);
+            expect(getAdjacentChapterStart(chapters, 700, 'next')).toBe(1800);
+            expect(getAdjacentChapterStart(chapters, 1900, 'next')).toBeNull();
+        });
+
+        it('should restart the current chapter after the grace period', () => {
+            expect(getAdjacentChapterStart(chapters, 700, 'previous')).toBe(600);
+        });
+
+        it('should go to the previous chapter right after a chapter starts', () => {
+            expect(getAdjacentChapterStart(chapters, 601, 'previous')).toBe(60);
+            expect(getAdjacentChapterStart(chapters, 61, 'previous')).toBe(60);
+        });
+
+        it('should do nothing before the first chapter', () => {
+            expect(getAdjacentChapterStart(chapters, 10, 'previous')).toBeNull();
+        });
+    });
+});
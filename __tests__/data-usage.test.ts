@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    getDataUsageLevelCap,
+    getHlsDataUsageConfig,
+    isConstrainedConnection,
+    parseDataUsageMode,
+    resolveDataUsageMode,
+    selectDataUsageQuality,
+} from '../lib/data-usage';
+
+const quality = (label: string) => ({ label, url: `https://cdn.example.com/${label}.mp4` });
+const qualities = [quality('1080p'), quality('360p'), quality('720p'), quality('480p')];
+
+describe('Data Usage', () => {
+    describe('resolveDataUsageMode', () => {
+        it('should switch automatic mode to save data on constrained connections', () => {
+            expect(resolveDataUsageMode('auto', isConstrainedConnection({ saveData: true }))).toBe('saveData');
+            expect(resolveDataUsageMode('auto', isConstrainedConnection({ type: 'cellular' }))).toBe('saveData');
+            expect(resolveDataUsageMode('auto', isConstrainedConnection({ type: 'wifi' }))).toBe('auto');
+            expect(resolveDataUsageMode('auto', isConstrainedConnection(undefined))).toBe('auto');
+        });
+
+        it('should respect an explicit choice', () => {
+            expect(resolveDataUsageMode('maxQuality', true)).toBe('maxQuality');
+            expect(resolveDataUsageMode('saveData', false)).toBe('saveData');
+        });
+    });
+
+    describe('parseDataUsageMode', () => {
+        it('should fall back to automatic for unknown values', () => {
+            expect(parseDataUsageMode('maxQuality')).toBe('maxQuality');
+            expect(parseDataUsageMode('ultra')).toBe('auto');
+            expect(parseDataUsageMode(undefined)).toBe('auto');
+        });
+    });
+
+    describe('getDataUsageLevelCap', () => {
+        const levels = [{ height: 240 }, { height: 480 }, { height: 720 }, { height: 1080 }];
+
+        it('should cap hls.js levels at 480p when saving data', () => {
+            expect(getDataUsageLevelCap(levels, 'saveData')).toBe(1);
+            expect(getDataUsageLevelCap([{ height: 720 }, { height: 1080 }], 'saveData')).toBe(0);
+        });
+
+        it('should not cap other modes', () => {
+            expect(getDataUsageLevelCap(levels, 'auto')).toBe(-1);
+            expect(getDataUsageLevelCap(levels, 'maxQuality')).toBe(-1);
+        });
+    });
+
+    describe('getHlsDataUsageConfig', () => {
+        it('should only lift the player size cap for maximum quality', () => {
+            expect(getHlsDataUsageConfig('maxQuality')).toEqual({ capLevelToPlayerSize: false });
+            expect(getHlsDataUsageConfig('saveData')).toMatchObject({ startLevel: 0 });
+            expect(getHlsDataUsageConfig('auto')).toEqual({});
+        });
+    });
+
+    describe('selectDataUsageQuality', () => {
+        it('should pick the best quality up to 480p when saving data', () => {
+            expect(selectDataUsageQuality(qualities, '1080p', 'saveData')).toBe('480p');
+            expect(selectDataUsageQuality([quality('720p'), quality('1080p')], '1080p', 'saveData')).toBe('720p');
+        });
+
+        it('should pick the highest quality for maximum quality', () => {
+            expect(selectDataUsageQuality(qualities, '720p', 'maxQuality')).toBe('1080p');
+        });
+
+        it('should keep the backend default in automatic mode and for adaptive streams', () => {
+            expect(selectDataUsageQuality(qualities, '720p', 'auto')).toBe('720p');
+            expect(selectDataUsageQuality(qualities, 'auto', 'saveData')).toBe('auto');
+        });
+    });
+});
@@ -0,0 +1,345 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('@/lib/config', () => ({
+    SITE_NAME_FULL: 'YuiaLive',
+    SITE_URL: 'http://localhost:3000',
+}));
+
+jest.mock('@/lib/email', () => ({
+    sendEmail: jest.fn(),
+    getDunningEmailTemplate: jest.fn((type: string) => `<html>${type}</html>`),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        subscription: {
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        user: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+        },
+        plan: {
+            findUnique: jest.fn(),
+        },
+        family: {
+            findFirst: jest.fn(),
+            delete: jest.fn(),
+        },
+        familyMember: {
+            deleteMany: jest.fn(),
+        },
+        familyInvite: {
+            updateMany: jest.fn(),
+        },
+        webhookEvent: {
+            updateMany: jest.fn(),
+        },
+        $transaction: jest.fn(),
+    },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { sendEmail } from '@/lib/email';
+import {
+    markSubscriptionPastDue,
+    processDunning,
+    refundSubscription,
+} from '@/lib/subscription-server';
+import { processWebhookEvent } from '@/lib/webhook-events-server';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+const hours = (n: number) => new Date(now.getTime() + n * 60 * 60 * 1000);
+
+const duoPlan = { id: 'plan_duo', name: 'Duo', screens: 2 };
+
+const activeSubscription = {
+    id: 'sub-1',
+    userId: 'user-1',
+    planId: 'plan_duo',
+    status: 'active',
+    currentPeriodEnd: hours(-1),
+    graceEndsAt: null,
+    plan: duoPlan,
+};
+
+const family = {
+    id: 'family-1',
+    ownerId: 'user-1',
+    members: [{ id: 'member-1' }],
+    invites: [{ id: 'invite-1' }],
+};
+
+const tx = prisma as unknown as Parameters<typeof markSubscriptionPastDue>[0];
+
+describe('Dunning', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.$transaction as jest.Mock).mockImplementation(async (fn: unknown) =>
+            (fn as (client: typeof prisma) => Promise<unknown>)(prisma)
+        );
+        (sendEmail as jest.Mock).mockResolvedValue({ success: true, id: 'email-1' });
+        (prisma.family.findFirst as jest.Mock).mockResolvedValue(family);
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('markSubscriptionPastDue', () => {
+        it('should start the grace period for an active subscription', async () => {
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(activeSubscription);
+            (prisma.subscription.update as jest.Mock).mockImplementation(async (args: unknown) => ({
+                ...activeSubscription,
+                ...(args as { data: object }).data,
+            }));
+
+            const result = await markSubscriptionPastDue(tx, 'user-1', 'plan_duo', now);
+
+            expect(result?.graceEndsAt?.toISOString()).toBe('2026-03-13T12:00:00.000Z');
+            expect(prisma.subscription.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'sub-1' },
+                data: expect.objectContaining({ status: 'past_due', dunningReminderSentAt: null }),
+            }));
+            // Plano mantido durante a carência
+            expect(prisma.user.update).toHaveBeenCalledWith({
+                where: { id: 'user-1' },
+                data: { planId: 'plan_duo', maxScreens: 2, trialEndsAt: null },
+            });
+        });
+
+        it('should keep the original grace period on repeated failures', async () => {
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+                ...activeSubscription,
+                status: 'past_due',
+                graceEndsAt: hours(48),
+            });
+
+            expect(await markSubscriptionPastDue(tx, 'user-1', 'plan_duo', now)).toBeNull();
+            expect(prisma.subscription.update).not.toHaveBeenCalled();
+        });
+
+        it('should ignore failures for another plan or a trial', async () => {
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(activeSubscription);
+            expect(await markSubscriptionPastDue(tx, 'user-1', 'plan_familia', now)).toBeNull();
+
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({ ...activeSubscription, status: 'trialing' });
+            expect(await markSubscriptionPastDue(tx, 'user-1', 'plan_duo', now)).toBeNull();
+
+            expect(prisma.subscription.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('refundSubscription', () => {
+        it('should end access immediately and dissolve the family', async () => {
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+                ...activeSubscription,
+                currentPeriodEnd: hours(24 * 20),
+            });
+
+            expect(await refundSubscription(tx, 'user-1', 'plan_duo', now)).toBe(true);
+
+            expect(prisma.subscription.update).toHaveBeenCalledWith({
+                where: { id: 'sub-1' },
+                data: { status: 'expired', currentPeriodEnd: now, graceEndsAt: null },
+            });
+            expect(prisma.familyMember.deleteMany).toHaveBeenCalledWith({ where: { familyId: 'family-1' } });
+            expect(prisma.family.delete).toHaveBeenCalledWith({ where: { id: 'family-1' } });
+            expect(prisma.user.update).toHaveBeenCalledWith({
+                where: { id: 'user-1' },
+                data: { planId: null, maxScreens: 1, trialEndsAt: null },
+            });
+        });
+
+        it('should ignore refunds for a plan that is no longer current', async () => {
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({ ...activeSubscription, status: 'canceled' });
+
+            expect(await refundSubscription(tx, 'user-1', 'plan_duo', now)).toBe(false);
+            expect(prisma.subscription.update).not.toHaveBeenCalled();
+            expect(prisma.user.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('processDunning', () => {
+        const pastDue = {
+            ...activeSubscription,
+            status: 'past_due',
+            user: { email: 'owner@example.com' },
+        };
+
+        beforeEach(() => {
+            (prisma.subscription.findMany as jest.Mock).mockResolvedValue([]);
+        });
+
+        it('should send one reminder before the grace period ends', async () => {
+            (prisma.subscription.findMany as jest.Mock)
+                .mockResolvedValueOnce([{ ...pastDue, graceEndsAt: hours(12) }])
+                .mockResolvedValueOnce([]);
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            expect(await processDunning(now)).toEqual({ reminded: 1, expired: 0, lapsed: 0 });
+
+            expect(prisma.subscription.findMany).toHaveBeenNthCalledWith(1, expect.objectContaining({
+                where: {
+                    status: 'past_due',
+                    dunningReminderSentAt: null,
+                    graceEndsAt: { gt: now, lte: hours(24) },
+                },
+            }));
+            expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+                where: { id: 'sub-1', status: 'past_due', dunningReminderSentAt: null },
+                data: { dunningReminderSentAt: now },
+            });
+            expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+                to: 'owner@example.com',
+                html: '<html>reminder</html>',
+            }));
+        });
+
+        it('should not send a reminder another run already claimed', async () => {
+            (prisma.subscription.findMany as jest.Mock)
+                .mockResolvedValueOnce([{ ...pastDue, graceEndsAt: hours(12) }])
+                .mockResolvedValueOnce([]);
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            expect(await processDunning(now)).toEqual({ reminded: 0, expired: 0, lapsed: 0 });
+            expect(sendEmail).not.toHaveBeenCalled();
+        });
+
+        it('should revoke access after the grace period like expired trials', async () => {
+            (prisma.subscription.findMany as jest.Mock)
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([{ ...pastDue, graceEndsAt: hours(-1) }]);
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            expect(await processDunning(now)).toEqual({ reminded: 0, expired: 1, lapsed: 0 });
+
+            expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+                where: { id: 'sub-1', status: 'past_due' },
+                data: { status: 'expired' },
+            });
+            expect(prisma.familyMember.deleteMany).toHaveBeenCalledWith({ where: { familyId: 'family-1' } });
+            expect(prisma.familyInvite.updateMany).toHaveBeenCalledWith({
+                where: { familyId: 'family-1', status: 'pending' },
+                data: { status: 'revoked' },
+            });
+            expect(prisma.user.update).toHaveBeenCalledWith({
+                where: { id: 'user-1' },
+                data: { planId: null, maxScreens: 1, trialEndsAt: null },
+            });
+            expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ html: '<html>access-ended</html>' }));
+        });
+
+        it('should skip subscriptions paid in the meantime', async () => {
+            (prisma.subscription.findMany as jest.Mock)
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([{ ...pastDue, graceEndsAt: hours(-1) }]);
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            expect(await processDunning(now)).toEqual({ reminded: 0, expired: 0, lapsed: 0 });
+            expect(prisma.family.findFirst).not.toHaveBeenCalled();
+            expect(sendEmail).not.toHaveBeenCalled();
+        });
+
+        it('should move an active subscription whose renewal never arrived to past due', async () => {
+            (prisma.subscription.findMany as jest.Mock)
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([{ ...activeSubscription, cancelAtPeriodEnd: false, user: { email: 'owner@example.com' } }]);
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            expect(await processDunning(now)).toEqual({ reminded: 0, expired: 0, lapsed: 1 });
+
+            expect(prisma.subscription.findMany).toHaveBeenNthCalledWith(3, expect.objectContaining({
+                where: { status: 'active', cancelAtPeriodEnd: false, currentPeriodEnd: { lte: now } },
+            }));
+            expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+                where: { id: 'sub-1', status: 'active', currentPeriodEnd: { lte: now } },
+                data: { status: 'past_due', graceEndsAt: hours(72), dunningReminderSentAt: null },
+            });
+            expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+                to: 'owner@example.com',
+                html: '<html>payment-failed</html>',
+            }));
+            // Plano mantido durante a carência
+            expect(prisma.user.update).not.toHaveBeenCalled();
+        });
+
+        it('should skip subscriptions renewed in the meantime', async () => {
+            (prisma.subscription.findMany as jest.Mock)
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([{ ...activeSubscription, cancelAtPeriodEnd: false, user: { email: 'owner@example.com' } }]);
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            expect(await processDunning(now)).toEqual({ reminded: 0, expired: 0, lapsed: 0 });
+            expect(sendEmail).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('payment webhooks', () => {
+        beforeEach(() => {
+            (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'owner@example.com' });
+            (prisma.plan.findUnique as jest.Mock).mockResolvedValue(duoPlan);
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(activeSubscription);
+            (prisma.webhookEvent.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+        });
+
+        const event = (type: 'payment.failed' | 'payment.refunded') => ({
+            id: `tx_1_${type}`,
+            attempts: 0,
+            payload: {
+                type,
+                userId: 'user-1',
+                planId: 'plan_duo',
+                transactionId: 'tx_1',
+                interval: 'monthly' as const,
+            },
+        });
+
+        it('should move the account to past due and email the owner on a failed payment', async () => {
+            (prisma.subscription.update as jest.Mock).mockImplementation(async (args: unknown) => ({
+                ...activeSubscription,
+                ...(args as { data: object }).data,
+            }));
+
+            expect(await processWebhookEvent(event('payment.failed'))).toEqual({ success: true });
+
+            expect(prisma.subscription.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ status: 'past_due' }),
+            }));
+            expect(prisma.webhookEvent.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ status: 'processed' }),
+            }));
+            expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+                to: 'owner@example.com',
+                html: '<html>payment-failed</html>',
+            }));
+        });
+
+        it('should not fail the event when the email cannot be sent', async () => {
+            (prisma.subscription.update as jest.Mock).mockImplementation(async (args: unknown) => ({
+                ...activeSubscription,
+                ...(args as { data: object }).data,
+            }));
+            (sendEmail as jest.Mock).mockRejectedValue(new Error('Resend API error'));
+
+            expect(await processWebhookEvent(event('payment.failed'))).toEqual({ success: true });
+        });
+
+        it('should end access on a refund', async () => {
+            expect(await processWebhookEvent(event('payment.refunded'))).toEqual({ success: true });
+
+            expect(prisma.subscription.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ status: 'expired' }),
+            }));
+            expect(prisma.family.delete).toHaveBeenCalled();
+            expect(sendEmail).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -185,6 +185,14 @@ describe('Family Critical Fixes', () => {
                     planId: duoPlanId,
                     maxScreens: 2,
                     trialEndsAt: pastDate, // Trial expirado
+                    subscription: {
+                        create: {
+                            planId: duoPlanId,
+                            status: 'trialing',
+                            currentPeriodStart: new Date(pastDate.getTime() - 7 * 24 * 60 * 60 * 1000),
+                            currentPeriodEnd: pastDate,
+                        },
+                    },
                 },
             });
 
@@ -273,6 +281,14 @@ describe('Family Critical Fixes', () => {
                     planId: duoPlanId,
                     maxScreens: 2,
                     trialEndsAt: pastDate,
+                    subscription: {
+                        create: {
+                            planId: duoPlanId,
+                            status: 'trialing',
+                            currentPeriodStart: new Date(pastDate.getTime() - 7 * 24 * 60 * 60 * 1000),
+                            currentPeriodEnd: pastDate,
+                        },
+                    },
                 },
             });
 
@@ -297,6 +313,14 @@ describe('Family Critical Fixes', () => {
                         planId: duoPlanId,
                         maxScreens: 2,
                         trialEndsAt: pastDate,
+                        subscription: {
+                            create: {
+                                planId: duoPlanId,
+                                status: 'trialing',
+                                currentPeriodStart: new Date(pastDate.getTime() - 7 * 24 * 60 * 60 * 1000),
+                                currentPeriodEnd: pastDate,
+                            },
+                        },
                     },
                 }),
                 prisma.user.create({
@@ -308,6 +332,14 @@ describe('Family Critical Fixes', () => {
                         planId: duoPlanId,
                         maxScreens: 2,
                         trialEndsAt: pastDate,
+                        subscription: {
+                            create: {
+                                planId: duoPlanId,
+                                status: 'trialing',
+                                currentPeriodStart: new Date(pastDate.getTime() - 7 * 24 * 60 * 60 * 1000),
+                                currentPeriodEnd: pastDate,
+                            },
+                        },
                     },
                 }),
                 prisma.user.create({
@@ -319,6 +351,14 @@ describe('Family Critical Fixes', () => {
                         planId: duoPlanId,
                         maxScreens: 2,
                         trialEndsAt: pastDate,
+                        subscription: {
+                            create: {
+                                planId: duoPlanId,
+                                status: 'trialing',
+                                currentPeriodStart: new Date(pastDate.getTime() - 7 * 24 * 60 * 60 * 1000),
+                                currentPeriodEnd: pastDate,
+                            },
+                        },
                     },
                 }),
             ]);
@@ -55,6 +55,14 @@ describe('Family Streaming Access', () => {
                 planId: duoPlanId,
                 maxScreens: duoPlan.screens,
                 trialUsed: true, // Não tem trial
+                subscription: {
+                    create: {
+                        planId: duoPlanId,
+                        status: 'active',
+                        currentPeriodStart: new Date(),
+                        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+                    },
+                },
             },
         });
 
@@ -96,10 +104,11 @@ describe('Family Streaming Access', () => {
             const futureDate = new Date();
             futureDate.setDate(futureDate.getDate() + 5); // 5 dias no futuro
 
-            await prisma.user.update({
-                where: { id: ownerId },
+            await prisma.subscription.update({
+                where: { userId: ownerId },
                 data: {
-                    trialEndsAt: futureDate,
+                    status: 'trialing',
+                    currentPeriodEnd: futureDate,
                 },
             });
 
@@ -112,10 +121,11 @@ describe('Family Streaming Access', () => {
             const pastDate = new Date();
             pastDate.setDate(pastDate.getDate() - 2); // 2 dias no passado
 
-            await prisma.user.update({
-                where: { id: ownerId },
+            await prisma.subscription.update({
+                where: { userId: ownerId },
                 data: {
-                    trialEndsAt: pastDate,
+                    status: 'trialing',
+                    currentPeriodEnd: pastDate,
                 },
             });
 
@@ -148,10 +158,11 @@ describe('Family Streaming Access', () => {
             const futureDate = new Date();
             futureDate.setDate(futureDate.getDate() + 5);
 
-            await prisma.user.update({
-                where: { id: ownerId },
+            await prisma.subscription.update({
+                where: { userId: ownerId },
                 data: {
-                    trialEndsAt: futureDate,
+                    status: 'trialing',
+                    currentPeriodEnd: futureDate,
                 },
             });
 
@@ -172,10 +183,11 @@ describe('Family Streaming Access', () => {
             const pastDate = new Date();
             pastDate.setDate(pastDate.getDate() - 2);
 
-            await prisma.user.update({
-                where: { id: ownerId },
+            await prisma.subscription.update({
+                where: { userId: ownerId },
                 data: {
-                    trialEndsAt: pastDate,
+                    status: 'trialing',
+                    currentPeriodEnd: pastDate,
                 },
             });
 
@@ -201,11 +213,11 @@ describe('Family Streaming Access', () => {
             });
 
             // Owner cancela plano
-            await prisma.user.update({
-                where: { id: ownerId },
+            await prisma.subscription.update({
+                where: { userId: ownerId },
                 data: {
-                    planId: null,
-                    maxScreens: 1,
+                    status: 'canceled',
+                    canceledAt: new Date(),
                 },
             });
 
@@ -263,10 +275,11 @@ describe('Family Streaming Access', () => {
             const futureDate = new Date();
             futureDate.setDate(futureDate.getDate() + 5);
 
-            await prisma.user.update({
-                where: { id: ownerId },
+            await prisma.subscription.update({
+                where: { userId: ownerId },
                 data: {
-                    trialEndsAt: futureDate,
+                    status: 'trialing',
+                    currentPeriodEnd: futureDate,
                 },
             });
 
@@ -309,12 +322,9 @@ describe('Family Streaming Access', () => {
                 throw new Error('Plano Família não encontrado');
             }
 
-            await prisma.user.update({
-                where: { id: ownerId },
-                data: {
-                    planId: familyPlan.id,
-                    maxScreens: familyPlan.screens,
-                },
+            await prisma.subscription.update({
+                where: { userId: ownerId },
+                data: { planId: familyPlan.id },
             });
 
             await prisma.family.update({
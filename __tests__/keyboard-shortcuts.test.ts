@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    assignShortcut,
+    findShortcutAction,
+    formatShortcut,
+    getShortcutFromEvent,
+    parseShortcutOverrides,
+    resolveShortcutBindings,
+    SHORTCUT_DEFINITIONS,
+} from '../lib/keyboard-shortcuts';
+
+function keyEvent(key: string, modifiers: Partial<Record<'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey', boolean>> = {}) {
+    return { key, shiftKey: false, ctrlKey: false, altKey: false, metaKey: false, ...modifiers };
+}
+
+describe('Keyboard Shortcuts', () => {
+    describe('getShortcutFromEvent', () => {
+        it('should normalize printable keys and the space bar', () => {
+            expect(getShortcutFromEvent(keyEvent('K', { shiftKey: true }))).toBe('k');
+            expect(getShortcutFromEvent(keyEvent('?', { shiftKey: true }))).toBe('?');
+            expect(getShortcutFromEvent(keyEvent(' '))).toBe('Space');
+        });
+
+        it('should prefix Shift only on non-printable keys', () => {
+            expect(getShortcutFromEvent(keyEvent('ArrowLeft'))).toBe('ArrowLeft');
+            expect(getShortcutFromEvent(keyEvent('ArrowLeft', { shiftKey: true }))).toBe('Shift+ArrowLeft');
+        });
+
+        it('should leave browser combinations, modifiers and reserved keys alone', () => {
+            expect(getShortcutFromEvent(keyEvent('f', { ctrlKey: true }))).toBeNull();
+            expect(getShortcutFromEvent(keyEvent('l', { metaKey: true }))).toBeNull();
+            expect(getShortcutFromEvent(keyEvent('Shift', { shiftKey: true }))).toBeNull();
+            expect(getShortcutFromEvent(keyEvent('Tab'))).toBeNull();
+            expect(getShortcutFromEvent(keyEvent('Escape'))).toBeNull();
+        });
+    });
+
+    describe('parseShortcutOverrides', () => {
+        it('should drop unknown actions and invalid shortcuts', () => {
+            expect(parseShortcutOverrides({
+                mute: ['x', 'x', '', 'Shift', 42],
+                hack: ['h'],
+            })).toEqual({ mute: ['x'] });
+        });
+
+        it('should fall back to defaults for anything that is not an object', () => {
+            expect(parseShortcutOverrides(null)).toEqual({});
+            expect(parseShortcutOverrides(['mute'])).toEqual({});
+            expect(parseShortcutOverrides('mute')).toEqual({});
+        });
+    });
+
+    describe('findShortcutAction', () => {
+        const bindings = resolveShortcutBindings();
+
+        it('should find actions within the requested scope only', () => {
+            expect(findShortcutAction(bindings, 'k', 'player')).toBe('playPause');
+            expect(findShortcutAction(bindings, 'k', 'global')).toBeNull();
+            expect(findShortcutAction(bindings, '?', 'global')).toBe('showHelp');
+        });
+
+        it('should apply overrides and allow unbinding', () => {
+            const custom = resolveShortcutBindings({ fullscreen: ['g'], mute: [] });
+            expect(findShortcutAction(custom, 'g', 'player')).toBe('fullscreen');
+            expect(findShortcutAction(custom, 'f', 'player')).toBeNull();
+            expect(findShortcutAction(custom, 'm', 'player')).toBeNull();
+        });
+    });
+
+    describe('assignShortcut', () => {
+        it('should remove the shortcut from the action that used it', () => {
+            const overrides = assignShortcut({}, 'fullscreen', 'k');
+            expect(overrides).toEqual({ fullscreen: ['k'], playPause: ['Space'] });
+        });
+
+        it('should resolve conflicts across scopes', () => {
+            const overrides = assignShortcut({}, 'subtitles', '/');
+            expect(resolveShortcutBindings(overrides).openSearch).toEqual([]);
+        });
+
+        it('should drop overrides that match the defaults again', () => {
+            const remapped = assignShortcut({}, 'mute', 'x');
+            expect(assignShortcut(remapped, 'mute', SHORTCUT_DEFINITIONS.mute.defaults[0])).toEqual({});
+        });
+    });
+
+    describe('formatShortcut', () => {
+        it('should render readable labels', () => {
+            expect(formatShortcut('k')).toBe('K');
+            expect(formatShortcut('Space')).toBe('Space');
+            expect(formatShortcut('Shift+ArrowRight')).toBe('Shift + →');
+        });
+    });
+});
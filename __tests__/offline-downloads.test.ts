@@ -0,0 +1,218 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    DOWNLOAD_LICENSE_DAYS,
+    getDownloadQualityCap,
+    isDownloadLicenseValid,
+    resolveDownloadLicenseExpiry,
+} from '../lib/download-license';
+import {
+    applyOfflineDownloadMessage,
+    getOfflineDownloadId,
+    getOfflineMediaUrl,
+    hasDownloadQuota,
+    MIN_FREE_BYTES_FOR_DOWNLOAD,
+    type OfflineDownload,
+} from '../lib/offline-downloads';
+import {
+    flushOfflineProgress,
+    loadOfflineProgress,
+    queueOfflineProgress,
+    OFFLINE_PROGRESS_STORAGE_KEY,
+    type WatchProgressPayload,
+} from '../lib/offline-progress';
+
+function createStorage() {
+    const data = new Map<string, string>();
+    return {
+        data,
+        getItem: (key: string) => data.get(key) ?? null,
+        setItem: (key: string, value: string) => { data.set(key, value); },
+        removeItem: (key: string) => { data.delete(key); },
+    };
+}
+
+function createDownload(overrides: Partial<OfflineDownload> = {}): OfflineDownload {
+    return {
+        id: 'movie-550',
+        tmdbId: 550,
+        mediaType: 'movie',
+        title: 'Fight Club',
+        format: 'mp4',
+        status: 'downloading',
+        receivedBytes: 0,
+        totalBytes: null,
+        progress: 0,
+        licenseExpiresAt: '2030-01-01T00:00:00.000Z',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function createProgress(overrides: Partial<WatchProgressPayload> = {}): WatchProgressPayload {
+    return {
+        tmdbId: 1399,
+        mediaType: 'tv',
+        progress: 10,
+        positionSeconds: 300,
+        durationSeconds: 3000,
+        seasonNumber: 1,
+        episodeNumber: 1,
+        ...overrides,
+    };
+}
+
+describe('Offline Downloads', () => {
+    describe('resolveDownloadLicenseExpiry', () => {
+        const now = new Date('2026-03-01T00:00:00Z');
+
+        it('should last DOWNLOAD_LICENSE_DAYS for active paid plans', () => {
+            const expiresAt = resolveDownloadLicenseExpiry(now, null);
+            expect(expiresAt.getTime() - now.getTime()).toBe(DOWNLOAD_LICENSE_DAYS * 24 * 60 * 60 * 1000);
+        });
+
+        it('should never outlive the end of the access period', () => {
+            const trialEndsAt = new Date('2026-03-05T00:00:00Z');
+            expect(resolveDownloadLicenseExpiry(now, trialEndsAt)).toEqual(trialEndsAt);
+        });
+    });
+
+    describe('isDownloadLicenseValid', () => {
+        const now = Date.parse('2026-03-01T00:00:00Z');
+
+        it('should accept licenses that expire in the future', () => {
+            expect(isDownloadLicenseValid('2026-03-02T00:00:00Z', now)).toBe(true);
+        });
+
+        it('should reject expired or invalid licenses', () => {
+            expect(isDownloadLicenseValid('2026-03-01T00:00:00Z', now)).toBe(false);
+            expect(isDownloadLicenseValid('not-a-date', now)).toBe(false);
+        });
+    });
+
+    describe('getDownloadQualityCap', () => {
+        it('should cap downloads at the plan height', () => {
+            expect(getDownloadQualityCap({ maxQuality: '720p', hdr: false }, 'auto'))
+                .toEqual({ maxHeight: 720, preferredMaxHeight: null, hdr: false });
+            expect(getDownloadQualityCap({ maxQuality: '4K', hdr: true }, 'maxQuality'))
+                .toEqual({ maxHeight: 2160, preferredMaxHeight: null, hdr: true });
+        });
+
+        it('should prefer 480p or less in save data mode', () => {
+            expect(getDownloadQualityCap({ maxQuality: '1080p', hdr: false }, 'saveData'))
+                .toEqual({ maxHeight: 1080, preferredMaxHeight: 480, hdr: false });
+        });
+    });
+
+    describe('ids and urls', () => {
+        it('should build one id per movie or episode', () => {
+            expect(getOfflineDownloadId({ tmdbId: 550, mediaType: 'movie' })).toBe('movie-550');
+            expect(getOfflineDownloadId({ tmdbId: 1399, mediaType: 'tv', season: 2, episode: 5 })).toBe('tv-1399-2-5');
+        });
+
+        it('should point to the service worker media path', () => {
+            expect(getOfflineMediaUrl('movie-550', 'mp4')).toBe('/offline-media/movie-550/video.mp4');
+            expect(getOfflineMediaUrl('tv-1399-2-5', 'hls')).toBe('/offline-media/tv-1399-2-5/index.m3u8');
+        });
+    });
+
+    describe('hasDownloadQuota', () => {
+        it('should require the minimum free space when the size is unknown', () => {
+            expect(hasDownloadQuota({ quota: MIN_FREE_BYTES_FOR_DOWNLOAD, usage: 0 })).toBe(true);
+            expect(hasDownloadQuota({ quota: MIN_FREE_BYTES_FOR_DOWNLOAD, usage: 1 })).toBe(false);
+        });
+
+        it('should use the known file size when provided', () => {
+            expect(hasDownloadQuota({ quota: 1000, usage: 400 }, 600)).toBe(true);
+            expect(hasDownloadQuota({ quota: 1000, usage: 400 }, 601)).toBe(false);
+        });
+
+        it('should allow the download when the browser gives no estimate', () => {
+            expect(hasDownloadQuota({})).toBe(true);
+        });
+    });
+
+    describe('applyOfflineDownloadMessage', () => {
+        it('should update progress', () => {
+            const updated = applyOfflineDownloadMessage(createDownload(), {
+                type: 'DOWNLOAD_PROGRESS', id: 'movie-550', receivedBytes: 50, totalBytes: 100, progress: 0.5,
+            });
+            expect(updated).toMatchObject({ status: 'downloading', receivedBytes: 50, totalBytes: 100, progress: 0.5 });
+        });
+
+        it('should mark completed downloads', () => {
+            const updated = applyOfflineDownloadMessage(createDownload({ error: 'downloads.errors.network' }), {
+                type: 'DOWNLOAD_COMPLETE', id: 'movie-550', receivedBytes: 2048,
+            });
+            expect(updated).toMatchObject({ status: 'completed', progress: 1, totalBytes: 2048, error: undefined });
+        });
+
+        it('should map errors to i18n keys', () => {
+            const quota = applyOfflineDownloadMessage(createDownload(), { type: 'DOWNLOAD_ERROR', id: 'movie-550', error: 'quota' });
+            const network = applyOfflineDownloadMessage(createDownload(), { type: 'DOWNLOAD_ERROR', id: 'movie-550', error: 'network' });
+            expect(quota).toMatchObject({ status: 'failed', error: 'downloads.errors.quota' });
+            expect(network.error).toBe('downloads.errors.network');
+        });
+    });
+});
+
+describe('Offline Progress Queue', () => {
+    it('should keep only the latest position per episode', () => {
+        const storage = createStorage();
+        queueOfflineProgress(storage, createProgress({ positionSeconds: 100 }));
+        queueOfflineProgress(storage, createProgress({ positionSeconds: 200 }));
+        queueOfflineProgress(storage, createProgress({ episodeNumber: 2 }));
+
+        const queue = loadOfflineProgress(storage);
+        expect(queue).toHaveLength(2);
+        expect(queue[0].positionSeconds).toBe(200);
+    });
+
+    it('should ignore corrupted storage', () => {
+        const storage = createStorage();
+        storage.setItem(OFFLINE_PROGRESS_STORAGE_KEY, '{broken');
+        expect(loadOfflineProgress(storage)).toEqual([]);
+    });
+
+    it('should clear the queue after a successful flush', async () => {
+        const storage = createStorage();
+        queueOfflineProgress(storage, createProgress());
+        queueOfflineProgress(storage, createProgress({ tmdbId: 550, mediaType: 'movie', seasonNumber: undefined, episodeNumber: undefined }));
+
+        const sent: WatchProgressPayload[] = [];
+        const count = await flushOfflineProgress(storage, async (entry) => {
+            sent.push(entry);
+            return true;
+        });
+
+        expect(count).toBe(2);
+        expect(sent).toHaveLength(2);
+        expect(storage.data.has(OFFLINE_PROGRESS_STORAGE_KEY)).toBe(false);
+    });
+
+    it('should keep failed entries for the next attempt', async () => {
+        const storage = createStorage();
+        queueOfflineProgress(storage, createProgress());
+        queueOfflineProgress(storage, createProgress({ episodeNumber: 2 }));
+
+        const count = await flushOfflineProgress(storage, async (entry) => {
+            if (entry.episodeNumber === 2) throw new Error('offline');
+            return true;
+        });
+
+        expect(count).toBe(1);
+        expect(loadOfflineProgress(storage)).toEqual([createProgress({ episodeNumber: 2 })]);
+    });
+
+    it('should not let a failed entry overwrite progress queued during the flush', async () => {
+        const storage = createStorage();
+        queueOfflineProgress(storage, createProgress({ positionSeconds: 100 }));
+
+        await flushOfflineProgress(storage, async () => {
+            // Progresso novo do mesmo episódio chega enquanto o envio falha
+            queueOfflineProgress(storage, createProgress({ positionSeconds: 400 }));
+            return false;
+        });
+
+        expect(loadOfflineProgress(storage)).toEqual([createProgress({ positionSeconds: 400 })]);
+    });
+});
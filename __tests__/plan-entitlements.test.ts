@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    applyQualityEntitlement,
+    capDefaultQuality,
+    filterQualitiesForPlan,
+    getQualityEntitlement,
+    getQualityHeight,
+} from '../lib/plan-entitlements';
+
+const quality = (label: string) => ({ label, url: `https://cdn.example.com/${encodeURIComponent(label)}.m3u8` });
+
+const qualities = [
+    quality('auto'),
+    quality('480p'),
+    quality('720p'),
+    quality('1080p'),
+    quality('4K'),
+    quality('4K HDR'),
+];
+
+const labels = (list: { label: string }[]) => list.map((entry) => entry.label);
+
+describe('Plan Entitlements', () => {
+    describe('getQualityHeight', () => {
+        it('should parse common quality labels', () => {
+            expect(getQualityHeight('1080p')).toBe(1080);
+            expect(getQualityHeight('2160p60')).toBe(2160);
+            expect(getQualityHeight('4K HDR')).toBe(2160);
+            expect(getQualityHeight('Full HD')).toBe(1080);
+            expect(getQualityHeight('HD')).toBe(720);
+            expect(getQualityHeight('auto')).toBeNull();
+        });
+    });
+
+    describe('getQualityEntitlement', () => {
+        it('should fall back to no cap for unknown values', () => {
+            expect(getQualityEntitlement({ maxQuality: '8K', hdr: null })).toEqual({ maxQuality: '4K', hdr: true });
+            expect(getQualityEntitlement({ maxQuality: '720p', hdr: false })).toEqual({ maxQuality: '720p', hdr: false });
+        });
+    });
+
+    describe('filterQualitiesForPlan', () => {
+        it('should drop qualities above the plan resolution', () => {
+            expect(labels(filterQualitiesForPlan(qualities, { maxQuality: '720p', hdr: false })))
+                .toEqual(['auto', '480p', '720p']);
+        });
+
+        it('should drop HDR qualities when the plan has no HDR', () => {
+            expect(labels(filterQualitiesForPlan(qualities, { maxQuality: '4K', hdr: false })))
+                .toEqual(['auto', '480p', '720p', '1080p', '4K']);
+        });
+
+        it('should only keep unrecognized labels on uncapped plans', () => {
+            const odd = [quality('Original'), quality('1080p')];
+            expect(labels(filterQualitiesForPlan(odd, { maxQuality: '1080p', hdr: false }))).toEqual(['1080p']);
+            expect(labels(filterQualitiesForPlan(odd, { maxQuality: '4K', hdr: true }))).toEqual(['Original', '1080p']);
+        });
+    });
+
+    describe('capDefaultQuality', () => {
+        it('should keep an allowed default and cap the rest', () => {
+            const allowed = filterQualitiesForPlan(qualities, { maxQuality: '1080p', hdr: false });
+            expect(capDefaultQuality('720p', allowed)).toBe('720p');
+            expect(capDefaultQuality('4K HDR', allowed)).toBe('1080p');
+            expect(capDefaultQuality('auto', allowed)).toBe('auto');
+            expect(capDefaultQuality(undefined, allowed)).toBeUndefined();
+        });
+    });
+
+    describe('applyQualityEntitlement', () => {
+        it('should swap a main URL that is above the plan', () => {
+            const result = applyQualityEntitlement(
+                { url: quality('4K').url, qualities, defaultQuality: '4K' },
+                { maxQuality: '1080p', hdr: false }
+            );
+
+            expect(result?.url).toBe(quality('1080p').url);
+            expect(result?.defaultQuality).toBe('1080p');
+        });
+
+        it('should keep adaptive stream URLs as they are', () => {
+            const result = applyQualityEntitlement(
+                { url: 'https://cdn.example.com/master.m3u8', qualities: [quality('4K')] },
+                { maxQuality: '720p', hdr: false }
+            );
+
+            expect(result).toEqual({ url: 'https://cdn.example.com/master.m3u8', qualities: [] });
+        });
+
+        it('should return null when nothing fits the plan', () => {
+            const only4k = quality('4K');
+            expect(applyQualityEntitlement({ url: only4k.url, qualities: [only4k] }, { maxQuality: '720p', hdr: false }))
+                .toBeNull();
+        });
+    });
+});
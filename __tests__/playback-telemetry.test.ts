@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+    playbackTelemetrySchema,
+    recordPlaybackTelemetry,
+    getPlaybackTelemetryStats,
+    resetPlaybackTelemetry,
+} from '../lib/playback-telemetry';
+
+const beacon = (overrides: Record<string, unknown> = {}) => playbackTelemetrySchema.parse({
+    sessionId: 'session-abcdef',
+    sequence: 0,
+    tmdbId: 1396,
+    mediaType: 'tv',
+    backend: 'primary',
+    ...overrides,
+});
+
+describe('Playback Telemetry', () => {
+    beforeEach(() => {
+        resetPlaybackTelemetry();
+    });
+
+    it('should sum deltas and count a session only on the first beacon', () => {
+        recordPlaybackTelemetry(beacon({ startupMs: 1200, rebufferCount: 1, rebufferMs: 800 }), ['primary']);
+        recordPlaybackTelemetry(beacon({ sequence: 1, rebufferCount: 2, rebufferMs: 1500, qualitySwitches: 3, droppedFrames: 40 }), ['primary']);
+        recordPlaybackTelemetry(beacon({ sequence: 2, fatalErrors: ['network', 'network'] }), ['primary']);
+
+        expect(getPlaybackTelemetryStats()).toEqual([{
+            backend: 'primary',
+            mediaType: 'tv',
+            tmdbId: 1396,
+            sessions: 1,
+            startupCount: 1,
+            startupMsSum: 1200,
+            rebufferCount: 3,
+            rebufferMs: 2300,
+            qualitySwitches: 3,
+            droppedFrames: 40,
+            fatalErrors: { network: 2, media: 0, source: 0, other: 0 },
+        }]);
+    });
+
+    it('should label unknown backends as "unknown"', () => {
+        recordPlaybackTelemetry(beacon({ backend: 'attacker-controlled' }), ['primary']);
+        recordPlaybackTelemetry(beacon({ backend: undefined }), ['primary']);
+
+        const stats = getPlaybackTelemetryStats();
+        expect(stats).toHaveLength(1);
+        expect(stats[0]).toMatchObject({ backend: 'unknown', sessions: 2 });
+    });
+
+    it('should reject invalid payloads', () => {
+        expect(playbackTelemetrySchema.safeParse({ sessionId: 'x', sequence: 0, tmdbId: 1, mediaType: 'tv' }).success).toBe(false);
+        expect(playbackTelemetrySchema.safeParse({
+            sessionId: 'session-abcdef', sequence: 0, tmdbId: 1, mediaType: 'tv', fatalErrors: ['boom'],
+        }).success).toBe(false);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from '@jest/globals';
+
+jest.mock('@/lib/config', () => ({
+    PLAYBACK_TOKEN_SECRET: 'test-playback-secret',
+    BETTER_AUTH_SECRET: 'test-auth-secret',
+}));
+
+import {
+    createPlaybackToken,
+    verifyPlaybackToken,
+    resolvePlaybackTokenExpiry,
+    getPlaybackUrl,
+    getSubtitleUrl,
+    PLAYBACK_TOKEN_TTL_SECONDS,
+} from '../lib/playback-token';
+
+const NOW = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+const baseClaims = {
+    userId: 'user-123',
+    sessionId: 'session-abc',
+    tmdbId: 1396,
+    mediaType: 'tv' as const,
+    season: 1,
+    episode: 2,
+    url: 'https://cdn.example.com/videos/1396/s1e2/master.m3u8?sig=secret',
+    exp: Math.floor(NOW / 1000) + 600,
+};
+
+describe('Playback Tokens', () => {
+    describe('createPlaybackToken / verifyPlaybackToken', () => {
+        it('should round-trip claims for a valid token', () => {
+            const token = createPlaybackToken(baseClaims);
+            const result = verifyPlaybackToken(token, NOW);
+
+            expect(result).toEqual({ valid: true, claims: baseClaims });
+        });
+
+        it('should not expose the backend URL in the token', () => {
+            const token = createPlaybackToken(baseClaims);
+            const [payload] = token.split('.');
+            const decoded = Buffer.from(payload, 'base64url').toString('utf8');
+
+            expect(decoded).not.toContain('cdn.example.com');
+            expect(decoded).not.toContain('sig=secret');
+        });
+
+        it('should omit season/episode for movies', () => {
+            const token = createPlaybackToken({ ...baseClaims, mediaType: 'movie', season: undefined, episode: undefined });
+            const result = verifyPlaybackToken(token, NOW);
+
+            expect(result.valid).toBe(true);
+            if (result.valid) {
+                expect(result.claims.season).toBeUndefined();
+                expect(result.claims.episode).toBeUndefined();
+            }
+        });
+
+        it('should reject expired tokens', () => {
+            const token = createPlaybackToken(baseClaims);
+            const result = verifyPlaybackToken(token, (baseClaims.exp + 1) * 1000);
+
+            expect(result).toEqual({ valid: false, reason: 'expired' });
+        });
+
+        it('should reject tampered payloads', () => {
+            const token = createPlaybackToken(baseClaims);
+            const [payload, signature] = token.split('.');
+            const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+            claims.uid = 'attacker';
+            const forged = `${Buffer.from(JSON.stringify(claims)).toString('base64url')}.${signature}`;
+
+            expect(verifyPlaybackToken(forged, NOW)).toEqual({ valid: false, reason: 'signature' });
+        });
+
+        it('should reject malformed tokens', () => {
+            expect(verifyPlaybackToken('not-a-token', NOW)).toEqual({ valid: false, reason: 'malformed' });
+            expect(verifyPlaybackToken('a.b.c', NOW)).toEqual({ valid: false, reason: 'malformed' });
+        });
+    });
+
+    describe('resolvePlaybackTokenExpiry', () => {
+        it('should default to the token TTL', () => {
+            expect(resolvePlaybackTokenExpiry(undefined, NOW)).toBe(Math.floor(NOW / 1000) + PLAYBACK_TOKEN_TTL_SECONDS);
+        });
+
+        it('should never outlive the backend URL', () => {
+            const backendExpiresAt = new Date(NOW + 60_000).toISOString();
+            expect(resolvePlaybackTokenExpiry(backendExpiresAt, NOW)).toBe(Math.floor(NOW / 1000) + 60);
+        });
+
+        it('should ignore invalid backend dates', () => {
+            expect(resolvePlaybackTokenExpiry('not-a-date', NOW)).toBe(Math.floor(NOW / 1000) + PLAYBACK_TOKEN_TTL_SECONDS);
+        });
+    });
+
+    describe('getPlaybackUrl', () => {
+        it('should keep the original filename for format detection', () => {
+            expect(getPlaybackUrl('tok', 'https://cdn.example.com/a/master.m3u8?x=1')).toBe('/api/streaming/play/tok/master.m3u8');
+        });
+
+        it('should fall back to a generic filename', () => {
+            expect(getPlaybackUrl('tok', 'https://cdn.example.com/')).toBe('/api/streaming/play/tok/stream');
+        });
+    });
+
+    describe('getSubtitleUrl', () => {
+        it('should replace the extension with .vtt', () => {
+            expect(getSubtitleUrl('tok', 'https://cdn.example.com/subs/pt-BR.srt?x=1')).toBe('/api/streaming/subtitles/tok/pt-BR.vtt');
+        });
+
+        it('should fall back to a generic filename', () => {
+            expect(getSubtitleUrl('tok', 'https://cdn.example.com/')).toBe('/api/streaming/subtitles/tok/subtitle.vtt');
+        });
+    });
+});
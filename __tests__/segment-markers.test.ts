@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    getActiveSegment,
+    mergeSegmentMarkers,
+    SKIPPABLE_SEGMENT_TYPES,
+    type SegmentMarker,
+} from '../lib/segment-markers';
+
+const intro: SegmentMarker = { type: 'intro', startSeconds: 30, endSeconds: 95 };
+const recap: SegmentMarker = { type: 'recap', startSeconds: 0, endSeconds: 30 };
+const credits: SegmentMarker = { type: 'credits', startSeconds: 2500, endSeconds: 2640 };
+
+describe('Segment Markers', () => {
+    describe('getActiveSegment', () => {
+        it('should return the segment containing the current time', () => {
+            expect(getActiveSegment([recap, intro, credits], 10)).toBe(recap);
+            expect(getActiveSegment([recap, intro, credits], 30)).toBe(intro);
+            expect(getActiveSegment([recap, intro, credits], 95)).toBeNull();
+        });
+
+        it('should filter by type', () => {
+            expect(getActiveSegment([intro, credits], 2550, SKIPPABLE_SEGMENT_TYPES)).toBeNull();
+            expect(getActiveSegment([intro, credits], 2550)).toBe(credits);
+        });
+    });
+
+    describe('mergeSegmentMarkers', () => {
+        it('should prefer the first list per type and sort by start', () => {
+            const stored: SegmentMarker = { type: 'intro', startSeconds: 40, endSeconds: 100 };
+
+            expect(mergeSegmentMarkers([stored], [credits, intro, recap])).toEqual([recap, stored, credits]);
+        });
+    });
+});
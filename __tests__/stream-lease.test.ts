@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        streamLease: {
+            deleteMany: jest.fn(),
+            findFirst: jest.fn(),
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            count: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        $queryRaw: jest.fn(),
+        $transaction: jest.fn(),
+    },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { acquireStreamLease, renewStreamLease } from '@/lib/stream-lease';
+
+const leaseParams = {
+    userId: 'user-1',
+    accountOwnerId: 'owner-1',
+    sessionId: 'session-1',
+    maxScreens: 2,
+    tmdbId: 550,
+    mediaType: 'movie',
+    seasonNumber: 0,
+    episodeNumber: 0,
+};
+
+/** Ordem das chamadas ao banco dentro da transação */
+function callOrder(mock: unknown): number {
+    return (mock as jest.Mock).mock.invocationCallOrder[0];
+}
+
+describe('Stream Lease', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.$transaction as jest.Mock).mockImplementation(async (fn: unknown) =>
+            (fn as (client: typeof prisma) => Promise<unknown>)(prisma)
+        );
+        (prisma.$queryRaw as jest.Mock).mockResolvedValue([{ id: 'owner-1' }]);
+        (prisma.streamLease.findFirst as jest.Mock).mockResolvedValue(null);
+        (prisma.streamLease.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    describe('acquireStreamLease', () => {
+        it('should lock the account owner before counting screens', async () => {
+            (prisma.streamLease.count as jest.Mock).mockResolvedValue(1);
+            (prisma.streamLease.create as jest.Mock).mockResolvedValue({ id: 'lease-1' });
+
+            const result = await acquireStreamLease(leaseParams);
+
+            expect(result).toEqual(expect.objectContaining({ acquired: true, leaseId: 'lease-1' }));
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+            expect(((prisma.$queryRaw as jest.Mock).mock.calls[0] as unknown[]).slice(1)).toEqual(['owner-1']);
+            expect(callOrder(prisma.$queryRaw)).toBeLessThan(callOrder(prisma.streamLease.count));
+        });
+
+        it('should refuse a new lease when every screen is taken', async () => {
+            (prisma.streamLease.count as jest.Mock).mockResolvedValue(2);
+
+            const result = await acquireStreamLease(leaseParams);
+
+            expect(result).toEqual({ acquired: false, activeStreams: [] });
+            expect(prisma.streamLease.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('renewStreamLease', () => {
+        const lease = { id: 'lease-1', userId: 'user-1', accountOwnerId: 'owner-1' };
+
+        it('should renew an active lease without locking the account', async () => {
+            (prisma.streamLease.findUnique as jest.Mock).mockResolvedValue({
+                ...lease,
+                expiresAt: new Date(Date.now() + 60_000),
+            });
+
+            const result = await renewStreamLease('lease-1', 'user-1', 2);
+
+            expect(result.status).toBe('renewed');
+            expect(prisma.$queryRaw).not.toHaveBeenCalled();
+        });
+
+        it('should lock the account before reviving an expired lease', async () => {
+            (prisma.streamLease.findUnique as jest.Mock).mockResolvedValue({
+                ...lease,
+                expiresAt: new Date(Date.now() - 60_000),
+            });
+            (prisma.streamLease.count as jest.Mock).mockResolvedValue(1);
+            (prisma.streamLease.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const result = await renewStreamLease('lease-1', 'user-1', 2);
+
+            expect(result.status).toBe('renewed');
+            expect(callOrder(prisma.$queryRaw)).toBeLessThan(callOrder(prisma.streamLease.count));
+        });
+
+        it('should not revive an expired lease when every screen is taken', async () => {
+            (prisma.streamLease.findUnique as jest.Mock).mockResolvedValue({
+                ...lease,
+                expiresAt: new Date(Date.now() - 60_000),
+            });
+            (prisma.streamLease.count as jest.Mock).mockResolvedValue(2);
+
+            const result = await renewStreamLease('lease-1', 'user-1', 2);
+
+            expect(result.status).toBe('limit_reached');
+            expect(prisma.streamLease.updateMany).not.toHaveBeenCalled();
+        });
+    });
+});
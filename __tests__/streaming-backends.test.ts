@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('@/lib/config', () => ({
+    APP_URL: 'http://localhost:3000',
+    STREAMING_API_URL: '',
+    STREAMING_API_TOKEN: '',
+    STREAMING_BACKENDS: '',
+}));
+
+import {
+    parseStreamingBackends,
+    selectStreamingBackends,
+    fetchFromStreamingBackends,
+    getStreamingBackendStats,
+    resetStreamingBackendState,
+    StreamingBackendsUnavailableError,
+    type StreamingBackend,
+} from '../lib/streaming-backends';
+
+const primary: StreamingBackend = { name: 'primary', url: 'https://a.example.com/resolve', token: 'tok-a', priority: 1 };
+const backup: StreamingBackend = { name: 'backup', url: 'https://b.example.com/resolve', priority: 2 };
+
+const payload = { tmdbId: 550, mediaType: 'movie' };
+
+function jsonResponse(status: number, body: unknown = {}): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
+
+describe('Streaming Backends', () => {
+    const originalFetch = global.fetch;
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+        resetStreamingBackendState();
+        fetchMock = jest.fn();
+        global.fetch = fetchMock as unknown as typeof fetch;
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        jest.restoreAllMocks();
+    });
+
+    describe('parseStreamingBackends', () => {
+        it('should parse backends and apply the default priority', () => {
+            const backends = parseStreamingBackends(JSON.stringify([
+                { name: 'a', url: 'https://a.example.com', regions: ['br'] },
+            ]));
+
+            expect(backends).toEqual([{ name: 'a', url: 'https://a.example.com', priority: 100, regions: ['BR'] }]);
+        });
+
+        it('should ignore invalid configuration', () => {
+            expect(parseStreamingBackends('not json')).toEqual([]);
+            expect(parseStreamingBackends(JSON.stringify([{ url: 'https://a.example.com' }]))).toEqual([]);
+        });
+    });
+
+    describe('selectStreamingBackends', () => {
+        const moviesOnly: StreamingBackend = { name: 'movies', url: 'https://m.example.com', priority: 0, mediaTypes: ['movie'] };
+        const brazilOnly: StreamingBackend = { name: 'br', url: 'https://br.example.com', priority: 0, regions: ['BR'] };
+
+        it('should sort by priority', () => {
+            expect(selectStreamingBackends([backup, primary], { mediaType: 'tv' }).map((b) => b.name))
+                .toEqual(['primary', 'backup']);
+        });
+
+        it('should filter by mediaType and region', () => {
+            const all = [backup, primary, moviesOnly, brazilOnly];
+
+            expect(selectStreamingBackends(all, { mediaType: 'tv', region: 'US' }).map((b) => b.name))
+                .toEqual(['primary', 'backup']);
+            expect(selectStreamingBackends(all, { mediaType: 'movie', region: 'br' }).map((b) => b.name))
+                .toEqual(['movies', 'br', 'primary', 'backup']);
+        });
+
+        it('should skip region-restricted backends when the region is unknown', () => {
+            expect(selectStreamingBackends([brazilOnly, backup], { mediaType: 'movie', region: null }).map((b) => b.name))
+                .toEqual(['backup']);
+        });
+    });
+
+    describe('fetchFromStreamingBackends', () => {
+        it('should use the first healthy backend with its token', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse(200, { url: 'https://cdn/a.m3u8' }));
+
+            const { backend, response } = await fetchFromStreamingBackends([primary, backup], payload);
+
+            expect(backend.name).toBe('primary');
+            expect(response.status).toBe(200);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer tok-a');
+        });
+
+        it('should fail over on 5xx and network errors', async () => {
+            fetchMock
+                .mockResolvedValueOnce(jsonResponse(502))
+                .mockResolvedValueOnce(jsonResponse(200, { url: 'https://cdn/b.m3u8' }));
+
+            const { backend } = await fetchFromStreamingBackends([primary, backup], payload);
+
+            expect(backend.name).toBe('backup');
+            expect(getStreamingBackendStats()).toEqual(expect.arrayContaining([
+                expect.objectContaining({ name: 'primary', requests: 1, failures: 1 }),
+                expect.objectContaining({ name: 'backup', requests: 1, successes: 1 }),
+            ]));
+        });
+
+        it('should not fail over on 4xx', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse(404));
+
+            const { backend, response } = await fetchFromStreamingBackends([primary, backup], payload);
+
+            expect(backend.name).toBe('primary');
+            expect(response.status).toBe(404);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should report timeout when every backend times out', async () => {
+            const timeout = Object.assign(new Error('timed out'), { name: 'TimeoutError' });
+            fetchMock.mockRejectedValue(timeout);
+
+            await expect(fetchFromStreamingBackends([primary, backup], payload))
+                .rejects.toMatchObject({ reason: 'timeout' });
+        });
+
+        it('should open the circuit after 3 consecutive failures', async () => {
+            fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+            for (let i = 0; i < 3; i++) {
+                await expect(fetchFromStreamingBackends([primary], payload))
+                    .rejects.toMatchObject({ reason: 'unavailable' });
+            }
+
+            const error = await fetchFromStreamingBackends([primary], payload).catch((err) => err);
+            expect(error).toBeInstanceOf(StreamingBackendsUnavailableError);
+            expect(error.reason).toBe('circuit_open');
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+            expect(getStreamingBackendStats()[0].circuitOpen).toBe(true);
+        });
+    });
+});
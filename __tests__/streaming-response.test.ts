@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { parseStreamingResponse, normalizeMediaUrl } from '../lib/streaming-response';
+
+const backend = { name: 'primary', url: 'https://api.example.com/resolve' };
+
+describe('Streaming Response Contract', () => {
+    let warnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        warnSpy.mockRestore();
+    });
+
+    describe('normalizeMediaUrl', () => {
+        it('should resolve relative URLs against the backend', () => {
+            expect(normalizeMediaUrl('/subtitles/en.vtt', backend.url)).toBe('https://api.example.com/subtitles/en.vtt');
+        });
+
+        it('should upgrade http to https except on localhost', () => {
+            expect(normalizeMediaUrl('http://cdn.example.com/a.mp4', backend.url)).toBe('https://cdn.example.com/a.mp4');
+            expect(normalizeMediaUrl('http://localhost:3000/a.mp4', backend.url)).toBe('http://localhost:3000/a.mp4');
+        });
+
+        it('should reject other protocols', () => {
+            expect(normalizeMediaUrl('javascript:alert(1)', backend.url)).toBeNull();
+            expect(normalizeMediaUrl('data:text/vtt,WEBVTT', backend.url)).toBeNull();
+        });
+    });
+
+    describe('parseStreamingResponse', () => {
+        it('should reject responses without url', () => {
+            const result = parseStreamingResponse({ qualities: [] }, backend);
+
+            expect(result.success).toBe(false);
+        });
+
+        it('should default to version 1 without capabilities', () => {
+            const result = parseStreamingResponse({ url: 'https://cdn.example.com/a.m3u8', capabilities: { drm: true } }, backend);
+
+            expect(result).toEqual({
+                success: true,
+                data: {
+                    version: 1,
+                    url: 'https://cdn.example.com/a.m3u8',
+                    qualities: [],
+                    subtitles: [],
+                    audioTracks: [],
+                    capabilities: { drm: false, trickplay: false, chapters: false },
+                    markers: [],
+                    chapters: [],
+                },
+            });
+        });
+
+        it('should read capabilities from version 2', () => {
+            const result = parseStreamingResponse({
+                version: 2,
+                url: 'https://cdn.example.com/a.m3u8',
+                capabilities: { trickplay: true, chapters: true },
+            }, backend);
+
+            expect(result.success && result.data.capabilities).toEqual({ drm: false, trickplay: true, chapters: true });
+        });
+
+        it('should resolve the thumbnail track and drop invalid ones', () => {
+            const valid = parseStreamingResponse({ url: 'https://cdn.example.com/a.m3u8', thumbnails: '/thumbs/a.vtt' }, backend);
+            const invalid = parseStreamingResponse({ url: 'https://cdn.example.com/a.m3u8', thumbnails: 'data:text/vtt,WEBVTT' }, backend);
+
+            expect(valid.success && valid.data.thumbnails).toBe('https://api.example.com/thumbs/a.vtt');
+            expect(invalid.success && invalid.data.thumbnails).toBeUndefined();
+            expect(warnSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should sort chapters, keep one per start time and resolve thumbnails', () => {
+            const result = parseStreamingResponse({
+                url: 'https://cdn.example.com/a.m3u8',
+                chapters: [
+                    { title: 'Encore', startSeconds: 3000, thumbnail: '/chapters/3.jpg' },
+                    { title: 'Opening', startSeconds: 0, thumbnail: 'javascript:alert(1)' },
+                    { title: 'Duplicate', startSeconds: 0 },
+                    { title: '', startSeconds: 60 },
+                ],
+            }, backend);
+
+            expect(result.success && result.data.chapters).toEqual([
+                { title: 'Opening', startSeconds: 0 },
+                { title: 'Encore', startSeconds: 3000, thumbnail: 'https://api.example.com/chapters/3.jpg' },
+            ]);
+            expect(warnSpy).toHaveBeenCalledTimes(2);
+        });
+
+        it('should keep one valid marker per type', () => {
+            const result = parseStreamingResponse({
+                url: 'https://cdn.example.com/a.m3u8',
+                markers: [
+                    { type: 'intro', startSeconds: 30, endSeconds: 95 },
+                    { type: 'intro', startSeconds: 100, endSeconds: 120 },
+                    { type: 'credits', startSeconds: 2500, endSeconds: 2400 },
+                    { type: 'ads', startSeconds: 0, endSeconds: 10 },
+                ],
+            }, backend);
+
+            expect(result.success && result.data.markers).toEqual([
+                { type: 'intro', startSeconds: 30, endSeconds: 95 },
+            ]);
+            expect(warnSpy).toHaveBeenCalledTimes(3);
+        });
+
+        it('should drop malformed entries and keep the valid ones', () => {
+            const result = parseStreamingResponse({
+                url: 'https://cdn.example.com/a.m3u8',
+                qualities: [
+                    { label: '1080p', url: 'http://cdn.example.com/1080.m3u8', bitrate: 5000 },
+                    { label: '720p' },
+                    'bogus',
+                ],
+                defaultQuality: '4K',
+                subtitles: [
+                    { label: 'English', language: 'en', src: '/subs/en.vtt' },
+                    { label: 'Bad', language: 'xx', src: 'ftp://cdn.example.com/xx.vtt' },
+                ],
+                audioTracks: [{ label: 'English', language: 'en' }, { language: 'pt' }],
+                expiresAt: 'not-a-date',
+            }, backend);
+
+            expect(result.success).toBe(true);
+            if (!result.success) return;
+
+            expect(result.data.qualities).toEqual([
+                { label: '1080p', url: 'https://cdn.example.com/1080.m3u8', bitrate: 5000 },
+            ]);
+            expect(result.data.subtitles).toEqual([
+                { label: 'English', language: 'en', src: 'https://api.example.com/subs/en.vtt' },
+            ]);
+            expect(result.data.audioTracks).toEqual([{ label: 'English', language: 'en' }]);
+            expect(result.data.defaultQuality).toBeUndefined();
+            expect(result.data.expiresAt).toBeUndefined();
+
+            // Um warning estruturado por entrada descartada
+            expect(warnSpy).toHaveBeenCalledTimes(6);
+            expect(warnSpy).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.objectContaining({ backend: 'primary', field: 'qualities', index: 1 })
+            );
+        });
+    });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('@/lib/config', () => ({
+    SITE_NAME_FULL: 'YuiaLive',
+    SITE_URL: 'http://localhost:3000',
+}));
+
+jest.mock('@/lib/email', () => ({
+    sendEmail: jest.fn(),
+    getDunningEmailTemplate: jest.fn(),
+    getFamilyPlanEndingEmailTemplate: jest.fn(() => '<html>plan-ending</html>'),
+}));
+
+jest.mock('@/lib/payment-relay', () => ({
+    notifySubscriptionChange: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        subscription: {
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            upsert: jest.fn(),
+        },
+        user: {
+            update: jest.fn(),
+        },
+        family: {
+            findFirst: jest.fn(),
+            delete: jest.fn(),
+        },
+        familyMember: {
+            deleteMany: jest.fn(),
+        },
+        familyInvite: {
+            updateMany: jest.fn(),
+        },
+        $transaction: jest.fn(),
+    },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getFamilyPlanEndingEmailTemplate, sendEmail } from '@/lib/email';
+import { notifySubscriptionChange } from '@/lib/payment-relay';
+import {
+    activatePaidSubscription,
+    endCanceledSubscriptions,
+    resumeSubscription,
+    scheduleSubscriptionCancellation,
+} from '@/lib/subscription-server';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+const periodEnd = new Date('2026-03-25T12:00:00.000Z');
+
+const subscription = {
+    id: 'sub-1',
+    userId: 'user-1',
+    planId: 'plan_familia',
+    status: 'active',
+    gatewaySubscriptionId: 'gw_sub_1',
+    currentPeriodEnd: periodEnd,
+};
+
+const family = {
+    id: 'family-1',
+    ownerId: 'user-1',
+    owner: { name: 'Ana', email: 'owner@example.com' },
+    members: [
+        { id: 'member-1', user: { email: 'member1@example.com' } },
+        { id: 'member-2', user: { email: 'member2@example.com' } },
+    ],
+    invites: [],
+};
+
+describe('Subscription Cancellation', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.$transaction as jest.Mock).mockImplementation(async (fn: unknown) =>
+            (fn as (client: typeof prisma) => Promise<unknown>)(prisma)
+        );
+        (prisma.subscription.update as jest.Mock).mockResolvedValue({
+            id: 'sub-1',
+            status: 'active',
+            cancelAtPeriodEnd: true,
+            currentPeriodEnd: periodEnd,
+            plan: { name: 'Família' },
+        });
+        (prisma.family.findFirst as jest.Mock).mockResolvedValue(family);
+        (sendEmail as jest.Mock).mockResolvedValue({ success: true, id: 'email-1' });
+        (notifySubscriptionChange as jest.Mock).mockResolvedValue(undefined);
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('scheduleSubscriptionCancellation', () => {
+        it('should keep access until the period ends', async () => {
+            await scheduleSubscriptionCancellation(subscription, now);
+
+            expect(prisma.subscription.update).toHaveBeenCalledWith({
+                where: { id: 'sub-1' },
+                data: { cancelAtPeriodEnd: true, canceledAt: now },
+                include: { plan: true },
+            });
+            expect(prisma.user.update).not.toHaveBeenCalled();
+            expect(prisma.family.delete).not.toHaveBeenCalled();
+        });
+
+        it('should give family members advance notice by email', async () => {
+            await scheduleSubscriptionCancellation(subscription, now);
+
+            expect(getFamilyPlanEndingEmailTemplate).toHaveBeenCalledWith('Ana', 'Família', periodEnd, 'http://localhost:3000');
+            expect(sendEmail).toHaveBeenCalledTimes(2);
+            expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'member1@example.com' }));
+            expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'member2@example.com' }));
+        });
+
+        it('should tell the gateway to stop renewing before saving', async () => {
+            await scheduleSubscriptionCancellation(subscription, now);
+
+            expect(notifySubscriptionChange).toHaveBeenCalledWith({
+                type: 'subscription.cancel_scheduled',
+                userId: 'user-1',
+                planId: 'plan_familia',
+                subscriptionId: 'gw_sub_1',
+                currentPeriodEnd: periodEnd.toISOString(),
+            });
+            expect((notifySubscriptionChange as jest.Mock).mock.invocationCallOrder[0])
+                .toBeLessThan((prisma.subscription.update as jest.Mock).mock.invocationCallOrder[0]);
+        });
+
+        it('should not cancel when the gateway rejects the change', async () => {
+            (notifySubscriptionChange as jest.Mock).mockRejectedValue(new Error('Payment relay error: 502'));
+
+            await expect(scheduleSubscriptionCancellation(subscription, now)).rejects.toThrow('Payment relay error: 502');
+            expect(prisma.subscription.update).not.toHaveBeenCalled();
+            expect(sendEmail).not.toHaveBeenCalled();
+        });
+
+        it('should not notify the gateway for a trial', async () => {
+            await scheduleSubscriptionCancellation({ ...subscription, status: 'trialing', gatewaySubscriptionId: null }, now);
+
+            expect(notifySubscriptionChange).not.toHaveBeenCalled();
+            expect(prisma.subscription.update).toHaveBeenCalled();
+        });
+
+        it('should not fail when a notice cannot be sent', async () => {
+            (sendEmail as jest.Mock).mockRejectedValueOnce(new Error('Resend API error'));
+
+            await expect(scheduleSubscriptionCancellation(subscription, now)).resolves.toBeUndefined();
+            expect(sendEmail).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('resumeSubscription', () => {
+        it('should clear the scheduled cancellation', async () => {
+            await resumeSubscription(subscription);
+
+            expect(prisma.subscription.update).toHaveBeenCalledWith({
+                where: { id: 'sub-1' },
+                data: { cancelAtPeriodEnd: false, canceledAt: null },
+            });
+            expect(notifySubscriptionChange).toHaveBeenCalledWith(expect.objectContaining({
+                type: 'subscription.resumed',
+                subscriptionId: 'gw_sub_1',
+            }));
+        });
+    });
+
+    describe('activatePaidSubscription', () => {
+        const tx = prisma as unknown as Parameters<typeof activatePaidSubscription>[0];
+
+        beforeEach(() => {
+            (prisma.subscription.upsert as jest.Mock).mockImplementation(async (args: unknown) => ({
+                ...subscription,
+                ...(args as { update: object }).update,
+                plan: { id: 'plan_familia', name: 'Família', screens: 4 },
+            }));
+        });
+
+        it('should keep a scheduled cancellation across a renewal', async () => {
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+                ...subscription,
+                cancelAtPeriodEnd: true,
+                canceledAt: now,
+            });
+
+            await activatePaidSubscription(tx, { userId: 'user-1', planId: 'plan_familia', billingInterval: 'monthly', now });
+
+            const { update } = (prisma.subscription.upsert as jest.Mock).mock.calls[0][0] as { update: Record<string, unknown> };
+            expect(update).not.toHaveProperty('cancelAtPeriodEnd');
+            expect(update).not.toHaveProperty('canceledAt');
+            expect(update.currentPeriodEnd).toEqual(new Date('2026-04-25T12:00:00.000Z'));
+            expect(console.warn).toHaveBeenCalled();
+        });
+
+        it('should clear a scheduled cancellation when switching plans', async () => {
+            (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+                ...subscription,
+                planId: 'plan_duo',
+                cancelAtPeriodEnd: true,
+                canceledAt: now,
+            });
+
+            await activatePaidSubscription(tx, { userId: 'user-1', planId: 'plan_familia', billingInterval: 'monthly', now });
+
+            expect(prisma.subscription.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                update: expect.objectContaining({ cancelAtPeriodEnd: false, canceledAt: null }),
+            }));
+        });
+    });
+
+    describe('endCanceledSubscriptions', () => {
+        beforeEach(() => {
+            (prisma.subscription.findMany as jest.Mock).mockResolvedValue([{ id: 'sub-1', userId: 'user-1' }]);
+        });
+
+        it('should downgrade the account once the period has ended', async () => {
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            expect(await endCanceledSubscriptions(now)).toBe(1);
+
+            expect(prisma.subscription.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: {
+                    cancelAtPeriodEnd: true,
+                    status: { in: ['trialing', 'active'] },
+                    currentPeriodEnd: { lte: now },
+                },
+            }));
+            expect(prisma.subscription.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+                data: { status: 'canceled', cancelAtPeriodEnd: false },
+            }));
+            expect(prisma.familyMember.deleteMany).toHaveBeenCalledWith({ where: { familyId: 'family-1' } });
+            expect(prisma.family.delete).toHaveBeenCalledWith({ where: { id: 'family-1' } });
+            expect(prisma.user.update).toHaveBeenCalledWith({
+                where: { id: 'user-1' },
+                data: { planId: null, maxScreens: 1, trialEndsAt: null },
+            });
+        });
+
+        it('should skip subscriptions resumed in the meantime', async () => {
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            expect(await endCanceledSubscriptions(now)).toBe(0);
+            expect(prisma.family.findFirst).not.toHaveBeenCalled();
+            expect(prisma.user.update).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    addBillingPeriod,
+    getAccessEndsAt,
+    getGraceEndsAt,
+    getPaidPeriod,
+    hasPendingCancellation,
+    hasSubscriptionAccess,
+    isCurrentSubscription,
+} from '../lib/subscription';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+const days = (n: number) => new Date(now.getTime() + n * 24 * 60 * 60 * 1000);
+
+describe('Subscription', () => {
+    describe('addBillingPeriod', () => {
+        it('should add one month or one year', () => {
+            expect(addBillingPeriod(now, 'monthly').toISOString()).toBe('2026-04-10T12:00:00.000Z');
+            expect(addBillingPeriod(now, 'yearly').toISOString()).toBe('2027-03-10T12:00:00.000Z');
+        });
+
+        it('should clamp to the last day of shorter months', () => {
+            expect(addBillingPeriod(new Date('2026-01-31T00:00:00.000Z'), 'monthly').toISOString())
+                .toBe('2026-02-28T00:00:00.000Z');
+            expect(addBillingPeriod(new Date('2028-02-29T00:00:00.000Z'), 'yearly').toISOString())
+                .toBe('2029-02-28T00:00:00.000Z');
+        });
+    });
+
+    describe('hasSubscriptionAccess', () => {
+        it('should grant access until the end of a trial or paid period', () => {
+            expect(hasSubscriptionAccess({ status: 'trialing', currentPeriodEnd: days(1) }, now)).toBe(true);
+            expect(hasSubscriptionAccess({ status: 'active', currentPeriodEnd: days(1) }, now)).toBe(true);
+            expect(hasSubscriptionAccess({ status: 'trialing', currentPeriodEnd: days(-1) }, now)).toBe(false);
+            expect(hasSubscriptionAccess({ status: 'active', currentPeriodEnd: days(-1) }, now)).toBe(false);
+        });
+
+        it('should keep past due subscriptions during the grace period', () => {
+            expect(hasSubscriptionAccess({ status: 'past_due', currentPeriodEnd: days(-2) }, now)).toBe(true);
+            expect(hasSubscriptionAccess({ status: 'past_due', currentPeriodEnd: days(-4) }, now)).toBe(false);
+        });
+
+        it('should use the stored grace period end for past due subscriptions', () => {
+            expect(hasSubscriptionAccess({ status: 'past_due', currentPeriodEnd: days(-10), graceEndsAt: days(1) }, now)).toBe(true);
+            expect(hasSubscriptionAccess({ status: 'past_due', currentPeriodEnd: days(-1), graceEndsAt: days(-0.5) }, now)).toBe(false);
+        });
+
+        it('should deny canceled and expired subscriptions', () => {
+            expect(hasSubscriptionAccess({ status: 'canceled', currentPeriodEnd: days(10) }, now)).toBe(false);
+            expect(hasSubscriptionAccess({ status: 'expired', currentPeriodEnd: days(10) }, now)).toBe(false);
+        });
+    });
+
+    describe('getGraceEndsAt', () => {
+        it('should start the grace period at the end of the paid period', () => {
+            expect(getGraceEndsAt(days(2), now)).toEqual(days(5));
+        });
+
+        it('should start the grace period now when the period already ended', () => {
+            expect(getGraceEndsAt(days(-2), now)).toEqual(days(3));
+        });
+    });
+
+    describe('hasPendingCancellation', () => {
+        const scheduled = { status: 'active', cancelAtPeriodEnd: true, currentPeriodEnd: days(10) };
+
+        it('should allow resuming until the period ends', () => {
+            expect(hasPendingCancellation(scheduled, now)).toBe(true);
+            expect(hasPendingCancellation({ ...scheduled, status: 'trialing' }, now)).toBe(true);
+            expect(hasPendingCancellation({ ...scheduled, currentPeriodEnd: days(-1) }, now)).toBe(false);
+        });
+
+        it('should reject subscriptions without a scheduled cancellation', () => {
+            expect(hasPendingCancellation({ ...scheduled, cancelAtPeriodEnd: false }, now)).toBe(false);
+            expect(hasPendingCancellation({ ...scheduled, status: 'canceled' }, now)).toBe(false);
+            expect(hasPendingCancellation(null, now)).toBe(false);
+        });
+    });
+
+    describe('getAccessEndsAt', () => {
+        it('should end access at the period end for trials and scheduled cancellations', () => {
+            expect(getAccessEndsAt({ status: 'trialing', currentPeriodEnd: days(5), cancelAtPeriodEnd: false })).toEqual(days(5));
+            expect(getAccessEndsAt({ status: 'active', currentPeriodEnd: days(5), cancelAtPeriodEnd: true })).toEqual(days(5));
+        });
+
+        it('should end access at the grace period end for past due subscriptions', () => {
+            expect(getAccessEndsAt({ status: 'past_due', currentPeriodEnd: days(-1), cancelAtPeriodEnd: false, graceEndsAt: days(2) }))
+                .toEqual(days(2));
+            expect(getAccessEndsAt({ status: 'past_due', currentPeriodEnd: days(-1), cancelAtPeriodEnd: false }))
+                .toEqual(days(2));
+        });
+
+        it('should not set an end for active subscriptions that renew', () => {
+            expect(getAccessEndsAt({ status: 'active', currentPeriodEnd: days(5), cancelAtPeriodEnd: false })).toBeNull();
+        });
+    });
+
+    describe('isCurrentSubscription', () => {
+        it('should only accept trialing, active and past due subscriptions', () => {
+            expect(isCurrentSubscription({ status: 'past_due' })).toBe(true);
+            expect(isCurrentSubscription({ status: 'canceled' })).toBe(false);
+            expect(isCurrentSubscription(null)).toBe(false);
+        });
+    });
+
+    describe('getPaidPeriod', () => {
+        it('should extend a renewal of the same plan from the current period end', () => {
+            const current = { planId: 'plan_duo', status: 'trialing', currentPeriodEnd: days(3) };
+
+            expect(getPaidPeriod(current, 'plan_duo', 'monthly', now)).toEqual({
+                currentPeriodStart: days(3),
+                currentPeriodEnd: addBillingPeriod(days(3), 'monthly'),
+            });
+        });
+
+        it('should start now on plan changes, lapsed periods and ended subscriptions', () => {
+            const expected = { currentPeriodStart: now, currentPeriodEnd: addBillingPeriod(now, 'yearly') };
+
+            expect(getPaidPeriod(null, 'plan_duo', 'yearly', now)).toEqual(expected);
+            expect(getPaidPeriod({ planId: 'plan_individual', status: 'active', currentPeriodEnd: days(3) }, 'plan_duo', 'yearly', now))
+                .toEqual(expected);
+            expect(getPaidPeriod({ planId: 'plan_duo', status: 'active', currentPeriodEnd: days(-1) }, 'plan_duo', 'yearly', now))
+                .toEqual(expected);
+            expect(getPaidPeriod({ planId: 'plan_duo', status: 'canceled', currentPeriodEnd: days(3) }, 'plan_duo', 'yearly', now))
+                .toEqual(expected);
+        });
+    });
+});
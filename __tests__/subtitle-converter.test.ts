@@ -0,0 +1,105 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    decodeSubtitleBytes,
+    detectSubtitleFormat,
+    convertToWebVtt,
+    isWebVttUrl,
+} from '../lib/subtitle-converter';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Olá, <i>mundo</i>!
+
+2
+00:00:04,000 --> 00:00:06,000
+{\\an8}<font color="#ff0">Linha 1</font>
+Linha 2 & fim
+`;
+
+const ASS = `[Script Info]
+Title: Example
+
+[V4+ Styles]
+Format: Name, Fontname
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,ignored
+Dialogue: 0,0:00:05.50,0:00:07.00,Default,,0,0,0,,Second, with comma
+Dialogue: 0,0:00:01.00,0:00:02.25,Default,,0,0,0,,{\\i1}First{\\i0}\\Nline
+`;
+
+const TTML = `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:tickRate="10000000">
+  <body><div>
+    <p begin="00:00:01.000" end="00:00:02.000">Hello<br/>world</p>
+    <p begin="30000000t" dur="2s"><span tts:fontStyle="italic">Tom &amp; Jerry</span></p>
+  </div></body>
+</tt>`;
+
+describe('Subtitle Converter', () => {
+    describe('decodeSubtitleBytes', () => {
+        it('should honour BOMs', () => {
+            expect(decodeSubtitleBytes(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]))).toBe('A');
+            expect(decodeSubtitleBytes(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('A');
+            expect(decodeSubtitleBytes(new Uint8Array([0xfe, 0xff, 0x00, 0x41]))).toBe('A');
+        });
+
+        it('should detect UTF-16 without BOM', () => {
+            expect(decodeSubtitleBytes(Buffer.from('1\n00:00', 'utf16le'))).toBe('1\n00:00');
+        });
+
+        it('should fall back to Latin-1 for invalid UTF-8', () => {
+            expect(decodeSubtitleBytes(Buffer.from('Olá, coração', 'utf8'))).toBe('Olá, coração');
+            expect(decodeSubtitleBytes(Buffer.from('Olá, coração', 'latin1'))).toBe('Olá, coração');
+        });
+    });
+
+    describe('detectSubtitleFormat', () => {
+        it('should detect each format by content', () => {
+            expect(detectSubtitleFormat('WEBVTT\n\n00:00.000 --> 00:01.000\nHi')).toBe('vtt');
+            expect(detectSubtitleFormat(SRT)).toBe('srt');
+            expect(detectSubtitleFormat(ASS)).toBe('ass');
+            expect(detectSubtitleFormat(TTML)).toBe('ttml');
+            expect(detectSubtitleFormat('just some text')).toBeNull();
+        });
+    });
+
+    describe('convertToWebVtt', () => {
+        it('should convert SRT keeping only basic tags', () => {
+            expect(convertToWebVtt(SRT)).toBe(
+                'WEBVTT\n\n' +
+                '00:00:01.000 --> 00:00:03.500\nOlá, <i>mundo</i>!\n\n' +
+                '00:00:04.000 --> 00:00:06.000\nLinha 1\nLinha 2 &amp; fim\n'
+            );
+        });
+
+        it('should convert ASS dialogue sorted by start time', () => {
+            expect(convertToWebVtt(ASS)).toBe(
+                'WEBVTT\n\n' +
+                '00:00:01.000 --> 00:00:02.250\n<i>First</i>\nline\n\n' +
+                '00:00:05.500 --> 00:00:07.000\nSecond, with comma\n'
+            );
+        });
+
+        it('should convert TTML clock, tick and duration times', () => {
+            expect(convertToWebVtt(TTML)).toBe(
+                'WEBVTT\n\n' +
+                '00:00:01.000 --> 00:00:02.000\nHello\nworld\n\n' +
+                '00:00:03.000 --> 00:00:05.000\n<i>Tom &amp; Jerry</i>\n'
+            );
+        });
+
+        it('should return null for unknown formats', () => {
+            expect(convertToWebVtt('<html></html>')).toBeNull();
+        });
+    });
+
+    describe('isWebVttUrl', () => {
+        it('should check the path extension only', () => {
+            expect(isWebVttUrl('https://cdn.example.com/subs/en.vtt?sig=1')).toBe(true);
+            expect(isWebVttUrl('https://cdn.example.com/subs/en.srt')).toBe(false);
+            expect(isWebVttUrl('https://cdn.example.com/subs?format=vtt')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    clampSubtitleDelay,
+    formatSubtitleDelay,
+    getSubtitleDelayStorageKey,
+    loadSubtitleDelay,
+    saveSubtitleDelay,
+    shiftTextTrackCues,
+    type OriginalCueTimes,
+    SUBTITLE_DELAY_LIMIT_SECONDS,
+} from '../lib/subtitle-delay';
+
+function createStorage() {
+    const data = new Map<string, string>();
+    return {
+        data,
+        getItem: (key: string) => data.get(key) ?? null,
+        setItem: (key: string, value: string) => { data.set(key, value); },
+        removeItem: (key: string) => { data.delete(key); },
+    };
+}
+
+describe('Subtitle Delay', () => {
+    describe('clampSubtitleDelay', () => {
+        it('should round to 0.1s steps', () => {
+            expect(clampSubtitleDelay(0.1 + 0.2)).toBe(0.3);
+            expect(clampSubtitleDelay(-1.26)).toBe(-1.3);
+        });
+
+        it('should clamp to the allowed range', () => {
+            expect(clampSubtitleDelay(500)).toBe(SUBTITLE_DELAY_LIMIT_SECONDS);
+            expect(clampSubtitleDelay(-500)).toBe(-SUBTITLE_DELAY_LIMIT_SECONDS);
+        });
+
+        it('should treat invalid values and -0 as 0', () => {
+            expect(clampSubtitleDelay(NaN)).toBe(0);
+            expect(Object.is(clampSubtitleDelay(-0.01), 0)).toBe(true);
+        });
+    });
+
+    describe('formatSubtitleDelay', () => {
+        it('should show the sign and one decimal', () => {
+            expect(formatSubtitleDelay(0.3)).toBe('+0.3s');
+            expect(formatSubtitleDelay(-1.5)).toBe('-1.5s');
+            expect(formatSubtitleDelay(0)).toBe('0.0s');
+        });
+    });
+
+    describe('storage', () => {
+        it('should save and load the delay per title', () => {
+            const storage = createStorage();
+            saveSubtitleDelay(storage, 1396, 'tv', 1.2);
+
+            expect(storage.data.get(getSubtitleDelayStorageKey(1396, 'tv'))).toBe('1.2');
+            expect(loadSubtitleDelay(storage, 1396, 'tv')).toBe(1.2);
+            // Mesmo ID, outro tipo de mídia
+            expect(loadSubtitleDelay(storage, 1396, 'movie')).toBe(0);
+        });
+
+        it('should remove the entry when the delay is reset', () => {
+            const storage = createStorage();
+            saveSubtitleDelay(storage, 550, 'movie', -0.4);
+            saveSubtitleDelay(storage, 550, 'movie', 0);
+
+            expect(storage.data.size).toBe(0);
+        });
+
+        it('should ignore corrupted values', () => {
+            const storage = createStorage();
+            storage.setItem(getSubtitleDelayStorageKey(550, 'movie'), 'abc');
+
+            expect(loadSubtitleDelay(storage, 550, 'movie')).toBe(0);
+        });
+
+        it('should fall back to 0 when storage is blocked', () => {
+            const blocked = {
+                getItem: () => { throw new Error('SecurityError'); },
+            };
+
+            expect(loadSubtitleDelay(blocked, 550, 'movie')).toBe(0);
+        });
+    });
+
+    describe('shiftTextTrackCues', () => {
+        it('should shift from the original times without accumulating', () => {
+            const cue = { startTime: 10, endTime: 12 } as TextTrackCue;
+            const tracks = { length: 1, 0: { cues: { length: 1, 0: cue } } } as unknown as TextTrackList;
+            const originalTimes: OriginalCueTimes = new WeakMap();
+
+            shiftTextTrackCues(tracks, 1.5, originalTimes);
+            expect(cue.startTime).toBe(11.5);
+
+            shiftTextTrackCues(tracks, -0.5, originalTimes);
+            expect([cue.startTime, cue.endTime]).toEqual([9.5, 11.5]);
+        });
+
+        it('should not move cues before zero', () => {
+            const cue = { startTime: 0.2, endTime: 2 } as TextTrackCue;
+            const tracks = { length: 1, 0: { cues: { length: 1, 0: cue } } } as unknown as TextTrackList;
+
+            shiftTextTrackCues(tracks, -1, new WeakMap());
+            expect([cue.startTime, cue.endTime]).toEqual([0, 1]);
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    isLocalSubtitleLanguage,
+    resolveAudioLanguage,
+    resolveSubtitleDefaults,
+    type SeriesTrackPreference,
+} from '../lib/track-preferences';
+
+const globalDefaults = { enabled: false, language: 'pt-BR' };
+
+const saved = (overrides: Partial<SeriesTrackPreference>): SeriesTrackPreference => ({
+    audioLang: null,
+    subtitleLang: null,
+    subtitlesEnabled: null,
+    ...overrides,
+});
+
+describe('Track Preferences', () => {
+    describe('resolveSubtitleDefaults', () => {
+        it('should use the global preference when nothing is saved', () => {
+            expect(resolveSubtitleDefaults(null, ['en', 'pt-BR'], globalDefaults)).toEqual(globalDefaults);
+            expect(resolveSubtitleDefaults(saved({}), ['en'], globalDefaults)).toEqual(globalDefaults);
+        });
+
+        it('should restore the saved subtitle language when available', () => {
+            expect(resolveSubtitleDefaults(saved({ subtitleLang: 'en', subtitlesEnabled: true }), ['en', 'pt-BR'], globalDefaults))
+                .toEqual({ enabled: true, language: 'en' });
+        });
+
+        it('should fall back to the global preference when the saved track is missing', () => {
+            const global = { enabled: true, language: 'pt-BR' };
+            expect(resolveSubtitleDefaults(saved({ subtitleLang: 'en', subtitlesEnabled: true }), ['pt-BR'], global))
+                .toEqual(global);
+        });
+
+        it('should keep subtitles off when they were turned off in the series', () => {
+            const global = { enabled: true, language: 'pt-BR' };
+            expect(resolveSubtitleDefaults(saved({ subtitleLang: 'en', subtitlesEnabled: false }), ['en'], global))
+                .toEqual({ enabled: false, language: 'pt-BR' });
+        });
+    });
+
+    describe('resolveAudioLanguage', () => {
+        it('should restore the saved audio language when available', () => {
+            expect(resolveAudioLanguage(saved({ audioLang: 'ja' }), ['ja', 'en'])).toBe('ja');
+        });
+
+        it('should keep the stream default otherwise', () => {
+            expect(resolveAudioLanguage(saved({ audioLang: 'ja' }), ['en'])).toBeUndefined();
+            expect(resolveAudioLanguage(null, ['en'])).toBeUndefined();
+        });
+    });
+
+    describe('isLocalSubtitleLanguage', () => {
+        it('should detect subtitles loaded from local files', () => {
+            expect(isLocalSubtitleLanguage('local-1')).toBe(true);
+            expect(isLocalSubtitleLanguage('en')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('@/lib/subscription-server', () => ({
+    dissolveOwnedFamily: jest.fn(),
+    startTrialSubscription: jest.fn(),
+    syncUserPlan: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        user: {
+            findMany: jest.fn(),
+        },
+        subscription: {
+            updateMany: jest.fn(),
+        },
+        $transaction: jest.fn(),
+    },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { dissolveOwnedFamily, syncUserPlan } from '@/lib/subscription-server';
+import { expireTrials } from '@/lib/trial';
+
+describe('Trial', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.$transaction as jest.Mock).mockImplementation(async (fn: unknown) =>
+            (fn as (client: typeof prisma) => Promise<unknown>)(prisma)
+        );
+        (prisma.user.findMany as jest.Mock).mockResolvedValue([{ id: 'user-1' }]);
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('expireTrials', () => {
+        it('should remove the plan and family of an expired trial', async () => {
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            expect(await expireTrials()).toBe(1);
+
+            expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+                where: { userId: 'user-1', status: 'trialing', currentPeriodEnd: { lte: expect.any(Date) } },
+                data: { status: 'expired' },
+            });
+            expect(dissolveOwnedFamily).toHaveBeenCalledWith(prisma, 'user-1');
+            expect(syncUserPlan).toHaveBeenCalledWith(prisma, 'user-1', null);
+        });
+
+        it('should keep the plan of a user who paid in the meantime', async () => {
+            (prisma.subscription.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            expect(await expireTrials()).toBe(0);
+
+            expect(dissolveOwnedFamily).not.toHaveBeenCalled();
+            expect(syncUserPlan).not.toHaveBeenCalled();
+        });
+    });
+});
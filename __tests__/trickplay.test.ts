@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { findThumbnail, parseThumbnailTrack } from '../lib/trickplay';
+
+const trackUrl = 'https://cdn.example.com/media/550/thumbs.vtt';
+
+describe('Trickplay', () => {
+    describe('parseThumbnailTrack', () => {
+        it('should read sprite regions and resolve relative images', () => {
+            const cues = parseThumbnailTrack([
+                'WEBVTT',
+                '',
+                '00:00.000 --> 00:10.000',
+                'sprite-0.jpg#xywh=0,0,160,90',
+                '',
+                '00:00:10.000 --> 00:00:20.000',
+                '/sprites/sprite-0.jpg#xywh=160,0,160,90',
+            ].join('\r\n'), trackUrl);
+
+            expect(cues).toEqual([
+                { start: 0, end: 10, url: 'https://cdn.example.com/media/550/sprite-0.jpg', x: 0, y: 0, width: 160, height: 90 },
+                { start: 10, end: 20, url: 'https://cdn.example.com/sprites/sprite-0.jpg', x: 160, y: 0, width: 160, height: 90 },
+            ]);
+        });
+
+        it('should accept standalone images without #xywh=', () => {
+            const cues = parseThumbnailTrack('WEBVTT\n\n01:00:00.000 --> 01:00:05.000\nhttps://img.example.com/t.jpg\n', trackUrl);
+
+            expect(cues).toEqual([
+                { start: 3600, end: 3605, url: 'https://img.example.com/t.jpg', x: 0, y: 0, width: 0, height: 0 },
+            ]);
+        });
+
+        it('should skip malformed cues', () => {
+            const cues = parseThumbnailTrack([
+                'WEBVTT',
+                '',
+                '00:10.000 --> 00:05.000',
+                'a.jpg#xywh=0,0,160,90',
+                '',
+                '00:10.000 --> 00:20.000',
+                'b.jpg#xywh=0,0,160',
+                '',
+                '00:20.000 --> 00:30.000',
+                'javascript:alert(1)',
+                '',
+                '00:30.000 --> 00:40.000',
+            ].join('\n'), trackUrl);
+
+            expect(cues).toEqual([]);
+        });
+    });
+
+    describe('findThumbnail', () => {
+        const cues = parseThumbnailTrack([
+            'WEBVTT',
+            '',
+            '00:00.000 --> 00:10.000',
+            's.jpg#xywh=0,0,160,90',
+            '',
+            '00:10.000 --> 00:20.000',
+            's.jpg#xywh=160,0,160,90',
+            '',
+            '00:20.000 --> 00:30.000',
+            's.jpg#xywh=320,0,160,90',
+        ].join('\n'), trackUrl);
+
+        it('should find the cue covering the time (start inclusive, end exclusive)', () => {
+            expect(findThumbnail(cues, 0)?.x).toBe(0);
+            expect(findThumbnail(cues, 10)?.x).toBe(160);
+            expect(findThumbnail(cues, 29.9)?.x).toBe(320);
+        });
+
+        it('should return null outside the track', () => {
+            expect(findThumbnail(cues, 30)).toBeNull();
+            expect(findThumbnail([], 5)).toBeNull();
+        });
+    });
+});
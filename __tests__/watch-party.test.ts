@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        watchParty: {
+            findFirst: jest.fn(),
+            findUnique: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            deleteMany: jest.fn(),
+        },
+        watchPartyParticipant: {
+            upsert: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        watchPartyMessage: {
+            create: jest.fn(),
+        },
+    },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+    closeWatchParty,
+    createWatchParty,
+    createWatchPartyFeed,
+    getWatchParty,
+    joinWatchParty,
+    sendWatchPartyMessage,
+    touchWatchParty,
+    updateWatchPartyPlayback,
+    WATCH_PARTY_MAX_PARTICIPANTS,
+} from '../lib/watch-party';
+import {
+    getDriftCorrection,
+    getExpectedHostPosition,
+    getWatchPartyPath,
+    isSameWatchPartyContent,
+    WATCH_PARTY_CATCH_UP_RATE,
+} from '../lib/watch-party-sync';
+
+const MOVIE = { tmdbId: 550, mediaType: 'movie' as const };
+
+const joinedAt = new Date('2026-03-10T12:00:00.000Z');
+
+function participant(userId: string, name: string | null = userId) {
+    return { id: `p-${userId}`, roomId: 'room-1', userId, name, joinedAt, lastSeenAt: joinedAt };
+}
+
+function message(id: string, userId: string, text: string, sentAt: number) {
+    return { id, roomId: 'room-1', userId, name: userId, text, sentAt: new Date(sentAt) };
+}
+
+/** Linha de WatchParty como o Prisma devolve (com participantes e mensagens) */
+function dbRoom(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'room-1',
+        hostId: 'host',
+        tmdbId: 550,
+        mediaType: 'movie',
+        seasonNumber: null,
+        episodeNumber: null,
+        playing: false,
+        positionSeconds: null,
+        playbackUpdatedAt: null,
+        lastActiveAt: joinedAt,
+        createdAt: joinedAt,
+        participants: [] as ReturnType<typeof participant>[],
+        messages: [] as ReturnType<typeof message>[],
+        ...overrides,
+    };
+}
+
+describe('Watch Party', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('store', () => {
+        it('should create a room with an unguessable id', async () => {
+            (prisma.watchParty.create as jest.Mock).mockImplementation(async (args: unknown) =>
+                dbRoom((args as { data: Record<string, unknown> }).data)
+            );
+
+            const room = await createWatchParty('host', MOVIE);
+
+            expect(room.roomId).toMatch(/^[A-Za-z0-9_-]{22}$/);
+            expect(room.hostId).toBe('host');
+            expect(room.participants).toEqual([]);
+            expect(room.content).toEqual(MOVIE);
+            // Salas abandonadas são removidas ao criar
+            expect(prisma.watchParty.deleteMany).toHaveBeenCalledWith({
+                where: { lastActiveAt: { lt: expect.any(Date) } },
+            });
+        });
+
+        it('should return not_found for unknown or idle rooms', async () => {
+            (prisma.watchParty.findFirst as jest.Mock).mockResolvedValue(null);
+
+            expect((await joinWatchParty('missing', { id: 'guest', name: 'guest' })).status).toBe('not_found');
+            expect(await getWatchParty('missing')).toBeNull();
+            expect(prisma.watchParty.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'missing', lastActiveAt: { gte: expect.any(Date) } },
+            }));
+        });
+
+        it('should register presence in the shared store when someone joins', async () => {
+            (prisma.watchParty.findFirst as jest.Mock)
+                .mockResolvedValueOnce(dbRoom({ participants: [participant('host')] }))
+                .mockResolvedValueOnce(dbRoom({ participants: [participant('host'), participant('guest')] }));
+
+            const result = await joinWatchParty('room-1', { id: 'guest', name: 'guest' });
+
+            expect(prisma.watchPartyParticipant.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: { roomId_userId: { roomId: 'room-1', userId: 'guest' } },
+            }));
+            expect(prisma.watchParty.update).toHaveBeenCalledWith({
+                where: { id: 'room-1' },
+                data: { lastActiveAt: expect.any(Date) },
+            });
+            expect(result.status === 'joined' && result.snapshot.participants).toEqual([
+                { userId: 'host', name: 'host', isHost: true },
+                { userId: 'guest', name: 'guest', isHost: false },
+            ]);
+        });
+
+        it('should reject new participants when the room is full', async () => {
+            const full = Array.from({ length: WATCH_PARTY_MAX_PARTICIPANTS }, (_, i) => participant(`user-${i}`));
+            (prisma.watchParty.findFirst as jest.Mock).mockResolvedValue(dbRoom({ participants: full }));
+
+            expect((await joinWatchParty('room-1', { id: 'late', name: 'late' })).status).toBe('full');
+            // Quem já está conectado pode abrir outra aba
+            expect((await joinWatchParty('room-1', { id: 'user-0', name: 'user-0' })).status).toBe('joined');
+        });
+
+        it('should renew presence only while the room exists', async () => {
+            (prisma.watchPartyParticipant.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            expect(await touchWatchParty('room-1', 'guest')).toBe(true);
+            expect(prisma.watchParty.updateMany).toHaveBeenCalledWith({
+                where: { id: 'room-1' },
+                data: { lastActiveAt: expect.any(Date) },
+            });
+
+            (prisma.watchPartyParticipant.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+            expect(await touchWatchParty('room-1', 'guest')).toBe(false);
+        });
+
+        it('should only let the host update playback', async () => {
+            (prisma.watchParty.findFirst as jest.Mock).mockResolvedValue({ hostId: 'host' });
+
+            expect((await updateWatchPartyPlayback('room-1', 'guest', { playing: true, positionSeconds: 10 })).status).toBe('forbidden');
+            expect(prisma.watchParty.update).not.toHaveBeenCalled();
+
+            expect((await updateWatchPartyPlayback('room-1', 'host', { playing: true, positionSeconds: 10 })).status).toBe('ok');
+            expect(prisma.watchParty.update).toHaveBeenCalledWith({
+                where: { id: 'room-1' },
+                data: { playing: true, positionSeconds: 10, playbackUpdatedAt: expect.any(Date) },
+            });
+        });
+
+        it('should only accept chat from connected participants', async () => {
+            (prisma.watchParty.findFirst as jest.Mock).mockResolvedValue(dbRoom({ participants: [participant('host', null)] }));
+
+            expect((await sendWatchPartyMessage('room-1', 'stranger', 'hi')).status).toBe('forbidden');
+            expect((await sendWatchPartyMessage('room-1', 'host', 'hello')).status).toBe('ok');
+
+            expect(prisma.watchPartyMessage.create).toHaveBeenCalledTimes(1);
+            expect(prisma.watchPartyMessage.create).toHaveBeenCalledWith({
+                data: { roomId: 'room-1', userId: 'host', name: null, text: 'hello', sentAt: expect.any(Date) },
+            });
+        });
+
+        it('should send the latest chat history oldest first to late joiners', async () => {
+            (prisma.watchParty.findFirst as jest.Mock).mockResolvedValue(dbRoom({
+                messages: [message('m2', 'host', 'second', 2000), message('m1', 'host', 'first', 1000)],
+            }));
+
+            expect((await getWatchParty('room-1'))?.messages.map((m) => m.text)).toEqual(['first', 'second']);
+        });
+
+        it('should let only the host close the room', async () => {
+            (prisma.watchParty.findUnique as jest.Mock).mockResolvedValue({ hostId: 'host' });
+
+            expect((await closeWatchParty('room-1', 'guest')).status).toBe('forbidden');
+            expect(prisma.watchParty.deleteMany).not.toHaveBeenCalled();
+
+            expect((await closeWatchParty('room-1', 'host')).status).toBe('ok');
+            expect(prisma.watchParty.deleteMany).toHaveBeenCalledWith({ where: { id: 'room-1', hostId: 'host' } });
+        });
+    });
+
+    describe('feed', () => {
+        const snapshot = {
+            roomId: 'room-1',
+            hostId: 'host',
+            content: MOVIE,
+            playback: null,
+            participants: [{ userId: 'host', name: 'host', isHost: true }],
+            messages: [],
+        };
+
+        it('should emit only what changed since the last poll', async () => {
+            const feed = createWatchPartyFeed(snapshot, 1000);
+            const changed = dbRoom({
+                playing: true,
+                positionSeconds: 42,
+                playbackUpdatedAt: new Date(5000),
+                participants: [participant('host'), participant('guest')],
+                messages: [message('m1', 'guest', 'oi', 2000)],
+            });
+            (prisma.watchParty.findFirst as jest.Mock).mockResolvedValue(changed);
+
+            const events = await feed.poll();
+            expect(events.map((event) => event.type)).toEqual(['playback', 'participants', 'chat']);
+            expect(events[0].type === 'playback' && events[0].playback).toEqual({ playing: true, positionSeconds: 42, updatedAt: 5000 });
+
+            // Mesma sala na próxima consulta: nada novo (mensagem já entregue)
+            expect(await feed.poll()).toEqual([]);
+        });
+
+        it('should look back for messages stamped by another instance clock', async () => {
+            const feed = createWatchPartyFeed(snapshot, 10_000);
+            (prisma.watchParty.findFirst as jest.Mock).mockResolvedValue(dbRoom({ participants: [participant('host')] }));
+
+            await feed.poll();
+
+            expect(prisma.watchParty.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+                include: expect.objectContaining({
+                    messages: { where: { sentAt: { gte: new Date(5000) } }, orderBy: { sentAt: 'asc' } },
+                }),
+            }));
+        });
+
+        it('should report closed once the room is gone', async () => {
+            const feed = createWatchPartyFeed(snapshot);
+            (prisma.watchParty.findFirst as jest.Mock).mockResolvedValue(null);
+
+            expect((await feed.poll()).map((event) => event.type)).toEqual(['closed']);
+        });
+    });
+
+    describe('sync', () => {
+        it('should extrapolate the host position while playing', () => {
+            const playback = { playing: true, positionSeconds: 100, updatedAt: 10_000 };
+
+            expect(getExpectedHostPosition(playback, 12_000)).toBe(102);
+            // Relógio local 1s atrasado em relação ao servidor
+            expect(getExpectedHostPosition(playback, 11_000, 1_000)).toBe(102);
+            expect(getExpectedHostPosition({ ...playback, playing: false }, 20_000)).toBe(100);
+        });
+
+        it('should pick the drift correction by distance', () => {
+            expect(getDriftCorrection(100, 100.2)).toEqual({ action: 'none' });
+            expect(getDriftCorrection(100, 101)).toEqual({ action: 'rate', playbackRate: 1 + WATCH_PARTY_CATCH_UP_RATE });
+            expect(getDriftCorrection(101, 100)).toEqual({ action: 'rate', playbackRate: 1 - WATCH_PARTY_CATCH_UP_RATE });
+            expect(getDriftCorrection(100, 130)).toEqual({ action: 'seek', positionSeconds: 130 });
+        });
+
+        it('should build invite paths and compare content', () => {
+            expect(getWatchPartyPath('abc', MOVIE)).toBe('/watch/movie/550?party=abc');
+            expect(getWatchPartyPath('abc', { tmdbId: 1399, mediaType: 'tv', season: 1, episode: 2 }))
+                .toBe('/watch/tv/1399/1/2?party=abc');
+
+            expect(isSameWatchPartyContent(MOVIE, { ...MOVIE })).toBe(true);
+            expect(isSameWatchPartyContent(
+                { tmdbId: 1399, mediaType: 'tv', season: 1, episode: 2 },
+                { tmdbId: 1399, mediaType: 'tv', season: 1, episode: 3 }
+            )).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    getRemainingSeconds,
+    isWatchCompleted,
+    isWatchInProgress,
+    getResumePositionSeconds,
+} from '../lib/watch-progress';
+
+describe('Watch Progress', () => {
+    describe('isWatchCompleted', () => {
+        it('should use COMPLETION_THRESHOLD for percentage-only records', () => {
+            expect(isWatchCompleted({ progress: 90 })).toBe(true);
+            expect(isWatchCompleted({ progress: 85 })).toBe(false);
+        });
+
+        it('should treat less than 3 minutes left as complete', () => {
+            // Créditos longos: 86%, mas faltam só 170s
+            expect(isWatchCompleted({ progress: 86, positionSeconds: 1030, durationSeconds: 1200 })).toBe(true);
+            expect(isWatchCompleted({ progress: 80, positionSeconds: 5760, durationSeconds: 7200 })).toBe(false);
+        });
+
+        it('should not complete short videos that were barely started', () => {
+            expect(isWatchCompleted({ progress: 20, positionSeconds: 30, durationSeconds: 150 })).toBe(false);
+        });
+    });
+
+    describe('isWatchInProgress', () => {
+        it('should exclude unstarted and completed records', () => {
+            expect(isWatchInProgress({ progress: 2 })).toBe(false);
+            expect(isWatchInProgress({ progress: 50, positionSeconds: 600, durationSeconds: 1200 })).toBe(true);
+            expect(isWatchInProgress({ progress: 88, positionSeconds: 2500, durationSeconds: 2640 })).toBe(false);
+        });
+    });
+
+    describe('getRemainingSeconds', () => {
+        it('should return null without duration', () => {
+            expect(getRemainingSeconds({ progress: 50 })).toBeNull();
+            expect(getRemainingSeconds({ progress: 50, positionSeconds: 600, durationSeconds: 1000 })).toBe(400);
+        });
+    });
+
+    describe('getResumePositionSeconds', () => {
+        it('should prefer the exact position', () => {
+            expect(getResumePositionSeconds({ progress: 50, positionSeconds: 612.5, durationSeconds: 1200 }, 1300)).toBe(612.5);
+        });
+
+        it('should estimate from the percentage for legacy records', () => {
+            expect(getResumePositionSeconds({ progress: 25 }, 2000)).toBe(500);
+            expect(getResumePositionSeconds({ progress: 25 })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+
+jest.mock('@/lib/subscription-server', () => ({
+    activatePaidSubscription: jest.fn(),
+    markSubscriptionPastDue: jest.fn(),
+    refundSubscription: jest.fn(),
+    sendDunningEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        user: {
+            findUnique: jest.fn(),
+        },
+        plan: {
+            findUnique: jest.fn(),
+        },
+        family: {
+            findUnique: jest.fn(),
+        },
+        webhookEvent: {
+            updateMany: jest.fn(),
+        },
+        $transaction: jest.fn(),
+    },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { activatePaidSubscription } from '@/lib/subscription-server';
+import { processWebhookEvent } from '@/lib/webhook-events-server';
+
+const event = {
+    id: 'tx_1_payment.succeeded',
+    attempts: 1,
+    payload: {
+        type: 'payment.succeeded' as const,
+        userId: 'user-1',
+        planId: 'plan_duo',
+        transactionId: 'tx_1',
+        interval: 'monthly' as const,
+    },
+};
+
+describe('Webhook Events Server', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.$transaction as jest.Mock).mockImplementation(async (fn: unknown) =>
+            (fn as (client: typeof prisma) => Promise<unknown>)(prisma)
+        );
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'owner@example.com' });
+        (prisma.plan.findUnique as jest.Mock).mockResolvedValue({ id: 'plan_duo', name: 'Duo', screens: 2 });
+        (prisma.family.findUnique as jest.Mock).mockResolvedValue(null);
+        (activatePaidSubscription as jest.Mock).mockResolvedValue({
+            subscription: { billingInterval: 'monthly', currentPeriodEnd: new Date('2026-04-10T12:00:00.000Z') },
+            previousPlanId: 'plan_duo',
+        });
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(console, 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('processWebhookEvent', () => {
+        it('should claim a pending or failed event before applying it', async () => {
+            (prisma.webhookEvent.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            expect(await processWebhookEvent(event)).toEqual({ success: true });
+
+            expect(prisma.webhookEvent.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: event.id, status: { in: ['pending', 'failed'] } },
+                data: expect.objectContaining({ status: 'processed', attempts: { increment: 1 } }),
+            }));
+            expect(activatePaidSubscription).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not apply an event another run already claimed', async () => {
+            (prisma.webhookEvent.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            expect(await processWebhookEvent(event)).toEqual({ success: true, alreadyProcessed: true });
+
+            expect(activatePaidSubscription).not.toHaveBeenCalled();
+            expect(prisma.webhookEvent.updateMany).toHaveBeenCalledTimes(1);
+        });
+
+        it('should record a failure without overwriting a processed event', async () => {
+            (prisma.webhookEvent.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (activatePaidSubscription as jest.Mock).mockRejectedValue(new Error('deadlock'));
+
+            expect(await processWebhookEvent(event)).toEqual({ success: false, error: 'deadlock' });
+
+            expect(prisma.webhookEvent.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+                where: { id: event.id, status: { in: ['pending', 'failed'] } },
+                data: expect.objectContaining({ status: 'failed', attempts: 2, error: 'deadlock' }),
+            }));
+        });
+    });
+});
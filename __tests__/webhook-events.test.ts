@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    getNextRetryAt,
+    getWebhookEventId,
+    webhookPayloadSchema,
+    WEBHOOK_RETRY_DELAYS_MINUTES,
+} from '../lib/webhook-events';
+
+describe('Webhook Events', () => {
+    describe('getWebhookEventId', () => {
+        it('should prefer the gateway event id', () => {
+            expect(getWebhookEventId({ eventId: 'evt_1', type: 'payment.succeeded', transactionId: 'tx_1' })).toBe('evt_1');
+        });
+
+        it('should fall back to the transaction and type', () => {
+            expect(getWebhookEventId({ type: 'payment.succeeded', transactionId: 'tx_1' })).toBe('tx_1_payment.succeeded');
+            expect(getWebhookEventId({ type: 'payment.refunded', transactionId: 'tx_1' })).toBe('tx_1_payment.refunded');
+        });
+    });
+
+    describe('getNextRetryAt', () => {
+        const now = new Date('2026-03-10T12:00:00.000Z');
+
+        it('should back off after each failed attempt', () => {
+            expect(getNextRetryAt(1, now)?.toISOString()).toBe('2026-03-10T12:01:00.000Z');
+            expect(getNextRetryAt(2, now)?.toISOString()).toBe('2026-03-10T12:05:00.000Z');
+        });
+
+        it('should stop retrying automatically when attempts are exhausted', () => {
+            expect(getNextRetryAt(WEBHOOK_RETRY_DELAYS_MINUTES.length, now)).not.toBeNull();
+            expect(getNextRetryAt(WEBHOOK_RETRY_DELAYS_MINUTES.length + 1, now)).toBeNull();
+        });
+    });
+
+    describe('webhookPayloadSchema', () => {
+        it('should default the billing interval to monthly', () => {
+            const parsed = webhookPayloadSchema.parse({
+                type: 'payment.succeeded',
+                userId: 'user-1',
+                planId: 'plan_duo',
+                transactionId: 'tx_1',
+            });
+
+            expect(parsed.interval).toBe('monthly');
+        });
+    });
+});
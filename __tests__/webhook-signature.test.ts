@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    buildWebhookSignatureHeader,
+    signWebhookPayload,
+    verifyWebhookSignature,
+} from '../lib/webhook-signature';
+
+const rawBody = JSON.stringify({ type: 'payment.succeeded', userId: 'user-1', planId: 'plan_duo', transactionId: 'tx_1' });
+const secret = 'current-secret';
+const previousSecret = 'previous-secret';
+const now = Date.UTC(2026, 2, 10, 12, 0, 0);
+const timestamp = Math.floor(now / 1000);
+
+const verify = (overrides: Partial<Parameters<typeof verifyWebhookSignature>[0]> = {}) =>
+    verifyWebhookSignature({
+        rawBody,
+        signatureHeader: buildWebhookSignatureHeader(rawBody, secret, timestamp),
+        timestampHeader: String(timestamp),
+        secrets: [secret],
+        toleranceSeconds: 300,
+        now,
+        ...overrides,
+    });
+
+describe('Webhook Signature', () => {
+    it('should accept a valid signature', () => {
+        expect(verify()).toEqual({ valid: true });
+    });
+
+    it('should reject missing headers', () => {
+        expect(verify({ signatureHeader: null })).toEqual({ valid: false, error: 'missing_signature' });
+        expect(verify({ timestampHeader: null })).toEqual({ valid: false, error: 'missing_signature' });
+    });
+
+    it('should reject a tampered body or a wrong secret', () => {
+        expect(verify({ rawBody: rawBody.replace('plan_duo', 'plan_familia') }))
+            .toEqual({ valid: false, error: 'invalid_signature' });
+        expect(verify({ secrets: ['another-secret'] })).toEqual({ valid: false, error: 'invalid_signature' });
+    });
+
+    it('should reject malformed signatures without throwing', () => {
+        expect(verify({ signatureHeader: 'v1=not-hex' })).toEqual({ valid: false, error: 'invalid_signature' });
+        expect(verify({ signatureHeader: `v0=${signWebhookPayload(rawBody, secret, timestamp)}` }))
+            .toEqual({ valid: false, error: 'invalid_signature' });
+    });
+
+    it('should reject timestamps outside the tolerance window', () => {
+        expect(verify({ now: now + 301 * 1000 })).toEqual({ valid: false, error: 'timestamp_out_of_tolerance' });
+        expect(verify({ now: now - 301 * 1000 })).toEqual({ valid: false, error: 'timestamp_out_of_tolerance' });
+        expect(verify({ now: now + 299 * 1000 })).toEqual({ valid: true });
+        expect(verify({ timestampHeader: '12.5' })).toEqual({ valid: false, error: 'invalid_timestamp' });
+    });
+
+    it('should bind the signature to its timestamp', () => {
+        const signatureHeader = buildWebhookSignatureHeader(rawBody, secret, timestamp - 10);
+        expect(verify({ signatureHeader })).toEqual({ valid: false, error: 'invalid_signature' });
+    });
+
+    it('should accept the previous secret during rotation', () => {
+        const signatureHeader = buildWebhookSignatureHeader(rawBody, previousSecret, timestamp);
+
+        expect(verify({ signatureHeader, secrets: [secret, previousSecret] })).toEqual({ valid: true });
+        expect(verify({ signatureHeader })).toEqual({ valid: false, error: 'invalid_signature' });
+    });
+
+    it('should accept any of several signatures', () => {
+        const signatureHeader = [
+            buildWebhookSignatureHeader(rawBody, 'stale-secret', timestamp),
+            buildWebhookSignatureHeader(rawBody, secret, timestamp),
+        ].join(', ');
+
+        expect(verify({ signatureHeader })).toEqual({ valid: true });
+    });
+});
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { SEGMENT_TYPES } from '@/lib/segment-markers';
+
+/**
+ * API de Marcadores de Segmento (abertura, recapitulação, créditos) - ADMIN
+ *
+ * Marcadores cadastrados aqui substituem, por tipo, os enviados pelo backend
+ * de streaming (ver lib/segment-markers-server.ts).
+ *
+ * Uso:
+ * GET    /api/admin/segment-markers?tmdbId=1396&mediaType=tv
+ * PUT    /api/admin/segment-markers   (body: marcador, cria ou atualiza)
+ * DELETE /api/admin/segment-markers?tmdbId=1396&mediaType=tv&seasonNumber=1&episodeNumber=1&type=intro
+ * Authorization: Bearer <ADMIN_SECRET>
+ *
+ * Para séries, seasonNumber/episodeNumber = 0 cadastra o marcador para todos os
+ * episódios (o marcador do episódio tem prioridade). Para filmes, ambos são 0.
+ *
+ * Exemplo:
+ * curl -X PUT "https://live.yuia.dev/api/admin/segment-markers" \
+ *   -H "Authorization: Bearer $ADMIN_SECRET" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"tmdbId":1396,"mediaType":"tv","type":"intro","startSeconds":30,"endSeconds":95}'
+ */
+
+const listQuerySchema = z.object({
+    tmdbId: z.coerce.number().int().positive('api.validation.positiveInteger'),
+    mediaType: z.enum(['movie', 'tv'], { message: 'api.validation.mediaTypeMovieOrTv' }),
+});
+
+const markerKeySchema = listQuerySchema.extend({
+    seasonNumber: z.coerce.number().int().min(0).default(0),
+    episodeNumber: z.coerce.number().int().min(0).default(0),
+    type: z.enum(SEGMENT_TYPES, { message: 'api.segmentMarkers.invalidType' }),
+});
+
+const markerSchema = markerKeySchema.extend({
+    startSeconds: z.number().min(0, 'api.segmentMarkers.invalidRange'),
+    endSeconds: z.number().positive('api.segmentMarkers.invalidRange'),
+}).refine((data) => data.endSeconds > data.startSeconds, {
+    message: 'api.segmentMarkers.invalidRange',
+    path: ['endSeconds'],
+}).refine((data) => data.mediaType === 'tv' || (data.seasonNumber === 0 && data.episodeNumber === 0), {
+    message: 'api.validation.movieNoSeasonEpisode',
+    path: ['mediaType'],
+});
+
+/**
+ * Valida o Bearer token de admin.
+ * @returns Resposta de erro, ou null se autorizado
+ */
+function authorizeAdmin(request: NextRequest): NextResponse | null {
+    const authHeader = request.headers.get('authorization');
+    const expectedSecret = process.env.ADMIN_SECRET;
+
+    if (!expectedSecret || expectedSecret.trim() === '') {
+        if (process.env.NODE_ENV === 'production') {
+            console.error('❌ [Segment Markers] ERRO: ADMIN_SECRET não configurada em produção!');
+            return NextResponse.json(
+                { error: 'Server misconfiguration' },
+                { status: 500 }
+            );
+        }
+    }
+
+    if (!expectedSecret || !authHeader || authHeader !== `Bearer ${expectedSecret}`) {
+        console.warn('⚠️  [Segment Markers] Tentativa de acesso não autorizado');
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    return null;
+}
+
+function validationError(error: z.ZodError): NextResponse {
+    return NextResponse.json(
+        {
+            success: false,
+            error: error.issues[0]?.message || 'api.errors.badRequest',
+        },
+        { status: 400 }
+    );
+}
+
+// GET - Listar marcadores de um título (todos os episódios)
+export async function GET(request: NextRequest) {
+    const unauthorized = authorizeAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    const validation = listQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+    if (!validation.success) return validationError(validation.error);
+
+    try {
+        const markers = await prisma.segmentMarker.findMany({
+            where: validation.data,
+            orderBy: [{ seasonNumber: 'asc' }, { episodeNumber: 'asc' }, { startSeconds: 'asc' }],
+        });
+
+        return NextResponse.json({ success: true, markers });
+    } catch (error) {
+        console.error('❌ [Segment Markers] Erro ao listar marcadores:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT - Criar ou atualizar marcador
+export async function PUT(request: NextRequest) {
+    const unauthorized = authorizeAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    const body = await request.json().catch(() => null);
+    const validation = markerSchema.safeParse(body);
+    if (!validation.success) return validationError(validation.error);
+
+    const { tmdbId, mediaType, seasonNumber, episodeNumber, type, startSeconds, endSeconds } = validation.data;
+
+    try {
+        const marker = await prisma.segmentMarker.upsert({
+            where: {
+                tmdbId_mediaType_seasonNumber_episodeNumber_type: {
+                    tmdbId,
+                    mediaType,
+                    seasonNumber,
+                    episodeNumber,
+                    type,
+                },
+            },
+            update: { startSeconds, endSeconds },
+            create: { tmdbId, mediaType, seasonNumber, episodeNumber, type, startSeconds, endSeconds },
+        });
+
+        return NextResponse.json({ success: true, marker });
+    } catch (error) {
+        console.error('❌ [Segment Markers] Erro ao salvar marcador:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE - Remover marcador (volta a valer o do backend)
+export async function DELETE(request: NextRequest) {
+    const unauthorized = authorizeAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    const validation = markerKeySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+    if (!validation.success) return validationError(validation.error);
+
+    try {
+        const { count } = await prisma.segmentMarker.deleteMany({ where: validation.data });
+
+        if (count === 0) {
+            return NextResponse.json(
+                { success: false, error: 'api.segmentMarkers.notFound' },
+                { status: 404 }
+            );
+        }
+
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        console.error('❌ [Segment Markers] Erro ao remover marcador:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
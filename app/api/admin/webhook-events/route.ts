@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { WEBHOOK_EVENT_STATUSES } from '@/lib/webhook-events';
+import { replayWebhookEvent } from '@/lib/webhook-events-server';
+
+/**
+ * API do Ledger de Webhooks de Pagamento - ADMIN
+ *
+ * Lista os eventos recebidos em /api/webhooks/payment e reprocessa manualmente
+ * eventos failed (ex.: depois de esgotar as tentativas automáticas) ou pending.
+ * Eventos processed não podem ser reaplicados.
+ *
+ * Uso:
+ * GET  /api/admin/webhook-events?status=failed&type=payment.succeeded&limit=50
+ * POST /api/admin/webhook-events   (body: { "id": "<id do evento>" })
+ * Authorization: Bearer <ADMIN_SECRET>
+ *
+ * Exemplo:
+ * curl -X POST "https://live.yuia.dev/api/admin/webhook-events" \
+ *   -H "Authorization: Bearer $ADMIN_SECRET" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"id":"txn_123_payment.succeeded"}'
+ */
+
+const listQuerySchema = z.object({
+    status: z.enum(WEBHOOK_EVENT_STATUSES, { message: 'api.webhookEvents.invalidStatus' }).optional(),
+    type: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const replaySchema = z.object({
+    id: z.string().min(1, 'api.webhookEvents.idRequired'),
+});
+
+/**
+ * Valida o Bearer token de admin.
+ * @returns Resposta de erro, ou null se autorizado
+ */
+function authorizeAdmin(request: NextRequest): NextResponse | null {
+    const authHeader = request.headers.get('authorization');
+    const expectedSecret = process.env.ADMIN_SECRET;
+
+    if (!expectedSecret || expectedSecret.trim() === '') {
+        if (process.env.NODE_ENV === 'production') {
+            console.error('❌ [Webhook Events] ERRO: ADMIN_SECRET não configurada em produção!');
+            return NextResponse.json(
+                { error: 'Server misconfiguration' },
+                { status: 500 }
+            );
+        }
+    }
+
+    if (!expectedSecret || !authHeader || authHeader !== `Bearer ${expectedSecret}`) {
+        console.warn('⚠️  [Webhook Events] Tentativa de acesso não autorizado');
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    return null;
+}
+
+function validationError(error: z.ZodError): NextResponse {
+    return NextResponse.json(
+        {
+            success: false,
+            error: error.issues[0]?.message || 'api.errors.badRequest',
+        },
+        { status: 400 }
+    );
+}
+
+// GET - Listar eventos (mais recentes primeiro)
+export async function GET(request: NextRequest) {
+    const unauthorized = authorizeAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    const validation = listQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+    if (!validation.success) return validationError(validation.error);
+
+    const { status, type, limit } = validation.data;
+
+    try {
+        const events = await prisma.webhookEvent.findMany({
+            where: { status, type },
+            orderBy: { receivedAt: 'desc' },
+            take: limit,
+        });
+
+        return NextResponse.json({ success: true, events });
+    } catch (error) {
+        console.error('❌ [Webhook Events] Erro ao listar eventos:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST - Reprocessar evento
+export async function POST(request: NextRequest) {
+    const unauthorized = authorizeAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    const body = await request.json().catch(() => null);
+    const validation = replaySchema.safeParse(body);
+    if (!validation.success) return validationError(validation.error);
+
+    try {
+        const event = await prisma.webhookEvent.findUnique({
+            where: { id: validation.data.id },
+        });
+
+        if (!event) {
+            return NextResponse.json(
+                { success: false, error: 'api.webhookEvents.notFound' },
+                { status: 404 }
+            );
+        }
+
+        if (event.status === 'processed') {
+            return NextResponse.json(
+                { success: false, error: 'api.webhookEvents.alreadyProcessed' },
+                { status: 409 }
+            );
+        }
+
+        const result = await replayWebhookEvent(event);
+
+        // Processado por uma entrega ou pelo cron enquanto o replay aguardava
+        if (result.alreadyProcessed) {
+            return NextResponse.json(
+                { success: false, error: 'api.webhookEvents.alreadyProcessed' },
+                { status: 409 }
+            );
+        }
+
+        const updated = await prisma.webhookEvent.findUnique({
+            where: { id: event.id },
+        });
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.webhookEvents.replayFailed', event: updated },
+                { status: 500 }
+            );
+        }
+
+        console.info(`✅ [Webhook Events] Evento ${event.id} reprocessado manualmente`);
+        return NextResponse.json({ success: true, event: updated });
+    } catch (error) {
+        console.error('❌ [Webhook Events] Erro ao reprocessar evento:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
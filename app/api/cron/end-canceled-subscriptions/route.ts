@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { endCanceledSubscriptions } from '@/lib/subscription-server';
+
+/**
+ * GET /api/cron/end-canceled-subscriptions (Vercel Cron; POST para execução manual)
+ *
+ * Endpoint para encerrar assinaturas com cancelamento agendado.
+ * Quando o período pago termina, marca a assinatura como canceled,
+ * remove o plano e desfaz a família (como expire-trials).
+ *
+ * Segurança: Protegido por CRON_SECRET no header Authorization.
+ */
+export async function GET(request: Request) {
+    try {
+        // Verificar secret do cron
+        const authHeader = request.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Em produção, CRON_SECRET é obrigatório
+        if (process.env.NODE_ENV === 'production' && (!cronSecret || cronSecret.trim() === '')) {
+            console.error('❌ [Cron] ERRO: CRON_SECRET não configurada em produção!');
+            return NextResponse.json({ error: 'Server misconfiguration' }, { status: 500 });
+        }
+
+        // Valida o secret (obrigatório em qualquer ambiente)
+        if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+            console.warn('⚠️  [Cron] Tentativa de acesso não autorizado ao endpoint end-canceled-subscriptions');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const canceledCount = await endCanceledSubscriptions();
+
+        console.info(`✅ [Cron] Assinaturas canceladas encerradas: ${canceledCount}`);
+        return NextResponse.json({
+            success: true,
+            canceledCount,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Cron] Erro ao encerrar assinaturas canceladas:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST para execução manual (mesma autenticação)
+ */
+export async function POST(request: Request) {
+    return GET(request);
+}
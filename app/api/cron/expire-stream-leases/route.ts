@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { expireStreamLeases } from '@/lib/stream-lease';
+
+/**
+ * GET /api/cron/expire-stream-leases (Vercel Cron; POST para execução manual)
+ * 
+ * Endpoint para remover leases de reprodução sem heartbeat.
+ * A aquisição de telas já ignora leases expirados — este job apenas
+ * evita o acúmulo de registros de players abandonados.
+ * 
+ * Segurança: Protegido por CRON_SECRET no header Authorization.
+ */
+export async function GET(request: Request) {
+    try {
+        // Verificar secret do cron
+        const authHeader = request.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Em produção, CRON_SECRET é obrigatório
+        if (process.env.NODE_ENV === 'production' && (!cronSecret || cronSecret.trim() === '')) {
+            console.error('❌ [Cron] ERRO: CRON_SECRET não configurada em produção!');
+            return NextResponse.json({ error: 'Server misconfiguration' }, { status: 500 });
+        }
+
+        // Valida o secret (obrigatório em qualquer ambiente)
+        if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+            console.warn('⚠️  [Cron] Tentativa de acesso não autorizado ao endpoint expire-stream-leases');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const expiredCount = await expireStreamLeases();
+
+        console.info(`✅ [Cron] Leases de reprodução removidos: ${expiredCount}`);
+        return NextResponse.json({
+            success: true,
+            expiredCount,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Cron] Erro ao expirar leases de reprodução:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST para execução manual (mesma autenticação)
+ */
+export async function POST(request: Request) {
+    return GET(request);
+}
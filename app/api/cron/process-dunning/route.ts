@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { processDunning } from '@/lib/subscription-server';
+
+/**
+ * GET /api/cron/process-dunning (Vercel Cron; POST para execução manual)
+ *
+ * Endpoint para a cobrança de assinaturas past_due (pagamento recusado).
+ * Envia o lembrete perto do fim da carência e, quando ela termina,
+ * expira a assinatura e desfaz a família (como expire-trials).
+ * Assinaturas ativas cujo período venceu sem renovação também entram
+ * em past_due.
+ *
+ * Segurança: Protegido por CRON_SECRET no header Authorization.
+ */
+export async function GET(request: Request) {
+    try {
+        // Verificar secret do cron
+        const authHeader = request.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Em produção, CRON_SECRET é obrigatório
+        if (process.env.NODE_ENV === 'production' && (!cronSecret || cronSecret.trim() === '')) {
+            console.error('❌ [Cron] ERRO: CRON_SECRET não configurada em produção!');
+            return NextResponse.json({ error: 'Server misconfiguration' }, { status: 500 });
+        }
+
+        // Valida o secret (obrigatório em qualquer ambiente)
+        if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+            console.warn('⚠️  [Cron] Tentativa de acesso não autorizado ao endpoint process-dunning');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { reminded, expired, lapsed } = await processDunning();
+
+        console.info(`✅ [Cron] Cobrança: ${reminded} lembrete(s), ${expired} assinatura(s) expirada(s), ${lapsed} em past_due`);
+        return NextResponse.json({
+            success: true,
+            remindedCount: reminded,
+            expiredCount: expired,
+            lapsedCount: lapsed,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Cron] Erro ao processar cobranças:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST para execução manual (mesma autenticação)
+ */
+export async function POST(request: Request) {
+    return GET(request);
+}
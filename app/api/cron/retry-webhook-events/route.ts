@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { retryWebhookEvents } from '@/lib/webhook-events-server';
+
+/**
+ * GET /api/cron/retry-webhook-events (Vercel Cron; POST para execução manual)
+ * 
+ * Endpoint para reprocessar webhooks de pagamento que falharam.
+ * Pega eventos failed com nextRetryAt vencido (backoff em
+ * WEBHOOK_RETRY_DELAYS_MINUTES) e pending interrompidos.
+ * 
+ * Segurança: Protegido por CRON_SECRET no header Authorization.
+ */
+export async function GET(request: Request) {
+    try {
+        // Verificar secret do cron
+        const authHeader = request.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Em produção, CRON_SECRET é obrigatório
+        if (process.env.NODE_ENV === 'production' && (!cronSecret || cronSecret.trim() === '')) {
+            console.error('❌ [Cron] ERRO: CRON_SECRET não configurada em produção!');
+            return NextResponse.json({ error: 'Server misconfiguration' }, { status: 500 });
+        }
+
+        // Valida o secret (obrigatório em qualquer ambiente)
+        if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+            console.warn('⚠️  [Cron] Tentativa de acesso não autorizado ao endpoint retry-webhook-events');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { processed, failed } = await retryWebhookEvents();
+
+        console.info(`✅ [Cron] Webhooks reprocessados: ${processed} (falhas: ${failed})`);
+        return NextResponse.json({
+            success: true,
+            processedCount: processed,
+            failedCount: failed,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Cron] Erro ao reprocessar webhooks:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST para execução manual (mesma autenticação)
+ */
+export async function POST(request: Request) {
+    return GET(request);
+}
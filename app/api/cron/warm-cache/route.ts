@@ -6,6 +6,7 @@ import {
     getCachedTVPageData
 } from '@/lib/tmdb-cache';
 import { metricsStore, alertSystem } from '@/lib/cache-metrics';
+import { CircuitBreaker } from '@/lib/circuit-breaker';
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
@@ -61,39 +62,6 @@ interface WarmUpReport {
 /**
  * Circuit Breaker para proteger contra sobrecarga da API TMDB
  */
-class CircuitBreaker {
-    private failures = 0;
-    private lastFailureTime = 0;
-    private readonly threshold = 3; // Máximo de falhas consecutivas
-    private readonly timeout = 60000; // 1 minuto de timeout
-
-    isOpen(): boolean {
-        if (this.failures >= this.threshold) {
-            const now = Date.now();
-            if (now - this.lastFailureTime < this.timeout) {
-                return true; // Circuit aberto (bloqueando requests)
-            }
-            // Timeout passou, resetar
-            this.reset();
-        }
-        return false;
-    }
-
-    recordSuccess(): void {
-        this.failures = 0;
-    }
-
-    recordFailure(): void {
-        this.failures++;
-        this.lastFailureTime = Date.now();
-    }
-
-    reset(): void {
-        this.failures = 0;
-        this.lastFailureTime = 0;
-    }
-}
-
 const circuitBreaker = new CircuitBreaker();
 
 /**
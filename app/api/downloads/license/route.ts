@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { hasStreamingAccess, getUserPlanInfo } from '@/lib/access';
+import {
+    getStreamingBackends,
+    selectStreamingBackends,
+    fetchFromStreamingBackends,
+    StreamingBackendsUnavailableError,
+} from '@/lib/streaming-backends';
+import { parseStreamingResponse } from '@/lib/streaming-response';
+import { createPlaybackToken, getPlaybackUrl } from '@/lib/playback-token';
+import { applyQualityEntitlement } from '@/lib/plan-entitlements';
+import { parseDataUsageMode, selectDataUsageQuality } from '@/lib/data-usage';
+import {
+    DOWNLOAD_TOKEN_TTL_SECONDS,
+    getDownloadQualityCap,
+    resolveDownloadLicenseExpiry,
+} from '@/lib/download-license';
+
+/**
+ * Licenças de download offline
+ *
+ * GET  /api/downloads/license
+ *   Renova a licença de todos os downloads do dispositivo (chamado ao reconectar).
+ *   Retorna { licenseExpiresAt } ou 403 se o plano não está mais ativo.
+ *
+ * POST /api/downloads/license
+ *   Body: { tmdbId, mediaType, season?, episode? }
+ *   Retorna a URL tokenizada que o service worker baixa (válida por
+ *   DOWNLOAD_TOKEN_TTL_SECONDS) e a expiração da licença. A qualidade segue o
+ *   limite do plano, como na reprodução online (ver lib/plan-entitlements.ts),
+ *   e a preferência de uso de dados; `quality` leva esse limite para a escolha
+ *   da variante de uma master HLS no service worker.
+ *
+ * Downloads não ocupam tela (não há lease): a reprodução offline não passa pelo servidor.
+ * Ver lib/download-license.ts.
+ */
+
+const downloadSchema = z.object({
+    tmdbId: z.number().int().positive('api.validation.positiveInteger'),
+    mediaType: z.enum(['movie', 'tv'], { message: 'api.validation.mediaTypeMovieOrTv' }),
+    season: z.number().int().positive().optional(),
+    episode: z.number().int().positive().optional(),
+}).refine((data) => data.mediaType === 'tv' || (!data.season && !data.episode), {
+    message: 'api.validation.movieNoSeasonEpisode',
+    path: ['mediaType'],
+});
+
+/**
+ * Licença para o usuário (null quando não tem acesso ao streaming)
+ */
+async function getLicense(userId: string) {
+    const [hasAccess, planInfo] = await Promise.all([
+        hasStreamingAccess(userId),
+        getUserPlanInfo(userId),
+    ]);
+
+    if (!hasAccess || !planInfo) return null;
+    return { planInfo, expiresAt: resolveDownloadLicenseExpiry(new Date(), planInfo.accessEndsAt) };
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const license = await getLicense(session.user.id);
+
+        if (!license) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subscriptionRequired' },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true, licenseExpiresAt: license.expiresAt.toISOString() },
+            { headers: { 'Cache-Control': 'private, no-store' } }
+        );
+    } catch (error) {
+        console.error('❌ Download license renewal error:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        // Temporadas inteiras pedem uma licença por episódio
+        const rateLimitResult = rateLimit(`downloads:license:${session.user.id}`, {
+            limit: 60,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = downloadSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: validation.error.issues[0]?.message || 'api.errors.invalidPayload' },
+                { status: 400 }
+            );
+        }
+
+        const { tmdbId, mediaType, season, episode } = validation.data;
+
+        const license = await getLicense(session.user.id);
+
+        if (!license) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subscriptionRequired' },
+                { status: 403 }
+            );
+        }
+
+        const backends = getStreamingBackends();
+
+        if (backends.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.serverNotConfigured' },
+                { status: 500 }
+            );
+        }
+
+        const candidates = selectStreamingBackends(backends, {
+            mediaType,
+            region: request.headers.get('x-vercel-ip-country'),
+        });
+
+        if (candidates.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.urlNotAvailable' },
+                { status: 404 }
+            );
+        }
+
+        const { backend, response } = await fetchFromStreamingBackends(candidates, {
+            tmdbId,
+            mediaType,
+            userId: session.user.id,
+            userEmail: session.user.email || 'anonymous',
+            userName: session.user.name || 'User',
+            userPlan: license.planInfo.planName,
+            maxScreens: license.planInfo.maxScreens,
+            maxQuality: license.planInfo.maxQuality,
+            hdr: license.planInfo.hdr,
+            ...(season && { season }),
+            ...(episode && { episode }),
+        });
+
+        const parsed = response.ok
+            ? parseStreamingResponse(await response.json().catch(() => null), backend)
+            : null;
+
+        if (!parsed?.success) {
+            console.error('❌ [Downloads] Backend não retornou URL para download:', {
+                backend: backend.name,
+                status: response.status,
+            });
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.urlNotAvailable' },
+                { status: 502 }
+            );
+        }
+
+        // Qualidades acima do plano ficam de fora (o backend pode não respeitar maxQuality)
+        const entitled = applyQualityEntitlement(parsed.data, license.planInfo);
+
+        if (!entitled) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.qualityNotAvailable' },
+                { status: 404 }
+            );
+        }
+
+        // Economia de dados: maior qualidade até 480p entre as do plano (como no player)
+        const preferences = await prisma.userPreferences.findUnique({
+            where: { userId: session.user.id },
+            select: { dataUsage: true },
+        });
+        const dataUsage = parseDataUsageMode(preferences?.dataUsage);
+        const label = selectDataUsageQuality(entitled.qualities, entitled.defaultQuality ?? '', dataUsage);
+        const url = entitled.qualities.find((quality) => quality.label === label)?.url ?? entitled.url;
+
+        const token = createPlaybackToken({
+            userId: session.user.id,
+            sessionId: session.session.id,
+            tmdbId,
+            mediaType,
+            season,
+            episode,
+            url,
+            exp: Math.floor(Date.now() / 1000) + DOWNLOAD_TOKEN_TTL_SECONDS,
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                url: getPlaybackUrl(token, url),
+                format: new URL(url).pathname.endsWith('.m3u8') ? 'hls' : 'mp4',
+                quality: getDownloadQualityCap(license.planInfo, dataUsage),
+                licenseExpiresAt: license.expiresAt.toISOString(),
+            },
+            { headers: { 'Cache-Control': 'private, no-store' } }
+        );
+    } catch (error) {
+        console.error('❌ Download license error:', error);
+
+        if (error instanceof StreamingBackendsUnavailableError) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: error.reason === 'timeout' ? 'api.streaming.timeout' : 'api.streaming.serverUnavailable',
+                },
+                { status: error.reason === 'timeout' ? 504 : 503 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
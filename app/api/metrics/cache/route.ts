@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { metricsStore } from '@/lib/cache-metrics';
+import { getStreamingBackendStats } from '@/lib/streaming-backends';
+import { getPlaybackTelemetryStats, FATAL_ERROR_TYPES } from '@/lib/playback-telemetry';
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
@@ -11,6 +13,7 @@ import { metricsStore } from '@/lib/cache-metrics';
  * 
  * USAGE:
  * GET /api/metrics/cache
+ * GET /api/metrics/cache?format=prometheus (inclui backends de streaming e QoE de reprodução)
  * Authorization: Bearer <ADMIN_SECRET>
  * 
  * RESPONSE (sanitizado):
@@ -46,6 +49,13 @@ export async function GET(request: NextRequest) {
         );
     }
     try {
+        if (request.nextUrl.searchParams.get('format') === 'prometheus') {
+            return new NextResponse(await generatePrometheusMetrics(), {
+                status: 200,
+                headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+            });
+        }
+
         const health = metricsStore.getHealthReport();
         
         // Calcular success rate
@@ -98,6 +108,57 @@ export async function generatePrometheusMetrics(): Promise<string> {
         ? (health.metrics.successfulOperations / health.metrics.totalOperations) * 100
         : 100;
 
+    const backendStats = getStreamingBackendStats();
+    const backendMetric = (
+        name: string,
+        type: 'counter' | 'gauge',
+        help: string,
+        value: (entry: (typeof backendStats)[number]) => number
+    ) => [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} ${type}`,
+        ...backendStats.map((entry) => `${name}{backend="${entry.name}"} ${value(entry)}`),
+    ].join('\n');
+
+    const streamingMetrics = backendStats.length === 0 ? '' : [
+        backendMetric('streaming_backend_requests_total', 'counter', 'Total number of requests sent to the streaming backend', (e) => e.requests),
+        backendMetric('streaming_backend_requests_successful', 'counter', 'Requests answered without 5xx, timeout or network error', (e) => e.successes),
+        backendMetric('streaming_backend_requests_failed', 'counter', 'Requests that failed over to the next backend', (e) => e.failures),
+        backendMetric('streaming_backend_latency_seconds_sum', 'counter', 'Sum of request latencies in seconds', (e) => e.totalLatencyMs / 1000),
+        backendMetric('streaming_backend_latency_last_ms', 'gauge', 'Latency of the last request in milliseconds', (e) => e.lastLatencyMs),
+        backendMetric('streaming_backend_circuit_open', 'gauge', 'Circuit breaker state (0=closed, 1=open)', (e) => (e.circuitOpen ? 1 : 0)),
+    ].join('\n\n');
+
+    const playbackStats = getPlaybackTelemetryStats();
+    const playbackLabels = (entry: (typeof playbackStats)[number]) =>
+        `backend="${entry.backend}",media_type="${entry.mediaType}",tmdb_id="${entry.tmdbId}"`;
+    const playbackMetric = (
+        name: string,
+        help: string,
+        value: (entry: (typeof playbackStats)[number]) => number
+    ) => [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} counter`,
+        ...playbackStats.map((entry) => `${name}{${playbackLabels(entry)}} ${value(entry)}`),
+    ].join('\n');
+
+    const playbackMetrics = playbackStats.length === 0 ? '' : [
+        playbackMetric('playback_sessions_total', 'Playback sessions started', (e) => e.sessions),
+        playbackMetric('playback_startup_seconds_sum', 'Sum of time from load to first frame in seconds', (e) => e.startupMsSum / 1000),
+        playbackMetric('playback_startup_seconds_count', 'Sessions that reached the first frame', (e) => e.startupCount),
+        playbackMetric('playback_rebuffer_events_total', 'Stalls after startup (seeks excluded)', (e) => e.rebufferCount),
+        playbackMetric('playback_rebuffer_seconds_total', 'Time spent stalled after startup in seconds', (e) => e.rebufferMs / 1000),
+        playbackMetric('playback_quality_switches_total', 'Rendition switches (automatic and manual)', (e) => e.qualitySwitches),
+        playbackMetric('playback_dropped_frames_total', 'Dropped video frames', (e) => e.droppedFrames),
+        [
+            '# HELP playback_fatal_errors_total Fatal playback errors by type',
+            '# TYPE playback_fatal_errors_total counter',
+            ...playbackStats.flatMap((entry) => FATAL_ERROR_TYPES.map((type) =>
+                `playback_fatal_errors_total{${playbackLabels(entry)},type="${type}"} ${entry.fatalErrors[type]}`
+            )),
+        ].join('\n'),
+    ].join('\n\n');
+
     return `
 # HELP tmdb_cache_operations_total Total number of cache operations
 # TYPE tmdb_cache_operations_total counter
@@ -134,5 +195,9 @@ tmdb_cache_uptime_seconds ${Math.floor(health.uptime / 1000)}
 # HELP tmdb_cache_health_status Health status (0=healthy, 1=degraded, 2=unhealthy)
 # TYPE tmdb_cache_health_status gauge
 tmdb_cache_health_status ${health.status === 'healthy' ? 0 : health.status === 'degraded' ? 1 : 2}
+
+${streamingMetrics}
+
+${playbackMetrics}
 `.trim();
 }
@@ -78,6 +78,7 @@ export async function POST(request: NextRequest) {
                     id: true,
                     planId: true,
                     familyMember: true,
+                    subscription: { select: { status: true } },
                 }
             }),
             prisma.plan.findUnique({
@@ -117,7 +118,8 @@ export async function POST(request: NextRequest) {
         // 4. VALIDAÇÕES DE NEGÓCIO
         // ─────────────────────────────────────────────────────────────
 
-        if (user.planId === planId) {
+        // past_due pode pagar o mesmo plano para quitar a cobrança recusada
+        if (user.planId === planId && user.subscription?.status !== 'past_due') {
             return NextResponse.json(
                 { error: 'api.payment.alreadySubscribed' },
                 { status: 400 }
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { getStreamingBackends } from '@/lib/streaming-backends';
+import { playbackTelemetrySchema, recordPlaybackTelemetry } from '@/lib/playback-telemetry';
+
+/**
+ * Ingestão de telemetria de reprodução (Quality of Experience).
+ *
+ * POST /api/playback/telemetry
+ * Enviado pelo VideoPlayer via navigator.sendBeacon (a cada minuto e ao sair):
+ * tempo de início, rebuffers, trocas de qualidade, frames perdidos e erros fatais.
+ *
+ * Os totais por backend + título aparecem em /api/metrics/cache?format=prometheus
+ * (ver lib/playback-telemetry.ts).
+ *
+ * Respostas:
+ * - 204: beacon registrado
+ * - 400: payload inválido
+ */
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.unauthenticated' },
+                { status: 401 }
+            );
+        }
+
+        // Beacons chegam a cada ~60s por player; folga para várias abas e flushes ao sair
+        const rateLimitResult = rateLimit(`playback:telemetry:${session.user.id}`, {
+            limit: 30,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        // sendBeacon envia como Blob; ler como texto evita depender do Content-Type
+        const body = await request.text().then((text) => JSON.parse(text)).catch(() => null);
+        const validation = playbackTelemetrySchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.invalidPayload' },
+                { status: 400, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        recordPlaybackTelemetry(
+            validation.data,
+            getStreamingBackends().map((backend) => backend.name)
+        );
+
+        return new NextResponse(null, {
+            status: 204,
+            headers: getRateLimitHeaders(rateLimitResult),
+        });
+    } catch (error) {
+        console.error('❌ [Playback Telemetry] Erro ao registrar beacon:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
@@ -5,6 +5,8 @@ import { prisma } from '@/lib/prisma';
 import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
 import { z } from 'zod';
 import { SUPPORTED_LANGUAGES, parseAcceptLanguage } from '@/lib/language';
+import { MAX_SHORTCUTS_PER_ACTION, parseShortcutOverrides, SHORTCUT_ACTIONS } from '@/lib/keyboard-shortcuts';
+import { DATA_USAGE_MODES } from '@/lib/data-usage';
 
 // Schema de validação para preferências
 const preferencesSchema = z.object({
@@ -24,6 +26,14 @@ const preferencesSchema = z.object({
     pushNewReleases: z.boolean().optional(),
     pushRecommendations: z.boolean().optional(),
     pushAccountAlerts: z.boolean().optional(),
+    autoSkipIntro: z.boolean().optional(),
+    stillWatchingEpisodes: z.number().int().min(0).max(10).optional(),
+    stillWatchingMinutes: z.number().int().min(0).max(600).optional(),
+    keyboardShortcuts: z.partialRecord(
+        z.enum(SHORTCUT_ACTIONS),
+        z.array(z.string().min(1).max(24)).max(MAX_SHORTCUTS_PER_ACTION)
+    ).transform(parseShortcutOverrides).optional(),
+    dataUsage: z.enum(DATA_USAGE_MODES).optional(),
 }).strict();
 
 /**
@@ -86,6 +96,11 @@ export async function GET() {
                 pushNewReleases: true,
                 pushRecommendations: false,
                 pushAccountAlerts: true,
+                autoSkipIntro: false,
+                stillWatchingEpisodes: 3,
+                stillWatchingMinutes: 0,
+                keyboardShortcuts: {},
+                dataUsage: 'auto',
             },
         });
     } catch (error) {
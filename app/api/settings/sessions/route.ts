@@ -18,6 +18,10 @@ const deleteSessionSchema = z.object({
  * API para gerenciar sessões ativas do usuário
  * - GET: Listar todas as sessões
  * - DELETE: Revogar sessão específica ou todas as outras
+ *
+ * Revogar uma sessão também invalida seus tokens de reprodução
+ * (a rota /api/streaming/play exige a sessão de origem) e libera
+ * as telas que ela ocupava.
  */
 
 // GET - Listar sessões ativas
@@ -115,12 +119,20 @@ export async function DELETE(request: NextRequest) {
 
         if (all) {
             // Revogar todas as sessões exceto a atual
-            await prisma.session.deleteMany({
-                where: {
-                    userId: session.user.id,
-                    id: { not: session.session.id },
-                },
-            });
+            await prisma.$transaction([
+                prisma.streamLease.deleteMany({
+                    where: {
+                        userId: session.user.id,
+                        sessionId: { not: session.session.id },
+                    },
+                }),
+                prisma.session.deleteMany({
+                    where: {
+                        userId: session.user.id,
+                        id: { not: session.session.id },
+                    },
+                }),
+            ]);
 
             return new NextResponse(null, {
                 status: 204,
@@ -156,9 +168,14 @@ export async function DELETE(request: NextRequest) {
             );
         }
 
-        await prisma.session.delete({
-            where: { id: sessionId },
-        });
+        await prisma.$transaction([
+            prisma.streamLease.deleteMany({
+                where: { sessionId, userId: session.user.id },
+            }),
+            prisma.session.delete({
+                where: { id: sessionId },
+            }),
+        ]);
 
         return new NextResponse(null, {
             status: 204,
@@ -3,14 +3,22 @@ import { auth } from '@/lib/auth';
 import { headers } from 'next/headers';
 import { prisma } from '@/lib/prisma';
 import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { isCurrentSubscription } from '@/lib/subscription';
+import { cancelSubscription, scheduleSubscriptionCancellation } from '@/lib/subscription-server';
 
 /**
  * API para cancelar assinatura do usuário autenticado.
  *
  * Política atual:
- * - Cancelamento imediato
- * - Remove plano ativo e trial associado
- * - Reverte maxScreens para 1
+ * - Cancelamento no fim do período (cancelAtPeriodEnd): o acesso, inclusive da
+ *   família, continua até currentPeriodEnd; membros são avisados por email
+ * - Assinaturas pagas avisam o gateway (relay de pagamento) para não renovar;
+ *   se o gateway recusar, nada é cancelado e a rota responde 500
+ * - O cron end-canceled-subscriptions faz o downgrade (remove plano, reverte
+ *   maxScreens para 1 e desfaz a família)
+ * - past_due (período já vencido) é cancelada na hora
+ * - Pode ser desfeito com POST /api/settings/subscription/resume
+ * - 404 sem assinatura vigente
  */
 export async function POST() {
     try {
@@ -37,84 +45,37 @@ export async function POST() {
             );
         }
 
-        const user = await prisma.user.findUnique({
-            where: { id: session.user.id },
-            select: {
-                id: true,
-                planId: true,
-                familyMember: true,
-            },
+        const subscription = await prisma.subscription.findUnique({
+            where: { userId: session.user.id },
         });
 
-        if (!user) {
-            return NextResponse.json(
-                { error: 'api.subscription.userNotFound' },
-                { status: 404, headers: getRateLimitHeaders(rateLimitResult) }
-            );
-        }
+        if (!isCurrentSubscription(subscription)) {
+            // Membros de família NÃO podem cancelar plano (usam plano do owner)
+            const user = await prisma.user.findUnique({
+                where: { id: session.user.id },
+                select: { familyMember: true },
+            });
 
-        // Membros de família NÃO podem cancelar plano (usam plano do owner)
-        if (user.familyMember && user.familyMember.length > 0) {
-            return NextResponse.json(
-                { error: 'api.family.familyMemberCancelError' },
-                { status: 403, headers: getRateLimitHeaders(rateLimitResult) }
-            );
-        }
+            if (user?.familyMember && user.familyMember.length > 0) {
+                return NextResponse.json(
+                    { error: 'api.family.familyMemberCancelError' },
+                    { status: 403, headers: getRateLimitHeaders(rateLimitResult) }
+                );
+            }
 
-        if (!user.planId) {
             return NextResponse.json(
                 { error: 'api.subscription.noActiveSubscription' },
-                { status: 400, headers: getRateLimitHeaders(rateLimitResult) }
+                { status: 404, headers: getRateLimitHeaders(rateLimitResult) }
             );
         }
 
-        // Cancelamento em transação atômica
-        // Remove membros da família e revoga convites pendentes
-        await prisma.$transaction(async (tx) => {
-            // Buscar família do owner
-            const family = await tx.family.findUnique({
-                where: { ownerId: session.user.id },
-                include: {
-                    members: true,
-                    invites: { where: { status: 'pending' } }
-                },
-            });
-
-            if (family) {
-                // Remover todos os membros
-                if (family.members.length > 0) {
-                    await tx.familyMember.deleteMany({
-                        where: { familyId: family.id },
-                    });
-                    console.log(`[Cancel] Removed ${family.members.length} member(s) from family`);
-                }
-
-                // Revogar convites pendentes
-                if (family.invites.length > 0) {
-                    await tx.familyInvite.updateMany({
-                        where: { familyId: family.id, status: 'pending' },
-                        data: { status: 'revoked' },
-                    });
-                    console.log(`[Cancel] Revoked ${family.invites.length} pending invite(s)`);
-                }
-
-                // Deletar família
-                await tx.family.delete({
-                    where: { id: family.id },
-                });
-                console.log('[Cancel] Family deleted');
-            }
-
-            // Cancelar plano do usuário
-            await tx.user.update({
-                where: { id: session.user.id },
-                data: {
-                    planId: null,
-                    maxScreens: 1,
-                    trialEndsAt: null,
-                },
-            });
-        });
+        if (subscription.status === 'past_due') {
+            // Cancelamento em transação atômica
+            // Marca a assinatura como canceled, remove membros da família e revoga convites pendentes
+            await cancelSubscription(subscription);
+        } else if (!subscription.cancelAtPeriodEnd) {
+            await scheduleSubscriptionCancellation(subscription);
+        }
 
         return new NextResponse(null, {
             status: 204,
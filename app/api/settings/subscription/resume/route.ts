@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { hasPendingCancellation } from '@/lib/subscription';
+import { resumeSubscription } from '@/lib/subscription-server';
+
+/**
+ * API para retomar a assinatura do usuário autenticado.
+ *
+ * Desfaz um cancelamento agendado (cancelAtPeriodEnd) enquanto o período
+ * atual não terminou; o gateway é avisado e a assinatura volta a renovar.
+ * - 404 sem cancelamento pendente
+ */
+export async function POST() {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: 'api.errors.unauthenticated' },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitResult = rateLimit(`subscription:resume:${session.user.id}`, {
+            limit: 5,
+            interval: 3600,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { error: 'api.errors.rateLimitRetry' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const subscription = await prisma.subscription.findUnique({
+            where: { userId: session.user.id },
+        });
+
+        if (!subscription || !hasPendingCancellation(subscription)) {
+            return NextResponse.json(
+                { error: 'api.subscription.noPendingCancellation' },
+                { status: 404, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        await resumeSubscription(subscription);
+
+        return new NextResponse(null, {
+            status: 204,
+            headers: getRateLimitHeaders(rateLimitResult)
+        });
+    } catch (error) {
+        console.error('Error resuming subscription:', error);
+        return NextResponse.json(
+            { error: 'api.subscription.resumeError' },
+            { status: 500 }
+        );
+    }
+}
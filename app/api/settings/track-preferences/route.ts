@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { z } from 'zod';
+import { isLocalSubtitleLanguage, type SeriesTrackPreference } from '@/lib/track-preferences';
+
+/**
+ * API de faixas de áudio/legenda por série
+ * - GET ?tmdbId=1396: Última escolha do usuário para a série (ou null)
+ * - PUT: Salvar escolha manual feita no player
+ *
+ * Os próximos episódios da série começam com essas faixas; se a faixa não
+ * existir no episódio, vale a preferência global (ver lib/track-preferences.ts).
+ */
+
+const tmdbIdSchema = z.coerce.number().int().positive('api.validation.positiveInteger');
+
+const languageSchema = z.string().min(2).max(35)
+    .refine((language) => !isLocalSubtitleLanguage(language), 'api.errors.badRequest');
+
+const trackSelectionSchema = z.object({
+    tmdbId: tmdbIdSchema,
+    audioLang: languageSchema.optional(),
+    // null = legendas desligadas
+    subtitleLang: languageSchema.nullable().optional(),
+}).strict();
+
+// GET - Buscar faixas salvas da série
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: 'api.errors.unauthenticated' },
+                { status: 401 }
+            );
+        }
+
+        const validation = tmdbIdSchema.safeParse(request.nextUrl.searchParams.get('tmdbId'));
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error.issues[0]?.message || 'api.errors.badRequest' },
+                { status: 400 }
+            );
+        }
+
+        const rateLimitResult = rateLimit(`track-prefs:get:${session.user.id}`, {
+            limit: 60,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { error: 'api.errors.rateLimitExceeded' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const saved = await prisma.seriesTrackPreference.findUnique({
+            where: {
+                userId_tmdbId: { userId: session.user.id, tmdbId: validation.data },
+            },
+            select: { audioLang: true, subtitleLang: true, subtitlesEnabled: true },
+        });
+
+        const trackPreference: SeriesTrackPreference | null = saved;
+
+        return NextResponse.json({ trackPreference });
+    } catch (error) {
+        console.error('Error fetching track preferences:', error);
+        return NextResponse.json(
+            { error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT - Salvar escolha de faixas
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: 'api.errors.unauthenticated' },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitResult = rateLimit(`track-prefs:put:${session.user.id}`, {
+            limit: 30,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = trackSelectionSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error.issues[0]?.message || 'api.errors.badRequest' },
+                { status: 400, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const { tmdbId, audioLang, subtitleLang } = validation.data;
+
+        if (audioLang === undefined && subtitleLang === undefined) {
+            return NextResponse.json(
+                { error: 'api.settings.noValidFields' },
+                { status: 400, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        // Desligar legendas mantém o último idioma (volta nele ao religar)
+        const data = {
+            ...(audioLang !== undefined && { audioLang }),
+            ...(subtitleLang === null && { subtitlesEnabled: false }),
+            ...(typeof subtitleLang === 'string' && { subtitleLang, subtitlesEnabled: true }),
+        };
+
+        await prisma.seriesTrackPreference.upsert({
+            where: {
+                userId_tmdbId: { userId: session.user.id, tmdbId },
+            },
+            update: data,
+            create: {
+                userId: session.user.id,
+                tmdbId,
+                ...data,
+            },
+        });
+
+        return new NextResponse(null, {
+            status: 204,
+            headers: getRateLimitHeaders(rateLimitResult)
+        });
+    } catch (error) {
+        console.error('Error updating track preferences:', error);
+        return NextResponse.json(
+            { error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
@@ -23,6 +23,10 @@ interface StreamingRequest {
     userName: string | null;
     userPlan: string;
     maxScreens: number;
+    /** Resolução máxima do plano: "720p", "1080p" ou "4K" */
+    maxQuality?: string;
+    /** Se o plano inclui HDR */
+    hdr?: boolean;
     season?: number;
     episode?: number;
 }
@@ -89,14 +93,16 @@ export async function POST(request: NextRequest) {
         // Pegar vídeo específico ou usar Big Buck Bunny como padrão
         const baseVideoUrl = testVideos[body.tmdbId.toString()] || testVideos['550'];
 
-        // Retornar qualidade disponível dos vídeos de exemplo
+        // Retornar qualidades disponíveis dos vídeos de exemplo, até o limite do plano
         // Na produção, você retornaria as qualidades disponíveis para cada vídeo
+        // (o get-url também remove o que passar de maxQuality/hdr)
         const qualities = [
+            { label: '720p', url: baseVideoUrl, bitrate: 2500 },
             { label: '1080p', url: baseVideoUrl, bitrate: 5000 },
-        ];
+        ].filter((quality) => body.maxQuality !== '720p' || quality.label === '720p');
 
-        // Qualidade padrão (única disponível nos exemplos)
-        const defaultQuality = '1080p';
+        // Qualidade padrão (a maior permitida pelo plano)
+        const defaultQuality = qualities[qualities.length - 1].label;
 
         // Legendas de exemplo (VTT local - sem problemas de CORS)
         // Na produção, você hospedaria as legendas no seu próprio servidor/CDN
@@ -127,6 +133,14 @@ export async function POST(request: NextRequest) {
         //     { label: 'English', language: 'en' },
         //     { label: 'Español', language: 'es' },
         // ];
+
+        // Marcadores de abertura/recapitulação/créditos (em segundos)
+        // Os vídeos de exemplo não têm abertura, então nada é enviado. Exemplo:
+        // const markers = [
+        //     { type: 'intro', startSeconds: 30, endSeconds: 95 },
+        //     { type: 'credits', startSeconds: 2520, endSeconds: 2640 },
+        // ];
+        // Marcadores cadastrados em /api/admin/segment-markers têm prioridade sobre estes
         // ============================================
         // MONTANDO A RESPOSTA
         // ============================================
@@ -134,21 +148,35 @@ export async function POST(request: NextRequest) {
         // REGRAS IMPORTANTES:
         // 1. "url" (obrigatório): URL principal do vídeo
         // 2. "qualities" (opcional): Array com múltiplas qualidades disponíveis
-        //    - Neste exemplo: apenas 1080p (resolução real dos vídeos)
-        //    - Em produção: retorne apenas as qualidades que realmente existem
+        //    - Neste exemplo: 720p e 1080p (mesmo arquivo)
+        //    - Em produção: retorne apenas as qualidades que realmente existem,
+        //      até o maxQuality do plano (e sem HDR se hdr for false)
         // 3. "defaultQuality" (opcional): Qualidade recomendada baseada no plano
-        // 4. "subtitles" (opcional): Array de legendas (.vtt)
+        // 4. "subtitles" (opcional): Array de legendas (.vtt, .srt, .ass/.ssa ou .ttml)
+        //    - Arquivos que não são .vtt são convertidos em /api/streaming/subtitles
         // 5. "audioTracks" (opcional): SOMENTE se houver 2+ faixas de áudio
         //    ❌ NÃO envie para vídeos MP4 simples
         //    ✅ Envie para HLS/DASH com múltiplas faixas
+        // 6. "version" (opcional, padrão 1): versão do formato da resposta
+        // 7. "capabilities" (opcional, version >= 2): recursos extras do backend
+        // 8. "markers" (opcional): abertura/recapitulação/créditos, um por tipo
+        //
+        // URLs relativas são resolvidas contra a URL do backend e entradas
+        // malformadas são descartadas (ver lib/streaming-response.ts)
         //
         const response = {
+            version: 2,
             url: baseVideoUrl, // URL padrão
-            qualities, // Array com apenas 1080p
-            defaultQuality, // 1080p
+            qualities, // 720p e 1080p (conforme o plano)
+            defaultQuality, // Maior qualidade permitida
             subtitles, // Array de legendas
             // audioTracks, // NÃO ENVIAR para vídeos simples (comentado propositalmente)
             expiresAt: new Date(Date.now() + 3600 * 1000).toISOString(),
+            capabilities: {
+                drm: false,
+                trickplay: false,
+                chapters: false,
+            },
         };
 
         return NextResponse.json(response);
@@ -179,14 +207,22 @@ export async function GET() {
                     mediaType: '"movie" | "tv" (required)',
                     userId: 'string (required)',
                     userPlan: 'string (required)',
+                    maxQuality: '"720p" | "1080p" | "4K" (plan cap, filter qualities above it)',
+                    hdr: 'boolean (false = omit HDR qualities)',
                     season: 'number (optional, for TV shows)',
                     episode: 'number (optional, for TV shows)',
                 },
                 response: {
+                    version: 'number (optional, default 1)',
                     url: 'string (required)',
+                    qualities: 'array of { label, url, bitrate? } (optional)',
+                    defaultQuality: 'string (optional, must match a quality label)',
                     quality: 'string (optional)',
-                    expiresAt: 'string (optional)',
-                    subtitles: 'array (optional)',
+                    expiresAt: 'string (optional, ISO 8601)',
+                    subtitles: 'array of { label, language, src } (optional, src: WebVTT, SRT, ASS/SSA or TTML)',
+                    audioTracks: 'array of { label, language } (optional)',
+                    capabilities: '{ drm, trickplay, chapters } (optional, version >= 2)',
+                    markers: 'array of { type: "intro" | "recap" | "credits", startSeconds, endSeconds } (optional)',
                 },
             },
         },
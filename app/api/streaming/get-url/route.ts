@@ -2,14 +2,40 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { APP_URL, STREAMING_API_URL, STREAMING_API_TOKEN } from '@/lib/config';
 import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { acquireStreamLease } from '@/lib/stream-lease';
+import {
+    getStreamingBackends,
+    selectStreamingBackends,
+    fetchFromStreamingBackends,
+    StreamingBackendsUnavailableError,
+} from '@/lib/streaming-backends';
+import { parseStreamingResponse } from '@/lib/streaming-response';
+import {
+    createPlaybackToken,
+    getPlaybackUrl,
+    getSubtitleUrl,
+    resolvePlaybackTokenExpiry,
+    SUBTITLE_TOKEN_TTL_SECONDS,
+} from '@/lib/playback-token';
+import { isWebVttUrl } from '@/lib/subtitle-converter';
+import { mergeSegmentMarkers } from '@/lib/segment-markers';
+import { getStoredSegmentMarkers } from '@/lib/segment-markers-server';
+import { saveChapters } from '@/lib/chapters-server';
+import { applyQualityEntitlement } from '@/lib/plan-entitlements';
 
 /**
  * Streaming proxy endpoint that validates authentication and forwards requests to external backend.
  * 
  * This endpoint doesn't know where videos come from - it only validates auth/plans and proxies
- * requests to STREAMING_API_URL configured in environment variables.
+ * requests to the streaming backends configured in environment variables (STREAMING_BACKENDS or
+ * STREAMING_API_URL), failing over to the next backend on 5xx/timeouts (see lib/streaming-backends.ts).
+ * 
+ * Qualities above the caller's plan (own or family owner's) are removed and the cap is sent to the
+ * backend as `maxQuality`/`hdr` (see lib/plan-entitlements.ts).
+ * 
+ * Video URLs are never sent to the browser as-is: each one is replaced by a short-lived signed
+ * playback token (see lib/playback-token.ts) resolved by /api/streaming/play/[token]/[filename].
  * 
  * @see /docs/STREAMING_API_IMPLEMENTATION.md for backend implementation guide
  */
@@ -109,24 +135,38 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        let streamingApiUrl = STREAMING_API_URL;
-
-        // Fallback to example backend in development mode
-        if (!streamingApiUrl || streamingApiUrl.trim() === '') {
-            if (process.env.NODE_ENV === 'development') {
-                console.warn('⚠️  [Streaming] STREAMING_API_URL não configurada - usando backend de exemplo');
-                streamingApiUrl = `${APP_URL}/api/streaming/example`;
-            } else {
-                console.error('❌ [Streaming] ERRO: STREAMING_API_URL não configurada em produção!');
-                console.error('Configure STREAMING_API_URL no arquivo .env ou nas variáveis de ambiente.');
-                return NextResponse.json(
-                    {
-                        success: false,
-                        error: 'api.streaming.serverNotConfigured'
-                    },
-                    { status: 500 }
-                );
-            }
+        // 4. Buscar a fonte nos backends
+        const seasonNumber = mediaType === 'tv' ? (season || 1) : 0;
+        const episodeNumber = mediaType === 'tv' ? (episode || 1) : 0;
+
+        const backends = getStreamingBackends();
+
+        if (backends.length === 0) {
+            console.error('❌ [Streaming] ERRO: nenhum backend de streaming configurado em produção!');
+            console.error('Configure STREAMING_BACKENDS ou STREAMING_API_URL no arquivo .env ou nas variáveis de ambiente.');
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'api.streaming.serverNotConfigured'
+                },
+                { status: 500 }
+            );
+        }
+
+        // Backends que atendem o conteúdo e a região do usuário (país via Vercel)
+        const candidates = selectStreamingBackends(backends, {
+            mediaType,
+            region: request.headers.get('x-vercel-ip-country'),
+        });
+
+        if (candidates.length === 0) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'api.streaming.urlNotAvailable'
+                },
+                { status: 404 }
+            );
         }
 
         const payload = {
@@ -137,28 +177,17 @@ export async function GET(request: NextRequest) {
             userName: session.user.name || 'User',
             userPlan: planInfo.planName,
             maxScreens: planInfo.maxScreens,
+            maxQuality: planInfo.maxQuality,
+            hdr: planInfo.hdr,
             ...(season && { season }),
             ...(episode && { episode }),
         };
-        const apiToken = STREAMING_API_TOKEN;
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-        };
-
-        if (apiToken) {
-            headers['Authorization'] = `Bearer ${apiToken}`;
-        }
-
-        const response = await fetch(streamingApiUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(payload),
-            signal: AbortSignal.timeout(10000),
-        });
+        const { backend, response } = await fetchFromStreamingBackends(candidates, payload);
 
         if (!response.ok) {
             const errorText = await response.text().catch(() => 'Unknown error');
             console.error('❌ External API error:', {
+                backend: backend.name,
                 status: response.status,
                 statusText: response.statusText,
                 body: errorText,
@@ -173,10 +202,14 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        const data = await response.json();
+        // Validar contrato da resposta (entradas malformadas são descartadas)
+        const parsed = parseStreamingResponse(await response.json().catch(() => null), backend);
 
-        if (!data.url) {
-            console.error('❌ External API did not return URL:', data);
+        if (!parsed.success) {
+            console.error('❌ External API returned an invalid response:', {
+                backend: backend.name,
+                issue: parsed.issue,
+            });
             return NextResponse.json(
                 {
                     success: false,
@@ -186,11 +219,48 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        // Track viewing history for analytics
-        // Determinar season/episode baseado em mediaType
-        const seasonNumber = mediaType === 'tv' ? (season || 1) : 0;
-        const episodeNumber = mediaType === 'tv' ? (episode || 1) : 0;
+        // Qualidades acima do plano ficam de fora (o backend pode não respeitar maxQuality)
+        const entitled = applyQualityEntitlement(parsed.data, planInfo);
+
+        if (!entitled) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'api.streaming.qualityNotAvailable'
+                },
+                { status: 404 }
+            );
+        }
 
+        // 5. Reservar uma tela do plano (membros de família usam as telas do owner).
+        // Só depois de haver fonte reproduzível: uma tentativa que falha antes
+        // disso não segura tela nenhuma até o TTL
+        const lease = await acquireStreamLease({
+            userId: session.user.id,
+            accountOwnerId: planInfo.accountOwnerId,
+            sessionId: session.session.id,
+            maxScreens: planInfo.maxScreens,
+            tmdbId,
+            mediaType,
+            seasonNumber,
+            episodeNumber,
+            userAgent: request.headers.get('user-agent'),
+            ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip'),
+        });
+
+        if (!lease.acquired) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'api.streaming.tooManyScreens',
+                    maxScreens: planInfo.maxScreens,
+                    activeStreams: lease.activeStreams,
+                },
+                { status: 409 }
+            );
+        }
+
+        // Track viewing history for analytics
         await prisma.watchHistory.upsert({
             where: {
                 userId_tmdbId_mediaType_seasonNumber_episodeNumber: {
@@ -216,20 +286,95 @@ export async function GET(request: NextRequest) {
             console.error('Failed to track watch history:', error.message);
         });
 
+        const data = parsed.data;
+
+        // Marcadores cadastrados por admins substituem os do backend (por tipo)
+        const storedMarkers = await getStoredSegmentMarkers(tmdbId, mediaType, seasonNumber, episodeNumber)
+            .catch((error) => {
+                console.error('Failed to load segment markers:', error);
+                return [];
+            });
+        const markers = mergeSegmentMarkers(storedMarkers, data.markers);
+
+        // Capítulos ficam salvos para a página de detalhes (não bloqueia a resposta)
+        if (data.chapters.length > 0) {
+            saveChapters(tmdbId, mediaType, seasonNumber, episodeNumber, data.chapters).catch((error) => {
+                console.error('Failed to save chapters:', error);
+            });
+        }
+
+        // Trocar URLs reais por tokens assinados (amarrados a usuário, sessão e conteúdo)
+        const tokenExp = resolvePlaybackTokenExpiry(data.expiresAt);
+        const signUrl = (absoluteUrl: string) => {
+            const token = createPlaybackToken({
+                userId: session.user.id,
+                sessionId: session.session.id,
+                tmdbId,
+                mediaType,
+                season,
+                episode,
+                url: absoluteUrl,
+                exp: tokenExp,
+            });
+            return getPlaybackUrl(token, absoluteUrl);
+        };
+
+        // Legendas fora de WebVTT passam pelo conversor (<track> só aceita WebVTT)
+        const subtitleTokenExp = Math.floor(Date.now() / 1000) + SUBTITLE_TOKEN_TTL_SECONDS;
+        const subtitles = data.subtitles.map((subtitle) => {
+            if (isWebVttUrl(subtitle.src)) return subtitle;
+
+            const token = createPlaybackToken({
+                userId: session.user.id,
+                sessionId: session.session.id,
+                tmdbId,
+                mediaType,
+                season,
+                episode,
+                url: subtitle.src,
+                exp: subtitleTokenExp,
+            });
+            return { ...subtitle, src: getSubtitleUrl(token, subtitle.src) };
+        });
+
         return NextResponse.json({
             success: true,
-            url: data.url,
-            ...(data.qualities && { qualities: data.qualities }),
-            ...(data.defaultQuality && { defaultQuality: data.defaultQuality }),
-            ...(data.subtitles && { subtitles: data.subtitles }),
-            ...(data.audioTracks && { audioTracks: data.audioTracks }),
+            url: signUrl(entitled.url),
+            ...(entitled.qualities.length > 0 && {
+                qualities: entitled.qualities.map((quality) => ({
+                    ...quality,
+                    url: signUrl(quality.url),
+                })),
+            }),
+            ...(entitled.defaultQuality && { defaultQuality: entitled.defaultQuality }),
+            ...(subtitles.length > 0 && { subtitles }),
+            ...(data.audioTracks.length > 0 && { audioTracks: data.audioTracks }),
+            // Expiração da fonte no backend: o token só protege o primeiro redirect,
+            // depois o player segue na URL real (token vencido → retry único após 403)
             ...(data.expiresAt && { expiresAt: data.expiresAt }),
             ...(data.quality && { quality: data.quality }),
+            capabilities: data.capabilities,
+            ...(markers.length > 0 && { markers }),
+            ...(data.thumbnails && { thumbnails: signUrl(data.thumbnails) }),
+            ...(data.chapters.length > 0 && { chapters: data.chapters }),
+            backend: backend.name,
+            leaseId: lease.leaseId,
         });
 
     } catch (error: any) {
         console.error('❌ Streaming proxy error:', error);
 
+        // Todos os backends falharam (failover esgotado ou circuits abertos)
+        if (error instanceof StreamingBackendsUnavailableError) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: error.reason === 'timeout' ? 'api.streaming.timeout' : 'api.streaming.serverUnavailable'
+                },
+                { status: error.reason === 'timeout' ? 504 : 503 }
+            );
+        }
+
         if (error.name === 'AbortError' || error.name === 'TimeoutError') {
             return NextResponse.json(
                 {
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { hasStreamingAccess, getUserPlanInfo } from '@/lib/access';
+import { renewStreamLease, releaseStreamLease } from '@/lib/stream-lease';
+
+/**
+ * Heartbeat do player — mantém o lease de tela ativo enquanto o vídeo reproduz.
+ *
+ * - POST: renova o lease (chamado periodicamente pelo VideoPlayer)
+ * - DELETE: libera o lease ao sair do player
+ *
+ * Respostas do POST:
+ * - 200: lease renovado
+ * - 409: lease expirou e todas as telas estão ocupadas
+ * - 410: lease foi encerrado por outro dispositivo da conta
+ */
+
+const heartbeatSchema = z.object({
+    leaseId: z.string().cuid('api.streaming.invalidLease'),
+});
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitResult = rateLimit(`streaming:heartbeat:${session.user.id}`, {
+            limit: 20,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = heartbeatSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: validation.error.issues[0].message },
+                { status: 400 }
+            );
+        }
+
+        const [hasAccess, planInfo] = await Promise.all([
+            hasStreamingAccess(session.user.id),
+            getUserPlanInfo(session.user.id),
+        ]);
+
+        if (!hasAccess || !planInfo) {
+            await releaseStreamLease(validation.data.leaseId, planInfo?.accountOwnerId ?? session.user.id);
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subscriptionRequired' },
+                { status: 403 }
+            );
+        }
+
+        const result = await renewStreamLease(
+            validation.data.leaseId,
+            session.user.id,
+            planInfo.maxScreens
+        );
+
+        if (result.status === 'revoked') {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.leaseRevoked' },
+                { status: 410 }
+            );
+        }
+
+        if (result.status === 'limit_reached') {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.tooManyScreens' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            expiresAt: result.expiresAt.toISOString(),
+        });
+    } catch (error) {
+        console.error('❌ Streaming heartbeat error:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = heartbeatSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: validation.error.issues[0].message },
+                { status: 400 }
+            );
+        }
+
+        const planInfo = await getUserPlanInfo(session.user.id);
+        await releaseStreamLease(
+            validation.data.leaseId,
+            planInfo?.accountOwnerId ?? session.user.id
+        );
+
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        console.error('❌ Streaming lease release error:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
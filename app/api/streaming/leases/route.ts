@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { getUserPlanInfo } from '@/lib/access';
+import { listActiveStreams, releaseStreamLease } from '@/lib/stream-lease';
+
+/**
+ * Dispositivos reproduzindo na conta (owner + membros da família).
+ *
+ * - GET: lista os streams ativos que ocupam telas do plano
+ * - DELETE: desconecta um dispositivo para liberar uma tela
+ */
+
+const kickSchema = z.object({
+    leaseId: z.string().cuid('api.streaming.invalidLease'),
+});
+
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const planInfo = await getUserPlanInfo(session.user.id);
+
+        if (!planInfo) {
+            return NextResponse.json({ success: true, maxScreens: 0, activeStreams: [] });
+        }
+
+        const activeStreams = await listActiveStreams(planInfo.accountOwnerId, session.session.id);
+
+        return NextResponse.json({
+            success: true,
+            maxScreens: planInfo.maxScreens,
+            activeStreams,
+        });
+    } catch (error) {
+        console.error('❌ Error listing active streams:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitResult = rateLimit(`streaming:kick:${session.user.id}`, {
+            limit: 10,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = kickSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: validation.error.issues[0].message },
+                { status: 400 }
+            );
+        }
+
+        const planInfo = await getUserPlanInfo(session.user.id);
+
+        // Só é possível desconectar dispositivos da própria conta/família
+        const released = planInfo
+            ? await releaseStreamLease(validation.data.leaseId, planInfo.accountOwnerId)
+            : false;
+
+        if (!released) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.leaseNotFound' },
+                { status: 404 }
+            );
+        }
+
+        return new NextResponse(null, {
+            status: 204,
+            headers: getRateLimitHeaders(rateLimitResult),
+        });
+    } catch (error) {
+        console.error('❌ Error releasing stream lease:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
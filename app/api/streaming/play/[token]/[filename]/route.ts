@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { verifyPlaybackToken } from '@/lib/playback-token';
+
+/**
+ * Resolve um token de reprodução para a URL real do backend.
+ *
+ * O navegador só conhece /api/streaming/play/<token>/<arquivo>. Antes de
+ * redirecionar, valida:
+ * 1. Assinatura HMAC e expiração do token
+ * 2. Que a requisição vem do mesmo usuário e da mesma sessão que gerou o token
+ *    (revogar a sessão em /api/settings/sessions invalida o token)
+ *
+ * O segmento [filename] é apenas cosmético (extensão para detecção de formato).
+ */
+
+const NO_STORE_HEADERS = {
+    'Cache-Control': 'private, no-store',
+    'Referrer-Policy': 'no-referrer',
+};
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string; filename: string }> }
+) {
+    try {
+        const { token } = await params;
+        const verification = verifyPlaybackToken(token);
+
+        if (!verification.valid) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: verification.reason === 'expired'
+                        ? 'api.streaming.playbackTokenExpired'
+                        : 'api.streaming.playbackTokenInvalid',
+                },
+                { status: 403, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        const { claims } = verification;
+
+        if (session.user.id !== claims.userId || session.session.id !== claims.sessionId) {
+            console.warn('⚠️  [Streaming] Token de reprodução usado fora da sessão de origem', {
+                tokenUserId: claims.userId,
+                requestUserId: session.user.id,
+            });
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.playbackTokenInvalid' },
+                { status: 403, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        return NextResponse.redirect(claims.url, { status: 302, headers: NO_STORE_HEADERS });
+    } catch (error) {
+        console.error('❌ Playback token error:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500, headers: NO_STORE_HEADERS }
+        );
+    }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { verifyPlaybackToken } from '@/lib/playback-token';
+import {
+    convertSubtitleBytes,
+    getCachedWebVtt,
+    MAX_SUBTITLE_BYTES,
+    setCachedWebVtt,
+} from '@/lib/subtitle-converter';
+
+/**
+ * Converte a legenda de um token de reprodução para WebVTT.
+ *
+ * O get-url reescreve legendas SRT/ASS/TTML para /api/streaming/subtitles/<token>/<nome>.vtt.
+ * Mesmas validações de /api/streaming/play (assinatura, expiração, usuário e sessão);
+ * em vez de redirecionar, baixa o arquivo original, converte e devolve text/vtt.
+ *
+ * O resultado fica em cache pela URL original (ver lib/subtitle-converter.ts).
+ *
+ * Respostas:
+ * - 200: WebVTT
+ * - 413: arquivo maior que MAX_SUBTITLE_BYTES
+ * - 415: formato não reconhecido
+ * - 502: backend não entregou o arquivo
+ */
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+const NO_STORE_HEADERS = {
+    'Cache-Control': 'private, no-store',
+    'Referrer-Policy': 'no-referrer',
+};
+
+const VTT_HEADERS = {
+    'Content-Type': 'text/vtt; charset=utf-8',
+    'Cache-Control': 'private, max-age=3600',
+};
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string; filename: string }> }
+) {
+    try {
+        const { token } = await params;
+        const verification = verifyPlaybackToken(token);
+
+        if (!verification.valid) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: verification.reason === 'expired'
+                        ? 'api.streaming.playbackTokenExpired'
+                        : 'api.streaming.playbackTokenInvalid',
+                },
+                { status: 403, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        const { claims } = verification;
+
+        if (session.user.id !== claims.userId || session.session.id !== claims.sessionId) {
+            console.warn('⚠️  [Subtitles] Token de legenda usado fora da sessão de origem', {
+                tokenUserId: claims.userId,
+                requestUserId: session.user.id,
+            });
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.playbackTokenInvalid' },
+                { status: 403, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        const cacheKey = `url:${claims.url}`;
+        const cached = getCachedWebVtt(cacheKey);
+        if (cached) {
+            return new NextResponse(cached, { status: 200, headers: VTT_HEADERS });
+        }
+
+        const response = await fetch(claims.url, {
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        }).catch((error) => {
+            console.error('❌ [Subtitles] Falha ao baixar legenda:', error);
+            return null;
+        });
+
+        if (!response?.ok) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subtitleFetchFailed' },
+                { status: 502, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        const declaredLength = Number(response.headers.get('content-length'));
+        if (declaredLength > MAX_SUBTITLE_BYTES) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subtitleTooLarge' },
+                { status: 413, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (bytes.byteLength > MAX_SUBTITLE_BYTES) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subtitleTooLarge' },
+                { status: 413, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        const vtt = convertSubtitleBytes(bytes);
+        if (!vtt) {
+            console.warn('⚠️  [Subtitles] Formato de legenda não reconhecido', { tmdbId: claims.tmdbId });
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subtitleUnsupported' },
+                { status: 415, headers: NO_STORE_HEADERS }
+            );
+        }
+
+        setCachedWebVtt(cacheKey, vtt);
+        return new NextResponse(vtt, { status: 200, headers: VTT_HEADERS });
+    } catch (error) {
+        console.error('❌ [Subtitles] Erro ao converter legenda:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500, headers: NO_STORE_HEADERS }
+        );
+    }
+}
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import {
+    convertSubtitleBytes,
+    getCachedWebVtt,
+    MAX_SUBTITLE_BYTES,
+    setCachedWebVtt,
+} from '@/lib/subtitle-converter';
+
+/**
+ * Converte um arquivo de legenda enviado pelo cliente para WebVTT.
+ *
+ * POST /api/streaming/subtitles
+ * Body: o arquivo bruto (SRT, ASS/SSA, TTML/DFXP ou WebVTT), em qualquer
+ * encoding suportado (UTF-8, UTF-16, Latin-1).
+ *
+ * O resultado fica em cache pelo SHA-256 do conteúdo.
+ *
+ * Respostas:
+ * - 200: WebVTT (text/vtt)
+ * - 413: arquivo maior que MAX_SUBTITLE_BYTES
+ * - 415: formato não reconhecido
+ */
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.unauthenticated' },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitResult = rateLimit(`streaming:subtitles:${session.user.id}`, {
+            limit: 20,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const declaredLength = Number(request.headers.get('content-length'));
+        if (declaredLength > MAX_SUBTITLE_BYTES) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subtitleTooLarge' },
+                { status: 413, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const bytes = new Uint8Array(await request.arrayBuffer());
+        if (bytes.byteLength > MAX_SUBTITLE_BYTES) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subtitleTooLarge' },
+                { status: 413, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const cacheKey = `sha256:${createHash('sha256').update(bytes).digest('hex')}`;
+        const vtt = getCachedWebVtt(cacheKey) ?? convertSubtitleBytes(bytes);
+
+        if (!vtt) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subtitleUnsupported' },
+                { status: 415, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        setCachedWebVtt(cacheKey, vtt);
+        return new NextResponse(vtt, {
+            status: 200,
+            headers: {
+                ...getRateLimitHeaders(rateLimitResult),
+                'Content-Type': 'text/vtt; charset=utf-8',
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error) {
+        console.error('❌ [Subtitles] Erro ao converter legenda enviada:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
@@ -29,7 +29,7 @@ import { getUserLanguage } from '@/lib/language-server';
  * 
  * Schema WatchHistory:
  * - userId, tmdbId, mediaType, seasonNumber, episodeNumber
- * - progress (0-100), lastWatchedAt, createdAt
+ * - progress (0-100), positionSeconds?, durationSeconds?, lastWatchedAt, createdAt
  * - Unique constraint: [userId, tmdbId, mediaType, seasonNumber, episodeNumber]
  */
 
@@ -160,6 +160,8 @@ export async function GET(request: NextRequest) {
                             seasonNumber: item.seasonNumber,
                             episodeNumber: item.episodeNumber,
                             progress: item.progress,
+                            positionSeconds: item.positionSeconds,
+                            durationSeconds: item.durationSeconds,
                             lastWatchedAt: item.lastWatchedAt.toISOString(),
                             createdAt: item.createdAt.toISOString(),
                             // TMDB enrichment
@@ -179,6 +181,8 @@ export async function GET(request: NextRequest) {
                     seasonNumber: item.seasonNumber,
                     episodeNumber: item.episodeNumber,
                     progress: item.progress,
+                    positionSeconds: item.positionSeconds,
+                    durationSeconds: item.durationSeconds,
                     lastWatchedAt: item.lastWatchedAt.toISOString(),
                     createdAt: item.createdAt.toISOString(),
                     title: `ID: ${item.tmdbId}`,
@@ -230,6 +234,8 @@ async function handleContinueWatching(
  * - tmdbId: number (required)
  * - mediaType: 'movie' | 'tv' (required)
  * - progress: number 0-100 (required)
+ * - positionSeconds: number >= 0 (opcional, posição exata para retomar)
+ * - durationSeconds: number > 0 (opcional, obrigatório junto com positionSeconds)
  * - seasonNumber: number (required para 'tv', 0 para 'movie')
  * - episodeNumber: number (required para 'tv', 0 para 'movie')
  * 
@@ -269,7 +275,7 @@ export async function POST(request: NextRequest) {
         }
 
         const body = await request.json();
-        const { tmdbId, mediaType, progress, seasonNumber, episodeNumber } = body;
+        const { tmdbId, mediaType, progress, seasonNumber, episodeNumber, positionSeconds, durationSeconds } = body;
 
         // ========== VALIDAÇÕES ROBUSTAS ==========
 
@@ -304,6 +310,19 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Validar positionSeconds e durationSeconds (opcionais, mas sempre juntos)
+        const hasPosition = positionSeconds !== undefined && positionSeconds !== null;
+        const hasDuration = durationSeconds !== undefined && durationSeconds !== null;
+
+        if (hasPosition !== hasDuration ||
+            (hasPosition && (typeof positionSeconds !== 'number' || !Number.isFinite(positionSeconds) || positionSeconds < 0)) ||
+            (hasDuration && (typeof durationSeconds !== 'number' || !Number.isFinite(durationSeconds) || durationSeconds <= 0))) {
+            return NextResponse.json(
+                { error: 'api.watchHistory.positionInvalid' },
+                { status: 400 }
+            );
+        }
+
         // Validar seasonNumber e episodeNumber conforme mediaType
         let validSeasonNumber: number;
         let validEpisodeNumber: number;
@@ -345,6 +364,14 @@ export async function POST(request: NextRequest) {
         // Clamping progress (garantir 0-100)
         const validProgress = Math.min(Math.max(progress, 0), 100);
 
+        // Posição limitada à duração (o player pode reportar alguns ms a mais no fim)
+        const positionData = hasPosition
+            ? {
+                positionSeconds: Math.min(positionSeconds, durationSeconds),
+                durationSeconds,
+            }
+            : {};
+
         // ========== UPSERT (atomic operation) ==========
         await prisma.watchHistory.upsert({
             where: {
@@ -358,6 +385,7 @@ export async function POST(request: NextRequest) {
             },
             update: {
                 progress: validProgress,
+                ...positionData,
                 lastWatchedAt: new Date(),
             },
             create: {
@@ -367,6 +395,7 @@ export async function POST(request: NextRequest) {
                 seasonNumber: validSeasonNumber,
                 episodeNumber: validEpisodeNumber,
                 progress: validProgress,
+                ...positionData,
                 lastWatchedAt: new Date(),
             },
         });
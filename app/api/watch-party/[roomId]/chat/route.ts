@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { sendWatchPartyMessage } from '@/lib/watch-party';
+import { WATCH_PARTY_MESSAGE_MAX_LENGTH } from '@/lib/watch-party-sync';
+
+/**
+ * Chat da Watch Party
+ *
+ * POST /api/watch-party/[roomId]/chat
+ * Body: { text }
+ *
+ * Somente participantes conectados ao SSE da sala podem enviar.
+ */
+
+const messageSchema = z.object({
+    text: z.string()
+        .trim()
+        .min(1, 'api.watchParty.messageInvalid')
+        .max(WATCH_PARTY_MESSAGE_MAX_LENGTH, 'api.watchParty.messageInvalid'),
+});
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitResult = rateLimit(`watch-party:chat:${session.user.id}`, {
+            limit: 20,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = messageSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: validation.error.issues[0]?.message || 'api.errors.badRequest' },
+                { status: 400, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const { roomId } = await params;
+        const result = await sendWatchPartyMessage(roomId, session.user.id, validation.data.text);
+
+        if (result.status === 'not_found') {
+            return NextResponse.json(
+                { success: false, error: 'api.watchParty.notFound' },
+                { status: 404, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        if (result.status === 'forbidden') {
+            return NextResponse.json(
+                { success: false, error: 'api.watchParty.notParticipant' },
+                { status: 403, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        return new NextResponse(null, {
+            status: 204,
+            headers: getRateLimitHeaders(rateLimitResult),
+        });
+    } catch (error) {
+        console.error('❌ [Watch Party] Erro ao enviar mensagem:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
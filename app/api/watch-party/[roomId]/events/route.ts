@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { hasStreamingAccess } from '@/lib/access';
+import {
+    createWatchPartyFeed,
+    joinWatchParty,
+    touchWatchParty,
+    WATCH_PARTY_HEARTBEAT_INTERVAL_MS,
+    WATCH_PARTY_POLL_INTERVAL_MS,
+    type WatchPartyEvent,
+} from '@/lib/watch-party';
+
+/**
+ * Eventos da Watch Party (Server-Sent Events)
+ *
+ * GET /api/watch-party/[roomId]/events
+ *
+ * Abrir a conexão entra na sala. O primeiro evento é `state` (snapshot
+ * completo), seguido de `playback`, `participants`, `chat` e `closed` (host
+ * encerrou a sala). O estado fica no banco (ver lib/watch-party.ts): a conexão
+ * consulta a sala a cada WATCH_PARTY_POLL_INTERVAL_MS e renova a presença a
+ * cada WATCH_PARTY_HEARTBEAT_INTERVAL_MS; quem fecha a conexão sai da lista de
+ * participantes quando a presença expira.
+ *
+ * A conexão é encerrada após STREAM_MAX_DURATION_MS (limite de duração das
+ * funções serverless); o EventSource reconecta sozinho e recebe um novo `state`.
+ *
+ * Entrar exige acesso ao streaming (hasStreamingAccess), como reproduzir.
+ */
+
+const KEEP_ALIVE_INTERVAL_MS = 25_000;
+const STREAM_MAX_DURATION_MS = 50_000;
+/** Espera do EventSource antes de reconectar (diretiva `retry`) */
+const RECONNECT_DELAY_MS = 1000;
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        // EventSource reconecta sozinho; o limite só barra loops de reconexão
+        const rateLimitResult = rateLimit(`watch-party:events:${session.user.id}`, {
+            limit: 30,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        if (!(await hasStreamingAccess(session.user.id))) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subscriptionRequired' },
+                { status: 403 }
+            );
+        }
+
+        const { roomId } = await params;
+        const encoder = new TextEncoder();
+
+        // Sem nome no perfil, os outros veem um rótulo genérico (nunca o email)
+        const result = await joinWatchParty(roomId, { id: session.user.id, name: session.user.name || null });
+
+        if (result.status !== 'joined') {
+            // EventSource não lê o corpo de respostas de erro: o motivo vai como evento
+            const body = `event: error\ndata: ${JSON.stringify({ error: result.status === 'full' ? 'api.watchParty.full' : 'api.watchParty.notFound' })}\n\n`;
+            return new Response(body, {
+                headers: {
+                    'Content-Type': 'text/event-stream; charset=utf-8',
+                    'Cache-Control': 'no-cache, no-transform',
+                },
+            });
+        }
+
+        const userId = session.user.id;
+        const feed = createWatchPartyFeed(result.snapshot);
+        let cleanup: (() => void) | null = null;
+
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                let closed = false;
+                let polling = false;
+
+                const write = (chunk: string) => {
+                    if (!closed) controller.enqueue(encoder.encode(chunk));
+                };
+
+                const send = (event: WatchPartyEvent) => {
+                    write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+                    if (event.type === 'closed') close();
+                };
+
+                const poll = setInterval(async () => {
+                    if (closed || polling) return;
+                    polling = true;
+                    try {
+                        (await feed.poll()).forEach(send);
+                    } catch (error) {
+                        // Falha pontual do banco: tenta de novo na próxima consulta
+                        console.warn('⚠️  [Watch Party] Falha ao consultar sala:', error);
+                    } finally {
+                        polling = false;
+                    }
+                }, WATCH_PARTY_POLL_INTERVAL_MS);
+
+                const heartbeat = setInterval(() => {
+                    touchWatchParty(roomId, userId).catch((error) => {
+                        console.warn('⚠️  [Watch Party] Falha ao renovar presença:', error);
+                    });
+                }, WATCH_PARTY_HEARTBEAT_INTERVAL_MS);
+
+                const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+                const maxDuration = setTimeout(() => close(), STREAM_MAX_DURATION_MS);
+
+                function close() {
+                    if (closed) return;
+                    closed = true;
+                    clearInterval(poll);
+                    clearInterval(heartbeat);
+                    clearInterval(keepAlive);
+                    clearTimeout(maxDuration);
+                    request.signal.removeEventListener('abort', close);
+                    try {
+                        controller.close();
+                    } catch {
+                        // Já fechado pelo cliente
+                    }
+                }
+
+                cleanup = close;
+                request.signal.addEventListener('abort', close);
+
+                write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+                send({ type: 'state', serverTime: Date.now(), room: result.snapshot });
+            },
+            cancel() {
+                cleanup?.();
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream; charset=utf-8',
+                'Cache-Control': 'no-cache, no-transform',
+                'Connection': 'keep-alive',
+                // Desativa o buffer do nginx para entregar os eventos na hora
+                'X-Accel-Buffering': 'no',
+            },
+        });
+    } catch (error) {
+        console.error('❌ [Watch Party] Erro ao abrir eventos:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
+// Acima de STREAM_MAX_DURATION_MS, para a conexão terminar antes da função
+export const maxDuration = 60;
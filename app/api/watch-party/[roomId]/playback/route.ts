@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { updateWatchPartyPlayback } from '@/lib/watch-party';
+
+/**
+ * Estado de reprodução do host
+ *
+ * POST /api/watch-party/[roomId]/playback
+ * Body: { playing, positionSeconds }
+ *
+ * Enviado pelo player do host em play/pause/seek e periodicamente durante a
+ * reprodução; salvo na sala e repassado aos convidados pelo SSE.
+ */
+
+const playbackSchema = z.object({
+    playing: z.boolean(),
+    positionSeconds: z.number().min(0).max(86_400),
+});
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        // Sync a cada 5s + eventos de play/pause/seek
+        const rateLimitResult = rateLimit(`watch-party:playback:${session.user.id}`, {
+            limit: 60,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = playbackSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.invalidPayload' },
+                { status: 400, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const { roomId } = await params;
+        const result = await updateWatchPartyPlayback(roomId, session.user.id, validation.data);
+
+        if (result.status === 'not_found') {
+            return NextResponse.json(
+                { success: false, error: 'api.watchParty.notFound' },
+                { status: 404, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        if (result.status === 'forbidden') {
+            return NextResponse.json(
+                { success: false, error: 'api.watchParty.hostOnly' },
+                { status: 403, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        return new NextResponse(null, {
+            status: 204,
+            headers: getRateLimitHeaders(rateLimitResult),
+        });
+    } catch (error) {
+        console.error('❌ [Watch Party] Erro ao atualizar reprodução:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { closeWatchParty, getWatchParty } from '@/lib/watch-party';
+
+/**
+ * Sala de Watch Party
+ *
+ * GET    /api/watch-party/[roomId] - Conteúdo, participantes e estado atual
+ * DELETE /api/watch-party/[roomId] - Encerrar a sala (somente o host)
+ */
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const { roomId } = await params;
+        const room = await getWatchParty(roomId);
+
+        if (!room) {
+            return NextResponse.json(
+                { success: false, error: 'api.watchParty.notFound' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, room });
+    } catch (error) {
+        console.error('❌ [Watch Party] Erro ao buscar sala:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const { roomId } = await params;
+        const result = await closeWatchParty(roomId, session.user.id);
+
+        if (result.status === 'not_found') {
+            return NextResponse.json(
+                { success: false, error: 'api.watchParty.notFound' },
+                { status: 404 }
+            );
+        }
+
+        if (result.status === 'forbidden') {
+            return NextResponse.json(
+                { success: false, error: 'api.watchParty.hostOnly' },
+                { status: 403 }
+            );
+        }
+
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        console.error('❌ [Watch Party] Erro ao encerrar sala:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { rateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { hasStreamingAccess } from '@/lib/access';
+import { createWatchParty } from '@/lib/watch-party';
+import { getWatchPartyPath } from '@/lib/watch-party-sync';
+
+/**
+ * Criação de Watch Party (reprodução sincronizada em grupo)
+ *
+ * POST /api/watch-party
+ * Body: { tmdbId, mediaType, season?, episode? }
+ *
+ * O usuário vira host da sala e recebe o link de convite. A sincronização
+ * acontece em /api/watch-party/[roomId]/events (SSE); ver lib/watch-party.ts.
+ */
+
+const createPartySchema = z.object({
+    tmdbId: z.number().int().positive('api.validation.positiveInteger'),
+    mediaType: z.enum(['movie', 'tv'], { message: 'api.validation.mediaTypeMovieOrTv' }),
+    season: z.number().int().positive().optional(),
+    episode: z.number().int().positive().optional(),
+}).refine((data) => data.mediaType === 'tv' || (!data.season && !data.episode), {
+    message: 'api.validation.movieNoSeasonEpisode',
+    path: ['mediaType'],
+});
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({ headers: request.headers });
+
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.authRequired' },
+                { status: 401 }
+            );
+        }
+
+        const rateLimitResult = rateLimit(`watch-party:create:${session.user.id}`, {
+            limit: 10,
+            interval: 60,
+        });
+
+        if (!rateLimitResult.success) {
+            return NextResponse.json(
+                { success: false, error: 'api.errors.rateLimitShort' },
+                { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = createPartySchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: validation.error.issues[0]?.message || 'api.errors.badRequest' },
+                { status: 400, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        if (!(await hasStreamingAccess(session.user.id))) {
+            return NextResponse.json(
+                { success: false, error: 'api.streaming.subscriptionRequired' },
+                { status: 403, headers: getRateLimitHeaders(rateLimitResult) }
+            );
+        }
+
+        const room = await createWatchParty(session.user.id, validation.data);
+
+        return NextResponse.json(
+            {
+                success: true,
+                roomId: room.roomId,
+                path: getWatchPartyPath(room.roomId, room.content),
+            },
+            { status: 201, headers: getRateLimitHeaders(rateLimitResult) }
+        );
+    } catch (error) {
+        console.error('❌ [Watch Party] Erro ao criar sala:', error);
+        return NextResponse.json(
+            { success: false, error: 'api.errors.internalError' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { PAYMENT_WEBHOOK_RELAY_URL, PAYMENT_API_TOKEN } from '@/lib/config';
 import {
     requiresWebhookSecretValidation,
-    getPaymentWebhookSecret,
+    getPaymentWebhookSecrets,
+    getPaymentWebhookToleranceSeconds,
     isPaymentDevMode
 } from '@/lib/payment-config-validator';
+import { isPaymentRelayConfigured, sendToPaymentRelay } from '@/lib/payment-relay';
+import { prisma } from '@/lib/prisma';
+import { getWebhookEventId, webhookPayloadSchema } from '@/lib/webhook-events';
+import { processWebhookEvent, recordWebhookEvent } from '@/lib/webhook-events-server';
+import {
+    verifyWebhookSignature,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    type WebhookSignatureError,
+} from '@/lib/webhook-signature';
 
 /**
  * Payment Webhook API
@@ -13,52 +22,41 @@ import {
  * Recebe notificações de eventos de pagamento do gateway externo.
  * 
  * Segurança:
- * - Modo Produção: Valida X-Webhook-Secret header (obrigatório)
+ * - Modo Produção: Valida a assinatura HMAC-SHA256 do corpo bruto
+ *   (X-Webhook-Signature + X-Webhook-Timestamp, ver lib/webhook-signature.ts)
+ *   em tempo constante, aceitando o segredo atual e o anterior (rotação)
+ * - Replay: timestamp fora da janela de tolerância é rejeitado; dentro dela,
+ *   o ledger WebhookEvent impede que o mesmo evento seja aplicado de novo
  * - Modo Desenvolvimento: Aceita requisições sem autenticação (apenas para testes)
  * - Validação Zod: Garante payload válido e type-safe
  * 
  * Formato esperado:
  * {
+ *   "eventId": "evt_123",           // opcional: id do evento no gateway
  *   "type": "payment.succeeded",
  *   "userId": "user_id",
  *   "planId": "plan_id",
- *   "transactionId": "txn_123"
+ *   "transactionId": "txn_123",
+ *   "interval": "monthly",          // opcional: monthly (padrão) ou yearly
+ *   "subscriptionId": "sub_123"     // opcional: referência da assinatura no gateway
  * }
  * 
  * Flow:
- * 1. Valida autenticação (se modo produção)
+ * 1. Valida assinatura e timestamp (se modo produção)
  * 2. Valida payload com Zod
- * 3. Verifica idempotência
- * 4. Atualiza plano do usuário no banco
- * 5. Retorna 200 OK
+ * 3. Grava o evento no ledger WebhookEvent (idempotência durável)
+ * 4. Atualiza a assinatura do usuário (Subscription + espelho no User)
+ * 5. Retorna 200 OK (500 em falha — o evento fica failed e é reprocessado
+ *    pelo cron /api/cron/retry-webhook-events ou por uma nova entrega)
  */
 
-// Schema de validação para webhook payload
-const webhookPayloadSchema = z.object({
-    type: z.enum(['payment.succeeded', 'payment.failed', 'payment.refunded'], {
-        message: 'api.payment.invalidEventType'
-    }),
-    userId: z.string().min(1, 'api.payment.userIdRequired'),
-    planId: z.string().min(1, 'api.payment.planIdRequired'),
-    transactionId: z.string().min(1, 'api.payment.transactionIdRequired'),
-    amount: z.number().positive().optional(),
-    currency: z.string().optional(),
-    metadata: z.record(z.string(), z.unknown()).optional(),
-});
-
-// Cache de eventos processados (idempotência)
-const processedEvents = new Map<string, number>();
-const CACHE_TTL = 60 * 60 * 1000; // 1 hora
-
-// Limpa cache periodicamente
-setInterval(() => {
-    const now = Date.now();
-    for (const [key, timestamp] of processedEvents.entries()) {
-        if (now - timestamp > CACHE_TTL) {
-            processedEvents.delete(key);
-        }
-    }
-}, 15 * 60 * 1000);
+// Mensagens de 401 por motivo de rejeição
+const WEBHOOK_SIGNATURE_ERRORS: Record<WebhookSignatureError, string> = {
+    missing_signature: 'Unauthorized: Missing signature headers',
+    invalid_timestamp: 'Unauthorized: Invalid signature timestamp',
+    timestamp_out_of_tolerance: 'Unauthorized: Signature timestamp outside tolerance window',
+    invalid_signature: 'Unauthorized: Invalid signature',
+};
 
 export async function POST(request: NextRequest) {
     try {
@@ -66,27 +64,27 @@ export async function POST(request: NextRequest) {
         // 1. VALIDAÇÃO DE AUTENTICAÇÃO
         // ─────────────────────────────────────────────────────────────
 
-        if (requiresWebhookSecretValidation()) {
-            const providedSecret = request.headers.get('x-webhook-secret');
-            const expectedSecret = getPaymentWebhookSecret();
+        // Corpo bruto: a assinatura é calculada sobre os bytes recebidos
+        const rawBody = await request.text();
 
-            if (!providedSecret) {
-                console.error('❌ Webhook rejected: Missing X-Webhook-Secret header');
-                return NextResponse.json(
-                    { error: 'Unauthorized: Missing authentication header' },
-                    { status: 401 }
-                );
-            }
+        if (requiresWebhookSecretValidation()) {
+            const verification = verifyWebhookSignature({
+                rawBody,
+                signatureHeader: request.headers.get(WEBHOOK_SIGNATURE_HEADER),
+                timestampHeader: request.headers.get(WEBHOOK_TIMESTAMP_HEADER),
+                secrets: getPaymentWebhookSecrets(),
+                toleranceSeconds: getPaymentWebhookToleranceSeconds(),
+            });
 
-            if (providedSecret !== expectedSecret) {
-                console.error('❌ Webhook rejected: Invalid webhook secret');
+            if (!verification.valid) {
+                console.error(`❌ Webhook rejected: ${verification.error}`);
                 return NextResponse.json(
-                    { error: 'Unauthorized: Invalid authentication credentials' },
+                    { error: WEBHOOK_SIGNATURE_ERRORS[verification.error] },
                     { status: 401 }
                 );
             }
 
-            console.log('🔒 Webhook authenticated successfully');
+            console.log('🔒 Webhook signature verified');
         } else {
             console.log('⚠️  Webhook running in DEVELOPMENT MODE (no authentication)');
         }
@@ -95,7 +93,15 @@ export async function POST(request: NextRequest) {
         // 2. PARSE E VALIDA PAYLOAD COM ZOD
         // ─────────────────────────────────────────────────────────────
 
-        const body = await request.json();
+        let body: unknown;
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            return NextResponse.json(
+                { error: 'api.errors.invalidPayload' },
+                { status: 400 }
+            );
+        }
 
         const validationResult = webhookPayloadSchema.safeParse(body);
 
@@ -125,32 +131,59 @@ export async function POST(request: NextRequest) {
         });
 
         // ─────────────────────────────────────────────────────────────
-        // 3. IDEMPOTÊNCIA
+        // 3. IDEMPOTÊNCIA (LEDGER)
         // ─────────────────────────────────────────────────────────────
 
-        const eventKey = `${payload.transactionId}_${payload.type}`;
+        const eventId = getWebhookEventId(payload);
 
-        if (processedEvents.has(eventKey)) {
-            console.log('⚠️  Webhook duplicado ignorado:', eventKey);
+        const existing = await prisma.webhookEvent.findUnique({
+            where: { id: eventId },
+        });
+
+        // Eventos failed são reprocessados; os demais já foram (ou estão sendo) aplicados
+        if (existing && existing.status !== 'failed') {
+            console.log('⚠️  Webhook duplicado ignorado:', eventId);
             return NextResponse.json({ message: 'api.payment.eventAlreadyProcessed' });
         }
 
-        processedEvents.set(eventKey, Date.now());
+        if (!existing && !(await recordWebhookEvent(eventId, payload))) {
+            console.log('⚠️  Webhook duplicado ignorado (entrega concorrente):', eventId);
+            return NextResponse.json({ message: 'api.payment.eventAlreadyProcessed' });
+        }
 
         // ─────────────────────────────────────────────────────────────
         // 4. ATUALIZA BANCO DE DADOS
         // ─────────────────────────────────────────────────────────────
 
-        await updateUserSubscription(payload);
+        const result = await processWebhookEvent({
+            id: eventId,
+            payload,
+            attempts: existing?.attempts ?? 0,
+        });
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: 'api.errors.internalError' },
+                { status: 500 }
+            );
+        }
+
+        // Outra entrega (ou o cron/replay) aplicou o evento enquanto este aguardava
+        if (result.alreadyProcessed) {
+            console.log('⚠️  Webhook duplicado ignorado (processado por outra execução):', eventId);
+            return NextResponse.json({ message: 'api.payment.eventAlreadyProcessed' });
+        }
 
         // ─────────────────────────────────────────────────────────────
         // 5. RELAY OPCIONAL
         // ─────────────────────────────────────────────────────────────
 
-        if (PAYMENT_WEBHOOK_RELAY_URL) {
-            relayWebhookEvent(payload).catch(error => {
-                console.error('❌ Webhook relay failed:', error);
-            });
+        if (isPaymentRelayConfigured()) {
+            sendToPaymentRelay(payload)
+                .then(() => console.log('✅ Webhook relayed'))
+                .catch(error => {
+                    console.error('❌ Webhook relay failed:', error);
+                });
         }
 
         console.log('✅ Webhook processado:', {
@@ -169,119 +202,3 @@ export async function POST(request: NextRequest) {
         );
     }
 }
-
-async function updateUserSubscription(event: any) {
-    const { prisma } = await import('@/lib/prisma');
-
-    const [user, plan] = await Promise.all([
-        prisma.user.findUnique({
-            where: { id: event.userId },
-            select: { id: true, planId: true }
-        }),
-        prisma.plan.findUnique({
-            where: { id: event.planId },
-            select: { id: true, screens: true }
-        }),
-    ]);
-
-    if (!user) {
-        throw new Error(`User not found: ${event.userId}`);
-    }
-
-    if (!plan) {
-        throw new Error(`Plan not found: ${event.planId}`);
-    }
-
-    if (event.type === 'payment.succeeded') {
-        // Atualizar em transação para lidar com mudanças de plano
-        await prisma.$transaction(async (tx) => {
-            // Atualizar usuário
-            await tx.user.update({
-                where: { id: event.userId },
-                data: {
-                    planId: event.planId,
-                    maxScreens: plan.screens,
-                    trialEndsAt: null,
-                }
-            });
-
-            // Buscar família do owner
-            const family = await tx.family.findUnique({
-                where: { ownerId: event.userId },
-                include: {
-                    members: { orderBy: { joinedAt: 'desc' } }, // Mais recentes primeiro
-                    invites: { where: { status: 'pending' } }
-                },
-            });
-
-            if (family) {
-                const newMaxMembers = plan.screens;
-                const currentMembersCount = family.members.length + 1; // +1 para owner
-
-                // Se downgrade, remover membros excedentes
-                if (currentMembersCount > newMaxMembers) {
-                    const toRemove = currentMembersCount - newMaxMembers;
-                    const membersToDelete = family.members
-                        .slice(0, toRemove) // Mais recentes são removidos primeiro
-                        .map(m => m.id);
-
-                    await tx.familyMember.deleteMany({
-                        where: { id: { in: membersToDelete } },
-                    });
-
-                    console.log(`[Webhook] Downgrade: Removed ${toRemove} member(s) from family`);
-                }
-
-                // Calcular slots disponíveis após remoção
-                const remainingMembers = Math.max(0, family.members.length - (currentMembersCount > newMaxMembers ? currentMembersCount - newMaxMembers : 0));
-                const slotsDisponiveis = newMaxMembers - 1 - remainingMembers; // -1 para owner
-
-                // Revogar convites pendentes se não há slots
-                if (slotsDisponiveis <= 0 && family.invites.length > 0) {
-                    await tx.familyInvite.updateMany({
-                        where: { familyId: family.id, status: 'pending' },
-                        data: { status: 'revoked' },
-                    });
-                    console.log(`[Webhook] Revoked ${family.invites.length} pending invite(s) due to no available slots`);
-                }
-
-                // Atualizar maxMembers da família
-                await tx.family.update({
-                    where: { id: family.id },
-                    data: { maxMembers: newMaxMembers },
-                });
-
-                console.log(`[Webhook] Family updated: maxMembers ${family.maxMembers} → ${newMaxMembers}`);
-            }
-        });
-
-        console.log('✅ Subscription updated:', {
-            userId: user.id,
-            oldPlanId: user.planId,
-            newPlanId: event.planId,
-            screens: plan.screens,
-        });
-    }
-}
-
-async function relayWebhookEvent(event: any) {
-    if (!PAYMENT_WEBHOOK_RELAY_URL) return;
-
-    const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-    };
-
-    if (PAYMENT_API_TOKEN) {
-        headers['Authorization'] = `Bearer ${PAYMENT_API_TOKEN}`;
-    }
-
-    const response = await fetch(PAYMENT_WEBHOOK_RELAY_URL, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(event),
-    });
-
-    if (response.ok) {
-        console.log('✅ Webhook relayed');
-    }
-}
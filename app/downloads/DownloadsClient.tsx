@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Download, Play, Trash2, X, AlertCircle, Film, Tv } from 'lucide-react';
+import { useTranslations, useLocale } from 'next-intl';
+import { useOfflineDownloads } from '@/hooks/useOfflineDownloads';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { getOfflineMediaUrl, type OfflineDownload } from '@/lib/offline-downloads';
+import { isDownloadLicenseValid } from '@/lib/download-license';
+import { localeToBCP47 } from '@/lib/language';
+
+const VideoPlayer = dynamic(() => import('@/components/VideoPlayer'), {
+    ssr: false,
+    loading: () => <LoadingSpinner />,
+});
+
+/**
+ * DownloadsClient - Lista de downloads offline do dispositivo
+ *
+ * Features:
+ * - Progresso dos downloads em andamento (enviado pelo service worker)
+ * - Reprodução offline via /offline-media (só com licença válida)
+ * - Remoção do download (cache + IndexedDB)
+ */
+export default function DownloadsClient() {
+    const t = useTranslations('downloads');
+    const tRoot = useTranslations();
+    const locale = useLocale();
+    const { downloads, loaded, supported, removeDownload } = useOfflineDownloads();
+    const [playing, setPlaying] = useState<OfflineDownload | null>(null);
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleDateString(localeToBCP47(locale), {
+            day: 'numeric',
+            month: 'short',
+            year: 'numeric',
+        });
+
+    const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+
+    const renderStatus = (download: OfflineDownload) => {
+        if (download.status === 'downloading') {
+            return (
+                <div className="w-full">
+                    <div className="h-1.5 w-full rounded-full bg-white/10 overflow-hidden">
+                        <div
+                            className="h-full bg-red-600 transition-all"
+                            style={{ width: `${Math.round(download.progress * 100)}%` }}
+                        />
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                        {download.totalBytes
+                            ? t('downloadingProgress', { percent: Math.round(download.progress * 100) })
+                            : t('downloadingSize', { size: formatSize(download.receivedBytes) })}
+                    </p>
+                </div>
+            );
+        }
+
+        if (download.status === 'failed') {
+            return (
+                <p className="text-xs text-red-400 flex items-center gap-1">
+                    <AlertCircle size={14} aria-hidden="true" />
+                    {t('failed')}
+                    {download.error && ` — ${tRoot(download.error)}`}
+                </p>
+            );
+        }
+
+        return isDownloadLicenseValid(download.licenseExpiresAt) ? (
+            <p className="text-xs text-gray-400">
+                {formatSize(download.receivedBytes)} · {t('expiresOn', { date: formatDate(download.licenseExpiresAt) })}
+            </p>
+        ) : (
+            <p className="text-xs text-yellow-400">{t('expired')}</p>
+        );
+    };
+
+    return (
+        <div className="pt-24 px-4 md:px-12 pb-20 min-h-screen">
+            <div className="max-w-5xl mx-auto">
+                {/* Header */}
+                <div className="mb-8">
+                    <h1 className="text-white text-4xl font-bold flex items-center gap-3">
+                        <Download className="text-red-500" size={40} aria-hidden="true" />
+                        {t('title')}
+                    </h1>
+                    <p className="text-gray-400 mt-2">{t('description')}</p>
+                </div>
+
+                {/* Player */}
+                {playing && (
+                    <div className="relative mb-8 aspect-video w-full overflow-hidden rounded-lg bg-black">
+                        <VideoPlayer
+                            url={getOfflineMediaUrl(playing.id, playing.format)}
+                            title={playing.title}
+                            autoPlay
+                            tmdbId={playing.tmdbId}
+                            mediaType={playing.mediaType}
+                            season={playing.season}
+                            episode={playing.episode}
+                            className="h-full"
+                        />
+                        <button
+                            onClick={() => setPlaying(null)}
+                            className="absolute top-3 right-3 z-50 rounded-full bg-black/70 p-2 text-white hover:bg-black"
+                            aria-label={t('closePlayer')}
+                        >
+                            <X size={20} aria-hidden="true" />
+                        </button>
+                    </div>
+                )}
+
+                {!loaded ? (
+                    <LoadingSpinner />
+                ) : !supported ? (
+                    <p className="text-gray-400">{t('errors.unsupported')}</p>
+                ) : downloads.length === 0 ? (
+                    <div className="text-center py-20">
+                        <Download className="mx-auto text-gray-600 mb-4" size={48} aria-hidden="true" />
+                        <p className="text-gray-400">{t('empty')}</p>
+                    </div>
+                ) : (
+                    <ul className="space-y-3">
+                        {downloads.map((download) => {
+                            const playable = download.status === 'completed'
+                                && isDownloadLicenseValid(download.licenseExpiresAt);
+
+                            return (
+                                <li
+                                    key={download.id}
+                                    className="flex items-center gap-4 rounded-lg bg-white/5 p-4"
+                                >
+                                    {download.mediaType === 'tv'
+                                        ? <Tv className="text-gray-400 shrink-0" size={24} aria-hidden="true" />
+                                        : <Film className="text-gray-400 shrink-0" size={24} aria-hidden="true" />}
+
+                                    <div className="flex-1 min-w-0 space-y-1">
+                                        <p className="text-white font-medium truncate">{download.title}</p>
+                                        {renderStatus(download)}
+                                    </div>
+
+                                    <button
+                                        onClick={() => setPlaying(download)}
+                                        disabled={!playable}
+                                        className="rounded-full bg-white p-2 text-black hover:bg-gray-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                                        aria-label={t('play')}
+                                    >
+                                        <Play size={18} fill="currentColor" aria-hidden="true" />
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            if (playing?.id === download.id) setPlaying(null);
+                                            removeDownload(download.id);
+                                        }}
+                                        className="rounded-full p-2 text-gray-400 hover:bg-white/10 hover:text-white"
+                                        aria-label={t('delete')}
+                                    >
+                                        <Trash2 size={18} aria-hidden="true" />
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
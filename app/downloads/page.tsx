@@ -0,0 +1,51 @@
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import NavbarWrapper from '@/components/NavbarWrapper';
+import Footer from '@/components/Footer';
+import { auth } from '@/lib/auth';
+import { GRADIENTS } from '@/lib/theme';
+import { createMetadata } from '@/lib/seo';
+import DownloadsClient from './DownloadsClient';
+import { getTranslations, getLocale } from 'next-intl/server';
+import { localeToOpenGraph } from '@/lib/language';
+
+/**
+ * Downloads Page - Auth server-side + lista local (IndexedDB) no cliente
+ *
+ * O service worker guarda esta página no cache de downloads para que ela
+ * abra sem conexão (ver public/sw.js).
+ */
+
+export async function generateMetadata() {
+    const locale = await getLocale();
+    const ogLocale = localeToOpenGraph(locale);
+    const t = await getTranslations('downloads');
+    return createMetadata({
+        title: t('title'),
+        description: t('description'),
+        path: '/downloads',
+        locale: ogLocale,
+        noIndex: true,
+    });
+}
+
+export default async function DownloadsPage() {
+    const headersList = await headers();
+
+    // Verificar autenticação no servidor (SSR)
+    const session = await auth.api.getSession({ headers: headersList });
+
+    if (!session) {
+        redirect('/login?redirect=/downloads');
+    }
+
+    return (
+        <div className="min-h-screen" style={{ background: GRADIENTS.pageContent }}>
+            <NavbarWrapper />
+
+            <DownloadsClient />
+
+            <Footer />
+        </div>
+    );
+}
@@ -8,6 +8,8 @@ import { SessionProvider } from "@/components/SessionProvider";
 import { QueryProvider } from "@/components/QueryProvider";
 import JsonLd from "@/components/JsonLd";
 import PWAProvider from "@/components/PWAProvider";
+import { MiniPlayerProvider } from "@/components/MiniPlayerProvider";
+import { KeyboardShortcutsProvider } from "@/components/KeyboardShortcutsProvider";
 import { SITE_NAME_FULL, SITE_URL } from "@/lib/config";
 import {
   DEFAULT_OG_IMAGE,
@@ -162,9 +164,13 @@ export default async function RootLayout({
                 theme="dark"
               />
               <PWAProvider />
-              <main id="main-content">
-                {children}
-              </main>
+              <KeyboardShortcutsProvider>
+                <MiniPlayerProvider>
+                  <main id="main-content">
+                    {children}
+                  </main>
+                </MiniPlayerProvider>
+              </KeyboardShortcutsProvider>
             </SessionProvider>
           </QueryProvider>
         </NextIntlClientProvider>
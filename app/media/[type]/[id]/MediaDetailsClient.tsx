@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import OptimizedImage from '@/components/ui/OptimizedImage';
-import { Play, Clock, Calendar, Star, ChevronLeft } from 'lucide-react';
+import { Play, Clock, Calendar, Star, ChevronLeft, Download } from 'lucide-react';
 import { toast } from 'sonner';
 import { Episode } from '@/lib/tmdb';
 import { getBackdropUrl, getPosterUrl } from '@/lib/image-utils';
@@ -18,6 +18,9 @@ import Footer from '@/components/Footer';
 import { GRADIENTS } from '@/lib/theme';
 import { useTranslations } from 'next-intl';
 import type { Session } from '@/lib/auth-client';
+import { useOfflineDownloads } from '@/hooks/useOfflineDownloads';
+import type { OfflineDownloadContent } from '@/lib/offline-downloads';
+import type { Chapter } from '@/lib/chapters';
 
 // Dynamic imports: seções abaixo do fold (cast, trailers)
 const CastSection = dynamic(() => import('@/components/CastSection'));
@@ -31,14 +34,20 @@ interface MediaDetailsClientProps {
     initialFavorited?: boolean;
     /** Map of "season-episode" → progress percentage for watched episodes */
     episodeProgress?: Record<string, number>;
+    /** Chapters saved from the last playback (movies only) */
+    chapters?: Chapter[];
 }
 
-export default function MediaDetailsClient({ media, mediaType, mediaId, initialSession, initialFavorited = false, episodeProgress = {} }: MediaDetailsClientProps) {
+export default function MediaDetailsClient({ media, mediaType, mediaId, initialSession, initialFavorited = false, episodeProgress = {}, chapters = [] }: MediaDetailsClientProps) {
     const router = useRouter();
     const searchParams = useSearchParams();
     const t = useTranslations('mediaDetails');
     const tc = useTranslations('common');
     const tm = useTranslations('media');
+    const td = useTranslations('downloads');
+    const tRoot = useTranslations();
+    const { startDownloads } = useOfflineDownloads();
+    const [downloading, setDownloading] = useState(false);
     const [selectedSeason, setSelectedSeason] = useState(1);
 
     // Todas as temporadas já vêm do servidor (SSR)
@@ -78,6 +87,29 @@ export default function MediaDetailsClient({ media, mediaType, mediaId, initialS
         router.push(`/watch/${mediaType}/${parsedMediaId}`);
     };
 
+    // Download offline do filme ou da temporada selecionada (episódios já baixados são ignorados)
+    const handleDownloadClick = async () => {
+        const contents: OfflineDownloadContent[] = isTVShow
+            ? episodes.map((episode) => ({
+                tmdbId: parsedMediaId,
+                mediaType: 'tv',
+                season: episode.season_number,
+                episode: episode.episode_number,
+                title: `${getTitle()} · ${td('episodeLabel', { season: episode.season_number, episode: episode.episode_number })}`,
+            }))
+            : [{ tmdbId: parsedMediaId, mediaType: 'movie', title: getTitle() }];
+
+        setDownloading(true);
+        const error = await startDownloads(contents);
+        setDownloading(false);
+
+        if (error) {
+            toast.error(tRoot(error));
+        } else {
+            toast.success(td('started'));
+        }
+    };
+
 
 
     const getTitle = () => {
@@ -96,6 +128,14 @@ export default function MediaDetailsClient({ media, mediaType, mediaId, initialS
         return hours > 0 ? `${hours}h ${mins}min` : `${mins}min`;
     };
 
+    const formatChapterTime = (seconds: number) => {
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        const secs = Math.floor(seconds % 60);
+        const mmss = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${secs.toString().padStart(2, '0')}`;
+        return hours > 0 ? `${hours}:${mmss}` : mmss;
+    };
+
     const translateStatus = (status: string | undefined) => {
         if (!status) return '';
 
@@ -237,6 +277,17 @@ export default function MediaDetailsClient({ media, mediaType, mediaId, initialS
                                         <Play className="w-5 h-5" fill="black" aria-hidden="true" />
                                         {tc('watch')}
                                     </Button>
+                                    {initialSession && !isTVShow && (
+                                        <Button
+                                            onClick={handleDownloadClick}
+                                            disabled={downloading}
+                                            variant="outline"
+                                            className="px-6 py-6 text-lg font-semibold flex items-center gap-2"
+                                        >
+                                            <Download className="w-5 h-5" aria-hidden="true" />
+                                            {td('download')}
+                                        </Button>
+                                    )}
 
                                     <FavoriteButton
                                         tmdbId={parsedMediaId}
@@ -268,11 +319,24 @@ export default function MediaDetailsClient({ media, mediaType, mediaId, initialS
                     <section className="mb-12">
                         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
                             <h2 className="text-2xl font-bold text-white">{tm('episodesSection')}</h2>
-                            <SeasonSelector
-                                seasons={media.seasons}
-                                currentSeason={selectedSeason}
-                                onSeasonChange={setSelectedSeason}
-                            />
+                            <div className="flex items-center gap-3">
+                                {initialSession && episodes.length > 0 && (
+                                    <Button
+                                        onClick={handleDownloadClick}
+                                        disabled={downloading}
+                                        variant="outline"
+                                        className="flex items-center gap-2"
+                                    >
+                                        <Download className="w-4 h-4" aria-hidden="true" />
+                                        {td('downloadSeason')}
+                                    </Button>
+                                )}
+                                <SeasonSelector
+                                    seasons={media.seasons}
+                                    currentSeason={selectedSeason}
+                                    onSeasonChange={setSelectedSeason}
+                                />
+                            </div>
                         </div>
 
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -288,6 +352,43 @@ export default function MediaDetailsClient({ media, mediaType, mediaId, initialS
                     </section>
                 )}
 
+                {/* Chapters Section (movies) */}
+                {chapters.length > 0 && (
+                    <section className="mb-12">
+                        <h2 className="text-2xl font-bold text-white mb-6">{tm('chaptersSection')}</h2>
+                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                            {chapters.map((chapter) => (
+                                <button
+                                    key={chapter.startSeconds}
+                                    onClick={() => router.push(`/watch/${mediaType}/${parsedMediaId}?t=${Math.floor(chapter.startSeconds)}`)}
+                                    className="group text-left rounded-xl overflow-hidden bg-white/5 hover:bg-white/10 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                    aria-label={tm('playFromChapter', { title: chapter.title })}
+                                >
+                                    <div className="relative aspect-video bg-black">
+                                        {chapter.thumbnail && (
+                                            // Miniatura externa do backend (fora dos remotePatterns do next/image)
+                                            // eslint-disable-next-line @next/next/no-img-element
+                                            <img
+                                                src={chapter.thumbnail}
+                                                alt=""
+                                                className="w-full h-full object-cover"
+                                                loading="lazy"
+                                            />
+                                        )}
+                                        <div className="absolute inset-0 flex items-center justify-center bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <Play className="w-8 h-8 text-white" fill="white" aria-hidden="true" />
+                                        </div>
+                                    </div>
+                                    <div className="p-3">
+                                        <p className="text-white text-sm font-medium truncate">{chapter.title}</p>
+                                        <p className="text-gray-400 text-xs font-mono">{formatChapterTime(chapter.startSeconds)}</p>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
                 {/* Cast Section */}
                 {media.credits && media.credits.cast && media.credits.cast.length > 0 && (
                     <CastSection cast={media.credits.cast} maxItems={10} />
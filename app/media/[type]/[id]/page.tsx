@@ -302,6 +302,16 @@ export default async function MediaDetailsPage({ params }: PageProps) {
 
     const isTVShow = type === 'tv';
 
+    // Capítulos salvos na última reprodução (filmes; episódios mostram no player)
+    const chapters = isTVShow
+        ? []
+        : await import('@/lib/chapters-server')
+            .then(({ getStoredChapters }) => getStoredChapters(parseInt(id), 'movie', 0, 0))
+            .catch((error) => {
+                console.error('Failed to load chapters:', error);
+                return [];
+            });
+
     // JSON-LD structured data para Google rich results
     const ts = await getTranslations('mediaSeo');
     const tm = await getTranslations('metadata');
@@ -319,7 +329,7 @@ export default async function MediaDetailsPage({ params }: PageProps) {
         <>
             <JsonLd id="media-schema" data={jsonLd} />
             <JsonLd id="media-breadcrumb" data={breadcrumbJsonLd} />
-            <MediaDetailsClient media={media} mediaType={type} mediaId={id} initialSession={session} initialFavorited={isInWatchlist} episodeProgress={episodeProgress} />
+            <MediaDetailsClient media={media} mediaType={type} mediaId={id} initialSession={session} initialFavorited={isInWatchlist} episodeProgress={episodeProgress} chapters={chapters} />
         </>
     );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { WifiOff, RefreshCw, Home } from 'lucide-react';
+import { WifiOff, RefreshCw, Home, Download } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { COLORS, GRADIENTS } from '@/lib/theme';
@@ -17,6 +17,7 @@ import { useTranslations } from 'next-intl';
  * - Clean, branded offline experience
  * - Retry button to reload when connection is restored
  * - Go home button as primary action
+ * - Link to offline downloads (full navigation, served from the SW cache)
  * - Consistent with site design system
  */
 export default function OfflinePage() {
@@ -80,6 +81,18 @@ export default function OfflinePage() {
                                 {t('goHome')}
                             </Button>
                         </Link>
+
+                        <a href="/downloads">
+                            <Button
+                                size="lg"
+                                variant="outline"
+                                className="gap-2 w-full"
+                                aria-label={t('goToDownloads')}
+                            >
+                                <Download className="w-5 h-5" aria-hidden="true" />
+                                {t('goToDownloads')}
+                            </Button>
+                        </a>
                     </div>
 
                     {/* Tips */}
@@ -86,6 +86,8 @@ interface SettingsPageClientProps {
     initialPreferences: UserPreferencesData;
     userPlan: PlanData | null;
     trialEndsAt: string | null;
+    pastDueUntil: string | null;
+    cancelsAt: string | null;
     family: FamilyData | null;
     familyMembership: FamilyMembershipData | null;
     maxScreens: number;
@@ -97,6 +99,8 @@ export default function SettingsPageClient({
     initialPreferences,
     userPlan,
     trialEndsAt,
+    pastDueUntil,
+    cancelsAt,
     family,
     familyMembership,
     maxScreens,
@@ -140,6 +144,8 @@ export default function SettingsPageClient({
                     <PlanSection
                         userPlan={userPlan}
                         trialEndsAt={trialEndsAt}
+                        pastDueUntil={pastDueUntil}
+                        cancelsAt={cancelsAt}
                         familyMembership={familyMembership}
                     />
                 );
@@ -6,6 +6,9 @@ import { createMetadata } from '@/lib/seo';
 import SettingsPageClient from './SettingsPageClient';
 import { getTranslations, getLocale } from 'next-intl/server';
 import { parseAcceptLanguage, localeToOpenGraph } from '@/lib/language';
+import { parseShortcutOverrides } from '@/lib/keyboard-shortcuts';
+import { parseDataUsageMode } from '@/lib/data-usage';
+import { hasPendingCancellation } from '@/lib/subscription';
 
 export async function generateMetadata() {
     const locale = await getLocale();
@@ -26,7 +29,7 @@ export async function generateMetadata() {
  * Settings Page - Server Component
  * 
  * ✅ OTIMIZADO: 1 única query Prisma traz todos os dados necessários:
- * - Plano e trial do usuário
+ * - Plano, trial, carência de pagamento e cancelamento agendado do usuário
  * - Preferências (legendas, notificações, idioma)
  * - Sessões ativas (dispositivos conectados)
  * - Família (se owner) com membros e convites
@@ -49,6 +52,9 @@ export default async function SettingsPage() {
         where: { id: session.user.id },
         include: {
             plan: true,
+            subscription: {
+                select: { status: true, graceEndsAt: true, cancelAtPeriodEnd: true, currentPeriodEnd: true },
+            },
             preferences: true,
             sessions: {
                 orderBy: { createdAt: 'desc' },
@@ -130,6 +136,11 @@ export default async function SettingsPage() {
         pushNewReleases: true,
         pushRecommendations: false,
         pushAccountAlerts: true,
+        autoSkipIntro: false,
+        stillWatchingEpisodes: 3,
+        stillWatchingMinutes: 0,
+        keyboardShortcuts: {},
+        dataUsage: 'auto',
         createdAt: new Date(),
         updatedAt: new Date(),
     };
@@ -145,9 +156,19 @@ export default async function SettingsPage() {
                     avatarColor: userData.avatarColor,
                 },
             } as typeof session}
-            initialPreferences={userPreferences}
+            initialPreferences={{
+                ...userPreferences,
+                keyboardShortcuts: parseShortcutOverrides(userPreferences.keyboardShortcuts),
+                dataUsage: parseDataUsageMode(userPreferences.dataUsage),
+            }}
             userPlan={userData.plan}
             trialEndsAt={userData.trialEndsAt?.toISOString() ?? null}
+            pastDueUntil={userData.subscription?.status === 'past_due'
+                ? userData.subscription.graceEndsAt?.toISOString() ?? null
+                : null}
+            cancelsAt={hasPendingCancellation(userData.subscription)
+                ? userData.subscription?.currentPeriodEnd.toISOString() ?? null
+                : null}
             family={family}
             familyMembership={familyMembership}
             maxScreens={userData.maxScreens}
@@ -1,35 +1,24 @@
 import { redirect } from 'next/navigation';
 import { headers } from 'next/headers';
-import dynamic from 'next/dynamic';
 import { auth } from '@/lib/auth';
 import { ChevronLeft } from 'lucide-react';
 import { GRADIENTS } from '@/lib/theme';
 import Link from 'next/link';
-import LoadingSpinner from '@/components/LoadingSpinner';
+import WatchPlayerSlot from '@/components/WatchPlayerSlot';
 import type { Metadata } from 'next';
 import { SITE_NAME_FULL, TMDB_API_URL, TMDB_API_KEY } from '@/lib/config';
 import { resolveResumeEpisode } from '@/lib/resume-episode';
+import { parseDataUsageMode } from '@/lib/data-usage';
 import { getTranslations } from 'next-intl/server';
 import { getUserLanguage } from '@/lib/language-server';
 
-// Dynamic import: StreamingVideoPlayer (208 linhas + VideoPlayer 773 linhas + react-player)
-// Code-splitting: componente pesado carregado sob demanda
-const StreamingVideoPlayer = dynamic(
-    () => import('@/components/StreamingVideoPlayer'),
-    {
-        loading: () => (
-            <div className="w-full h-screen flex items-center justify-center bg-black">
-                <LoadingSpinner />
-            </div>
-        ),
-    }
-);
-
 interface PageProps {
     params: Promise<{
         type: string;
         id: string;
     }>;
+    /** ?t= posição inicial em segundos (capítulo escolhido na página de detalhes) */
+    searchParams: Promise<{ t?: string }>;
 }
 
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
@@ -59,8 +48,10 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
     }
 }
 
-export default async function WatchPage({ params }: PageProps) {
+export default async function WatchPage({ params, searchParams }: PageProps) {
     const { type, id } = await params;
+    const { t: startParam } = await searchParams;
+    const startTime = Math.max(0, parseInt(startParam ?? '', 10) || 0);
 
     if (type !== 'movie' && type !== 'tv') {
         redirect('/');
@@ -95,7 +86,7 @@ export default async function WatchPage({ params }: PageProps) {
         const [user, tmdbResponse] = await Promise.all([
             prisma.user.findUnique({
                 where: { id: session.user.id },
-                include: { plan: true },
+                include: { plan: true, preferences: true },
             }),
             fetch(
                 `${TMDB_API_URL}/movie/${id}?api_key=${TMDB_API_KEY}&language=${language}`,
@@ -127,10 +118,13 @@ export default async function WatchPage({ params }: PageProps) {
                     </Link>
                 </div>
                 <div className="w-full h-screen">
-                    <StreamingVideoPlayer
+                    <WatchPlayerSlot
                         tmdbId={tmdbId}
                         mediaType="movie"
                         title={title}
+                        autoSkipIntro={user.preferences?.autoSkipIntro ?? false}
+                        dataUsage={parseDataUsageMode(user.preferences?.dataUsage)}
+                        {...(startTime > 0 && { startTime })}
                     />
                 </div>
             </div>
@@ -174,6 +168,12 @@ export default async function WatchPage({ params }: PageProps) {
 
     // Autoplay preference
     const autoplayNext = user.preferences?.autoplayNext ?? true;
+    const autoSkipIntro = user.preferences?.autoSkipIntro ?? false;
+    const bingeGuard = {
+        episodes: user.preferences?.stillWatchingEpisodes ?? 3,
+        minutes: user.preferences?.stillWatchingMinutes ?? 0,
+    };
+    const dataUsage = parseDataUsageMode(user.preferences?.dataUsage);
 
     // Fetch episode details + next episode details in parallel
     interface NextEpInfo {
@@ -273,7 +273,7 @@ export default async function WatchPage({ params }: PageProps) {
                 </Link>
             </div>
             <div className="w-full h-screen">
-                <StreamingVideoPlayer
+                <WatchPlayerSlot
                     tmdbId={tmdbId}
                     mediaType="tv"
                     title={episodeTitle}
@@ -281,6 +281,9 @@ export default async function WatchPage({ params }: PageProps) {
                     episode={resumePoint.episode}
                     nextEpisode={nextEpisode}
                     autoplayNext={autoplayNext}
+                    autoSkipIntro={autoSkipIntro}
+                    bingeGuard={bingeGuard}
+                    dataUsage={dataUsage}
                 />
             </div>
         </div>
@@ -1,28 +1,16 @@
 import { redirect } from 'next/navigation';
 import { headers } from 'next/headers';
-import dynamic from 'next/dynamic';
 import { auth } from '@/lib/auth';
 import { ChevronLeft } from 'lucide-react';
 import { GRADIENTS } from '@/lib/theme';
 import Link from 'next/link';
-import LoadingSpinner from '@/components/LoadingSpinner';
+import WatchPlayerSlot from '@/components/WatchPlayerSlot';
 import type { Metadata } from 'next';
 import { SITE_NAME_FULL, TMDB_API_URL, TMDB_API_KEY } from '@/lib/config';
+import { parseDataUsageMode } from '@/lib/data-usage';
 import { getTranslations } from 'next-intl/server';
 import { getUserLanguage } from '@/lib/language-server';
 
-// Dynamic import: StreamingVideoPlayer (heavy component chain)
-const StreamingVideoPlayer = dynamic(
-    () => import('@/components/StreamingVideoPlayer'),
-    {
-        loading: () => (
-            <div className="w-full h-screen flex items-center justify-center bg-black">
-                <LoadingSpinner />
-            </div>
-        ),
-    }
-);
-
 interface PageProps {
     params: Promise<{
         id: string;
@@ -154,6 +142,12 @@ export default async function WatchTVEpisodePage({ params }: PageProps) {
 
     // 3. Autoplay preference (default: true)
     const autoplayNext = user.preferences?.autoplayNext ?? true;
+    const autoSkipIntro = user.preferences?.autoSkipIntro ?? false;
+    const bingeGuard = {
+        episodes: user.preferences?.stillWatchingEpisodes ?? 3,
+        minutes: user.preferences?.stillWatchingMinutes ?? 0,
+    };
+    const dataUsage = parseDataUsageMode(user.preferences?.dataUsage);
 
     // 4. Computar próximo episódio
     // seriesData.seasons contém { season_number, episode_count } para cada temporada
@@ -247,9 +241,9 @@ export default async function WatchTVEpisodePage({ params }: PageProps) {
                 </Link>
             </div>
 
-            {/* Streaming Video Player - busca URL via API */}
+            {/* Streaming Video Player (renderizado pelo MiniPlayerProvider no layout) */}
             <div className="w-full h-screen">
-                <StreamingVideoPlayer
+                <WatchPlayerSlot
                     tmdbId={parseInt(id)}
                     mediaType="tv"
                     title={episodeTitle}
@@ -257,6 +251,9 @@ export default async function WatchTVEpisodePage({ params }: PageProps) {
                     episode={episodeNumber}
                     nextEpisode={nextEpisode}
                     autoplayNext={autoplayNext}
+                    autoSkipIntro={autoSkipIntro}
+                    bingeGuard={bingeGuard}
+                    dataUsage={dataUsage}
                 />
             </div>
         </div>
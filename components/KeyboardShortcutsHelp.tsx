@@ -0,0 +1,73 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import Modal from '@/components/Modal';
+import {
+    formatShortcut,
+    SHORTCUT_ACTIONS,
+    SHORTCUT_DEFINITIONS,
+    type ShortcutBindings,
+    type ShortcutScope,
+} from '@/lib/keyboard-shortcuts';
+
+export interface KeyboardShortcutsHelpProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    bindings: ShortcutBindings;
+}
+
+const SCOPES: ShortcutScope[] = ['player', 'global'];
+
+/**
+ * Renders the keys bound to an action ("Not set" when unbound)
+ */
+export function ShortcutKeys({ shortcuts }: { shortcuts: string[] }) {
+    const t = useTranslations('shortcuts');
+
+    if (shortcuts.length === 0) {
+        return <span className="text-sm text-gray-500">{t('none')}</span>;
+    }
+
+    return (
+        <span className="flex flex-wrap justify-end gap-1.5">
+            {shortcuts.map((shortcut) => (
+                <kbd
+                    key={shortcut}
+                    className="min-w-[2rem] px-2 py-1 rounded-md bg-white/[0.08] border border-white/[0.12] text-xs font-semibold text-white text-center"
+                >
+                    {formatShortcut(shortcut)}
+                </kbd>
+            ))}
+        </span>
+    );
+}
+
+/**
+ * Help overlay listing the current keyboard shortcuts (opened with "?")
+ */
+export default function KeyboardShortcutsHelp({ open, onOpenChange, bindings }: KeyboardShortcutsHelpProps) {
+    const t = useTranslations('shortcuts');
+
+    return (
+        <Modal open={open} onOpenChange={onOpenChange} title={t('title')} className="max-w-xl max-h-[85vh] overflow-y-auto">
+            <div className="space-y-6">
+                {SCOPES.map((scope) => (
+                    <section key={scope}>
+                        <h3 className="text-xs text-gray-400 uppercase tracking-wider font-semibold mb-2">
+                            {t(`scopes.${scope}`)}
+                        </h3>
+                        <ul className="divide-y divide-white/[0.06]">
+                            {SHORTCUT_ACTIONS.filter((action) => SHORTCUT_DEFINITIONS[action].scope === scope).map((action) => (
+                                <li key={action} className="flex items-center justify-between gap-4 py-2.5">
+                                    <span className="text-sm text-gray-200">{t(`actions.${action}`)}</span>
+                                    <ShortcutKeys shortcuts={bindings[action]} />
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                ))}
+                <p className="text-xs text-gray-500">{t('customizeHint')}</p>
+            </div>
+        </Modal>
+    );
+}
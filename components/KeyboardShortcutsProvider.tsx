@@ -0,0 +1,152 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { authClient } from '@/lib/auth-client';
+import KeyboardShortcutsHelp from '@/components/KeyboardShortcutsHelp';
+import {
+    findShortcutAction,
+    getShortcutFromEvent,
+    parseShortcutOverrides,
+    resolveShortcutBindings,
+    type ShortcutAction,
+    type ShortcutBindings,
+    type ShortcutOverrides,
+    type ShortcutScope,
+} from '@/lib/keyboard-shortcuts';
+
+interface KeyboardShortcutsContextValue {
+    bindings: ShortcutBindings;
+    overrides: ShortcutOverrides;
+    /** Applies remapped shortcuts right away (saving them is up to the settings page) */
+    setOverrides: (overrides: ShortcutOverrides) => void;
+}
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+const KeyboardShortcutsContext = createContext<KeyboardShortcutsContextValue | null>(null);
+
+/** Digitação em campos de texto nunca dispara atalhos */
+function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+function useShortcutListener(
+    bindings: ShortcutBindings,
+    scope: ShortcutScope,
+    handlers: ShortcutHandlers,
+    enabled: boolean
+) {
+    useEffect(() => {
+        if (!enabled) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Tratado antes (ex: captura de atalho nas configurações)
+            if (e.defaultPrevented || isEditableTarget(e.target)) return;
+
+            const shortcut = getShortcutFromEvent(e);
+            const action = shortcut && findShortcutAction(bindings, shortcut, scope);
+            const handler = action && handlers[action];
+            if (!handler) return;
+
+            e.preventDefault();
+            handler();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [bindings, scope, handlers, enabled]);
+}
+
+/**
+ * Atalhos de teclado globais
+ *
+ * Carrega os atalhos personalizados do usuário (UserPreferences.keyboardShortcuts)
+ * e aplica os atalhos de navegação (Minha Lista, ajuda "?"). O player e a
+ * Navbar registram os seus com useShortcutHandlers.
+ */
+export function KeyboardShortcutsProvider({ children }: { children: ReactNode }) {
+    const router = useRouter();
+    const { data: session } = authClient.useSession();
+    const userId = session?.user?.id;
+    const [saved, setSaved] = useState<{ userId: string; overrides: ShortcutOverrides } | null>(null);
+    const [helpOpen, setHelpOpen] = useState(false);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        let cancelled = false;
+
+        async function fetchShortcuts(id: string) {
+            try {
+                const res = await fetch('/api/settings/preferences');
+                if (!res.ok) return;
+                const data = await res.json();
+                if (!cancelled) {
+                    setSaved({ userId: id, overrides: parseShortcutOverrides(data.preferences?.keyboardShortcuts) });
+                }
+            } catch {
+                // Mantém os atalhos padrão se falhar
+            }
+        }
+
+        fetchShortcuts(userId);
+        return () => { cancelled = true; };
+    }, [userId]);
+
+    // Atalhos de outra conta (logout/troca de usuário) não valem
+    const overrides = useMemo(
+        () => (saved && saved.userId === userId ? saved.overrides : {}),
+        [saved, userId]
+    );
+    const bindings = useMemo(() => resolveShortcutBindings(overrides), [overrides]);
+
+    const setOverrides = useCallback((next: ShortcutOverrides) => {
+        if (userId) setSaved({ userId, overrides: next });
+    }, [userId]);
+
+    const value = useMemo<KeyboardShortcutsContextValue>(
+        () => ({ bindings, overrides, setOverrides }),
+        [bindings, overrides, setOverrides]
+    );
+
+    const globalHandlers = useMemo<ShortcutHandlers>(() => ({
+        showHelp: () => setHelpOpen((open) => !open),
+        ...(userId && { goToMyList: () => router.push('/my-list') }),
+    }), [router, userId]);
+
+    useShortcutListener(bindings, 'global', globalHandlers, true);
+
+    return (
+        <KeyboardShortcutsContext.Provider value={value}>
+            {children}
+            <KeyboardShortcutsHelp open={helpOpen} onOpenChange={setHelpOpen} bindings={bindings} />
+        </KeyboardShortcutsContext.Provider>
+    );
+}
+
+/**
+ * Atalhos atuais do usuário (precisa estar dentro do KeyboardShortcutsProvider)
+ */
+export function useKeyboardShortcuts(): KeyboardShortcutsContextValue {
+    const context = useContext(KeyboardShortcutsContext);
+    if (!context) {
+        throw new Error('useKeyboardShortcuts must be used within KeyboardShortcutsProvider');
+    }
+    return context;
+}
+
+/**
+ * Registra as ações de um escopo (ex: o player) nos atalhos do usuário.
+ *
+ * @param handlers - Memoizado pelo chamador (cada mudança re-registra o listener)
+ *
+ * @example
+ * const handlers = useMemo(() => ({ playPause: togglePlay, mute: toggleMute }), [togglePlay, toggleMute]);
+ * useShortcutHandlers('player', handlers, !mini);
+ */
+export function useShortcutHandlers(scope: ShortcutScope, handlers: ShortcutHandlers, enabled = true) {
+    const { bindings } = useKeyboardShortcuts();
+    useShortcutListener(bindings, scope, handlers, enabled);
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { createContext, useContext, useMemo, useState, type ReactNode } from 'react';
+import dynamic from 'next/dynamic';
+import { usePathname, useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Maximize2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import type { StreamingVideoPlayerProps } from '@/components/StreamingVideoPlayer';
+
+// Dynamic import: StreamingVideoPlayer (heavy component chain)
+const StreamingVideoPlayer = dynamic(
+    () => import('@/components/StreamingVideoPlayer'),
+    {
+        ssr: false,
+        loading: () => (
+            <div className="w-full h-full flex items-center justify-center bg-black">
+                <LoadingSpinner />
+            </div>
+        ),
+    }
+);
+
+export interface MiniPlayerSession extends StreamingVideoPlayerProps {
+    /** Watch page URL (path + query) used to expand the mini-player */
+    href: string;
+}
+
+interface MiniPlayerContextValue {
+    /** Registers the title being watched (called by the watch pages) */
+    openPlayer: (session: MiniPlayerSession) => void;
+    closePlayer: () => void;
+}
+
+const MiniPlayerContext = createContext<MiniPlayerContextValue | null>(null);
+
+/**
+ * Mini-player global
+ *
+ * O player vive no layout raiz (e não na página /watch) para que a mesma
+ * instância continue tocando enquanto o usuário navega pelo catálogo:
+ * - Em /watch/...: ocupa a tela inteira (a página só registra o título)
+ * - Fora de /watch: vira uma janela flutuante com expandir/fechar
+ *
+ * O progresso continua sendo salvo em /api/watch-history pelo VideoPlayer.
+ */
+export function MiniPlayerProvider({ children }: { children: ReactNode }) {
+    const t = useTranslations('player');
+    const pathname = usePathname();
+    const router = useRouter();
+    const [session, setSession] = useState<MiniPlayerSession | null>(null);
+
+    const value = useMemo<MiniPlayerContextValue>(() => ({
+        openPlayer: setSession,
+        closePlayer: () => setSession(null),
+    }), []);
+
+    const mini = !!session && !pathname.startsWith('/watch/');
+    // Trocar de título/episódio recria o player; expandir/minimizar mantém a instância
+    const contentKey = session
+        ? `${session.mediaType}-${session.tmdbId}-${session.season ?? 0}-${session.episode ?? 0}`
+        : null;
+
+    return (
+        <MiniPlayerContext.Provider value={value}>
+            {children}
+            {session && (
+                <div
+                    className={cn(
+                        mini
+                            ? 'fixed bottom-4 right-4 z-[60] w-72 sm:w-96 aspect-video rounded-xl overflow-hidden bg-black shadow-2xl shadow-black/60 border border-white/10'
+                            : 'fixed inset-0 z-40'
+                    )}
+                    role={mini ? 'region' : undefined}
+                    aria-label={mini ? t('miniPlayer') : undefined}
+                >
+                    <StreamingVideoPlayer key={contentKey} {...session} mini={mini} />
+
+                    {mini && (
+                        <div className="absolute top-2 right-2 z-50 flex items-center gap-1">
+                            <button
+                                onClick={() => router.push(session.href)}
+                                className="p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                aria-label={t('expandPlayer')}
+                                title={t('expandPlayer')}
+                            >
+                                <Maximize2 className="w-4 h-4" aria-hidden="true" />
+                            </button>
+                            <button
+                                onClick={() => setSession(null)}
+                                className="p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                aria-label={t('closePlayer')}
+                                title={t('closePlayer')}
+                            >
+                                <X className="w-4 h-4" aria-hidden="true" />
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </MiniPlayerContext.Provider>
+    );
+}
+
+/**
+ * Acesso ao mini-player global (precisa estar dentro do MiniPlayerProvider)
+ */
+export function useMiniPlayer(): MiniPlayerContextValue {
+    const context = useContext(MiniPlayerContext);
+    if (!context) {
+        throw new Error('useMiniPlayer must be used within MiniPlayerProvider');
+    }
+    return context;
+}
@@ -2,13 +2,14 @@
 
 import Link from 'next/link';
 import Image from 'next/image';
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { Search, Menu, X, User, LogOut, CreditCard, Bell, Home, Tv, Film, List, HelpCircle, ChevronRight, Settings } from 'lucide-react';
+import { Search, Menu, X, User, LogOut, CreditCard, Bell, Home, Tv, Film, List, HelpCircle, ChevronRight, Settings, Download } from 'lucide-react';
 import { Button } from './ui/button';
 import { useRouter, usePathname, useSearchParams } from 'next/navigation';
 import { authClient } from '@/lib/auth-client';
 import SearchModal from './SearchModal';
+import { useShortcutHandlers, type ShortcutHandlers } from './KeyboardShortcutsProvider';
 import UserAvatar from './UserAvatar';
 import LanguageSwitcher from './LanguageSwitcher';
 import type { Session } from '@/lib/auth-client';
@@ -185,6 +186,12 @@ export default function Navbar({ initialSession }: NavbarProps) {
         return () => document.removeEventListener('keydown', handleEscape);
     }, [isUserMenuOpen, isMenuOpen]);
 
+    // Atalho de busca (a busca rápida só existe para usuários logados)
+    const shortcutHandlers = useMemo<ShortcutHandlers>(() => ({
+        openSearch: () => setIsSearchOpen(true),
+    }), []);
+    useShortcutHandlers('global', shortcutHandlers, !!user);
+
     // Bloquear scroll quando menu mobile está aberto
     useEffect(() => {
         if (isMenuOpen) {
@@ -422,6 +429,16 @@ export default function Navbar({ initialSession }: NavbarProps) {
                             <CreditCard className="w-4 h-4 text-white/40 group-hover:text-primary transition-colors" aria-hidden="true" />
                             <span className="text-sm font-medium">{t('plans')}</span>
                         </Link>
+                        <Link
+                            href="/downloads"
+                            prefetch={false}
+                            className="flex items-center gap-3 px-3 py-2.5 rounded-xl text-white/80 hover:bg-white/[0.06] hover:text-white transition-all group focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                            onClick={() => setIsUserMenuOpen(false)}
+                            role="menuitem"
+                        >
+                            <Download className="w-4 h-4 text-white/40 group-hover:text-primary transition-colors" aria-hidden="true" />
+                            <span className="text-sm font-medium">{t('downloads')}</span>
+                        </Link>
                     </div>
 
                     {/* Divider */}
@@ -562,6 +579,7 @@ export default function Navbar({ initialSession }: NavbarProps) {
                                                     { href: '/tv', icon: Tv, label: t('tvShows'), delay: 150 },
                                                     { href: '/movies', icon: Film, label: t('movies'), delay: 180 },
                                                     { href: '/my-list', icon: List, label: t('myList'), delay: 210 },
+                                                    { href: '/downloads', icon: Download, label: t('downloads'), delay: 240 },
                                                 ].map(({ href, icon: Icon, label, delay }) => {
                                                     const active = isActiveRoute(href);
                                                     return (
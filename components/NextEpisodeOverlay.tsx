@@ -19,9 +19,13 @@ export interface NextEpisodeOverlayProps {
     nextEpisode: NextEpisodeInfo;
     autoplayNext: boolean;
     onPlayNext: () => void;
+    /** Called right before onPlayNext when the countdown (not the user) advances */
+    onAutoAdvance?: () => void;
     onDismiss: () => void;
     /** Whether the video has actually ended */
     videoEnded: boolean;
+    /** Whether the credits marker has been reached */
+    creditsStarted?: boolean;
 }
 
 /** Countdown duration in seconds when autoplay is enabled */
@@ -29,15 +33,18 @@ const AUTOPLAY_COUNTDOWN = 10;
 
 /**
  * Netflix-style "Next Episode" overlay
- * Appears near the end of an episode with countdown and play button.
+ * Appears when the credits start (or near the end of an episode without
+ * markers) with countdown and play button.
  * Auto-advances when countdown reaches 0 (if autoplayNext is enabled).
  */
 export default function NextEpisodeOverlay({
     nextEpisode,
     autoplayNext,
     onPlayNext,
+    onAutoAdvance,
     onDismiss,
     videoEnded,
+    creditsStarted = false,
 }: NextEpisodeOverlayProps) {
     const t = useTranslations('player');
     const tc = useTranslations('common');
@@ -46,13 +53,14 @@ export default function NextEpisodeOverlay({
     const [countdownActive, setCountdownActive] = useState(false);
     const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
-    // Start countdown when video ends and autoplay is enabled
+    // Start countdown when credits start or video ends and autoplay is enabled
+    const shouldCountdown = videoEnded || creditsStarted;
     useEffect(() => {
-        if (videoEnded && autoplayNext) {
+        if (shouldCountdown && autoplayNext) {
             setCountdownActive(true);
             setCountdown(AUTOPLAY_COUNTDOWN);
         }
-    }, [videoEnded, autoplayNext]);
+    }, [shouldCountdown, autoplayNext]);
 
     // Countdown timer
     useEffect(() => {
@@ -62,6 +70,7 @@ export default function NextEpisodeOverlay({
             setCountdown(prev => {
                 if (prev <= 1) {
                     clearInterval(intervalRef.current!);
+                    onAutoAdvance?.();
                     onPlayNext();
                     return 0;
                 }
@@ -72,7 +81,7 @@ export default function NextEpisodeOverlay({
         return () => {
             if (intervalRef.current) clearInterval(intervalRef.current);
         };
-    }, [countdownActive, onPlayNext]);
+    }, [countdownActive, onPlayNext, onAutoAdvance]);
 
     const handlePlayNow = useCallback(() => {
         if (intervalRef.current) clearInterval(intervalRef.current);
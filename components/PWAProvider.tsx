@@ -2,8 +2,8 @@
  * PWA Provider Component
  *
  * Root-level provider that initializes Service Worker registration,
- * tracks online/offline status, and renders the install prompt
- * and update notifications.
+ * tracks online/offline status, syncs watch progress saved while
+ * offline, and renders the install prompt and update notifications.
  *
  * This component should be placed inside the RootLayout to ensure
  * PWA functionality is available across all pages.
@@ -15,6 +15,7 @@
 
 import dynamic from 'next/dynamic';
 import { useServiceWorker } from '@/hooks/useServiceWorker';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
 
 // Dynamic imports — PWA components are not critical for initial render
 const PWAInstallPrompt = dynamic(() => import('./PWAInstallPrompt'), {
@@ -27,7 +28,8 @@ const PWAUpdateNotification = dynamic(
 );
 
 export default function PWAProvider() {
-    const { isUpdateAvailable, updateServiceWorker } = useServiceWorker();
+    const { isOnline, isUpdateAvailable, updateServiceWorker } = useServiceWorker();
+    useOfflineSync(isOnline);
 
     return (
         <>
@@ -7,11 +7,16 @@ import ScrollReveal from '@/components/ScrollReveal';
 import { COLORS, GRADIENTS } from '@/lib/theme';
 import { usePrefetch } from '@/hooks/usePrefetch';
 import { useTranslations } from 'next-intl';
+import type { MaxQuality } from '@/lib/plan-entitlements';
 
 interface PlanCardProps {
     name: string;
     price: string;
     screens: number;
+    /** Highest resolution included in the plan */
+    maxQuality: MaxQuality;
+    /** Whether the plan includes HDR */
+    hdr?: boolean;
     popular?: boolean;
     delay?: number;
     features?: string[];
@@ -32,6 +37,8 @@ export default function PlanCard({
     name,
     price,
     screens,
+    maxQuality,
+    hdr = false,
     popular = false,
     delay = 0,
     features,
@@ -51,7 +58,7 @@ export default function PlanCard({
 
     const defaultFeatures = [
         tc('screens', { count: screens }),
-        t('quality4kHdr'),
+        t(hdr ? 'qualityUpToHdr' : 'qualityUpTo', { quality: maxQuality }),
         t('noAds'),
         t('unlimitedDownload'),
         t('cancelAnytime'),
@@ -4,6 +4,7 @@ import ScrollReveal from '@/components/ScrollReveal';
 import PlanCard from '@/components/PlanCard';
 import { GRADIENTS, COLORS } from '@/lib/theme';
 import { useTranslations } from 'next-intl';
+import { PLAN_QUALITY_ENTITLEMENTS } from '@/lib/plan-entitlements';
 
 export default function PricingSection() {
     const t = useTranslations('plans');
@@ -32,6 +33,7 @@ export default function PricingSection() {
                         name={t('individual')}
                         price={t('individualPrice')}
                         screens={1}
+                        {...PLAN_QUALITY_ENTITLEMENTS.plan_individual}
                         popular={false}
                         delay={0.1}
                     />
@@ -39,6 +41,7 @@ export default function PricingSection() {
                         name={t('duo')}
                         price={t('duoPrice')}
                         screens={2}
+                        {...PLAN_QUALITY_ENTITLEMENTS.plan_duo}
                         popular={true}
                         delay={0.2}
                     />
@@ -46,6 +49,7 @@ export default function PricingSection() {
                         name={t('family')}
                         price={t('familyPrice')}
                         screens={4}
+                        {...PLAN_QUALITY_ENTITLEMENTS.plan_familia}
                         popular={false}
                         delay={0.3}
                     />
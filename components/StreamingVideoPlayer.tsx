@@ -3,12 +3,22 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
-import VideoPlayer from '@/components/VideoPlayer';
-import { Loader2, AlertCircle } from 'lucide-react';
+import VideoPlayer, { type RefreshedPlaybackUrls } from '@/components/VideoPlayer';
+import { Loader2, AlertCircle, MonitorX } from 'lucide-react';
+import { UAParser } from 'ua-parser-js';
 import { GRADIENTS } from '@/lib/theme';
+import { translateApiError } from '@/lib/i18n';
+import { authClient } from '@/lib/auth-client';
+import { useWatchParty } from '@/hooks/useWatchParty';
+import { getWatchPartyPath, isSameWatchPartyContent } from '@/lib/watch-party-sync';
+import { toast } from 'sonner';
 import type { NextEpisodeInfo } from '@/components/NextEpisodeOverlay';
+import type { SegmentMarker } from '@/lib/segment-markers';
+import type { Chapter } from '@/lib/chapters';
+import type { BingeGuardSettings } from '@/lib/binge-guard';
+import type { DataUsageMode } from '@/lib/data-usage';
 
-interface StreamingVideoPlayerProps {
+export interface StreamingVideoPlayerProps {
     tmdbId: number;
     mediaType: 'movie' | 'tv';
     title: string;
@@ -18,6 +28,18 @@ interface StreamingVideoPlayerProps {
     nextEpisode?: NextEpisodeInfo;
     /** Whether to auto-play next episode (from user preferences) */
     autoplayNext?: boolean;
+    /** Whether to skip intros/recaps automatically (from user preferences) */
+    autoSkipIntro?: boolean;
+    /** "Still watching?" limits for autoplay chains (from user preferences) */
+    bingeGuard?: BingeGuardSettings;
+    /** Data usage preference (automatic / save data / max quality) */
+    dataUsage?: DataUsageMode;
+    /** Start position in seconds (e.g. a chapter picked on the details page); skips resume */
+    startTime?: number;
+    /** Watch party room from the invite link (?party=) */
+    partyRoomId?: string | null;
+    /** Rendered as the global mini-player (see MiniPlayerProvider) */
+    mini?: boolean;
 }
 
 interface VideoQuality {
@@ -37,6 +59,17 @@ interface AudioTrack {
     language: string;
 }
 
+interface ActiveStream {
+    id: string;
+    userName: string | null;
+    userAgent: string | null;
+    tmdbId: number;
+    mediaType: string;
+    seasonNumber: number;
+    episodeNumber: number;
+    isCurrentSession: boolean;
+}
+
 interface StreamingResponse {
     success: boolean;
     url?: string;
@@ -49,6 +82,23 @@ interface StreamingResponse {
     message?: string;
     expiresAt?: string;
     quality?: string;
+    markers?: SegmentMarker[];
+    thumbnails?: string;
+    chapters?: Chapter[];
+    backend?: string;
+    leaseId?: string;
+    maxScreens?: number;
+    activeStreams?: ActiveStream[];
+}
+
+/**
+ * Descrição curta do dispositivo a partir do User-Agent (ex: "Chrome · Windows")
+ */
+function describeDevice(userAgent: string | null): string | null {
+    if (!userAgent) return null;
+    const parser = new UAParser(userAgent);
+    const parts = [parser.getBrowser().name, parser.getOS().name].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : null;
 }
 
 export default function StreamingVideoPlayer({
@@ -59,19 +109,101 @@ export default function StreamingVideoPlayer({
     episode,
     nextEpisode,
     autoplayNext = false,
+    autoSkipIntro = false,
+    bingeGuard,
+    dataUsage,
+    startTime,
+    partyRoomId = null,
+    mini = false,
 }: StreamingVideoPlayerProps) {
     const t = useTranslations('streaming');
     const tc = useTranslations('common');
     const tA11y = useTranslations('a11y');
+    const tRoot = useTranslations();
     const router = useRouter();
     const [videoUrl, setVideoUrl] = useState<string | null>(null);
     const [qualities, setQualities] = useState<VideoQuality[]>([]);
     const [defaultQuality, setDefaultQuality] = useState<string>('auto');
     const [subtitles, setSubtitles] = useState<VideoSubtitle[]>([]);
     const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
+    const [markers, setMarkers] = useState<SegmentMarker[]>([]);
+    const [thumbnails, setThumbnails] = useState<string | undefined>(undefined);
+    const [chapters, setChapters] = useState<Chapter[]>([]);
+    const [backend, setBackend] = useState<string | undefined>(undefined);
     const [error, setError] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [debugInfo, setDebugInfo] = useState<any>(null);
+    const [expiresAt, setExpiresAt] = useState<string | undefined>(undefined);
+    const [leaseId, setLeaseId] = useState<string | undefined>(undefined);
+    const [screenLimit, setScreenLimit] = useState<{ maxScreens: number; activeStreams: ActiveStream[] } | null>(null);
+    const [stoppingLeaseId, setStoppingLeaseId] = useState<string | null>(null);
+    const [attempt, setAttempt] = useState(0);
+
+    // Watch Party (?party=<roomId> no link de convite)
+    const { data: session } = authClient.useSession();
+    const watchParty = useWatchParty(partyRoomId, session?.user?.id);
+    const [startingWatchParty, setStartingWatchParty] = useState(false);
+    const partyContent = watchParty?.content;
+
+    const handleStartWatchParty = useCallback(async () => {
+        setStartingWatchParty(true);
+        try {
+            const response = await fetch('/api/watch-party', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ tmdbId, mediaType, season, episode }),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok || !data.path) {
+                throw new Error(translateApiError(tRoot, data.error || 'api.errors.internalError'));
+            }
+
+            router.replace(data.path);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : translateApiError(tRoot, 'api.errors.internalError'));
+        } finally {
+            setStartingWatchParty(false);
+        }
+    }, [tmdbId, mediaType, season, episode, router, tRoot]);
+
+    // Link da sala aberto em outra página: ir para o conteúdo da sala
+    useEffect(() => {
+        if (!partyRoomId || !partyContent || mini) return;
+        if (isSameWatchPartyContent(partyContent, { tmdbId, mediaType, season, episode })) return;
+        router.replace(getWatchPartyPath(partyRoomId, partyContent));
+    }, [partyRoomId, partyContent, mini, tmdbId, mediaType, season, episode, router]);
+
+    // Lease perdido durante a reprodução (outro dispositivo desconectou este)
+    const handleLeaseLost = useCallback((errorKey: string) => {
+        setError(translateApiError(tRoot, errorKey));
+        setVideoUrl(null);
+        setLeaseId(undefined);
+    }, [tRoot]);
+
+    // Desconectar outro dispositivo e tentar novamente
+    const handleStopStream = useCallback(async (id: string) => {
+        setStoppingLeaseId(id);
+        try {
+            const response = await fetch('/api/streaming/leases', {
+                method: 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ leaseId: id }),
+            });
+
+            if (!response.ok && response.status !== 404) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(translateApiError(tRoot, data.error || 'api.errors.internalError'));
+            }
+
+            setAttempt((prev) => prev + 1);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : translateApiError(tRoot, 'api.errors.internalError'));
+            setScreenLimit(null);
+        } finally {
+            setStoppingLeaseId(null);
+        }
+    }, [tRoot]);
 
     // Navigate to next episode
     const handleNextEpisode = useCallback(() => {
@@ -79,27 +211,60 @@ export default function StreamingVideoPlayer({
         router.push(`/watch/tv/${tmdbId}/${nextEpisode.season}/${nextEpisode.episode}`);
     }, [nextEpisode, tmdbId, router]);
 
+    // Solicitar URL (tokenizada) ao backend
+    const requestStreamingUrl = useCallback(async () => {
+        const params = new URLSearchParams({
+            tmdbId: tmdbId.toString(),
+            mediaType,
+        });
+
+        if (season) params.append('season', season.toString());
+        if (episode) params.append('episode', episode.toString());
+
+        const response = await fetch(`/api/streaming/get-url?${params.toString()}`);
+        const data: StreamingResponse = await response.json();
+        return { response, data };
+    }, [tmdbId, mediaType, season, episode]);
+
+    // Renovação silenciosa antes de expiresAt (ou após 403 de URL expirada)
+    const handleRefreshUrl = useCallback(async (): Promise<RefreshedPlaybackUrls | null> => {
+        try {
+            const { response, data } = await requestStreamingUrl();
+            if (!response.ok || !data.success || !data.url) return null;
+
+            if (data.leaseId) setLeaseId(data.leaseId);
+            return {
+                url: data.url,
+                qualities: data.qualities,
+                expiresAt: data.expiresAt,
+            };
+        } catch (err) {
+            console.error('❌ Error refreshing streaming URL:', err);
+            return null;
+        }
+    }, [requestStreamingUrl]);
+
     useEffect(() => {
         async function fetchStreamingUrl() {
             try {
                 setLoading(true);
                 setError(null);
+                setScreenLimit(null);
 
-                // Construir query params
-                const params = new URLSearchParams({
-                    tmdbId: tmdbId.toString(),
-                    mediaType,
-                });
-
-                if (season) params.append('season', season.toString());
-                if (episode) params.append('episode', episode.toString());
+                const { response, data } = await requestStreamingUrl();
 
-                // Solicitar URL do backend
-                const response = await fetch(`/api/streaming/get-url?${params.toString()}`);
-                const data: StreamingResponse = await response.json();
+                // Limite de telas atingido — listar dispositivos para desconectar
+                if (response.status === 409 && data.activeStreams) {
+                    setScreenLimit({
+                        maxScreens: data.maxScreens ?? 1,
+                        activeStreams: data.activeStreams,
+                    });
+                    setVideoUrl(null);
+                    return;
+                }
 
                 if (!response.ok || !data.success) {
-                    throw new Error(data.error || `HTTP ${response.status}`);
+                    throw new Error(data.error ? translateApiError(tRoot, data.error) : `HTTP ${response.status}`);
                 }
 
                 if (!data.url) {
@@ -111,6 +276,12 @@ export default function StreamingVideoPlayer({
                 setDefaultQuality(data.defaultQuality || 'auto');
                 setSubtitles(data.subtitles || []);
                 setAudioTracks(data.audioTracks || []);
+                setMarkers(data.markers || []);
+                setThumbnails(data.thumbnails);
+                setChapters(data.chapters || []);
+                setBackend(data.backend);
+                setExpiresAt(data.expiresAt);
+                setLeaseId(data.leaseId);
                 setDebugInfo(data);
 
             } catch (err: any) {
@@ -123,11 +294,11 @@ export default function StreamingVideoPlayer({
         }
 
         fetchStreamingUrl();
-    }, [tmdbId, mediaType, season, episode]);
+    }, [requestStreamingUrl, attempt, t, tRoot]);
 
     if (loading) {
         return (
-            <div className="w-full h-screen flex items-center justify-center" role="status" aria-live="polite" style={{ background: GRADIENTS.player }}>
+            <div className="w-full h-full flex items-center justify-center" role="status" aria-live="polite" style={{ background: GRADIENTS.player }}>
                 <div className="text-center">
                     <Loader2 className="w-16 h-16 text-primary animate-spin mx-auto mb-4" aria-hidden="true" />
                     <p className="text-white text-lg font-medium">{t('preparing')}</p>
@@ -139,9 +310,71 @@ export default function StreamingVideoPlayer({
         );
     }
 
+    if (screenLimit) {
+        return (
+            <div className="w-full h-full flex items-center justify-center" role="alert" style={{ background: GRADIENTS.player }}>
+                <div className="text-center max-w-lg w-full px-4">
+                    <div className="w-20 h-20 rounded-2xl mx-auto mb-6 flex items-center justify-center border border-white/[0.06] shadow-lg shadow-black/20" style={{ background: GRADIENTS.surface }}>
+                        <MonitorX className="w-10 h-10 text-primary" aria-hidden="true" />
+                    </div>
+                    <h2 className="text-white text-2xl font-bold mb-2">
+                        {t('tooManyScreens')}
+                    </h2>
+                    <p className="text-gray-400 mb-6">
+                        {t('tooManyScreensDescription', { maxScreens: screenLimit.maxScreens })}
+                    </p>
+
+                    <ul className="space-y-3 mb-6 text-left">
+                        {screenLimit.activeStreams.map((stream) => (
+                            <li
+                                key={stream.id}
+                                className="flex items-center justify-between gap-4 p-4 rounded-xl border border-white/[0.06]"
+                                style={{ background: GRADIENTS.surface }}
+                            >
+                                <div className="min-w-0">
+                                    <p className="text-white font-medium truncate">
+                                        {stream.userName || t('unknownViewer')}
+                                        {stream.isCurrentSession && (
+                                            <span className="text-gray-400 font-normal"> · {t('thisDevice')}</span>
+                                        )}
+                                    </p>
+                                    <p className="text-gray-400 text-sm truncate">
+                                        {describeDevice(stream.userAgent) || t('unknownDevice')}
+                                        {stream.mediaType === 'tv' && (
+                                            <> · {t('episodeLabel', { season: stream.seasonNumber, episode: stream.episodeNumber })}</>
+                                        )}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleStopStream(stream.id)}
+                                    disabled={stoppingLeaseId !== null}
+                                    className="shrink-0 px-4 py-2 bg-primary hover:bg-primary-hover disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                >
+                                    {stoppingLeaseId === stream.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" aria-label={tc('loading')} />
+                                    ) : (
+                                        t('stopStream')
+                                    )}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <button
+                        onClick={() => window.history.back()}
+                        className="px-6 py-3 text-white font-medium rounded-xl border border-white/[0.08] hover:bg-white/[0.06] transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                        style={{ background: GRADIENTS.playerControlsAlt }}
+                    >
+                        {tc('back')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
     if (error || !videoUrl) {
         return (
-            <div className="w-full h-screen flex items-center justify-center" role="alert" style={{ background: GRADIENTS.player }}>
+            <div className="w-full h-full flex items-center justify-center" role="alert" style={{ background: GRADIENTS.player }}>
                 <div className="text-center max-w-lg px-4">
                     <div className="w-20 h-20 rounded-2xl mx-auto mb-6 flex items-center justify-center border border-white/[0.06] shadow-lg shadow-black/20" style={{ background: GRADIENTS.surface }}>
                         <AlertCircle className="w-10 h-10 text-primary" aria-hidden="true" />
@@ -196,6 +429,7 @@ export default function StreamingVideoPlayer({
             url={videoUrl}
             title={title}
             autoPlay={true}
+            startTime={startTime}
             tmdbId={tmdbId}
             mediaType={mediaType}
             season={season}
@@ -206,7 +440,22 @@ export default function StreamingVideoPlayer({
             audioTracks={audioTracks}
             nextEpisode={nextEpisode}
             autoplayNext={autoplayNext}
+            markers={markers}
+            thumbnails={thumbnails}
+            chapters={chapters}
+            autoSkipIntro={autoSkipIntro}
+            bingeGuard={bingeGuard}
+            dataUsage={dataUsage}
             onNextEpisode={handleNextEpisode}
+            expiresAt={expiresAt}
+            onRefreshUrl={handleRefreshUrl}
+            backend={backend}
+            leaseId={leaseId}
+            onLeaseLost={handleLeaseLost}
+            watchParty={watchParty}
+            onStartWatchParty={handleStartWatchParty}
+            startingWatchParty={startingWatchParty}
+            mini={mini}
         />
     );
 }
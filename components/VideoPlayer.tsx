@@ -1,18 +1,44 @@
 'use client'
 
-import { useCallback, useEffect, useState, useRef } from 'react'
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react'
 import dynamic from 'next/dynamic'
 import { useVideoPlayer } from '@/hooks/useVideoPlayer';
 import { useSubtitleStyles } from '@/hooks/useSubtitleStyles';
 import { useDebounce } from '@/hooks/useDebounce';
+import { usePlaybackTelemetry } from '@/hooks/usePlaybackTelemetry';
+import { useSubtitleDelay } from '@/hooks/useSubtitleDelay';
+import { useSeriesTrackPreference } from '@/hooks/useSeriesTrackPreference';
+import { useWatchPartySync } from '@/hooks/useWatchPartySync';
+import { useThumbnailTrack } from '@/hooks/useThumbnailTrack';
+import { useBingeGuard } from '@/hooks/useBingeGuard';
+import { useSleepTimer } from '@/hooks/useSleepTimer';
+import { useDataUsage } from '@/hooks/useDataUsage';
+import type { WatchPartyConnection } from '@/hooks/useWatchParty';
 import VideoPlayerControls from './VideoPlayerControls'
 import { useTranslations } from 'next-intl'
 import { cn } from '@/lib/utils'
-import { Play, Pause, Loader2, AlertCircle } from 'lucide-react'
+import { Play, Pause, Loader2, AlertCircle, PictureInPicture2 } from 'lucide-react'
 import { AnimatePresence, motion } from 'framer-motion'
 import type Hls from 'hls.js'
+import type { ErrorData, Events } from 'hls.js'
 import NextEpisodeOverlay, { type NextEpisodeInfo } from './NextEpisodeOverlay'
-import { COMPLETION_THRESHOLD } from '@/lib/watch-constants'
+import WatchPartyPanel from './WatchPartyPanel'
+import { useShortcutHandlers, type ShortcutHandlers } from './KeyboardShortcutsProvider'
+import { STREAM_HEARTBEAT_INTERVAL_MS } from '@/lib/watch-constants'
+import { getResumePositionSeconds, isWatchCompleted } from '@/lib/watch-progress'
+import { getActiveSegment, SKIPPABLE_SEGMENT_TYPES, type SegmentMarker } from '@/lib/segment-markers'
+import { getAdjacentChapterStart, type Chapter } from '@/lib/chapters'
+import { getBingeGuardEpisodeKey, type BingeGuardSettings } from '@/lib/binge-guard'
+import {
+    getDataUsageLevelCap,
+    getHlsDataUsageConfig,
+    selectDataUsageQuality,
+    type DataUsageMode,
+} from '@/lib/data-usage'
+import { convertSubtitleBytes, MAX_SUBTITLE_BYTES } from '@/lib/subtitle-converter'
+import { LOCAL_SUBTITLE_LANGUAGE_PREFIX, resolveAudioLanguage, resolveSubtitleDefaults } from '@/lib/track-preferences'
+import { queueOfflineProgress, type WatchProgressPayload } from '@/lib/offline-progress'
+import { toast } from 'sonner'
 
 // Tipos para qualidade, legendas e áudio
 export interface VideoQuality {
@@ -32,6 +58,13 @@ export interface AudioTrack {
     language: string;
 }
 
+/** Fresh playback URLs returned by a silent re-fetch of /api/streaming/get-url */
+export interface RefreshedPlaybackUrls {
+    url: string;
+    qualities?: VideoQuality[];
+    expiresAt?: string;
+}
+
 // Importação dinâmica do ReactPlayer (evita SSR issues)
 const ReactPlayer = dynamic(() => import('react-player'), {
     ssr: false,
@@ -45,6 +78,9 @@ const ReactPlayer = dynamic(() => import('react-player'), {
 /** Show next episode overlay when remaining time is below this (seconds) */
 const NEXT_EPISODE_SHOW_SECONDS = 120;
 
+/** Refresh the playback URL this long before it expires (ms) */
+const URL_REFRESH_MARGIN_MS = 60_000;
+
 export interface VideoPlayerProps {
     url: string
     title?: string
@@ -67,6 +103,36 @@ export interface VideoPlayerProps {
     autoplayNext?: boolean
     /** Callback when next episode should play */
     onNextEpisode?: () => void
+    /** "Still watching?" limits for autoplay chains (from user preferences) */
+    bingeGuard?: BingeGuardSettings
+    /** Data usage preference: automatic, save data (up to 480p) or max quality */
+    dataUsage?: DataUsageMode
+    /** Intro/recap/credits markers returned by /api/streaming/get-url */
+    markers?: SegmentMarker[]
+    /** WebVTT thumbnail track (sprite sheets with #xywh=) for seek bar previews */
+    thumbnails?: string
+    /** Chapters returned by /api/streaming/get-url (sorted by start) */
+    chapters?: Chapter[]
+    /** Whether to skip intros automatically (from user preferences) */
+    autoSkipIntro?: boolean
+    /** Expiry of the backend source (ISO string) returned by /api/streaming/get-url, if the backend sets one */
+    expiresAt?: string
+    /** Re-fetches fresh playback URLs (called before expiresAt while playing and once after a 403) */
+    onRefreshUrl?: () => Promise<RefreshedPlaybackUrls | null>
+    /** Streaming backend that served the URL (labels the playback telemetry) */
+    backend?: string
+    /** Screen lease returned by /api/streaming/get-url (renewed via heartbeat) */
+    leaseId?: string
+    /** Called when the lease is lost (kicked by another device or screen limit reached) */
+    onLeaseLost?: (error: string) => void
+    /** Active watch party (host publishes playback, guests follow it) */
+    watchParty?: WatchPartyConnection | null
+    /** Creates a watch party for this title (shows the party button when set) */
+    onStartWatchParty?: () => void
+    /** Watch party creation in progress */
+    startingWatchParty?: boolean
+    /** Compact mode for the global mini-player (no full controls or keyboard shortcuts) */
+    mini?: boolean
 }
 
 /**
@@ -162,16 +228,58 @@ export default function VideoPlayer({
     nextEpisode,
     autoplayNext = false,
     onNextEpisode,
+    bingeGuard,
+    dataUsage = 'auto',
+    markers = [],
+    thumbnails,
+    chapters = [],
+    autoSkipIntro = false,
+    expiresAt,
+    onRefreshUrl,
+    backend,
+    leaseId,
+    onLeaseLost,
+    watchParty = null,
+    onStartWatchParty,
+    startingWatchParty = false,
+    mini = false,
 }: VideoPlayerProps) {
     const t = useTranslations('player');
     const te = useTranslations('errors');
     const tc = useTranslations('common');
+    // Economia de dados (preferência ou rede celular) / qualidade máxima
+    const dataUsageMode = useDataUsage(dataUsage);
+    // Qualidade inicial e config do hls.js seguem o modo na abertura do player
+    const [initialQuality] = useState(() => selectDataUsageQuality(qualities, defaultQuality, dataUsageMode));
+    const [hlsConfig] = useState(() => ({ ...HLS_CONFIG, ...getHlsDataUsageConfig(dataUsageMode) }));
     // Estado local para URL atual (pode mudar com a qualidade)
-    const [currentUrl, setCurrentUrl] = useState(url);
+    const [currentUrl, setCurrentUrl] = useState(() => (
+        initialQuality === defaultQuality ? url : qualities.find((q) => q.label === initialQuality)?.url ?? url
+    ));
+    // URLs de qualidade e expiração atuais (trocadas a cada renovação)
+    const [sourceQualities, setSourceQualities] = useState(qualities);
+    const [sourceExpiresAt, setSourceExpiresAt] = useState(expiresAt);
+    // Posição a restaurar após trocar a fonte
+    const pendingResumeRef = useRef<number | null>(null);
+    const refreshingRef = useRef(false);
+    // Retry único após 403 (resetado quando a nova fonte carrega)
+    const forbiddenRetryRef = useRef(false);
 
     // Buscar e aplicar preferências de legenda do usuário (injecta ::cue styles)
     const { defaultSubtitlesEnabled, preferredSubtitleLang } = useSubtitleStyles();
 
+    // Última escolha de áudio/legenda na série (vence a preferência global se a faixa existir)
+    const { savedTracks, saveTrackSelection } = useSeriesTrackPreference(tmdbId, mediaType);
+
+    // Miniaturas da barra de progresso (só no player completo)
+    const thumbnailCues = useThumbnailTrack(mini ? undefined : thumbnails);
+    const subtitleDefaults = resolveSubtitleDefaults(
+        savedTracks,
+        subtitles.map((subtitle) => subtitle.language),
+        { enabled: defaultSubtitlesEnabled, language: preferredSubtitleLang }
+    );
+    const preferredAudioLang = resolveAudioLanguage(savedTracks, audioTracks.map((track) => track.language));
+
     const {
         playerRef,
         playing,
@@ -189,6 +297,7 @@ export default function VideoPlayer({
         availableAudioTracks,
         showControls,
         fullscreen,
+        pictureInPicture,
         buffering,
         ended,
         subtitlesEnabled,
@@ -202,8 +311,10 @@ export default function VideoPlayer({
         setPlaybackRate,
         setQuality,
         toggleFullscreen,
+        togglePictureInPicture,
         toggleSubtitles,
         setSubtitle,
+        addSubtitle,
         setAudioTrack,
         handleProgress,
         handleDurationChange,
@@ -217,17 +328,93 @@ export default function VideoPlayer({
         onEnded,
         autoPlay,
         startTime,
-        qualities,
-        defaultQuality,
+        qualities: sourceQualities,
+        defaultQuality: initialQuality,
         subtitles,
         audioTracks,
-        defaultSubtitlesEnabled,
-        preferredSubtitleLang,
+        defaultSubtitlesEnabled: subtitleDefaults.enabled,
+        preferredSubtitleLang: subtitleDefaults.language,
+        preferredAudioLang,
+        onTrackSelect: saveTrackSelection,
         onQualityChange: (quality, newUrl) => {
+            telemetry.recordQualitySwitch();
             setCurrentUrl(newUrl);
         },
     })
 
+    // QoE: startup, rebuffers, trocas de qualidade, frames perdidos e erros fatais
+    const telemetry = usePlaybackTelemetry({ playerRef, tmdbId, mediaType, season, episode, backend })
+    const { recordFatalError, recordQualitySwitch } = telemetry
+
+    // hls.js da fonte atual (ReactPlayer v3 expõe a instância em `api` do <video>; null em MP4)
+    const getHls = useCallback(
+        () => (playerRef.current as unknown as { api?: Hls } | null)?.api ?? null,
+        [playerRef]
+    )
+    // Instância que já recebeu os listeners (onReady dispara a cada loadstart)
+    const [hlsInstance, setHlsInstance] = useState<Hls | null>(null)
+
+    // Atraso de legenda (salvo por título)
+    const { subtitleDelay, setSubtitleDelay, adjustSubtitleDelay } = useSubtitleDelay({
+        playerRef,
+        tmdbId,
+        mediaType,
+        mediaLoaded: duration > 0,
+    })
+
+    // Watch Party: host publica play/pause/seek, convidados corrigem o drift
+    useWatchPartySync({
+        party: watchParty,
+        playerRef,
+        playing,
+        setPlaying,
+        mediaLoaded: duration > 0,
+    })
+
+    // Legendas locais (.srt/.vtt/.ass) convertidas no navegador e servidas por blob: URL
+    const localSubtitleUrlsRef = useRef<string[]>([])
+    const [draggingSubtitle, setDraggingSubtitle] = useState(false)
+
+    useEffect(() => {
+        const urls = localSubtitleUrlsRef.current
+        return () => urls.forEach((src) => URL.revokeObjectURL(src))
+    }, [])
+
+    const loadLocalSubtitle = useCallback(async (file: File) => {
+        if (file.size > MAX_SUBTITLE_BYTES) {
+            toast.error(t('subtitleFileTooLarge'))
+            return
+        }
+
+        const vtt = convertSubtitleBytes(new Uint8Array(await file.arrayBuffer()))
+        if (!vtt) {
+            toast.error(t('subtitleFileInvalid'))
+            return
+        }
+
+        const src = URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }))
+        localSubtitleUrlsRef.current.push(src)
+        addSubtitle({
+            label: file.name.replace(/\.[^.]+$/, '') || file.name,
+            language: `${LOCAL_SUBTITLE_LANGUAGE_PREFIX}${localSubtitleUrlsRef.current.length}`,
+            src,
+        })
+    }, [addSubtitle, t])
+
+    const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+        if (!e.dataTransfer.types.includes('Files')) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'copy'
+        setDraggingSubtitle(true)
+    }, [])
+
+    const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault()
+        setDraggingSubtitle(false)
+        const file = e.dataTransfer.files[0]
+        if (file) loadLocalSubtitle(file)
+    }, [loadLocalSubtitle])
+
     // Center icon state (for play/pause feedback)
     const [showCenterIcon, setShowCenterIcon] = useState(false)
     const [centerIconType, setCenterIconType] = useState<'play' | 'pause'>('play')
@@ -245,11 +432,54 @@ export default function VideoPlayer({
     const [nextEpisodeDismissed, setNextEpisodeDismissed] = useState(false)
     const completionSavedRef = useRef(false)
 
-    // Show next episode overlay when near end of video (TV only)
+    // Segment markers (intro/recap skip button, credits start)
+    const activeSegment = useMemo(
+        () => getActiveSegment(markers, playedSeconds, SKIPPABLE_SEGMENT_TYPES),
+        [markers, playedSeconds]
+    );
+    const creditsMarker = markers.find((marker) => marker.type === 'credits');
+    const creditsStarted = !!creditsMarker && duration > 0 && playedSeconds >= creditsMarker.startSeconds;
+    // Intros already auto-skipped (seeking back into one does not skip it again)
+    const autoSkippedRef = useRef<Set<number>>(new Set())
+
+    useEffect(() => {
+        autoSkippedRef.current.clear()
+    }, [tmdbId, season, episode])
+
+    const skipSegment = useCallback((segment: SegmentMarker) => {
+        if (duration === 0) return
+        seek(Math.min(segment.endSeconds, duration) / duration)
+    }, [duration, seek])
+
+    // Capítulos: clique no menu e atalhos Shift+←/→
+    const seekToSeconds = useCallback((seconds: number) => {
+        if (duration === 0) return
+        seek(Math.min(seconds, duration) / duration)
+    }, [duration, seek])
+
+    const skipChapter = useCallback((direction: 'next' | 'previous') => {
+        const target = getAdjacentChapterStart(chapters, playedSeconds, direction)
+        if (target !== null) seekToSeconds(target)
+    }, [chapters, playedSeconds, seekToSeconds])
+
+    useEffect(() => {
+        if (!autoSkipIntro || activeSegment?.type !== 'intro') return
+        if (autoSkippedRef.current.has(activeSegment.startSeconds)) return
+
+        autoSkippedRef.current.add(activeSegment.startSeconds)
+        skipSegment(activeSegment)
+    }, [autoSkipIntro, activeSegment, skipSegment])
+
+    // Show next episode overlay when credits start, or near end of video without markers (TV only)
     const hasNextEpisode = mediaType === 'tv' && !!nextEpisode && !!onNextEpisode;
     useEffect(() => {
         if (!hasNextEpisode || nextEpisodeDismissed || duration === 0) return;
 
+        if (creditsMarker) {
+            if (creditsStarted) setShowNextEpisode(true);
+            return;
+        }
+
         const remainingSeconds = duration - playedSeconds;
         const progressPercent = (playedSeconds / duration) * 100;
 
@@ -257,21 +487,44 @@ export default function VideoPlayer({
         if (remainingSeconds <= NEXT_EPISODE_SHOW_SECONDS || progressPercent >= 95) {
             setShowNextEpisode(true);
         }
-    }, [hasNextEpisode, nextEpisodeDismissed, duration, playedSeconds]);
+    }, [hasNextEpisode, nextEpisodeDismissed, duration, playedSeconds, creditsMarker, creditsStarted]);
+
+    // "Você ainda está assistindo?" e timer de desligamento: pausa e esconde a contagem do próximo episódio
+    const pauseForInactivity = useCallback(() => {
+        setPlaying(false);
+        setShowNextEpisode(false);
+    }, [setPlaying]);
+
+    const { askingStillWatching, confirmStillWatching, recordAutoplayedEpisode } = useBingeGuard({
+        episodeKey: !mini && tmdbId && mediaType === 'tv' && season !== undefined && episode !== undefined
+            ? getBingeGuardEpisodeKey(tmdbId, season, episode)
+            : undefined,
+        nextEpisodeKey: tmdbId && nextEpisode
+            ? getBingeGuardEpisodeKey(tmdbId, nextEpisode.season, nextEpisode.episode)
+            : undefined,
+        settings: bingeGuard,
+        playing,
+        onAsk: pauseForInactivity,
+    });
+    const { sleepTimer, setSleepTimer } = useSleepTimer({ onExpire: pauseForInactivity });
+    // Timer "fim do episódio": o episódio termina sem abrir o próximo
+    const autoplayNextEpisode = autoplayNext && sleepTimer?.option !== 'episode';
 
     // Save 100% progress when video ends or completion threshold is reached
     useEffect(() => {
         if (!tmdbId || !mediaType || duration === 0 || completionSavedRef.current) return;
 
         const progressPercent = (playedSeconds / duration) * 100;
-        if (progressPercent >= COMPLETION_THRESHOLD) {
+        if (isWatchCompleted({ progress: progressPercent, positionSeconds: playedSeconds, durationSeconds: duration })) {
             completionSavedRef.current = true;
 
             // Save 100% progress (content considered complete)
-            const payload: Record<string, unknown> = {
+            const payload: WatchProgressPayload = {
                 tmdbId,
                 mediaType,
                 progress: 100,
+                positionSeconds: duration,
+                durationSeconds: duration,
             };
             if (mediaType === 'tv') {
                 payload.seasonNumber = season || 1;
@@ -282,7 +535,10 @@ export default function VideoPlayer({
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(payload),
-            }).catch((err) => console.error(te('errorSavingCompletion'), err));
+            }).catch((err) => {
+                console.error(te('errorSavingCompletion'), err);
+                queueOfflineProgress(window.localStorage, payload);
+            });
         }
     }, [tmdbId, mediaType, duration, playedSeconds, season, episode]);
 
@@ -347,6 +603,95 @@ export default function VideoPlayer({
         [errorCount]
     )
 
+    // Heartbeat do lease de tela enquanto reproduz (libera a tela ao desmontar)
+    useEffect(() => {
+        if (!leaseId || !playing) return
+
+        const sendHeartbeat = async () => {
+            try {
+                const response = await fetch('/api/streaming/heartbeat', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ leaseId }),
+                })
+
+                if (response.status === 409 || response.status === 410 || response.status === 403) {
+                    const data = await response.json().catch(() => ({}))
+                    setPlaying(false)
+                    onLeaseLost?.(data.error || 'api.streaming.leaseRevoked')
+                }
+            } catch (error) {
+                // Falhas de rede são toleradas — o TTL do lease cobre heartbeats perdidos
+                console.error('❌ Error sending stream heartbeat:', error)
+            }
+        }
+
+        sendHeartbeat()
+        const interval = setInterval(sendHeartbeat, STREAM_HEARTBEAT_INTERVAL_MS)
+        return () => clearInterval(interval)
+    }, [leaseId, playing, setPlaying, onLeaseLost])
+
+    useEffect(() => {
+        if (!leaseId) return
+
+        return () => {
+            fetch('/api/streaming/heartbeat', {
+                method: 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ leaseId }),
+                keepalive: true,
+            }).catch(() => { })
+        }
+    }, [leaseId])
+
+    /**
+     * Troca a fonte por URLs novas na posição atual.
+     * O ReactPlayer recria a instância do hls.js quando o src muda;
+     * a posição é restaurada em onLoadedMetadata e o playing continua o mesmo.
+     */
+    const refreshSource = useCallback(async () => {
+        if (!onRefreshUrl || refreshingRef.current) return false
+
+        refreshingRef.current = true
+        try {
+            const fresh = await onRefreshUrl()
+            if (!fresh) return false
+
+            const freshQualities = fresh.qualities ?? []
+            const qualityUrl = freshQualities.find((q) => q.label === currentQuality)?.url
+
+            pendingResumeRef.current = playerRef.current?.currentTime ?? null
+            setSourceQualities(freshQualities)
+            setSourceExpiresAt(fresh.expiresAt)
+            setCurrentUrl(qualityUrl || fresh.url)
+            return true
+        } finally {
+            refreshingRef.current = false
+        }
+    }, [onRefreshUrl, currentQuality, playerRef])
+
+    // Agendar renovação silenciosa antes da fonte do backend expirar.
+    // Só durante a reprodução: cada renovação passa por get-url e retoma a tela,
+    // então um player pausado não renova (ao retomar, a renovação vencida roda na hora)
+    useEffect(() => {
+        if (!sourceExpiresAt || !onRefreshUrl || !playing) return
+
+        const msUntilExpiry = new Date(sourceExpiresAt).getTime() - Date.now()
+        if (!Number.isFinite(msUntilExpiry)) return
+
+        // URLs de vida curta renovam na metade do tempo restante
+        const delay = Math.max(msUntilExpiry - URL_REFRESH_MARGIN_MS, msUntilExpiry / 2, 0)
+        const timer = setTimeout(refreshSource, delay)
+        return () => clearTimeout(timer)
+    }, [sourceExpiresAt, onRefreshUrl, refreshSource, playing])
+
+    // URL recusada (expirada) — tentar uma única vez com URL nova
+    const handleForbiddenSource = useCallback(async () => {
+        if (forbiddenRetryRef.current) return false
+        forbiddenRetryRef.current = true
+        return refreshSource()
+    }, [refreshSource])
+
     // Reset error count after 30s of stable playback
     useEffect(() => {
         if (playing && !buffering && errorCount > 0) {
@@ -417,9 +762,75 @@ export default function VideoPlayer({
         }
     }, [availableSubtitles, subtitlesEnabled, currentSubtitle, playerRef]);
 
-    // Fetch and apply saved progress
+    // Trocar a faixa de áudio no hls.js (as faixas só existem depois do manifest)
+    useEffect(() => {
+        const hls = getHls()
+        if (!hls || !currentAudioTrack || duration === 0) return
+
+        const index = hls.audioTracks.findIndex((track) => track.lang === currentAudioTrack)
+        if (index !== -1 && index !== hls.audioTrack) {
+            hls.audioTrack = index
+        }
+    }, [currentAudioTrack, duration, getHls])
+
+    // Limite de níveis do hls.js (economia de dados); reaplicado se a rede mudar
+    const applyDataUsageLevelCap = useCallback(() => {
+        const hls = getHls()
+        if (!hls || hls.levels.length === 0) return
+
+        hls.autoLevelCapping = getDataUsageLevelCap(hls.levels, dataUsageMode)
+    }, [dataUsageMode, getHls])
+
+    // Listeners do hls.js: uma vez por instância (reattach de mídia na mesma
+    // instância dispara onReady de novo e não pode duplicar os handlers)
     useEffect(() => {
-        if (!tmdbId || !mediaType || duration === 0 || startTime > 0) return
+        if (!hlsInstance) return
+
+        // 403 no manifest/segmentos indica URL expirada
+        const handleHlsErrorEvent = (_event: Events.ERROR, data: ErrorData) => {
+            if (data.response?.code === 403) {
+                handleForbiddenSource()
+                return
+            }
+            if (data.fatal) {
+                recordFatalError(
+                    data.type === 'networkError' ? 'network' : data.type === 'mediaError' ? 'media' : 'other'
+                )
+            }
+        }
+
+        // Trocas automáticas de qualidade (a primeira é a seleção inicial)
+        let initialLevel = true
+        const handleLevelSwitched = () => {
+            if (initialLevel) {
+                initialLevel = false
+                return
+            }
+            recordQualitySwitch()
+        }
+
+        hlsInstance.on('hlsError' as Events.ERROR, handleHlsErrorEvent)
+        hlsInstance.on('hlsLevelSwitched' as Events.LEVEL_SWITCHED, handleLevelSwitched)
+        return () => {
+            hlsInstance.off('hlsError' as Events.ERROR, handleHlsErrorEvent)
+            hlsInstance.off('hlsLevelSwitched' as Events.LEVEL_SWITCHED, handleLevelSwitched)
+        }
+    }, [hlsInstance, handleForbiddenSource, recordFatalError, recordQualitySwitch])
+
+    useEffect(() => {
+        applyDataUsageLevelCap()
+    }, [applyDataUsageLevelCap])
+
+    // Fetch and apply saved progress (only once per episode, not after URL refreshes)
+    const resumeAppliedRef = useRef(false)
+
+    useEffect(() => {
+        resumeAppliedRef.current = false
+    }, [tmdbId, mediaType, season, episode])
+
+    useEffect(() => {
+        if (!tmdbId || !mediaType || duration === 0 || startTime > 0 || resumeAppliedRef.current) return
+        resumeAppliedRef.current = true
 
         const fetchProgress = async () => {
             try {
@@ -440,12 +851,12 @@ export default function VideoPlayer({
                     )
 
                     if (history?.progress && playerRef.current) {
-                        const progressSeconds = (history.progress / 100) * duration
+                        const resumeSeconds = getResumePositionSeconds(history, duration)
 
-                        // Only apply if between 5% and 95% (skip intro and end credits)
-                        if (history.progress > 5 && history.progress < 95) {
+                        // Only apply if between 5% and 95% and not finished (skip intro and end credits)
+                        if (resumeSeconds !== null && history.progress > 5 && history.progress < 95 && !isWatchCompleted(history)) {
                             // Em v3, playerRef.current JÁ É o elemento <video>
-                            playerRef.current.currentTime = progressSeconds;
+                            playerRef.current.currentTime = resumeSeconds;
                         }
                     }
                 }
@@ -468,6 +879,8 @@ export default function VideoPlayer({
             tmdbId,
             mediaType,
             progress: progressPercentage,
+            positionSeconds: playedSeconds,
+            durationSeconds: duration,
         };
 
         // Só incluir season/episode para séries
@@ -483,7 +896,9 @@ export default function VideoPlayer({
                 body: JSON.stringify(payload),
             })
         } catch (error) {
+            // Sem conexão (ex: download offline): reenviado ao reconectar
             console.error('❌ Error saving watch progress:', error)
+            queueOfflineProgress(window.localStorage, payload)
         }
     }, 2000)
 
@@ -493,58 +908,33 @@ export default function VideoPlayer({
         }
     }, [playing, playedSeconds, saveProgress])
 
-    // Keyboard shortcuts
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            switch (e.key) {
-                case ' ':
-                case 'k':
-                    e.preventDefault()
-                    togglePlay()
-                    break
-                case 'ArrowLeft':
-                    e.preventDefault()
-                    skipBackward(10)
-                    break
-                case 'ArrowRight':
-                    e.preventDefault()
-                    skipForward(10)
-                    break
-                case 'ArrowUp':
-                    e.preventDefault()
-                    setVolume(Math.min(1, volume + 0.1))
-                    break
-                case 'ArrowDown':
-                    e.preventDefault()
-                    setVolume(Math.max(0, volume - 0.1))
-                    break
-                case 'm':
-                    e.preventDefault()
-                    toggleMute()
-                    break
-                case 'f':
-                    e.preventDefault()
-                    toggleFullscreen()
-                    break
-                case 'c':
-                    e.preventDefault()
-                    toggleSubtitles()
-                    break
-            }
-        }
-
-        window.addEventListener('keydown', handleKeyDown)
-        return () => window.removeEventListener('keydown', handleKeyDown)
-    }, [
+    // Atalhos de teclado do usuário (desligados no mini-player para não capturar a navegação)
+    const shortcutHandlers = useMemo<ShortcutHandlers>(() => ({
+        playPause: togglePlay,
+        seekBackward: () => skipBackward(10),
+        seekForward: () => skipForward(10),
+        previousChapter: () => chapters.length > 0 ? skipChapter('previous') : skipBackward(10),
+        nextChapter: () => chapters.length > 0 ? skipChapter('next') : skipForward(10),
+        volumeUp: () => setVolume(Math.min(1, volume + 0.1)),
+        volumeDown: () => setVolume(Math.max(0, volume - 0.1)),
+        mute: toggleMute,
+        fullscreen: toggleFullscreen,
+        pictureInPicture: togglePictureInPicture,
+        subtitles: toggleSubtitles,
+    }), [
         togglePlay,
         skipBackward,
         skipForward,
+        chapters.length,
+        skipChapter,
         setVolume,
         volume,
         toggleMute,
         toggleFullscreen,
+        togglePictureInPicture,
         toggleSubtitles,
     ])
+    useShortcutHandlers('player', shortcutHandlers, !mini)
 
     const handleMouseMove = useCallback(() => {
         setShowControls(true)
@@ -585,6 +975,9 @@ export default function VideoPlayer({
                 className
             )}
             onMouseMove={handleMouseMove}
+            onDragOver={handleDragOver}
+            onDragLeave={() => setDraggingSubtitle(false)}
+            onDrop={handleDrop}
         >
             {/* React Player with HLS.js config + Tracks como children (v3) */}
             <ReactPlayer
@@ -628,6 +1021,8 @@ export default function VideoPlayer({
                 onPause={() => {
                     // Pausado
                 }}
+                onPlaying={telemetry.recordPlaying}
+                onWaiting={telemetry.recordWaiting}
                 onError={(error: any) => {
                     console.error('❌ Player error:', error);
                     // Se for erro de autoplay bloqueado, silenciosamente para o player
@@ -635,13 +1030,42 @@ export default function VideoPlayer({
                         setPlaying(false);
                         return; // Não trata como erro fatal
                     }
+                    // Fonte nativa (MP4) recusada — pode ser URL expirada
+                    const mediaError = playerRef.current?.error;
+                    // Erros do hls.js já são contabilizados no listener de hlsError
+                    if (!getHls()) {
+                        recordFatalError(
+                            mediaError?.code === MediaError.MEDIA_ERR_NETWORK ? 'network'
+                                : mediaError?.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED ? 'source'
+                                    : 'media'
+                        );
+                    }
+                    if (mediaError?.code === MediaError.MEDIA_ERR_NETWORK || mediaError?.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED) {
+                        handleForbiddenSource().then((refreshed) => {
+                            if (!refreshed) {
+                                handleHlsError(playerRef.current, { type: 'mediaError', fatal: true });
+                            }
+                        });
+                        return;
+                    }
                     handleHlsError(playerRef.current, {
                         type: 'mediaError',
                         fatal: true,
                     });
                 }}
+                onLoadedMetadata={() => {
+                    // Restaurar posição após renovar a URL
+                    if (pendingResumeRef.current !== null && playerRef.current) {
+                        playerRef.current.currentTime = pendingResumeRef.current
+                        pendingResumeRef.current = null
+                        forbiddenRetryRef.current = false
+                    }
+                }}
                 onReady={() => {
                     setBuffering(false)
+                    // Mesma instância → sem re-render nem listeners duplicados
+                    setHlsInstance(getHls())
+                    applyDataUsageLevelCap()
 
                     // Em v3, playerRef.current JÁ É o <video> element
                     if (playerRef.current?.duration && isFinite(playerRef.current.duration)) {
@@ -651,7 +1075,7 @@ export default function VideoPlayer({
                 controls={false}
                 config={{
                     // HLS.js configuration (when playing .m3u8 URLs)
-                    hls: HLS_CONFIG,
+                    hls: hlsConfig,
                 }}
                 style={{ pointerEvents: showControls ? 'auto' : 'none' }}
             >
@@ -672,7 +1096,7 @@ export default function VideoPlayer({
             <div
                 className="absolute inset-0 z-20"
                 onClick={handleVideoClick}
-                onDoubleClick={handleVideoDoubleClick}
+                onDoubleClick={mini ? undefined : handleVideoDoubleClick}
             />
 
             {/* Error Recovery Indicator */}
@@ -695,6 +1119,13 @@ export default function VideoPlayer({
                 </div>
             )}
 
+            {/* Soltar arquivo de legenda */}
+            {draggingSubtitle && (
+                <div className="absolute inset-4 flex items-center justify-center z-50 pointer-events-none rounded-2xl border-2 border-dashed border-white/60 bg-black/60">
+                    <p className="text-white text-lg font-semibold">{t('dropSubtitleFile')}</p>
+                </div>
+            )}
+
             {/* Buffering Spinner */}
             {buffering && (
                 <div className="absolute inset-0 flex items-center justify-center z-30 pointer-events-none" role="status">
@@ -728,13 +1159,39 @@ export default function VideoPlayer({
                 )}
             </AnimatePresence>
 
+            {/* Mini-player: apenas play/pause e PiP */}
+            {mini && (
+                <div className="absolute bottom-0 left-0 right-0 z-40 flex items-center gap-1 p-2 bg-gradient-to-t from-black/80 to-transparent">
+                    <button
+                        onClick={togglePlay}
+                        className="p-1.5 text-white hover:scale-110 transition-transform focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary rounded"
+                        aria-label={playing ? t('pause') : t('play')}
+                    >
+                        {playing ? <Pause className="w-5 h-5" aria-hidden="true" /> : <Play className="w-5 h-5" aria-hidden="true" />}
+                    </button>
+                    <button
+                        onClick={togglePictureInPicture}
+                        className={cn(
+                            'p-1.5 hover:scale-110 transition-transform focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary rounded',
+                            pictureInPicture ? 'text-primary' : 'text-white'
+                        )}
+                        aria-label={pictureInPicture ? t('exitPictureInPicture') : t('pictureInPicture')}
+                        aria-pressed={pictureInPicture}
+                    >
+                        <PictureInPicture2 className="w-5 h-5" aria-hidden="true" />
+                    </button>
+                </div>
+            )}
+
             {/* Next Episode Overlay (TV series only) */}
-            {showNextEpisode && hasNextEpisode && (
+            {!mini && showNextEpisode && hasNextEpisode && (
                 <NextEpisodeOverlay
                     nextEpisode={nextEpisode!}
-                    autoplayNext={autoplayNext}
+                    autoplayNext={autoplayNextEpisode}
                     videoEnded={ended}
+                    creditsStarted={creditsStarted}
                     onPlayNext={onNextEpisode!}
+                    onAutoAdvance={recordAutoplayedEpisode}
                     onDismiss={() => {
                         setShowNextEpisode(false);
                         setNextEpisodeDismissed(true);
@@ -742,42 +1199,88 @@ export default function VideoPlayer({
                 />
             )}
 
+            {/* Você ainda está assistindo? */}
+            {!mini && askingStillWatching && !playing && (
+                <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/70 backdrop-blur-sm" role="alertdialog" aria-labelledby="still-watching-title">
+                    <div className="text-center px-6">
+                        <p id="still-watching-title" className="text-white text-2xl md:text-3xl font-bold">{t('stillWatching')}</p>
+                        <p className="text-gray-300 text-sm mt-2">{t('stillWatchingDescription')}</p>
+                        <button
+                            onClick={() => {
+                                confirmStillWatching();
+                                setPlaying(true);
+                            }}
+                            autoFocus
+                            className="mt-6 inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-primary hover:bg-primary-hover text-white font-semibold transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white"
+                        >
+                            <Play className="w-5 h-5 fill-white" aria-hidden="true" />
+                            {t('stillWatchingContinue')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Watch Party */}
+            {!mini && (watchParty || onStartWatchParty) && (
+                <WatchPartyPanel
+                    party={watchParty}
+                    onStart={() => onStartWatchParty?.()}
+                    starting={startingWatchParty}
+                    showControls={showControls}
+                />
+            )}
+
             {/* Custom Controls */}
-            <VideoPlayerControls
-                playing={playing}
-                volume={volume}
-                muted={muted}
-                played={played}
-                playedSeconds={playedSeconds}
-                duration={duration}
-                playbackRate={playbackRate}
-                currentQuality={currentQuality}
-                fullscreen={fullscreen}
-                buffering={buffering}
-                ended={ended}
-                subtitlesEnabled={subtitlesEnabled}
-                showControls={showControls}
-                qualities={availableQualities}
-                playbackRates={[0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]}
-                availableSubtitles={availableSubtitles}
-                currentSubtitle={currentSubtitle}
-                availableAudioTracks={availableAudioTracks}
-                currentAudioTrack={currentAudioTrack}
-                onPlayPause={togglePlay}
-                onVolumeChange={setVolume}
-                onMuteToggle={toggleMute}
-                onSeek={seek}
-                onSkipForward={() => skipForward(10)}
-                onSkipBackward={() => skipBackward(10)}
-                onPlaybackRateChange={setPlaybackRate}
-                onQualityChange={setQuality}
-                onFullscreenToggle={toggleFullscreen}
-                onSubtitlesToggle={toggleSubtitles}
-                onSubtitleChange={setSubtitle}
-                onAudioTrackChange={setAudioTrack}
-                onMouseMove={handleMouseMove}
-                title={title}
-            />
+            {!mini && (
+                <VideoPlayerControls
+                    playing={playing}
+                    volume={volume}
+                    muted={muted}
+                    played={played}
+                    playedSeconds={playedSeconds}
+                    duration={duration}
+                    playbackRate={playbackRate}
+                    currentQuality={currentQuality}
+                    fullscreen={fullscreen}
+                    buffering={buffering}
+                    ended={ended}
+                    subtitlesEnabled={subtitlesEnabled}
+                    showControls={showControls}
+                    qualities={availableQualities}
+                    playbackRates={[0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]}
+                    availableSubtitles={availableSubtitles}
+                    currentSubtitle={currentSubtitle}
+                    availableAudioTracks={availableAudioTracks}
+                    currentAudioTrack={currentAudioTrack}
+                    onPlayPause={togglePlay}
+                    onVolumeChange={setVolume}
+                    onMuteToggle={toggleMute}
+                    onSeek={seek}
+                    onSkipForward={() => skipForward(10)}
+                    onSkipBackward={() => skipBackward(10)}
+                    onPlaybackRateChange={setPlaybackRate}
+                    onQualityChange={setQuality}
+                    onFullscreenToggle={toggleFullscreen}
+                    pictureInPicture={pictureInPicture}
+                    onPictureInPictureToggle={togglePictureInPicture}
+                    onSubtitlesToggle={toggleSubtitles}
+                    onSubtitleChange={setSubtitle}
+                    onSubtitleFileSelect={loadLocalSubtitle}
+                    subtitleDelay={subtitleDelay}
+                    onSubtitleDelayAdjust={adjustSubtitleDelay}
+                    onSubtitleDelayReset={() => setSubtitleDelay(0)}
+                    onAudioTrackChange={setAudioTrack}
+                    onMouseMove={handleMouseMove}
+                    title={title}
+                    activeSegment={activeSegment}
+                    onSkipSegment={skipSegment}
+                    thumbnailCues={thumbnailCues}
+                    chapters={chapters}
+                    onSeekToSeconds={seekToSeconds}
+                    sleepTimer={sleepTimer?.option ?? null}
+                    onSleepTimerChange={setSleepTimer}
+                />
+            )}
         </div>
     )
 }
@@ -8,6 +8,7 @@ import {
     Volume1,
     Maximize,
     Minimize,
+    PictureInPicture2,
     Loader2,
     Gauge,
     Settings,
@@ -25,11 +26,22 @@ import {
     Rabbit,
     Mic,
     Globe,
+    SkipForward,
+    FileUp,
+    Minus,
+    Plus,
+    ListVideo,
+    Moon,
 } from 'lucide-react';
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useTranslations } from 'next-intl';
 import { cn } from '@/lib/utils';
 import { GRADIENTS, COLORS } from '@/lib/theme';
+import type { SegmentMarker } from '@/lib/segment-markers';
+import { formatSubtitleDelay } from '@/lib/subtitle-delay';
+import { findThumbnail, type ThumbnailCue } from '@/lib/trickplay';
+import { getCurrentChapterIndex, type Chapter } from '@/lib/chapters';
+import { SLEEP_TIMER_OPTIONS, type SleepTimerOption } from '@/lib/binge-guard';
 
 export interface VideoPlayerControlsProps {
     playing: boolean;
@@ -61,16 +73,43 @@ export interface VideoPlayerControlsProps {
     onPlaybackRateChange: (rate: number) => void;
     onQualityChange: (quality: string) => void;
     onFullscreenToggle: () => void;
+    /** Whether the video is in native Picture-in-Picture */
+    pictureInPicture?: boolean;
+    /** Toggles native Picture-in-Picture (button hidden when the browser lacks support) */
+    onPictureInPictureToggle?: () => void;
     onSubtitlesToggle: () => void;
     onSubtitleChange: (language: string | null) => void;
+    /** Local subtitle file chosen by the user (.srt/.vtt/.ass) */
+    onSubtitleFileSelect?: (file: File) => void;
+    /** Subtitle delay in seconds (positive = later) */
+    subtitleDelay?: number;
+    /** Shift subtitles by N steps of 0.1s */
+    onSubtitleDelayAdjust?: (steps: number) => void;
+    onSubtitleDelayReset?: () => void;
     onAudioTrackChange: (language: string) => void;
     onMouseMove: () => void;
     title?: string;
+    /** Intro/recap in progress (shows the "Skip" button) */
+    activeSegment?: SegmentMarker | null;
+    onSkipSegment?: (segment: SegmentMarker) => void;
+    /** Trickplay thumbnails shown above the seek bar while hovering or scrubbing */
+    thumbnailCues?: ThumbnailCue[];
+    /** Chapters (ticks on the seek bar + chapter menu) */
+    chapters?: Chapter[];
+    /** Seeks to an absolute position (chapter menu) */
+    onSeekToSeconds?: (seconds: number) => void;
+    /** Active sleep timer (null = off) */
+    sleepTimer?: SleepTimerOption | null;
+    /** Sets the sleep timer from the settings menu (null turns it off) */
+    onSleepTimerChange?: (option: SleepTimerOption | null) => void;
 }
 
+/** Tamanho da prévia quando a miniatura não informa recorte (#xywh=) */
+const DEFAULT_THUMBNAIL_SIZE = { width: 160, height: 90 };
+
 /**
  * Controles customizados para o player de vídeo
- * Inclui play/pause, volume, seek bar, qualidade, velocidade, legendas e fullscreen
+ * Inclui play/pause, volume, seek bar, qualidade, timer de desligamento, velocidade, legendas e fullscreen
  */
 export default function VideoPlayerControls({
     playing,
@@ -101,11 +140,24 @@ export default function VideoPlayerControls({
     onPlaybackRateChange,
     onQualityChange,
     onFullscreenToggle,
+    pictureInPicture = false,
+    onPictureInPictureToggle,
     onSubtitlesToggle,
     onSubtitleChange,
+    onSubtitleFileSelect,
+    subtitleDelay = 0,
+    onSubtitleDelayAdjust,
+    onSubtitleDelayReset,
     onAudioTrackChange,
     onMouseMove,
     title,
+    activeSegment,
+    onSkipSegment,
+    thumbnailCues = [],
+    chapters = [],
+    onSeekToSeconds,
+    sleepTimer = null,
+    onSleepTimerChange,
 }: VideoPlayerControlsProps) {
     const t = useTranslations('player');
     const tA11y = useTranslations('a11y');
@@ -113,20 +165,28 @@ export default function VideoPlayerControls({
     const [showQualityMenu, setShowQualityMenu] = useState(false);
     const [showSpeedMenu, setShowSpeedMenu] = useState(false);
     const [showSubtitlesMenu, setShowSubtitlesMenu] = useState(false);
+    const [showChaptersMenu, setShowChaptersMenu] = useState(false);
     const [seeking, setSeeking] = useState(false);
+    // Posição (0-1) sob o cursor/dedo na barra de progresso (null = sem prévia)
+    const [previewFraction, setPreviewFraction] = useState<number | null>(null);
+    // Controles só renderizam no cliente (o VideoPlayer aparece depois do fetch da URL)
+    const pictureInPictureSupported = typeof document !== 'undefined' && document.pictureInPictureEnabled;
     const progressBarRef = useRef<HTMLDivElement>(null);
     const volumeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
     // Refs para detectar cliques fora dos menus
     const subtitlesMenuRef = useRef<HTMLDivElement>(null);
+    const subtitleFileInputRef = useRef<HTMLInputElement>(null);
     const qualityMenuRef = useRef<HTMLDivElement>(null);
     const speedMenuRef = useRef<HTMLDivElement>(null);
+    const chaptersMenuRef = useRef<HTMLDivElement>(null);
 
     // Função para fechar todos os menus
     const closeAllMenus = useCallback(() => {
         setShowSubtitlesMenu(false);
         setShowQualityMenu(false);
         setShowSpeedMenu(false);
+        setShowChaptersMenu(false);
     }, []);
 
     // Fechar menus ao clicar fora
@@ -134,20 +194,18 @@ export default function VideoPlayerControls({
         const handleClickOutside = (event: MouseEvent) => {
             const target = event.target as Node;
 
-            if (
-                subtitlesMenuRef.current && !subtitlesMenuRef.current.contains(target) &&
-                qualityMenuRef.current && !qualityMenuRef.current.contains(target) &&
-                speedMenuRef.current && !speedMenuRef.current.contains(target)
-            ) {
+            // Menus opcionais (configurações, capítulos) podem não estar montados
+            const menus = [subtitlesMenuRef, qualityMenuRef, speedMenuRef, chaptersMenuRef];
+            if (menus.every((menu) => !menu.current?.contains(target))) {
                 closeAllMenus();
             }
         };
 
-        if (showSubtitlesMenu || showQualityMenu || showSpeedMenu) {
+        if (showSubtitlesMenu || showQualityMenu || showSpeedMenu || showChaptersMenu) {
             document.addEventListener('mousedown', handleClickOutside);
             return () => document.removeEventListener('mousedown', handleClickOutside);
         }
-    }, [showSubtitlesMenu, showQualityMenu, showSpeedMenu, closeAllMenus]);
+    }, [showSubtitlesMenu, showQualityMenu, showSpeedMenu, showChaptersMenu, closeAllMenus]);
 
     // Gerenciar hover do volume com delay
     const handleVolumeMouseEnter = () => {
@@ -187,15 +245,18 @@ export default function VideoPlayerControls({
         return `${minutes}:${secs.toString().padStart(2, '0')}`;
     };
 
-    // Handler para seek via barra de progresso
-    const handleProgressBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
-        if (!progressBarRef.current) return;
+    // Posição (0-1) de um ponto horizontal na barra de progresso
+    const getProgressFraction = (clientX: number): number | null => {
+        if (!progressBarRef.current) return null;
 
         const rect = progressBarRef.current.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const percentage = x / rect.width;
+        return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    };
 
-        onSeek(Math.max(0, Math.min(1, percentage)));
+    // Handler para seek via barra de progresso
+    const handleProgressBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const fraction = getProgressFraction(e.clientX);
+        if (fraction !== null) onSeek(fraction);
     };
 
     const handleProgressBarMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -204,6 +265,7 @@ export default function VideoPlayerControls({
     };
 
     const handleProgressBarMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+        setPreviewFraction(getProgressFraction(e.clientX));
         if (seeking) {
             handleProgressBarClick(e);
         }
@@ -213,6 +275,24 @@ export default function VideoPlayerControls({
         setSeeking(false);
     };
 
+    // Scrubbing por toque (a barra usa touch-action: none para não rolar a página)
+    const handleProgressBarTouch = (e: React.TouchEvent<HTMLDivElement>) => {
+        const touch = e.touches[0];
+        if (!touch) return;
+
+        const fraction = getProgressFraction(touch.clientX);
+        if (fraction === null) return;
+
+        setSeeking(true);
+        setPreviewFraction(fraction);
+        onSeek(fraction);
+    };
+
+    const handleProgressBarTouchEnd = () => {
+        setSeeking(false);
+        setPreviewFraction(null);
+    };
+
     useEffect(() => {
         if (seeking) {
             const handleMouseUp = () => setSeeking(false);
@@ -221,328 +301,631 @@ export default function VideoPlayerControls({
         }
     }, [seeking]);
 
+    const previewSeconds = previewFraction !== null ? previewFraction * duration : null;
+    const previewThumbnail = previewSeconds !== null ? findThumbnail(thumbnailCues, previewSeconds) : null;
+    const previewChapter = previewSeconds !== null ? chapters[getCurrentChapterIndex(chapters, previewSeconds)] : undefined;
+    const currentChapterIndex = getCurrentChapterIndex(chapters, playedSeconds);
+    const previewSize = previewThumbnail?.width
+        ? { width: previewThumbnail.width, height: previewThumbnail.height }
+        : DEFAULT_THUMBNAIL_SIZE;
+
     return (
-        <div
-            className={cn(
-                'absolute bottom-0 left-0 right-0 z-40',
-                'bg-gradient-to-t from-black/90 via-black/50 to-transparent',
-                'transition-opacity duration-300',
-                showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'
-            )}
-            onMouseMove={onMouseMove}
-            onClick={(e) => e.stopPropagation()}
-        >
-            {/* Barra de progresso com tempo restante */}
-            <div className="px-6 pt-8 pb-2 flex items-center gap-3">
-                <div
-                    ref={progressBarRef}
-                    className="relative h-1.5 bg-white/20 rounded-full cursor-pointer group hover:h-2 transition-all flex-1"
-                    role="slider"
-                    aria-valuemin={0}
-                    aria-valuemax={100}
-                    aria-valuenow={Math.round(played * 100)}
-                    aria-label={tA11y('progressBar')}
-                    tabIndex={0}
-                    onMouseDown={handleProgressBarMouseDown}
-                    onMouseMove={handleProgressBarMouseMove}
-                    onMouseUp={handleProgressBarMouseUp}
+        <>
+            {/* Pular abertura/recapitulação (visível mesmo com os controles ocultos) */}
+            {activeSegment && onSkipSegment && !ended && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onSkipSegment(activeSegment);
+                    }}
+                    className={cn(
+                        'absolute right-6 z-40 flex items-center gap-2 px-5 py-2.5 rounded-lg',
+                        'bg-black/60 hover:bg-white/90 hover:text-black text-white text-sm font-semibold',
+                        'border border-white/40 backdrop-blur-sm shadow-lg transition-all duration-300',
+                        'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                        showControls ? 'bottom-32' : 'bottom-10'
+                    )}
                 >
-                    {/* Progresso preenchido */}
-                    <div
-                        className="absolute top-0 left-0 h-full bg-red-600 rounded-full"
-                        style={{
-                            width: `${played * 100}%`,
-                            transition: seeking ? 'none' : 'width 0.1s linear'
-                        }}
-                    />
-
-                    {/* Indicador (bolinha) */}
-                    <div
-                        className={cn(
-                            'absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-red-600 rounded-full shadow-lg',
-                            'transition-all duration-200',
-                            'group-hover:w-4 group-hover:h-4 group-hover:shadow-xl',
-                            seeking && 'w-4 h-4 shadow-xl'
-                        )}
-                        style={{
-                            left: `calc(${played * 100}% - ${seeking ? '8px' : '6px'})`,
-                            transition: seeking ? 'none' : 'left 0.1s linear'
-                        }}
-                    />
-                </div>
-
-                {/* Tempo restante */}
-                <span className="text-xs text-white/70 font-mono whitespace-nowrap">
-                    -{formatTime(duration - playedSeconds)}
-                </span>
-            </div>
+                    <SkipForward className="w-4 h-4" aria-hidden="true" />
+                    {activeSegment.type === 'recap' ? t('skipRecap') : t('skipIntro')}
+                </button>
+            )}
 
-            {/* Controles principais */}
-            <div className="flex items-center justify-between px-6 pb-4 gap-4">
-                {/* Controles da esquerda */}
-                <div className="flex items-center gap-2 flex-shrink-0">
-                    {/* Play/Pause */}
-                    <button
-                        onClick={onPlayPause}
-                        className="text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
-                        aria-label={playing ? t('pause') : t('play')}
+            <div
+                className={cn(
+                    'absolute bottom-0 left-0 right-0 z-40',
+                    'bg-gradient-to-t from-black/90 via-black/50 to-transparent',
+                    'transition-opacity duration-300',
+                    showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'
+                )}
+                onMouseMove={onMouseMove}
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Barra de progresso com tempo restante */}
+                <div className="px-6 pt-8 pb-2 flex items-center gap-3">
+                    <div
+                        ref={progressBarRef}
+                        className="relative h-1.5 bg-white/20 rounded-full cursor-pointer group hover:h-2 transition-all flex-1 touch-none"
+                        role="slider"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={Math.round(played * 100)}
+                        aria-label={tA11y('progressBar')}
+                        tabIndex={0}
+                        onMouseDown={handleProgressBarMouseDown}
+                        onMouseMove={handleProgressBarMouseMove}
+                        onMouseUp={handleProgressBarMouseUp}
+                        onMouseLeave={() => setPreviewFraction(null)}
+                        onTouchStart={handleProgressBarTouch}
+                        onTouchMove={handleProgressBarTouch}
+                        onTouchEnd={handleProgressBarTouchEnd}
+                        onTouchCancel={handleProgressBarTouchEnd}
                     >
-                        {ended ? (
-                            <div className="flex items-center gap-2">
-                                <Play className="w-6 h-6" aria-hidden="true" />
-                                <span className="text-sm">{t('playAgain')}</span>
+                        {/* Prévia (miniatura + tempo) sobre o ponto do cursor */}
+                        {previewFraction !== null && previewSeconds !== null && duration > 0 && (
+                            <div
+                                className="absolute bottom-full mb-3 -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none"
+                                style={{
+                                    // Mantém a prévia dentro da barra nas pontas
+                                    left: `clamp(${previewSize.width / 2}px, ${previewFraction * 100}%, calc(100% - ${previewSize.width / 2}px))`,
+                                }}
+                                aria-hidden="true"
+                            >
+                                {previewThumbnail && (
+                                    <div
+                                        className="rounded-md border border-white/30 shadow-xl bg-black bg-no-repeat"
+                                        style={{
+                                            ...previewSize,
+                                            backgroundImage: `url("${previewThumbnail.url}")`,
+                                            ...(previewThumbnail.width
+                                                ? { backgroundPosition: `-${previewThumbnail.x}px -${previewThumbnail.y}px` }
+                                                : { backgroundSize: 'cover', backgroundPosition: 'center' }),
+                                        }}
+                                    />
+                                )}
+                                {previewChapter && (
+                                    <span className="max-w-[200px] truncate text-xs font-semibold text-white drop-shadow">
+                                        {previewChapter.title}
+                                    </span>
+                                )}
+                                <span className="px-1.5 py-0.5 rounded bg-black/80 text-xs text-white font-mono">
+                                    {formatTime(previewSeconds)}
+                                </span>
                             </div>
-                        ) : playing ? (
-                            <Pause className="w-6 h-6" aria-hidden="true" />
-                        ) : (
-                            <Play className="w-6 h-6" aria-hidden="true" />
                         )}
-                    </button>
 
-                    {/* Retroceder 10 segundos */}
-                    <button
-                        onClick={onSkipBackward}
-                        className="text-white hover:scale-110 transition-transform p-2 relative focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
-                        aria-label={t('skipBack')}
-                    >
-                        <RotateCcw className="w-6 h-6" aria-hidden="true" />
-                        <span className="absolute inset-0 flex items-center justify-center text-[10px] font-bold">
-                            10
-                        </span>
-                    </button>
-
-                    {/* Avançar 10 segundos */}
-                    <button
-                        onClick={onSkipForward}
-                        className="text-white hover:scale-110 transition-transform p-2 relative focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
-                        aria-label={t('skipForward')}
-                    >
-                        <RotateCw className="w-6 h-6" aria-hidden="true" />
-                        <span className="absolute inset-0 flex items-center justify-center text-[10px] font-bold">
-                            10
-                        </span>
-                    </button>
+                        {/* Progresso preenchido */}
+                        <div
+                            className="absolute top-0 left-0 h-full bg-red-600 rounded-full"
+                            style={{
+                                width: `${played * 100}%`,
+                                transition: seeking ? 'none' : 'width 0.1s linear'
+                            }}
+                        />
+
+                        {/* Marcações de capítulo */}
+                        {duration > 0 && chapters.map((chapter) => (
+                            chapter.startSeconds > 0 && chapter.startSeconds < duration && (
+                                <div
+                                    key={chapter.startSeconds}
+                                    className="absolute top-0 h-full w-0.5 -translate-x-1/2 bg-black/70 pointer-events-none"
+                                    style={{ left: `${(chapter.startSeconds / duration) * 100}%` }}
+                                    aria-hidden="true"
+                                />
+                            )
+                        ))}
+
+                        {/* Indicador (bolinha) */}
+                        <div
+                            className={cn(
+                                'absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-red-600 rounded-full shadow-lg',
+                                'transition-all duration-200',
+                                'group-hover:w-4 group-hover:h-4 group-hover:shadow-xl',
+                                seeking && 'w-4 h-4 shadow-xl'
+                            )}
+                            style={{
+                                left: `calc(${played * 100}% - ${seeking ? '8px' : '6px'})`,
+                                transition: seeking ? 'none' : 'left 0.1s linear'
+                            }}
+                        />
+                    </div>
 
-                    {/* Volume com slider horizontal */}
-                    <div
-                        className="relative group flex items-center"
-                        onMouseEnter={handleVolumeMouseEnter}
-                        onMouseLeave={handleVolumeMouseLeave}
-                    >
+                    {/* Tempo restante */}
+                    <span className="text-xs text-white/70 font-mono whitespace-nowrap">
+                        -{formatTime(duration - playedSeconds)}
+                    </span>
+                </div>
+
+                {/* Controles principais */}
+                <div className="flex items-center justify-between px-6 pb-4 gap-4">
+                    {/* Controles da esquerda */}
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                        {/* Play/Pause */}
                         <button
-                            onClick={onMuteToggle}
+                            onClick={onPlayPause}
                             className="text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
-                            aria-label={muted ? t('unmute') : t('mute')}
+                            aria-label={playing ? t('pause') : t('play')}
                         >
-                            {muted || volume === 0 ? (
-                                <VolumeX className="w-6 h-6" aria-hidden="true" />
-                            ) : volume < 0.5 ? (
-                                <Volume1 className="w-6 h-6" aria-hidden="true" />
+                            {ended ? (
+                                <div className="flex items-center gap-2">
+                                    <Play className="w-6 h-6" aria-hidden="true" />
+                                    <span className="text-sm">{t('playAgain')}</span>
+                                </div>
+                            ) : playing ? (
+                                <Pause className="w-6 h-6" aria-hidden="true" />
                             ) : (
-                                <Volume2 className="w-6 h-6" aria-hidden="true" />
+                                <Play className="w-6 h-6" aria-hidden="true" />
                             )}
                         </button>
 
-                        {/* Slider horizontal estilo YouTube */}
-                        <div
-                            className={cn(
-                                'absolute left-full ml-2 flex items-center transition-all duration-300',
-                                showVolumeSlider ? 'w-20 opacity-100' : 'w-0 opacity-0'
-                            )}
+                        {/* Retroceder 10 segundos */}
+                        <button
+                            onClick={onSkipBackward}
+                            className="text-white hover:scale-110 transition-transform p-2 relative focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                            aria-label={t('skipBack')}
                         >
-                            <input
-                                type="range"
-                                min="0"
-                                max="1"
-                                step="0.01"
-                                value={muted ? 0 : volume}
-                                onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
-                                className="w-full h-1 appearance-none rounded-full cursor-pointer
-                                    [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3
-                                    [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white
-                                    [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-lg
-                                    [&::-webkit-slider-thumb]:hover:scale-125 [&::-webkit-slider-thumb]:transition-transform
-                                    [&::-moz-range-thumb]:appearance-none [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-3
-                                    [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-white [&::-moz-range-thumb]:border-0
-                                    [&::-moz-range-thumb]:cursor-pointer [&::-moz-range-thumb]:shadow-lg"
-                                style={{
-                                    background: `linear-gradient(to right, ${COLORS.danger} 0%, ${COLORS.danger} ${(muted ? 0 : volume) * 100}%, rgba(255,255,255,0.3) ${(muted ? 0 : volume) * 100}%, rgba(255,255,255,0.3) 100%)`
-                                }}
-                                aria-label={t('volumeControl')}
-                            />
-                        </div>
-                    </div>
-                </div>
-
-                {/* Título centralizado */}
-                {title && (
-                    <div className="flex-1 flex items-center justify-center min-w-0 px-4">
-                        <h2 className="text-white text-base font-semibold truncate text-center select-none">
-                            {title}
-                        </h2>
-                    </div>
-                )}
+                            <RotateCcw className="w-6 h-6" aria-hidden="true" />
+                            <span className="absolute inset-0 flex items-center justify-center text-[10px] font-bold">
+                                10
+                            </span>
+                        </button>
 
-                {/* Controles da direita */}
-                <div className="flex items-center gap-1 relative flex-shrink-0">
-                    {/* Legendas e Áudio */}
-                    <div className="relative" ref={subtitlesMenuRef}>
+                        {/* Avançar 10 segundos */}
                         <button
-                            onClick={() => {
-                                closeAllMenus();
-                                setShowSubtitlesMenu(!showSubtitlesMenu);
-                            }}
-                            className={cn(
-                                'text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
-                                showSubtitlesMenu && 'text-red-400'
-                            )}
-                            aria-label={availableAudioTracks.length > 1 ? t('subtitlesAndAudio') : t('subtitles')}
-                            aria-haspopup="menu"
-                            title={availableAudioTracks.length > 1 ? t('subtitlesAndAudio') : t('subtitles')}
+                            onClick={onSkipForward}
+                            className="text-white hover:scale-110 transition-transform p-2 relative focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                            aria-label={t('skipForward')}
                         >
-                            <Captions className="w-6 h-6" aria-hidden="true" />
+                            <RotateCw className="w-6 h-6" aria-hidden="true" />
+                            <span className="absolute inset-0 flex items-center justify-center text-[10px] font-bold">
+                                10
+                            </span>
                         </button>
 
-                        {/* Menu de legendas e áudio */}
-                        {showSubtitlesMenu && (
-                            <div className={cn(
-                                "absolute bottom-full right-0 mb-2 rounded-2xl overflow-hidden shadow-2xl shadow-black/60 border border-white/[0.08] z-50",
-                                availableAudioTracks.length > 1 ? "min-w-[420px]" : "min-w-[200px]"
-                            )} style={{ background: GRADIENTS.playerControls }}>
-                                <div className="py-3 px-3">
-                                    <div className="flex gap-4">
-                                        {/* Seção de Legendas */}
-                                        <div className="flex-1">
+                        {/* Volume com slider horizontal */}
+                        <div
+                            className="relative group flex items-center"
+                            onMouseEnter={handleVolumeMouseEnter}
+                            onMouseLeave={handleVolumeMouseLeave}
+                        >
+                            <button
+                                onClick={onMuteToggle}
+                                className="text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                aria-label={muted ? t('unmute') : t('mute')}
+                            >
+                                {muted || volume === 0 ? (
+                                    <VolumeX className="w-6 h-6" aria-hidden="true" />
+                                ) : volume < 0.5 ? (
+                                    <Volume1 className="w-6 h-6" aria-hidden="true" />
+                                ) : (
+                                    <Volume2 className="w-6 h-6" aria-hidden="true" />
+                                )}
+                            </button>
+
+                            {/* Slider horizontal estilo YouTube */}
+                            <div
+                                className={cn(
+                                    'absolute left-full ml-2 flex items-center transition-all duration-300',
+                                    showVolumeSlider ? 'w-20 opacity-100' : 'w-0 opacity-0'
+                                )}
+                            >
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="1"
+                                    step="0.01"
+                                    value={muted ? 0 : volume}
+                                    onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+                                    className="w-full h-1 appearance-none rounded-full cursor-pointer
+                                        [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3
+                                        [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white
+                                        [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-lg
+                                        [&::-webkit-slider-thumb]:hover:scale-125 [&::-webkit-slider-thumb]:transition-transform
+                                        [&::-moz-range-thumb]:appearance-none [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-3
+                                        [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-white [&::-moz-range-thumb]:border-0
+                                        [&::-moz-range-thumb]:cursor-pointer [&::-moz-range-thumb]:shadow-lg"
+                                    style={{
+                                        background: `linear-gradient(to right, ${COLORS.danger} 0%, ${COLORS.danger} ${(muted ? 0 : volume) * 100}%, rgba(255,255,255,0.3) ${(muted ? 0 : volume) * 100}%, rgba(255,255,255,0.3) 100%)`
+                                    }}
+                                    aria-label={t('volumeControl')}
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Título centralizado */}
+                    {title && (
+                        <div className="flex-1 flex items-center justify-center min-w-0 px-4">
+                            <h2 className="text-white text-base font-semibold truncate text-center select-none">
+                                {title}
+                            </h2>
+                        </div>
+                    )}
+
+                    {/* Controles da direita */}
+                    <div className="flex items-center gap-1 relative flex-shrink-0">
+                        {/* Capítulos */}
+                        {chapters.length > 0 && onSeekToSeconds && (
+                            <div className="relative" ref={chaptersMenuRef}>
+                                <button
+                                    onClick={() => {
+                                        closeAllMenus();
+                                        setShowChaptersMenu(!showChaptersMenu);
+                                    }}
+                                    className={cn(
+                                        'text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                        showChaptersMenu && 'text-red-400'
+                                    )}
+                                    aria-label={t('chapters')}
+                                    aria-haspopup="menu"
+                                    title={t('chapters')}
+                                >
+                                    <ListVideo className="w-6 h-6" aria-hidden="true" />
+                                </button>
+
+                                {/* Menu de capítulos */}
+                                {showChaptersMenu && (
+                                    <div className="absolute bottom-full right-0 mb-2 rounded-2xl overflow-hidden min-w-[280px] max-w-[360px] shadow-2xl shadow-black/60 border border-white/[0.08] z-50" style={{ background: GRADIENTS.playerControls }}>
+                                        <div className="py-3 px-3 max-h-[50vh] overflow-y-auto">
                                             <p className="text-xs text-gray-400 uppercase tracking-wider mb-2.5 font-semibold flex items-center gap-1.5 px-1">
-                                                <Captions className="w-3.5 h-3.5" aria-hidden="true" />
-                                                {t('subtitles')}
+                                                <ListVideo className="w-3.5 h-3.5" aria-hidden="true" />
+                                                {t('chapters')}
                                             </p>
-                                            <button
-                                                onClick={() => {
-                                                    onSubtitleChange(null);
-                                                    setShowSubtitlesMenu(false);
-                                                }}
-                                                className={cn(
-                                                    'w-full px-3 py-2.5 flex items-center justify-between transition-all rounded-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
-                                                    !subtitlesEnabled || !currentSubtitle
-                                                        ? 'text-primary bg-white/[0.06]'
-                                                        : 'text-gray-300 hover:bg-white/[0.06] hover:text-white'
-                                                )}
-                                            >
-                                                <span className="text-sm">{t('disabled')}</span>
-                                                {(!subtitlesEnabled || !currentSubtitle) && <Check size={14} className="text-primary" aria-hidden="true" />}
-                                            </button>
-                                            {availableSubtitles.map((subtitle) => (
+                                            {chapters.map((chapter, index) => (
                                                 <button
-                                                    key={subtitle.language}
+                                                    key={chapter.startSeconds}
                                                     onClick={() => {
-                                                        onSubtitleChange(subtitle.language);
-                                                        setShowSubtitlesMenu(false);
+                                                        onSeekToSeconds(chapter.startSeconds);
+                                                        setShowChaptersMenu(false);
                                                     }}
                                                     className={cn(
-                                                        'w-full px-3 py-2.5 flex items-center justify-between transition-all rounded-xl mt-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
-                                                        subtitlesEnabled && currentSubtitle === subtitle.language
+                                                        'w-full px-2 py-2 flex items-center gap-3 transition-all rounded-xl mt-1 text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                                        index === currentChapterIndex
                                                             ? 'text-primary bg-white/[0.06]'
                                                             : 'text-gray-300 hover:bg-white/[0.06] hover:text-white'
                                                     )}
                                                 >
-                                                    <span className="text-sm">{subtitle.label}</span>
-                                                    {subtitlesEnabled && currentSubtitle === subtitle.language && <Check size={14} className="text-primary" aria-hidden="true" />}
+                                                    {chapter.thumbnail && (
+                                                        // Miniatura externa do backend (fora dos remotePatterns do next/image)
+                                                        // eslint-disable-next-line @next/next/no-img-element
+                                                        <img
+                                                            src={chapter.thumbnail}
+                                                            alt=""
+                                                            className="w-16 aspect-video rounded-md object-cover flex-shrink-0 bg-black"
+                                                            loading="lazy"
+                                                        />
+                                                    )}
+                                                    <span className="flex-1 min-w-0">
+                                                        <span className="block text-sm font-medium truncate">{chapter.title}</span>
+                                                        <span className="block text-xs text-gray-400 font-mono">{formatTime(chapter.startSeconds)}</span>
+                                                    </span>
+                                                    {index === currentChapterIndex && <Check size={14} className="text-primary flex-shrink-0" aria-hidden="true" />}
                                                 </button>
                                             ))}
                                         </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Legendas e Áudio */}
+                        <div className="relative" ref={subtitlesMenuRef}>
+                            <button
+                                onClick={() => {
+                                    closeAllMenus();
+                                    setShowSubtitlesMenu(!showSubtitlesMenu);
+                                }}
+                                className={cn(
+                                    'text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                    showSubtitlesMenu && 'text-red-400'
+                                )}
+                                aria-label={availableAudioTracks.length > 1 ? t('subtitlesAndAudio') : t('subtitles')}
+                                aria-haspopup="menu"
+                                title={availableAudioTracks.length > 1 ? t('subtitlesAndAudio') : t('subtitles')}
+                            >
+                                <Captions className="w-6 h-6" aria-hidden="true" />
+                            </button>
+
+                            {/* Menu de legendas e áudio */}
+                            {showSubtitlesMenu && (
+                                <div className={cn(
+                                    "absolute bottom-full right-0 mb-2 rounded-2xl overflow-hidden shadow-2xl shadow-black/60 border border-white/[0.08] z-50",
+                                    availableAudioTracks.length > 1 ? "min-w-[420px]" : "min-w-[200px]"
+                                )} style={{ background: GRADIENTS.playerControls }}>
+                                    <div className="py-3 px-3">
+                                        <div className="flex gap-4">
+                                            {/* Seção de Legendas */}
+                                            <div className="flex-1">
+                                                <p className="text-xs text-gray-400 uppercase tracking-wider mb-2.5 font-semibold flex items-center gap-1.5 px-1">
+                                                    <Captions className="w-3.5 h-3.5" aria-hidden="true" />
+                                                    {t('subtitles')}
+                                                </p>
+                                                <button
+                                                    onClick={() => {
+                                                        onSubtitleChange(null);
+                                                        setShowSubtitlesMenu(false);
+                                                    }}
+                                                    className={cn(
+                                                        'w-full px-3 py-2.5 flex items-center justify-between transition-all rounded-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                                        !subtitlesEnabled || !currentSubtitle
+                                                            ? 'text-primary bg-white/[0.06]'
+                                                            : 'text-gray-300 hover:bg-white/[0.06] hover:text-white'
+                                                    )}
+                                                >
+                                                    <span className="text-sm">{t('disabled')}</span>
+                                                    {(!subtitlesEnabled || !currentSubtitle) && <Check size={14} className="text-primary" aria-hidden="true" />}
+                                                </button>
+                                                {availableSubtitles.map((subtitle) => (
+                                                    <button
+                                                        key={subtitle.language}
+                                                        onClick={() => {
+                                                            onSubtitleChange(subtitle.language);
+                                                            setShowSubtitlesMenu(false);
+                                                        }}
+                                                        className={cn(
+                                                            'w-full px-3 py-2.5 flex items-center justify-between transition-all rounded-xl mt-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                                            subtitlesEnabled && currentSubtitle === subtitle.language
+                                                                ? 'text-primary bg-white/[0.06]'
+                                                                : 'text-gray-300 hover:bg-white/[0.06] hover:text-white'
+                                                        )}
+                                                    >
+                                                        <span className="text-sm">{subtitle.label}</span>
+                                                        {subtitlesEnabled && currentSubtitle === subtitle.language && <Check size={14} className="text-primary" aria-hidden="true" />}
+                                                    </button>
+                                                ))}
+
+                                                {/* Arquivo de legenda local */}
+                                                {onSubtitleFileSelect && (
+                                                    <>
+                                                        <button
+                                                            onClick={() => subtitleFileInputRef.current?.click()}
+                                                            className="w-full px-3 py-2.5 flex items-center gap-2 transition-all rounded-xl mt-1 text-gray-300 hover:bg-white/[0.06] hover:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                                        >
+                                                            <FileUp size={14} aria-hidden="true" />
+                                                            <span className="text-sm">{t('loadSubtitleFile')}</span>
+                                                        </button>
+                                                        <input
+                                                            ref={subtitleFileInputRef}
+                                                            type="file"
+                                                            accept=".srt,.vtt,.ass,.ssa"
+                                                            className="hidden"
+                                                            onChange={(e) => {
+                                                                const file = e.target.files?.[0];
+                                                                if (file) {
+                                                                    onSubtitleFileSelect(file);
+                                                                    setShowSubtitlesMenu(false);
+                                                                }
+                                                                // Permite escolher o mesmo arquivo de novo
+                                                                e.target.value = '';
+                                                            }}
+                                                        />
+                                                    </>
+                                                )}
+
+                                                {/* Atraso da legenda */}
+                                                {onSubtitleDelayAdjust && subtitlesEnabled && currentSubtitle && (
+                                                    <div className="mt-2 pt-2 border-t border-white/[0.06]">
+                                                        <p className="text-xs text-gray-400 mb-1.5 px-1">{t('subtitleDelay')}</p>
+                                                        <div className="flex items-center justify-between gap-1 px-1">
+                                                            <button
+                                                                onClick={() => onSubtitleDelayAdjust(-1)}
+                                                                className="p-2 rounded-lg text-gray-300 hover:bg-white/[0.06] hover:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                                                aria-label={t('subtitleDelayEarlier')}
+                                                                title={t('subtitleDelayEarlier')}
+                                                            >
+                                                                <Minus size={14} aria-hidden="true" />
+                                                            </button>
+                                                            <button
+                                                                onClick={onSubtitleDelayReset}
+                                                                disabled={!onSubtitleDelayReset || subtitleDelay === 0}
+                                                                className={cn(
+                                                                    'flex-1 py-1.5 rounded-lg text-sm tabular-nums text-center focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                                                    subtitleDelay === 0 ? 'text-gray-300' : 'text-primary hover:bg-white/[0.06]'
+                                                                )}
+                                                                aria-live="polite"
+                                                                title={subtitleDelay !== 0 ? t('subtitleDelayReset') : undefined}
+                                                            >
+                                                                {formatSubtitleDelay(subtitleDelay)}
+                                                            </button>
+                                                            <button
+                                                                onClick={() => onSubtitleDelayAdjust(1)}
+                                                                className="p-2 rounded-lg text-gray-300 hover:bg-white/[0.06] hover:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                                                aria-label={t('subtitleDelayLater')}
+                                                                title={t('subtitleDelayLater')}
+                                                            >
+                                                                <Plus size={14} aria-hidden="true" />
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                )}
+                                            </div>
+
+                                            {/* Seção de Áudio - SOMENTE se houver múltiplas faixas */}
+                                            {availableAudioTracks.length > 1 && (
+                                                <>
+                                                    {/* Divisor vertical */}
+                                                    <div className="border-l border-white/[0.06]" />
+
+                                                    <div className="flex-1">
+                                                        <p className="text-xs text-gray-400 uppercase tracking-wider mb-2.5 font-semibold flex items-center gap-1.5 px-1">
+                                                            <Volume2 className="w-3.5 h-3.5" aria-hidden="true" />
+                                                            {t('audio')}
+                                                        </p>
+                                                        {availableAudioTracks.map((track) => (
+                                                            <button
+                                                                key={track.language}
+                                                                onClick={() => {
+                                                                    onAudioTrackChange(track.language);
+                                                                    setShowSubtitlesMenu(false);
+                                                                }}
+                                                                className={cn(
+                                                                    'w-full px-3 py-2.5 flex items-center justify-between transition-all rounded-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                                                    currentAudioTrack === track.language
+                                                                        ? 'text-primary bg-white/[0.06]'
+                                                                        : 'text-gray-300 hover:bg-white/[0.06] hover:text-white',
+                                                                    availableAudioTracks.indexOf(track) > 0 && 'mt-1'
+                                                                )}
+                                                            >
+                                                                <span className="text-sm">{track.label}</span>
+                                                                {currentAudioTrack === track.language && <Check size={14} className="text-primary" aria-hidden="true" />}
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                </>
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
 
-                                        {/* Seção de Áudio - SOMENTE se houver múltiplas faixas */}
-                                        {availableAudioTracks.length > 1 && (
-                                            <>
-                                                {/* Divisor vertical */}
-                                                <div className="border-l border-white/[0.06]" />
-
-                                                <div className="flex-1">
-                                                    <p className="text-xs text-gray-400 uppercase tracking-wider mb-2.5 font-semibold flex items-center gap-1.5 px-1">
-                                                        <Volume2 className="w-3.5 h-3.5" aria-hidden="true" />
-                                                        {t('audio')}
-                                                    </p>
-                                                    {availableAudioTracks.map((track) => (
+                        {/* Configurações: qualidade (se houver qualidades disponíveis) e timer de desligamento */}
+                        {(qualities.length > 0 || onSleepTimerChange) && (
+                            <div className="relative" ref={qualityMenuRef}>
+                                <button
+                                    onClick={() => {
+                                        closeAllMenus();
+                                        setShowQualityMenu(!showQualityMenu);
+                                    }}
+                                    className={cn(
+                                        'text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                        showQualityMenu && 'text-red-400'
+                                    )}
+                                    aria-label={t('settings')}
+                                    aria-haspopup="menu"
+                                    title={t('settings')}
+                                >
+                                    <Settings className="w-6 h-6" aria-hidden="true" />
+                                </button>
+
+                                {/* Menu de configurações */}
+                                {showQualityMenu && (
+                                    <div className="absolute bottom-full right-0 mb-2 rounded-2xl min-w-[180px] max-h-[60vh] overflow-y-auto shadow-2xl shadow-black/60 border border-white/[0.08] z-50" style={{ background: GRADIENTS.playerControls }}>
+                                        {qualities.length > 0 && (
+                                            <div className="py-3 px-3">
+                                                <p className="text-xs text-gray-400 uppercase tracking-wider mb-2.5 font-semibold flex items-center gap-1.5 px-1">
+                                                    <Settings className="w-3.5 h-3.5" aria-hidden="true" />
+                                                    {t('quality')}
+                                                </p>
+                                                {qualities.map((quality) => {
+                                                    const getQualityIcon = (q: string) => {
+                                                        if (q === 'auto') return <Sparkles className="w-4 h-4" aria-hidden="true" />;
+                                                        if (q === '1080p' || q === '4K') return <Monitor className="w-4 h-4" aria-hidden="true" />;
+                                                        if (q === '720p') return <Tv className="w-4 h-4" aria-hidden="true" />;
+                                                        return <Smartphone className="w-4 h-4" aria-hidden="true" />;
+                                                    };
+
+                                                    return (
                                                         <button
-                                                            key={track.language}
+                                                            key={quality}
                                                             onClick={() => {
-                                                                onAudioTrackChange(track.language);
-                                                                setShowSubtitlesMenu(false);
+                                                                onQualityChange(quality);
+                                                                setShowQualityMenu(false);
                                                             }}
                                                             className={cn(
-                                                                'w-full px-3 py-2.5 flex items-center justify-between transition-all rounded-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
-                                                                currentAudioTrack === track.language
+                                                                'w-full px-3 py-2.5 flex items-center gap-2.5 transition-all rounded-xl mt-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                                                currentQuality === quality
                                                                     ? 'text-primary bg-white/[0.06]'
-                                                                    : 'text-gray-300 hover:bg-white/[0.06] hover:text-white',
-                                                                availableAudioTracks.indexOf(track) > 0 && 'mt-1'
+                                                                    : 'text-gray-300 hover:bg-white/[0.06] hover:text-white'
                                                             )}
                                                         >
-                                                            <span className="text-sm">{track.label}</span>
-                                                            {currentAudioTrack === track.language && <Check size={14} className="text-primary" aria-hidden="true" />}
+                                                            {getQualityIcon(quality)}
+                                                            <span className="text-sm font-medium flex-1 text-left">{quality}</span>
+                                                            {currentQuality === quality && <Check size={14} className="text-primary" aria-hidden="true" />}
                                                         </button>
-                                                    ))}
-                                                </div>
-                                            </>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
+
+                                        {/* Timer de desligamento */}
+                                        {onSleepTimerChange && (
+                                            <div className={cn('py-3 px-3', qualities.length > 0 && 'border-t border-white/[0.06]')}>
+                                                <p className="text-xs text-gray-400 uppercase tracking-wider mb-2.5 font-semibold flex items-center gap-1.5 px-1">
+                                                    <Moon className="w-3.5 h-3.5" aria-hidden="true" />
+                                                    {t('sleepTimer')}
+                                                </p>
+                                                {[null, ...SLEEP_TIMER_OPTIONS].map((option) => (
+                                                    <button
+                                                        key={option ?? 'off'}
+                                                        onClick={() => {
+                                                            onSleepTimerChange(option);
+                                                            setShowQualityMenu(false);
+                                                        }}
+                                                        className={cn(
+                                                            'w-full px-3 py-2.5 flex items-center gap-2.5 transition-all rounded-xl mt-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                                            sleepTimer === option
+                                                                ? 'text-primary bg-white/[0.06]'
+                                                                : 'text-gray-300 hover:bg-white/[0.06] hover:text-white'
+                                                        )}
+                                                    >
+                                                        <span className="text-sm font-medium flex-1 text-left">
+                                                            {option === null
+                                                                ? t('sleepTimerOff')
+                                                                : option === 'episode'
+                                                                    ? t('sleepTimerEndOfEpisode')
+                                                                    : t('sleepTimerMinutes', { count: option })}
+                                                        </span>
+                                                        {sleepTimer === option && <Check size={14} className="text-primary" aria-hidden="true" />}
+                                                    </button>
+                                                ))}
+                                            </div>
                                         )}
                                     </div>
-                                </div>
+                                )}
                             </div>
                         )}
-                    </div>
 
-                    {/* Qualidade - Só mostra se houver qualidades disponíveis */}
-                    {qualities.length > 0 && (
-                        <div className="relative" ref={qualityMenuRef}>
+                        {/* Velocidade */}
+                        <div className="relative" ref={speedMenuRef}>
                             <button
                                 onClick={() => {
                                     closeAllMenus();
-                                    setShowQualityMenu(!showQualityMenu);
+                                    setShowSpeedMenu(!showSpeedMenu);
                                 }}
                                 className={cn(
                                     'text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
-                                    showQualityMenu && 'text-red-400'
+                                    showSpeedMenu && 'text-red-400'
                                 )}
-                                aria-label={t('quality')}
+                                aria-label={t('speed')}
                                 aria-haspopup="menu"
-                                title={t('quality')}
+                                title={t('speed')}
                             >
-                                <Settings className="w-6 h-6" aria-hidden="true" />
+                                <Gauge className="w-6 h-6" aria-hidden="true" />
                             </button>
 
-                            {/* Menu de qualidade */}
-                            {showQualityMenu && (
-                                <div className="absolute bottom-full right-0 mb-2 rounded-2xl overflow-hidden min-w-[160px] shadow-2xl shadow-black/60 border border-white/[0.08] z-50" style={{ background: GRADIENTS.playerControls }}>
+                            {/* Menu de velocidade */}
+                            {showSpeedMenu && (
+                                <div className="absolute bottom-full right-0 mb-2 rounded-2xl overflow-hidden min-w-[140px] shadow-2xl shadow-black/60 border border-white/[0.08] z-50" style={{ background: GRADIENTS.playerControls }}>
                                     <div className="py-3 px-3">
                                         <p className="text-xs text-gray-400 uppercase tracking-wider mb-2.5 font-semibold flex items-center gap-1.5 px-1">
-                                            <Settings className="w-3.5 h-3.5" aria-hidden="true" />
-                                            {t('quality')}
+                                            <Gauge className="w-3.5 h-3.5" aria-hidden="true" />
+                                            {t('speed')}
                                         </p>
-                                        {qualities.map((quality) => {
-                                            const getQualityIcon = (q: string) => {
-                                                if (q === 'auto') return <Sparkles className="w-4 h-4" aria-hidden="true" />;
-                                                if (q === '1080p' || q === '4K') return <Monitor className="w-4 h-4" aria-hidden="true" />;
-                                                if (q === '720p') return <Tv className="w-4 h-4" aria-hidden="true" />;
-                                                return <Smartphone className="w-4 h-4" aria-hidden="true" />;
+                                        {playbackRates.map((rate) => {
+                                            const getSpeedIcon = (r: number) => {
+                                                if (r < 1) return <Turtle className="w-4 h-4" aria-hidden="true" />;
+                                                if (r === 1) return <Play className="w-4 h-4" aria-hidden="true" />;
+                                                return <Rabbit className="w-4 h-4" aria-hidden="true" />;
                                             };
 
                                             return (
                                                 <button
-                                                    key={quality}
+                                                    key={rate}
                                                     onClick={() => {
-                                                        onQualityChange(quality);
-                                                        setShowQualityMenu(false);
+                                                        onPlaybackRateChange(rate);
+                                                        setShowSpeedMenu(false);
                                                     }}
                                                     className={cn(
                                                         'w-full px-3 py-2.5 flex items-center gap-2.5 transition-all rounded-xl mt-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
-                                                        currentQuality === quality
+                                                        playbackRate === rate
                                                             ? 'text-primary bg-white/[0.06]'
                                                             : 'text-gray-300 hover:bg-white/[0.06] hover:text-white'
                                                     )}
                                                 >
-                                                    {getQualityIcon(quality)}
-                                                    <span className="text-sm font-medium flex-1 text-left">{quality}</span>
-                                                    {currentQuality === quality && <Check size={14} className="text-primary" aria-hidden="true" />}
+                                                    {getSpeedIcon(rate)}
+                                                    <span className="text-sm font-medium flex-1 text-left">{rate === 1 ? t('normal') : `${rate}x`}</span>
+                                                    {playbackRate === rate && <Check size={14} className="text-primary" aria-hidden="true" />}
                                                 </button>
                                             );
                                         })}
@@ -550,81 +933,39 @@ export default function VideoPlayerControls({
                                 </div>
                             )}
                         </div>
-                    )}
 
-                    {/* Velocidade */}
-                    <div className="relative" ref={speedMenuRef}>
+                        {/* Picture-in-Picture */}
+                        {onPictureInPictureToggle && pictureInPictureSupported && (
+                            <button
+                                onClick={onPictureInPictureToggle}
+                                className={cn(
+                                    'hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                                    pictureInPicture ? 'text-primary' : 'text-white'
+                                )}
+                                aria-label={pictureInPicture ? t('exitPictureInPicture') : t('pictureInPicture')}
+                                aria-pressed={pictureInPicture}
+                                title={pictureInPicture ? t('exitPictureInPicture') : t('pictureInPicture')}
+                            >
+                                <PictureInPicture2 className="w-6 h-6" aria-hidden="true" />
+                            </button>
+                        )}
+
+                        {/* Fullscreen */}
                         <button
-                            onClick={() => {
-                                closeAllMenus();
-                                setShowSpeedMenu(!showSpeedMenu);
-                            }}
-                            className={cn(
-                                'text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
-                                showSpeedMenu && 'text-red-400'
-                            )}
-                            aria-label={t('speed')}
-                            aria-haspopup="menu"
-                            title={t('speed')}
+                            onClick={onFullscreenToggle}
+                            className="text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                            aria-label={fullscreen ? t('exitFullscreen') : t('fullscreen')}
+                            title={fullscreen ? t('exitFullscreen') : t('fullscreen')}
                         >
-                            <Gauge className="w-6 h-6" aria-hidden="true" />
+                            {fullscreen ? (
+                                <Minimize className="w-6 h-6" aria-hidden="true" />
+                            ) : (
+                                <Maximize className="w-6 h-6" aria-hidden="true" />
+                            )}
                         </button>
-
-                        {/* Menu de velocidade */}
-                        {showSpeedMenu && (
-                            <div className="absolute bottom-full right-0 mb-2 rounded-2xl overflow-hidden min-w-[140px] shadow-2xl shadow-black/60 border border-white/[0.08] z-50" style={{ background: GRADIENTS.playerControls }}>
-                                <div className="py-3 px-3">
-                                    <p className="text-xs text-gray-400 uppercase tracking-wider mb-2.5 font-semibold flex items-center gap-1.5 px-1">
-                                        <Gauge className="w-3.5 h-3.5" aria-hidden="true" />
-                                        {t('speed')}
-                                    </p>
-                                    {playbackRates.map((rate) => {
-                                        const getSpeedIcon = (r: number) => {
-                                            if (r < 1) return <Turtle className="w-4 h-4" aria-hidden="true" />;
-                                            if (r === 1) return <Play className="w-4 h-4" aria-hidden="true" />;
-                                            return <Rabbit className="w-4 h-4" aria-hidden="true" />;
-                                        };
-
-                                        return (
-                                            <button
-                                                key={rate}
-                                                onClick={() => {
-                                                    onPlaybackRateChange(rate);
-                                                    setShowSpeedMenu(false);
-                                                }}
-                                                className={cn(
-                                                    'w-full px-3 py-2.5 flex items-center gap-2.5 transition-all rounded-xl mt-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
-                                                    playbackRate === rate
-                                                        ? 'text-primary bg-white/[0.06]'
-                                                        : 'text-gray-300 hover:bg-white/[0.06] hover:text-white'
-                                                )}
-                                            >
-                                                {getSpeedIcon(rate)}
-                                                <span className="text-sm font-medium flex-1 text-left">{rate === 1 ? t('normal') : `${rate}x`}</span>
-                                                {playbackRate === rate && <Check size={14} className="text-primary" aria-hidden="true" />}
-                                            </button>
-                                        );
-                                    })}
-                                </div>
-                            </div>
-                        )}
                     </div>
-
-                    {/* Fullscreen */}
-                    <button
-                        onClick={onFullscreenToggle}
-                        className="text-white hover:scale-110 transition-transform p-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
-                        aria-label={fullscreen ? t('exitFullscreen') : t('fullscreen')}
-                        title={fullscreen ? t('exitFullscreen') : t('fullscreen')}
-                    >
-                        {fullscreen ? (
-                            <Minimize className="w-6 h-6" aria-hidden="true" />
-                        ) : (
-                            <Maximize className="w-6 h-6" aria-hidden="true" />
-                        )}
-                    </button>
                 </div>
             </div>
-        </div >
+        </>
     );
 }
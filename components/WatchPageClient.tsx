@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import VideoPlayer from './VideoPlayer';
 import { Loader2 } from 'lucide-react';
 import { useTranslations } from 'next-intl';
+import { isWatchCompleted } from '@/lib/watch-progress';
 
 export interface WatchPageClientProps {
     url: string;
@@ -23,7 +24,7 @@ export default function WatchPageClient({
     mediaType,
 }: WatchPageClientProps) {
     const tc = useTranslations('common');
-    const [progressPercentage, setProgressPercentage] = useState<number>(0);
+    const [startTime, setStartTime] = useState<number>(0);
     const [loading, setLoading] = useState(true);
 
     // Buscar progresso do usuário
@@ -37,8 +38,9 @@ export default function WatchPageClient({
                         (item: any) => item.tmdbId === tmdbId && item.mediaType === mediaType
                     );
 
-                    if (history?.progress) {
-                        setProgressPercentage(history.progress);
+                    // Posição exata em segundos (registros antigos só têm a porcentagem)
+                    if (history?.positionSeconds && !isWatchCompleted(history)) {
+                        setStartTime(history.positionSeconds);
                     }
                 }
             } catch (error) {
@@ -59,14 +61,14 @@ export default function WatchPageClient({
         );
     }
 
-    // Não podemos calcular startTime aqui porque não sabemos a duração ainda
-    // O VideoPlayer vai ter que lidar com isso internamente
+    // Sem positionSeconds não dá para calcular startTime sem a duração,
+    // então o VideoPlayer estima a posição pela porcentagem internamente
     return (
         <VideoPlayer
             url={url}
             title={title}
             autoPlay={false}
-            startTime={0} // Será sobrescrito internamente quando soubermos a duração
+            startTime={startTime}
             tmdbId={tmdbId}
             mediaType={mediaType}
             className="w-full"
@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Users, Link2, Send, LogOut, X, Loader2, Crown } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { GRADIENTS } from '@/lib/theme';
+import { translateApiError } from '@/lib/i18n';
+import { WATCH_PARTY_MESSAGE_MAX_LENGTH } from '@/lib/watch-party-sync';
+import type { WatchPartyConnection } from '@/hooks/useWatchParty';
+
+export interface WatchPartyPanelProps {
+    /** Active party connection (null when not in a party) */
+    party: WatchPartyConnection | null;
+    /** Creates a room with the current user as host */
+    onStart: () => void;
+    /** Room creation in progress */
+    starting?: boolean;
+    /** Whether the player controls are visible (the closed button follows them) */
+    showControls: boolean;
+}
+
+/**
+ * Watch party button + side panel (participants, invite link and chat)
+ * Rendered inside the player container so it stays visible in fullscreen.
+ */
+export default function WatchPartyPanel({
+    party,
+    onStart,
+    starting = false,
+    showControls,
+}: WatchPartyPanelProps) {
+    const t = useTranslations('watchParty');
+    const tRoot = useTranslations();
+    const [open, setOpen] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [sending, setSending] = useState(false);
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+
+    const messageCount = party?.messages.length ?? 0;
+
+    // Rolar para a última mensagem
+    useEffect(() => {
+        if (open) messagesEndRef.current?.scrollIntoView({ block: 'end' });
+    }, [open, messageCount]);
+
+    const copyInviteLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            toast.success(t('linkCopied'));
+        } catch {
+            toast.error(t('linkCopyFailed'));
+        }
+    };
+
+    const handleSend = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = draft.trim();
+        if (!party || !text || sending) return;
+
+        setSending(true);
+        const sent = await party.sendMessage(text);
+        setSending(false);
+
+        if (sent) {
+            setDraft('');
+        } else {
+            toast.error(t('sendFailed'));
+        }
+    };
+
+    // Botão fechado: entrar/criar sala ou abrir o painel
+    if (!open) {
+        return (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    if (party) {
+                        setOpen(true);
+                    } else {
+                        onStart();
+                    }
+                }}
+                disabled={starting}
+                className={cn(
+                    'absolute top-5 right-5 z-40 flex items-center gap-2 px-4 py-2 rounded-full',
+                    'bg-black/60 hover:bg-black/80 text-white text-sm font-medium border border-white/20 backdrop-blur-sm',
+                    'transition-opacity duration-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                    showControls || party ? 'opacity-100' : 'opacity-0 pointer-events-none'
+                )}
+                aria-label={party ? t('openPanel') : t('start')}
+            >
+                {starting ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" /> : <Users className="w-4 h-4" aria-hidden="true" />}
+                {party ? t('participantCount', { count: party.participants.length }) : t('start')}
+            </button>
+        );
+    }
+
+    if (!party) return null;
+
+    return (
+        <aside
+            className="absolute top-0 right-0 bottom-0 z-50 w-full max-w-sm flex flex-col border-l border-white/[0.08] shadow-2xl shadow-black/60"
+            style={{ background: GRADIENTS.playerControls }}
+            onClick={(e) => e.stopPropagation()}
+            aria-label={t('title')}
+        >
+            {/* Cabeçalho */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-white/[0.06]">
+                <h2 className="text-white font-semibold flex items-center gap-2">
+                    <Users className="w-4 h-4" aria-hidden="true" />
+                    {t('title')}
+                </h2>
+                <button
+                    onClick={() => setOpen(false)}
+                    className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/[0.06] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                    aria-label={t('closePanel')}
+                >
+                    <X className="w-4 h-4" aria-hidden="true" />
+                </button>
+            </div>
+
+            {party.status === 'error' || party.status === 'closed' ? (
+                <div className="flex-1 flex items-center justify-center px-6 text-center">
+                    <p className="text-gray-300 text-sm">
+                        {party.status === 'closed' ? t('ended') : translateApiError(tRoot, party.error || 'api.errors.internalError')}
+                    </p>
+                </div>
+            ) : (
+                <>
+                    {/* Participantes e convite */}
+                    <div className="px-4 py-3 border-b border-white/[0.06] space-y-2">
+                        <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold">
+                            {t('participantCount', { count: party.participants.length })}
+                        </p>
+                        <ul className="flex flex-wrap gap-1.5">
+                            {party.participants.map((participant) => (
+                                <li
+                                    key={participant.userId}
+                                    className="flex items-center gap-1 px-2 py-1 rounded-full bg-white/[0.06] text-xs text-gray-200"
+                                >
+                                    {participant.isHost && <Crown className="w-3 h-3 text-yellow-400" aria-label={t('host')} />}
+                                    {participant.name || t('unknownViewer')}
+                                </li>
+                            ))}
+                        </ul>
+                        <button
+                            onClick={copyInviteLink}
+                            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl text-sm text-white bg-white/[0.06] hover:bg-white/[0.1] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                        >
+                            <Link2 className="w-4 h-4" aria-hidden="true" />
+                            {t('copyLink')}
+                        </button>
+                        {!party.isHost && (
+                            <p className="text-xs text-gray-400">{t('hostControls')}</p>
+                        )}
+                    </div>
+
+                    {/* Chat */}
+                    <div className="flex-1 overflow-y-auto px-4 py-3 space-y-2" aria-live="polite">
+                        {party.messages.length === 0 ? (
+                            <p className="text-sm text-gray-500 text-center mt-6">{t('emptyChat')}</p>
+                        ) : (
+                            party.messages.map((message) => (
+                                <div key={message.id} className="text-sm">
+                                    <span className="font-semibold text-gray-200">{message.name || t('unknownViewer')}: </span>
+                                    <span className="text-gray-300 break-words">{message.text}</span>
+                                </div>
+                            ))
+                        )}
+                        <div ref={messagesEndRef} />
+                    </div>
+
+                    <form onSubmit={handleSend} className="flex items-center gap-2 px-4 py-3 border-t border-white/[0.06]">
+                        <input
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            // Atalhos do player não devem disparar enquanto digita
+                            onKeyDown={(e) => e.stopPropagation()}
+                            maxLength={WATCH_PARTY_MESSAGE_MAX_LENGTH}
+                            placeholder={t('chatPlaceholder')}
+                            aria-label={t('chatPlaceholder')}
+                            className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-white/[0.06] text-white text-sm placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!draft.trim() || sending}
+                            className="p-2 rounded-xl text-white bg-primary hover:bg-primary-hover disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                            aria-label={t('send')}
+                        >
+                            <Send className="w-4 h-4" aria-hidden="true" />
+                        </button>
+                    </form>
+                </>
+            )}
+
+            <div className="px-4 pb-4">
+                <button
+                    onClick={() => {
+                        setOpen(false);
+                        party.leave();
+                    }}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl text-sm text-red-400 border border-red-500/30 hover:bg-red-500/10 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                >
+                    <LogOut className="w-4 h-4" aria-hidden="true" />
+                    {party.isHost ? t('end') : t('leave')}
+                </button>
+            </div>
+        </aside>
+    );
+}
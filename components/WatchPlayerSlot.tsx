@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect } from 'react';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { useMiniPlayer } from '@/components/MiniPlayerProvider';
+import type { StreamingVideoPlayerProps } from '@/components/StreamingVideoPlayer';
+
+/**
+ * Registra o título da página /watch no player global (MiniPlayerProvider)
+ *
+ * O player em si é renderizado pelo layout raiz, em tela cheia nesta página
+ * e como mini-player ao navegar para fora dela.
+ */
+export default function WatchPlayerSlot(props: Omit<StreamingVideoPlayerProps, 'partyRoomId'>) {
+    const { openPlayer } = useMiniPlayer();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const partyRoomId = searchParams.get('party');
+    const query = searchParams.toString();
+
+    // Props serializáveis vindas do Server Component: comparar por valor
+    const serializedProps = JSON.stringify(props);
+
+    useEffect(() => {
+        openPlayer({
+            ...(JSON.parse(serializedProps) as Omit<StreamingVideoPlayerProps, 'partyRoomId'>),
+            partyRoomId,
+            href: query ? `${pathname}?${query}` : pathname,
+        });
+    }, [openPlayer, serializedProps, partyRoomId, pathname, query]);
+
+    return null;
+}
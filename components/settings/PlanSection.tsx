@@ -2,17 +2,21 @@
 
 import { useState, useMemo, useEffect } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { CreditCard, Check, Clock, Loader2 } from 'lucide-react';
+import { CreditCard, Check, Clock, Loader2, AlertTriangle } from 'lucide-react';
 import { COLORS, GRADIENTS } from '@/lib/theme';
 import ConfirmDialog from '@/components/ConfirmDialog';
 import PlanCard from '@/components/PlanCard';
+import { PLAN_QUALITY_ENTITLEMENTS } from '@/lib/plan-entitlements';
 import { toast } from 'sonner';
-import { useTranslations } from 'next-intl';
+import { useTranslations, useLocale } from 'next-intl';
+import { localeToBCP47 } from '@/lib/language';
 import type { PlanData, FamilyMembershipData } from '@/app/settings/SettingsPageClient';
 
 interface PlanSectionProps {
     userPlan: PlanData | null;
     trialEndsAt: string | null;
+    pastDueUntil: string | null;
+    cancelsAt: string | null;
     familyMembership: FamilyMembershipData | null;
 }
 
@@ -25,7 +29,7 @@ const PLAN_DEFS = [
 const PLAN_FEATURE_KEYS: Record<string, string[]> = {
     plan_individual: [
         'feature_1_screen',
-        'feature_4k_quality',
+        'feature_720p_quality',
         'feature_no_ads',
         'feature_all_content',
         'feature_cancel_anytime',
@@ -33,7 +37,7 @@ const PLAN_FEATURE_KEYS: Record<string, string[]> = {
     ],
     plan_duo: [
         'feature_2_screens',
-        'feature_4k_quality',
+        'feature_1080p_quality',
         'feature_no_ads',
         'feature_all_content',
         'feature_cancel_anytime',
@@ -42,7 +46,7 @@ const PLAN_FEATURE_KEYS: Record<string, string[]> = {
     ],
     plan_familia: [
         'feature_4_screens',
-        'feature_4k_quality',
+        'feature_4k_hdr_quality',
         'feature_no_ads',
         'feature_all_content',
         'feature_cancel_anytime',
@@ -58,30 +62,39 @@ const PLAN_FEATURE_KEYS: Record<string, string[]> = {
  * Mostra o plano atual do usuário (ex: Duo, Família).
  * Se estiver em período de teste, exibe badge + dias restantes.
  * Quando o trial expira, mostra aviso para assinar.
+ * Com pagamento recusado (past_due), mostra banner até o fim da carência.
+ * Com cancelamento agendado, mostra a data de término e permite retomar.
  */
-export default function PlanSection({ userPlan, trialEndsAt, familyMembership }: PlanSectionProps) {
+export default function PlanSection({ userPlan, trialEndsAt, pastDueUntil, cancelsAt, familyMembership }: PlanSectionProps) {
     const t = useTranslations('settingsPlan');
     const tp = useTranslations('plans');
     const tc = useTranslations('common');
+    const locale = useLocale();
     const searchParams = useSearchParams();
     const isFamilyMember = !!familyMembership;
     const hasPlan = !!userPlan;
     const [changingTo, setChangingTo] = useState<string | null>(null);
     const [cancelingPlan, setCancelingPlan] = useState(false);
+    const [resumingPlan, setResumingPlan] = useState(false);
     const [showCancelDialog, setShowCancelDialog] = useState(false);
 
-    const AVAILABLE_PLANS = useMemo(() => PLAN_DEFS.map(def => ({
-        ...def,
-        name: tp(def.nameKey),
-        price: tp(def.priceKey),
-        features: [
-            tc('screens', { count: def.screens }),
-            tp('quality4kHdr'),
-            tp('noAds'),
-            tp('unlimitedDownload'),
-            tp('cancelAnytime'),
-        ],
-    })), [tp, tc]);
+    const AVAILABLE_PLANS = useMemo(() => PLAN_DEFS.map(def => {
+        const { maxQuality, hdr } = PLAN_QUALITY_ENTITLEMENTS[def.id];
+        return {
+            ...def,
+            maxQuality,
+            hdr,
+            name: tp(def.nameKey),
+            price: tp(def.priceKey),
+            features: [
+                tc('screens', { count: def.screens }),
+                tp(hdr ? 'qualityUpToHdr' : 'qualityUpTo', { quality: maxQuality }),
+                tp('noAds'),
+                tp('unlimitedDownload'),
+                tp('cancelAnytime'),
+            ],
+        };
+    }), [tp, tc]);
 
     // Detectar se veio da página de watch sem plano ativo
     useEffect(() => {
@@ -135,6 +148,14 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
 
     const isOnTrial = trialInfo?.isActive ?? false;
     const isTrialExpired = trialInfo !== null && !trialInfo.isActive;
+    const isPastDue = hasPlan && !!pastDueUntil;
+    const isCancelScheduled = hasPlan && !!cancelsAt;
+    const formatLongDate = (dateStr: string) => new Date(dateStr).toLocaleDateString(localeToBCP47(locale), {
+        day: '2-digit',
+        month: 'long',
+        year: 'numeric',
+    });
+    const pastDueDeadline = pastDueUntil ? formatLongDate(pastDueUntil) : null;
     const currentPlanName = userPlan?.name ?? null;
 
     // Mapear userPlan.id para a chave de preço no i18n
@@ -148,9 +169,12 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
 
     const handleSelectPlan = async (plan: typeof AVAILABLE_PLANS[0]) => {
         if (plan.name === currentPlanName && !isOnTrial) return;
+        await startCheckout(plan.id, plan.name);
+    };
 
+    const startCheckout = async (planId: string, planName: string) => {
         try {
-            setChangingTo(plan.name);
+            setChangingTo(planName);
 
             // Chama API de criação de checkout
             // Backend define URLs de sucesso/cancelamento (nunca do frontend)
@@ -160,7 +184,7 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({
-                    planId: plan.id,
+                    planId,
                 }),
             });
 
@@ -215,6 +239,38 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
         }
     };
 
+    const handleResumeSubscription = async () => {
+        try {
+            setResumingPlan(true);
+
+            const response = await fetch('/api/settings/subscription/resume', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+            });
+
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || tc('failedToResumeSubscription'));
+            }
+
+            toast.success(t('subscriptionResumed'), {
+                description: t('resumedDesc'),
+                duration: 4000,
+            });
+
+            setTimeout(() => window.location.reload(), 1500);
+        } catch (error) {
+            console.error(tc('errorResumingSubscription'), error);
+            toast.error(t('resumeError'), {
+                description: error instanceof Error ? error.message : t('tryAgainLater'),
+            });
+            setResumingPlan(false);
+        }
+    };
+
     return (
         <div className="space-y-6">
             {/* Plano Atual */}
@@ -271,6 +327,33 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
                     </div>
                 ) : (
                     <div className="p-5 rounded-xl border border-white/[0.06] bg-white/[0.02] space-y-5">
+                        {/* Pagamento recusado - carência */}
+                        {isPastDue && (
+                            <div
+                                role="alert"
+                                className="flex flex-col sm:flex-row sm:items-center gap-4 p-4 rounded-lg border"
+                                style={{ backgroundColor: '#ef444415', borderColor: '#ef444440' }}
+                            >
+                                <AlertTriangle className="w-5 h-5 shrink-0 text-red-500" aria-hidden="true" />
+                                <div className="flex-1">
+                                    <p className="text-sm font-semibold text-white">{t('paymentPastDue')}</p>
+                                    <p className="text-sm text-gray-300 mt-1">
+                                        {t('paymentPastDueDesc', { date: pastDueDeadline ?? '' })}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => startCheckout(userPlan.id, userPlan.name)}
+                                    disabled={changingTo !== null}
+                                    className={`w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2 text-sm font-medium text-white rounded-lg transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary ${changingTo !== null ? 'opacity-60 cursor-not-allowed' : 'hover:opacity-90'
+                                        }`}
+                                    style={{ backgroundColor: COLORS.primary }}
+                                >
+                                    {changingTo !== null && <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />}
+                                    {t('updatePayment')}
+                                </button>
+                            </div>
+                        )}
+
                         <div className="flex flex-col lg:flex-row lg:justify-between gap-5">
                             <div>
                                 <div className="flex items-center gap-3 flex-wrap">
@@ -290,7 +373,18 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
                                             {t('freeTrial')}
                                         </span>
                                     )}
-                                    {hasPlan && !isOnTrial && !isTrialExpired && (
+                                    {isPastDue && (
+                                        <span
+                                            className="px-3 py-1 text-xs font-semibold uppercase rounded-full"
+                                            style={{
+                                                backgroundColor: '#ef444420',
+                                                color: '#ef4444',
+                                            }}
+                                        >
+                                            {t('pastDue')}
+                                        </span>
+                                    )}
+                                    {hasPlan && !isOnTrial && !isTrialExpired && !isPastDue && (
                                         <span
                                             className="px-3 py-1 text-xs font-semibold uppercase rounded-full"
                                             style={{
@@ -332,6 +426,16 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
                                     </p>
                                 )}
 
+                                {/* Cancelamento agendado */}
+                                {isCancelScheduled && cancelsAt && (
+                                    <div className="flex items-center gap-2 mt-2">
+                                        <Clock className="w-4 h-4 text-amber-500" aria-hidden="true" />
+                                        <p className="text-amber-500 text-sm font-medium">
+                                            {t('endsOn', { date: formatLongDate(cancelsAt) })}
+                                        </p>
+                                    </div>
+                                )}
+
                                 {/* Trial info */}
                                 {isOnTrial && trialInfo && (
                                     <div className="flex items-center gap-2 mt-2">
@@ -361,7 +465,24 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
                             </div>
 
                             <div className="lg:self-center lg:shrink-0">
-                                {hasPlan ? (
+                                {isCancelScheduled ? (
+                                    <button
+                                        onClick={handleResumeSubscription}
+                                        disabled={resumingPlan}
+                                        className={`w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-2.5 text-sm font-medium text-white rounded-lg transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary ${resumingPlan ? 'opacity-60 cursor-not-allowed' : 'hover:opacity-90'
+                                            }`}
+                                        style={{ backgroundColor: COLORS.primary }}
+                                    >
+                                        {resumingPlan ? (
+                                            <>
+                                                <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+                                                {t('resuming')}
+                                            </>
+                                        ) : (
+                                            t('resumeSubscription')
+                                        )}
+                                    </button>
+                                ) : hasPlan ? (
                                     <button
                                         onClick={() => setShowCancelDialog(true)}
                                         disabled={cancelingPlan}
@@ -418,6 +539,8 @@ export default function PlanSection({ userPlan, trialEndsAt, familyMembership }:
                                     name={plan.name}
                                     price={plan.price}
                                     screens={plan.screens}
+                                    maxQuality={plan.maxQuality}
+                                    hdr={plan.hdr}
                                     popular={plan.popular}
                                     features={plan.features}
                                     ctaText={isCurrent ? t('currentPlan') : isSelected ? t('redirecting') : t('subscribe')}
@@ -1,19 +1,37 @@
 'use client';
 
-import { useCallback, useRef, useState, useEffect } from 'react';
-import { Play, Type, ChevronDown, Check, Search } from 'lucide-react';
+import { useCallback, useRef, useState, useEffect, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { Play, Type, ChevronDown, Check, Search, Keyboard, Gauge } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 import { COLORS, GRADIENTS } from '@/lib/theme';
 import SubtitlePreview from '@/components/settings/SubtitlePreview';
 import { toast } from 'sonner';
 import type { UserPreferencesData } from '@/app/settings/SettingsPageClient';
 import { SUPPORTED_LANGUAGES, REGIONAL_VARIANT_NAMES, getLanguageName } from '@/lib/language';
+import { STILL_WATCHING_EPISODE_OPTIONS, STILL_WATCHING_MINUTE_OPTIONS } from '@/lib/binge-guard';
+import { DATA_USAGE_MODES, type DataUsageMode } from '@/lib/data-usage';
+import {
+    assignShortcut,
+    getShortcutFromEvent,
+    resolveShortcutBindings,
+    SHORTCUT_ACTIONS,
+    type ShortcutAction,
+    type ShortcutOverrides,
+} from '@/lib/keyboard-shortcuts';
+import { useKeyboardShortcuts } from '@/components/KeyboardShortcutsProvider';
+import { ShortcutKeys } from '@/components/KeyboardShortcutsHelp';
 
 interface PreferencesSectionProps {
     preferences: UserPreferencesData;
     onUpdate: (updated: Partial<UserPreferencesData>) => void;
 }
 
+const DATA_USAGE_LABEL_KEYS: Record<DataUsageMode, 'dataUsageAuto' | 'dataUsageSaveData' | 'dataUsageMaxQuality'> = {
+    auto: 'dataUsageAuto',
+    saveData: 'dataUsageSaveData',
+    maxQuality: 'dataUsageMaxQuality',
+};
+
 /**
  * Agrupa idiomas por categoria (variantes regionais populares + todos os outros)
  */
@@ -221,6 +239,68 @@ const SUBTITLE_COLORS = [
     { value: '#00FFFF', labelKey: 'colorCyan', className: 'bg-cyan-400' },
 ];
 
+/**
+ * ShortcutsEditor - Lista de atalhos com captura da nova tecla
+ * "Alterar" entra em modo de captura: a próxima tecla vira o atalho (Esc cancela)
+ */
+function ShortcutsEditor({
+    overrides,
+    onChange,
+}: {
+    overrides: ShortcutOverrides;
+    onChange: (overrides: ShortcutOverrides) => void;
+}) {
+    const t = useTranslations('settingsPreferences');
+    const tShortcuts = useTranslations('shortcuts');
+    const [recording, setRecording] = useState<ShortcutAction | null>(null);
+    const bindings = resolveShortcutBindings(overrides);
+
+    const handleKeyDown = (action: ShortcutAction, e: ReactKeyboardEvent<HTMLButtonElement>) => {
+        if (recording !== action) return;
+
+        // Tab continua navegando (e sai da captura pelo onBlur)
+        if (e.key === 'Tab') return;
+        // Impede que o atalho capturado também dispare a ação (ver KeyboardShortcutsProvider)
+        e.preventDefault();
+
+        if (e.key === 'Escape') {
+            setRecording(null);
+            return;
+        }
+
+        const shortcut = getShortcutFromEvent(e.nativeEvent);
+        if (!shortcut) return;
+
+        onChange(assignShortcut(overrides, action, shortcut));
+        setRecording(null);
+    };
+
+    return (
+        <div className="divide-y divide-white/[0.06]">
+            {SHORTCUT_ACTIONS.map(action => (
+                <div key={action} className="flex items-center justify-between gap-4 py-3">
+                    <p className="text-white text-sm">{tShortcuts(`actions.${action}`)}</p>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                        <ShortcutKeys shortcuts={bindings[action]} />
+                        <button
+                            onClick={() => setRecording(recording === action ? null : action)}
+                            onKeyDown={(e) => handleKeyDown(action, e)}
+                            onBlur={() => setRecording(null)}
+                            aria-pressed={recording === action}
+                            className={`w-28 px-3 py-1.5 rounded-lg text-xs font-medium transition-all border focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary ${recording === action
+                                ? 'border-primary/50 bg-primary/10 text-white'
+                                : 'border-white/[0.06] bg-white/[0.02] text-gray-400 hover:bg-white/[0.04] hover:text-white'
+                                }`}
+                        >
+                            {recording === action ? t('shortcutPressKey') : t('shortcutChange')}
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
+
 const SUBTITLE_BGS = [
     { value: 'transparent', labelKey: 'bgTransparent' },
     { value: 'rgba(0,0,0,0.25)', labelKey: 'bgBlack25' },
@@ -241,6 +321,12 @@ const SUBTITLE_FONTS = [
 export default function PreferencesSection({ preferences, onUpdate }: PreferencesSectionProps) {
     const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const t = useTranslations('settingsPreferences');
+    const { setOverrides: applyShortcuts } = useKeyboardShortcuts();
+
+    // Atalhos valem na hora (e voltam junto se o salvamento falhar)
+    useEffect(() => {
+        applyShortcuts(preferences.keyboardShortcuts);
+    }, [preferences.keyboardShortcuts, applyShortcuts]);
 
     const savePreference = useCallback(async (updates: Partial<UserPreferencesData>, previousValues: Partial<UserPreferencesData>) => {
         try {
@@ -345,6 +431,91 @@ export default function PreferencesSection({ preferences, onUpdate }: Preference
                             <span className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow-md transition-transform ${preferences.autoplayTrailer ? 'translate-x-6' : 'translate-x-0'}`} />
                         </button>
                     </div>
+
+                    {/* Pular abertura automaticamente */}
+                    <div className="flex items-center justify-between py-4">
+                        <div>
+                            <p className="text-white font-medium mb-1">{t('skipIntro')}</p>
+                            <p className="text-sm text-gray-400">{t('skipIntroDesc')}</p>
+                        </div>
+                        <button
+                            onClick={() => updatePreference('autoSkipIntro', !preferences.autoSkipIntro)}
+                            role="switch"
+                            aria-checked={preferences.autoSkipIntro}
+                            className={`relative w-12 h-6 rounded-full transition-colors flex-shrink-0 ml-4 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary ${preferences.autoSkipIntro ? 'bg-primary' : 'bg-bg-muted'}`}
+                        >
+                            <span className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow-md transition-transform ${preferences.autoSkipIntro ? 'translate-x-6' : 'translate-x-0'}`} />
+                        </button>
+                    </div>
+
+                    {/* Você ainda está assistindo? */}
+                    <div className="flex items-center justify-between py-4">
+                        <div>
+                            <p className="text-white font-medium mb-1">{t('stillWatchingEpisodes')}</p>
+                            <p className="text-sm text-gray-400">{t('stillWatchingEpisodesDesc')}</p>
+                        </div>
+                        <select
+                            value={preferences.stillWatchingEpisodes}
+                            onChange={(e) => updatePreference('stillWatchingEpisodes', Number(e.target.value))}
+                            aria-label={t('stillWatchingEpisodes')}
+                            className="w-40 flex-shrink-0 ml-4 px-4 py-2.5 rounded-lg bg-white/[0.06] border border-white/[0.08] text-white text-sm focus:outline-none focus:border-primary/50 transition-colors appearance-none cursor-pointer"
+                        >
+                            {STILL_WATCHING_EPISODE_OPTIONS.map(count => (
+                                <option key={count} value={count} className="bg-[#1a1a1a]">
+                                    {count === 0 ? t('stillWatchingOff') : t('stillWatchingEpisodesOption', { count })}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="flex items-center justify-between py-4">
+                        <div>
+                            <p className="text-white font-medium mb-1">{t('stillWatchingMinutes')}</p>
+                            <p className="text-sm text-gray-400">{t('stillWatchingMinutesDesc')}</p>
+                        </div>
+                        <select
+                            value={preferences.stillWatchingMinutes}
+                            onChange={(e) => updatePreference('stillWatchingMinutes', Number(e.target.value))}
+                            aria-label={t('stillWatchingMinutes')}
+                            className="w-40 flex-shrink-0 ml-4 px-4 py-2.5 rounded-lg bg-white/[0.06] border border-white/[0.08] text-white text-sm focus:outline-none focus:border-primary/50 transition-colors appearance-none cursor-pointer"
+                        >
+                            {STILL_WATCHING_MINUTE_OPTIONS.map(minutes => (
+                                <option key={minutes} value={minutes} className="bg-[#1a1a1a]">
+                                    {minutes === 0 ? t('stillWatchingOff') : t('stillWatchingMinutesOption', { count: minutes })}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+            </div>
+
+            {/* Uso de dados */}
+            <div
+                className="rounded-xl p-6 border border-white/[0.06] shadow-lg shadow-black/20"
+                style={{ background: GRADIENTS.surface }}
+            >
+                <div className="flex items-center gap-3 mb-6">
+                    <Gauge className="w-5 h-5" style={{ color: COLORS.primary }} aria-hidden="true" />
+                    <h2 className="text-lg font-semibold text-white">{t('dataUsageTitle')}</h2>
+                </div>
+
+                <div className="flex items-center justify-between py-4">
+                    <div>
+                        <p className="text-white font-medium mb-1">{t('dataUsage')}</p>
+                        <p className="text-sm text-gray-400">{t('dataUsageDesc')}</p>
+                    </div>
+                    <select
+                        value={preferences.dataUsage}
+                        onChange={(e) => updatePreference('dataUsage', e.target.value)}
+                        aria-label={t('dataUsage')}
+                        className="w-44 flex-shrink-0 ml-4 px-4 py-2.5 rounded-lg bg-white/[0.06] border border-white/[0.08] text-white text-sm focus:outline-none focus:border-primary/50 transition-colors appearance-none cursor-pointer"
+                    >
+                        {DATA_USAGE_MODES.map(mode => (
+                            <option key={mode} value={mode} className="bg-[#1a1a1a]">
+                                {t(DATA_USAGE_LABEL_KEYS[mode])}
+                            </option>
+                        ))}
+                    </select>
                 </div>
             </div>
 
@@ -472,6 +643,30 @@ export default function PreferencesSection({ preferences, onUpdate }: Preference
                     </button>
                 </div>
             </div>
+
+            {/* Atalhos de teclado */}
+            <div
+                className="rounded-xl p-6 border border-white/[0.06] shadow-lg shadow-black/20"
+                style={{ background: GRADIENTS.surface }}
+            >
+                <div className="flex items-center gap-3 mb-2">
+                    <Keyboard className="w-5 h-5" style={{ color: COLORS.primary }} aria-hidden="true" />
+                    <h2 className="text-lg font-semibold text-white">{t('shortcutsTitle')}</h2>
+                </div>
+                <p className="text-sm text-gray-400 mb-4">{t('shortcutsDesc')}</p>
+
+                <ShortcutsEditor
+                    overrides={preferences.keyboardShortcuts}
+                    onChange={(overrides) => updatePreference('keyboardShortcuts', overrides)}
+                />
+
+                <button
+                    onClick={() => updatePreference('keyboardShortcuts', {})}
+                    className="mt-4 text-sm text-gray-400 hover:text-white transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                >
+                    {t('restoreDefault')}
+                </button>
+            </div>
         </div>
     );
 }
\ No newline at end of file
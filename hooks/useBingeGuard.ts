@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    type BingeGuardSettings,
+    loadBingeGuardState,
+    recordAutoplay,
+    recordInteraction,
+    shouldAskStillWatching,
+    startBingeGuardEpisode,
+} from '@/lib/binge-guard';
+
+/** Intervalo de verificação do limite de minutos durante a reprodução */
+const STILL_WATCHING_CHECK_INTERVAL_MS = 30_000;
+
+export interface UseBingeGuardOptions {
+    /** Episódio atual (ver getBingeGuardEpisodeKey); sem episódio o guard fica desligado */
+    episodeKey?: string;
+    /** Próximo episódio (o que o autoplay vai abrir) */
+    nextEpisodeKey?: string;
+    settings?: BingeGuardSettings;
+    playing: boolean;
+    /** Pausa o player ao perguntar */
+    onAsk: () => void;
+}
+
+/**
+ * Hook "Você ainda está assistindo?"
+ *
+ * Conta os episódios abertos pelo autoplay sem nenhuma interação e pausa o
+ * player ao atingir o limite das preferências. Com o player pausado os
+ * heartbeats param e o lease de tela expira (STREAM_LEASE_TTL_SECONDS),
+ * liberando a tela; ao continuar, o heartbeat renova o lease se houver tela livre.
+ *
+ * @example
+ * const { askingStillWatching, confirmStillWatching, recordAutoplayedEpisode } = useBingeGuard({ ... });
+ * <NextEpisodeOverlay onAutoAdvance={recordAutoplayedEpisode} ... />
+ */
+export function useBingeGuard({ episodeKey, nextEpisodeKey, settings, playing, onAsk }: UseBingeGuardOptions) {
+    const [askingStillWatching, setAskingStillWatching] = useState(false);
+    const episodesLimit = settings?.episodes ?? 0;
+    const minutesLimit = settings?.minutes ?? 0;
+    const enabled = !!episodeKey && (episodesLimit > 0 || minutesLimit > 0);
+
+    // Início do episódio: conta o autoplay (sessionStorage só existe no cliente)
+    useEffect(() => {
+        if (enabled && episodeKey) startBingeGuardEpisode(sessionStorage, episodeKey, Date.now());
+    }, [enabled, episodeKey]);
+
+    // Verifica ao começar/retomar a reprodução (o autoplay do player começa
+    // depois da montagem) e periodicamente para o limite de minutos
+    useEffect(() => {
+        if (!enabled || !playing) return;
+
+        const check = () => {
+            const state = loadBingeGuardState(sessionStorage, Date.now());
+            const ask = shouldAskStillWatching(state, { episodes: episodesLimit, minutes: minutesLimit }, Date.now());
+            setAskingStillWatching(ask);
+            if (ask) onAsk();
+        };
+
+        check();
+        const interval = setInterval(check, STILL_WATCHING_CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [enabled, playing, episodesLimit, minutesLimit, onAsk]);
+
+    // Qualquer clique, toque ou tecla conta como interação
+    useEffect(() => {
+        if (!enabled) return;
+
+        const handleInteraction = () => recordInteraction(sessionStorage, Date.now());
+        window.addEventListener('pointerdown', handleInteraction);
+        window.addEventListener('keydown', handleInteraction);
+        return () => {
+            window.removeEventListener('pointerdown', handleInteraction);
+            window.removeEventListener('keydown', handleInteraction);
+        };
+    }, [enabled]);
+
+    const confirmStillWatching = useCallback(() => {
+        recordInteraction(sessionStorage, Date.now());
+        setAskingStillWatching(false);
+    }, []);
+
+    /** Chamado pela contagem regressiva do NextEpisodeOverlay antes de navegar */
+    const recordAutoplayedEpisode = useCallback(() => {
+        if (enabled && nextEpisodeKey) recordAutoplay(sessionStorage, nextEpisodeKey, Date.now());
+    }, [enabled, nextEpisodeKey]);
+
+    return {
+        askingStillWatching,
+        confirmStillWatching,
+        recordAutoplayedEpisode,
+    };
+}
@@ -0,0 +1,43 @@
+import { useSyncExternalStore } from 'react';
+import {
+    isConstrainedConnection,
+    resolveDataUsageMode,
+    type DataUsageMode,
+    type NetworkConnectionInfo,
+} from '@/lib/data-usage';
+
+type NetworkConnection = NetworkConnectionInfo & EventTarget;
+
+function getConnection(): NetworkConnection | undefined {
+    return (navigator as Navigator & { connection?: NetworkConnection }).connection;
+}
+
+function subscribe(onChange: () => void) {
+    const connection = getConnection();
+    connection?.addEventListener('change', onChange);
+    return () => connection?.removeEventListener('change', onChange);
+}
+
+function getSnapshot() {
+    return isConstrainedConnection(getConnection());
+}
+
+// Sem Network Information API no servidor
+function getServerSnapshot() {
+    return false;
+}
+
+/**
+ * Hook do modo de uso de dados efetivo
+ *
+ * Acompanha navigator.connection (Chrome/Android): no modo automático, trocar
+ * para rede celular ou ligar a economia de dados do navegador ativa o modo
+ * economia na hora.
+ *
+ * @example
+ * const dataUsageMode = useDataUsage(preferences.dataUsage); // 'auto' | 'saveData' | 'maxQuality'
+ */
+export function useDataUsage(mode: DataUsageMode): DataUsageMode {
+    const constrained = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+    return resolveDataUsageMode(mode, constrained);
+}
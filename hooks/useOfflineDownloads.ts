@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    applyOfflineDownloadMessage,
+    deleteOfflineDownload,
+    getOfflineDownloadId,
+    hasDownloadQuota,
+    listOfflineDownloads,
+    saveOfflineDownload,
+    type OfflineDownload,
+    type OfflineDownloadContent,
+    type OfflineDownloadMessage,
+} from '@/lib/offline-downloads';
+
+function isOfflineDownloadSupported(): boolean {
+    return 'serviceWorker' in navigator && 'indexedDB' in window && 'caches' in window;
+}
+
+/**
+ * IDs que o service worker está baixando agora
+ */
+async function getActiveDownloadIds(): Promise<string[]> {
+    const registration = await navigator.serviceWorker.ready;
+    if (!registration.active) return [];
+
+    return new Promise((resolve) => {
+        const channel = new MessageChannel();
+        const timeout = setTimeout(() => resolve([]), 2000);
+        channel.port1.onmessage = (event) => {
+            clearTimeout(timeout);
+            resolve(event.data?.ids ?? []);
+        };
+        registration.active!.postMessage({ type: 'GET_ACTIVE_DOWNLOADS' }, [channel.port2]);
+    });
+}
+
+async function postToServiceWorker(message: Record<string, unknown>): Promise<void> {
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage(message);
+}
+
+/**
+ * Renova a licença de todos os downloads (plano inativo → expiram agora)
+ */
+async function renewLicenses(downloads: OfflineDownload[]): Promise<OfflineDownload[]> {
+    if (downloads.length === 0) return downloads;
+
+    const response = await fetch('/api/downloads/license');
+    let licenseExpiresAt: string;
+
+    if (response.ok) {
+        licenseExpiresAt = (await response.json()).licenseExpiresAt;
+    } else if (response.status === 403) {
+        licenseExpiresAt = new Date().toISOString();
+    } else {
+        return downloads;
+    }
+
+    const renewed = downloads.map((download) => ({ ...download, licenseExpiresAt }));
+    await Promise.all(renewed.map(saveOfflineDownload));
+    return renewed;
+}
+
+/**
+ * Hook de downloads offline
+ *
+ * Lista os downloads do dispositivo (IndexedDB), inicia novos downloads no
+ * service worker e acompanha o progresso. Ao montar e ao reconectar, renova
+ * as licenças em /api/downloads/license.
+ *
+ * @example
+ * const { downloads, startDownload } = useOfflineDownloads();
+ * const error = await startDownload({ tmdbId: 550, mediaType: 'movie', title: 'Fight Club' });
+ */
+export function useOfflineDownloads() {
+    const [downloads, setDownloads] = useState<OfflineDownload[]>([]);
+    const [loaded, setLoaded] = useState(false);
+    const [supported, setSupported] = useState(true);
+
+    // Carregar a lista e reconciliar downloads interrompidos (aba/SW fechados no meio)
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            if (!isOfflineDownloadSupported()) {
+                if (!cancelled) {
+                    setSupported(false);
+                    setLoaded(true);
+                }
+                return;
+            }
+
+            let list = await listOfflineDownloads();
+            const activeIds = list.some((download) => download.status === 'downloading')
+                ? await getActiveDownloadIds()
+                : [];
+
+            list = await Promise.all(list.map(async (download) => {
+                if (download.status !== 'downloading' || activeIds.includes(download.id)) return download;
+                const interrupted = applyOfflineDownloadMessage(download, { type: 'DOWNLOAD_ERROR', id: download.id, error: 'network' });
+                await saveOfflineDownload(interrupted);
+                return interrupted;
+            }));
+
+            if (navigator.onLine) {
+                list = await renewLicenses(list).catch(() => list);
+            }
+
+            if (!cancelled) {
+                setDownloads(list);
+                setLoaded(true);
+            }
+        };
+
+        load().catch((error) => {
+            console.error('❌ [Downloads] Falha ao carregar downloads:', error);
+            if (!cancelled) setLoaded(true);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    // Progresso enviado pelo service worker
+    useEffect(() => {
+        if (!supported || !('serviceWorker' in navigator)) return;
+
+        const handleMessage = (event: MessageEvent<OfflineDownloadMessage>) => {
+            const message = event.data;
+            if (!message?.type?.startsWith('DOWNLOAD_')) return;
+
+            setDownloads((prev) => prev.map((download) => {
+                if (download.id !== message.id) return download;
+                const updated = applyOfflineDownloadMessage(download, message);
+                // Progresso intermediário não precisa ir para o IndexedDB
+                if (message.type !== 'DOWNLOAD_PROGRESS') saveOfflineDownload(updated).catch(() => { });
+                return updated;
+            }));
+        };
+
+        navigator.serviceWorker.addEventListener('message', handleMessage);
+        return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+    }, [supported]);
+
+    // Renovar licenças ao reconectar
+    useEffect(() => {
+        const handleOnline = () => {
+            listOfflineDownloads()
+                .then(renewLicenses)
+                .then(setDownloads)
+                .catch(() => { });
+        };
+
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, []);
+
+    /**
+     * Inicia o download de um filme ou episódio.
+     *
+     * @returns Chave i18n do erro ou null se o download começou
+     */
+    const startDownload = useCallback(async (content: OfflineDownloadContent): Promise<string | null> => {
+        if (!isOfflineDownloadSupported()) return 'downloads.errors.unsupported';
+        if (!navigator.onLine) return 'downloads.errors.offline';
+
+        if (navigator.storage?.estimate) {
+            const estimate = await navigator.storage.estimate();
+            if (!hasDownloadQuota(estimate)) return 'downloads.errors.quota';
+            // Evita que o navegador apague os downloads sob pressão de espaço
+            await navigator.storage.persist?.().catch(() => false);
+        }
+
+        try {
+            const response = await fetch('/api/downloads/license', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    tmdbId: content.tmdbId,
+                    mediaType: content.mediaType,
+                    ...(content.mediaType === 'tv' && { season: content.season, episode: content.episode }),
+                }),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok || !data.url) {
+                return data.error || 'api.errors.internalError';
+            }
+
+            const download: OfflineDownload = {
+                ...content,
+                id: getOfflineDownloadId(content),
+                format: data.format === 'hls' ? 'hls' : 'mp4',
+                status: 'downloading',
+                receivedBytes: 0,
+                totalBytes: null,
+                progress: 0,
+                licenseExpiresAt: data.licenseExpiresAt,
+                createdAt: new Date().toISOString(),
+            };
+
+            await saveOfflineDownload(download);
+            setDownloads((prev) => [download, ...prev.filter((item) => item.id !== download.id)]);
+            await postToServiceWorker({
+                type: 'DOWNLOAD_MEDIA',
+                id: download.id,
+                url: data.url,
+                format: download.format,
+                quality: data.quality,
+            });
+
+            return null;
+        } catch (error) {
+            console.error('❌ [Downloads] Falha ao iniciar download:', error);
+            return 'downloads.errors.network';
+        }
+    }, []);
+
+    /**
+     * Baixa vários episódios (ex: temporada inteira), ignorando os já baixados.
+     *
+     * @returns Chave i18n do primeiro erro ou null
+     */
+    const startDownloads = useCallback(async (contents: OfflineDownloadContent[]): Promise<string | null> => {
+        const existing = new Set(
+            downloads.filter((download) => download.status !== 'failed').map((download) => download.id)
+        );
+
+        for (const content of contents) {
+            if (existing.has(getOfflineDownloadId(content))) continue;
+            const error = await startDownload(content);
+            if (error) return error;
+        }
+        return null;
+    }, [downloads, startDownload]);
+
+    const removeDownload = useCallback(async (id: string) => {
+        await postToServiceWorker({ type: 'DELETE_DOWNLOAD', id }).catch(() => { });
+        await deleteOfflineDownload(id);
+        setDownloads((prev) => prev.filter((download) => download.id !== id));
+    }, []);
+
+    return {
+        downloads,
+        loaded,
+        supported,
+        startDownload,
+        startDownloads,
+        removeDownload,
+    };
+}
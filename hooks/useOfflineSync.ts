@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { flushOfflineProgress } from '@/lib/offline-progress';
+
+/**
+ * Reenvia o progresso salvo offline para /api/watch-history
+ *
+ * Roda ao abrir o app e sempre que a conexão volta (`isOnline` de useServiceWorker).
+ */
+export function useOfflineSync(isOnline: boolean) {
+    useEffect(() => {
+        if (!isOnline) return;
+
+        flushOfflineProgress(window.localStorage, async (entry) => {
+            const response = await fetch('/api/watch-history', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(entry),
+            });
+            // 4xx não melhora com nova tentativa (ex: sessão expirada) — descartar
+            return response.ok || (response.status >= 400 && response.status < 500 && response.status !== 429);
+        }).catch((error) => {
+            console.warn('⚠️  [Offline] Falha ao sincronizar progresso:', error);
+        });
+    }, [isOnline]);
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef, RefObject } from 'react';
+import type { FatalErrorType, PlaybackTelemetryReport } from '@/lib/playback-telemetry';
+
+/** Intervalo entre beacons durante a reprodução */
+const TELEMETRY_FLUSH_INTERVAL_MS = 60_000;
+
+const TELEMETRY_ENDPOINT = '/api/playback/telemetry';
+
+export interface UsePlaybackTelemetryOptions {
+    playerRef: RefObject<HTMLVideoElement | null>;
+    tmdbId?: number;
+    mediaType?: 'movie' | 'tv';
+    season?: number;
+    episode?: number;
+    /** Nome do backend de streaming que entregou a URL */
+    backend?: string;
+}
+
+interface PendingCounters {
+    startupMs?: number;
+    rebufferCount: number;
+    rebufferMs: number;
+    qualitySwitches: number;
+    fatalErrors: FatalErrorType[];
+}
+
+const emptyCounters = (): PendingCounters => ({
+    rebufferCount: 0,
+    rebufferMs: 0,
+    qualitySwitches: 0,
+    fatalErrors: [],
+});
+
+function sendReport(report: PlaybackTelemetryReport): void {
+    const body = JSON.stringify(report);
+
+    // sendBeacon sobrevive ao fechamento da aba; fetch keepalive é o fallback
+    if (typeof navigator !== 'undefined' && navigator.sendBeacon?.(TELEMETRY_ENDPOINT, new Blob([body], { type: 'application/json' }))) {
+        return;
+    }
+
+    fetch(TELEMETRY_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+    }).catch(() => { });
+}
+
+/**
+ * Hook de telemetria de reprodução (Quality of Experience)
+ *
+ * Mede por sessão de reprodução: tempo até o primeiro frame, rebuffers
+ * (quantidade e duração, ignorando seeks), trocas de qualidade, frames
+ * perdidos e erros fatais. Envia deltas a cada minuto e ao sair da página.
+ *
+ * @example
+ * const telemetry = usePlaybackTelemetry({ playerRef, tmdbId, mediaType, backend });
+ * <video onPlaying={telemetry.recordPlaying} onWaiting={telemetry.recordWaiting} />
+ */
+export function usePlaybackTelemetry({
+    playerRef,
+    tmdbId,
+    mediaType,
+    season,
+    episode,
+    backend,
+}: UsePlaybackTelemetryOptions) {
+    const sessionRef = useRef<{ id: string; sequence: number; startedAt: number; firstFrame: boolean } | null>(null);
+    const pendingRef = useRef<PendingCounters>(emptyCounters());
+    const rebufferStartRef = useRef<number | null>(null);
+    const droppedFramesRef = useRef(0);
+    const contextRef = useRef({ tmdbId, mediaType, backend });
+
+    useEffect(() => {
+        contextRef.current = { tmdbId, mediaType, backend };
+    }, [tmdbId, mediaType, backend]);
+
+    const readDroppedFrames = useCallback((): number => {
+        const quality = playerRef.current?.getVideoPlaybackQuality?.();
+        if (!quality) return 0;
+
+        // O contador zera quando a fonte é trocada (renovação de URL)
+        if (quality.droppedVideoFrames < droppedFramesRef.current) {
+            droppedFramesRef.current = 0;
+        }
+        const delta = quality.droppedVideoFrames - droppedFramesRef.current;
+        droppedFramesRef.current = quality.droppedVideoFrames;
+        return delta;
+    }, [playerRef]);
+
+    const flush = useCallback(() => {
+        const session = sessionRef.current;
+        const { tmdbId: id, mediaType: type, backend: backendName } = contextRef.current;
+        if (!session || !id || !type) return;
+
+        const pending = pendingRef.current;
+
+        // Rebuffer em andamento: contabiliza até agora e continua contando
+        if (rebufferStartRef.current !== null) {
+            const now = performance.now();
+            pending.rebufferMs += now - rebufferStartRef.current;
+            rebufferStartRef.current = now;
+        }
+
+        const droppedFrames = readDroppedFrames();
+        const hasData = pending.startupMs !== undefined || pending.rebufferCount > 0 || pending.rebufferMs > 0 ||
+            pending.qualitySwitches > 0 || pending.fatalErrors.length > 0 || droppedFrames > 0;
+
+        // O primeiro beacon sempre vai (abre a sessão, mesmo sem dados)
+        if (!hasData && session.sequence > 0) return;
+
+        sendReport({
+            sessionId: session.id,
+            sequence: session.sequence,
+            tmdbId: id,
+            mediaType: type,
+            ...(backendName && { backend: backendName }),
+            ...(pending.startupMs !== undefined && { startupMs: Math.round(pending.startupMs) }),
+            rebufferCount: pending.rebufferCount,
+            rebufferMs: Math.round(pending.rebufferMs),
+            qualitySwitches: pending.qualitySwitches,
+            droppedFrames,
+            fatalErrors: pending.fatalErrors,
+        });
+
+        session.sequence++;
+        pendingRef.current = emptyCounters();
+    }, [readDroppedFrames]);
+
+    // Nova sessão a cada conteúdo; a anterior é enviada antes
+    useEffect(() => {
+        if (!tmdbId || !mediaType) return;
+
+        sessionRef.current = {
+            id: crypto.randomUUID(),
+            sequence: 0,
+            startedAt: performance.now(),
+            firstFrame: false,
+        };
+        pendingRef.current = emptyCounters();
+        rebufferStartRef.current = null;
+        droppedFramesRef.current = 0;
+
+        const interval = setInterval(flush, TELEMETRY_FLUSH_INTERVAL_MS);
+        const handlePageHide = () => flush();
+        window.addEventListener('pagehide', handlePageHide);
+
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('pagehide', handlePageHide);
+            flush();
+            sessionRef.current = null;
+        };
+    }, [tmdbId, mediaType, season, episode, flush]);
+
+    /** Evento `playing` do <video>: primeiro frame ou fim de um rebuffer */
+    const recordPlaying = useCallback(() => {
+        const session = sessionRef.current;
+        if (!session) return;
+
+        const now = performance.now();
+        if (!session.firstFrame) {
+            session.firstFrame = true;
+            pendingRef.current.startupMs = now - session.startedAt;
+        }
+
+        if (rebufferStartRef.current !== null) {
+            pendingRef.current.rebufferMs += now - rebufferStartRef.current;
+            rebufferStartRef.current = null;
+        }
+    }, []);
+
+    /** Evento `waiting` do <video>: conta como rebuffer se não for seek nem o início */
+    const recordWaiting = useCallback(() => {
+        const session = sessionRef.current;
+        if (!session?.firstFrame || rebufferStartRef.current !== null) return;
+        if (playerRef.current?.seeking) return;
+
+        pendingRef.current.rebufferCount++;
+        rebufferStartRef.current = performance.now();
+    }, [playerRef]);
+
+    const recordQualitySwitch = useCallback(() => {
+        pendingRef.current.qualitySwitches++;
+    }, []);
+
+    const recordFatalError = useCallback((type: FatalErrorType) => {
+        pendingRef.current.fatalErrors.push(type);
+        // Erros fatais vão na hora (a página pode ser recarregada em seguida)
+        flush();
+    }, [flush]);
+
+    return {
+        recordPlaying,
+        recordWaiting,
+        recordQualitySwitch,
+        recordFatalError,
+    };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    isLocalSubtitleLanguage,
+    type SeriesTrackPreference,
+    type TrackSelection,
+} from '@/lib/track-preferences';
+
+const TRACK_PREFERENCES_ENDPOINT = '/api/settings/track-preferences';
+
+/**
+ * Hook que busca e salva as faixas de áudio/legenda escolhidas em uma série
+ *
+ * Filmes não usam (retorna sempre null e não salva).
+ *
+ * @example
+ * const { savedTracks, saveTrackSelection } = useSeriesTrackPreference(tmdbId, mediaType);
+ * saveTrackSelection({ subtitleLang: 'en' });
+ */
+export function useSeriesTrackPreference(tmdbId?: number, mediaType?: 'movie' | 'tv') {
+    const [savedTracks, setSavedTracks] = useState<SeriesTrackPreference | null>(null);
+    const isSeries = !!tmdbId && mediaType === 'tv';
+
+    useEffect(() => {
+        if (!isSeries) return;
+
+        let cancelled = false;
+
+        async function fetchTracks() {
+            try {
+                const res = await fetch(`${TRACK_PREFERENCES_ENDPOINT}?tmdbId=${tmdbId}`);
+                if (!res.ok) return;
+                const data = await res.json();
+                if (!cancelled) setSavedTracks(data.trackPreference ?? null);
+            } catch {
+                // Sem escolha salva: vale a preferência global
+            }
+        }
+
+        fetchTracks();
+        return () => { cancelled = true; };
+    }, [isSeries, tmdbId]);
+
+    const saveTrackSelection = useCallback((selection: TrackSelection) => {
+        if (!isSeries) return;
+        // Legendas de arquivos locais só existem nesta sessão
+        if (selection.subtitleLang && isLocalSubtitleLanguage(selection.subtitleLang)) return;
+
+        fetch(TRACK_PREFERENCES_ENDPOINT, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ tmdbId, ...selection }),
+        }).catch(() => { });
+    }, [isSeries, tmdbId]);
+
+    return { savedTracks, saveTrackSelection };
+}
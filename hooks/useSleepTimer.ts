@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createSleepTimer, loadSleepTimer, type SleepTimer, type SleepTimerOption } from '@/lib/binge-guard';
+
+/**
+ * Hook do timer de desligamento do player
+ *
+ * Timers de minutos ficam no sessionStorage (continuam no próximo episódio
+ * aberto pelo autoplay) e chamam onExpire no horário marcado. "Fim do
+ * episódio" não tem horário: o player só desliga o autoplay enquanto ele
+ * estiver ativo.
+ *
+ * @example
+ * const { sleepTimer, setSleepTimer } = useSleepTimer({ onExpire: () => setPlaying(false) });
+ * setSleepTimer(30); // pausa em 30 minutos
+ */
+export function useSleepTimer({ onExpire }: { onExpire: () => void }) {
+    const [sleepTimer, setSleepTimerState] = useState<SleepTimer | null>(null);
+
+    // Timer iniciado no episódio anterior (sessionStorage só existe no cliente)
+    /* eslint-disable react-hooks/set-state-in-effect */
+    useEffect(() => {
+        setSleepTimerState(loadSleepTimer(sessionStorage, Date.now()));
+    }, []);
+    /* eslint-enable react-hooks/set-state-in-effect */
+
+    useEffect(() => {
+        if (!sleepTimer?.endsAt) return;
+
+        const timeout = setTimeout(() => {
+            setSleepTimerState(createSleepTimer(sessionStorage, null, Date.now()));
+            onExpire();
+        }, Math.max(0, sleepTimer.endsAt - Date.now()));
+        return () => clearTimeout(timeout);
+    }, [sleepTimer, onExpire]);
+
+    /** null desliga o timer */
+    const setSleepTimer = useCallback((option: SleepTimerOption | null) => {
+        setSleepTimerState(createSleepTimer(sessionStorage, option, Date.now()));
+    }, []);
+
+    return {
+        sleepTimer,
+        setSleepTimer,
+    };
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState, RefObject } from 'react';
+import {
+    clampSubtitleDelay,
+    loadSubtitleDelay,
+    type OriginalCueTimes,
+    saveSubtitleDelay,
+    shiftTextTrackCues,
+    SUBTITLE_DELAY_STEP_SECONDS,
+} from '@/lib/subtitle-delay';
+
+export interface UseSubtitleDelayOptions {
+    playerRef: RefObject<HTMLVideoElement | null>;
+    tmdbId?: number;
+    mediaType?: 'movie' | 'tv';
+    /** Mídia carregada (o <video> do ReactPlayer só existe depois do import dinâmico) */
+    mediaLoaded: boolean;
+}
+
+/**
+ * Hook de atraso de legenda
+ *
+ * Desloca os tempos de todas as cues das text tracks do <video> (backend e
+ * arquivos locais) e salva o atraso por título no localStorage.
+ *
+ * Os tempos originais de cada cue ficam guardados, então trocar o atraso
+ * nunca acumula deslocamentos.
+ *
+ * @example
+ * const { subtitleDelay, adjustSubtitleDelay } = useSubtitleDelay({ playerRef, tmdbId, mediaType, mediaLoaded: duration > 0 });
+ * adjustSubtitleDelay(1); // +0.1s
+ */
+export function useSubtitleDelay({ playerRef, tmdbId, mediaType, mediaLoaded }: UseSubtitleDelayOptions) {
+    const [subtitleDelay, setSubtitleDelayState] = useState(0);
+    const originalTimesRef = useRef<OriginalCueTimes>(new WeakMap());
+    const delayRef = useRef(0);
+
+    // Atraso salvo do título (localStorage só existe no cliente, por isso no effect)
+    /* eslint-disable react-hooks/set-state-in-effect */
+    useEffect(() => {
+        const delay = tmdbId && mediaType ? loadSubtitleDelay(localStorage, tmdbId, mediaType) : 0;
+        delayRef.current = delay;
+        setSubtitleDelayState(delay);
+    }, [tmdbId, mediaType]);
+    /* eslint-enable react-hooks/set-state-in-effect */
+
+    const applyDelay = useCallback(() => {
+        const tracks = playerRef.current?.textTracks;
+        if (tracks) shiftTextTrackCues(tracks, delayRef.current, originalTimesRef.current);
+    }, [playerRef]);
+
+    useEffect(() => {
+        applyDelay();
+    }, [subtitleDelay, applyDelay]);
+
+    // Cues carregam depois do <track> (e de legendas locais adicionadas depois)
+    useEffect(() => {
+        const video = playerRef.current;
+        const tracks = video?.textTracks;
+        if (!mediaLoaded || !video || !tracks) return;
+
+        const handleCueChange = () => applyDelay();
+        const watched = new Set<TextTrack>();
+        const watchTracks = () => {
+            for (let i = 0; i < tracks.length; i++) {
+                if (watched.has(tracks[i])) continue;
+                watched.add(tracks[i]);
+                tracks[i].addEventListener('cuechange', handleCueChange);
+            }
+            applyDelay();
+        };
+
+        watchTracks();
+        tracks.addEventListener('addtrack', watchTracks);
+        // 'load' do <track> não propaga, mas passa pela fase de captura
+        video.addEventListener('load', handleCueChange, true);
+
+        return () => {
+            tracks.removeEventListener('addtrack', watchTracks);
+            video.removeEventListener('load', handleCueChange, true);
+            watched.forEach((track) => track.removeEventListener('cuechange', handleCueChange));
+        };
+    }, [playerRef, mediaLoaded, applyDelay]);
+
+    const setSubtitleDelay = useCallback((seconds: number) => {
+        const delay = clampSubtitleDelay(seconds);
+        delayRef.current = delay;
+        setSubtitleDelayState(delay);
+
+        if (tmdbId && mediaType) {
+            saveSubtitleDelay(localStorage, tmdbId, mediaType, delay);
+        }
+    }, [tmdbId, mediaType]);
+
+    /** Ajusta o atraso em passos de 0.1s (positivo = legenda mais tarde) */
+    const adjustSubtitleDelay = useCallback((steps: number) => {
+        setSubtitleDelay(delayRef.current + steps * SUBTITLE_DELAY_STEP_SECONDS);
+    }, [setSubtitleDelay]);
+
+    return {
+        subtitleDelay,
+        setSubtitleDelay,
+        adjustSubtitleDelay,
+    };
+}
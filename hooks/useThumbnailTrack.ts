@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { MAX_THUMBNAIL_TRACK_BYTES, parseThumbnailTrack, type ThumbnailCue } from '@/lib/trickplay';
+
+const NO_CUES: ThumbnailCue[] = [];
+
+/**
+ * Hook que baixa e lê a trilha WebVTT de miniaturas (trickplay)
+ *
+ * Sem URL, ou se a trilha falhar, retorna lista vazia (a barra mostra só o tempo).
+ *
+ * @example
+ * const thumbnailCues = useThumbnailTrack(thumbnails);
+ * const cue = findThumbnail(thumbnailCues, hoverSeconds);
+ */
+export function useThumbnailTrack(url?: string): ThumbnailCue[] {
+    const [track, setTrack] = useState<{ url: string; cues: ThumbnailCue[] } | null>(null);
+
+    useEffect(() => {
+        if (!url) return;
+
+        let cancelled = false;
+
+        async function fetchTrack(trackUrl: string) {
+            try {
+                const res = await fetch(trackUrl);
+                if (!res.ok) return;
+                const text = await res.text();
+                if (text.length > MAX_THUMBNAIL_TRACK_BYTES) return;
+                // A trilha chega tokenizada (/api/streaming/play/...): as imagens
+                // são relativas à URL real, para onde o token redireciona
+                if (!cancelled) setTrack({ url: trackUrl, cues: parseThumbnailTrack(text, res.url || trackUrl) });
+            } catch {
+                // Trickplay é opcional
+            }
+        }
+
+        fetchTrack(url);
+        return () => { cancelled = true; };
+    }, [url]);
+
+    // Trilha de outro conteúdo (troca de episódio) não vale para o atual
+    return track && track.url === url ? track.cues : NO_CUES;
+}
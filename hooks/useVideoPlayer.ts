@@ -1,5 +1,6 @@
 import { useState, useRef, useCallback, useEffect, RefObject } from 'react';
 import { SITE_LANGUAGE } from '@/lib/config';
+import type { TrackSelection } from '@/lib/track-preferences';
 
 export interface VideoQuality {
     label: string;
@@ -31,6 +32,10 @@ export interface UseVideoPlayerOptions {
     defaultSubtitlesEnabled?: boolean;
     /** Idioma preferido para legendas (da preferência do usuário) */
     preferredSubtitleLang?: string;
+    /** Idioma de áudio preferido (última escolha na série) */
+    preferredAudioLang?: string;
+    /** Chamado quando o usuário escolhe uma faixa manualmente */
+    onTrackSelect?: (selection: TrackSelection) => void;
 }
 
 export interface UseVideoPlayerReturn {
@@ -53,6 +58,8 @@ export interface UseVideoPlayerReturn {
     availableAudioTracks: AudioTrack[];
     showControls: boolean;
     fullscreen: boolean;
+    /** Vídeo em Picture-in-Picture nativo */
+    pictureInPicture: boolean;
     buffering: boolean;
     ended: boolean;
     subtitlesEnabled: boolean;
@@ -68,8 +75,11 @@ export interface UseVideoPlayerReturn {
     setPlaybackRate: (rate: number) => void;
     setQuality: (quality: string) => void;
     toggleFullscreen: () => void;
+    togglePictureInPicture: () => void;
     toggleSubtitles: () => void;
     setSubtitle: (language: string | null) => void;
+    /** Adiciona uma legenda (ex: arquivo local) e a seleciona */
+    addSubtitle: (subtitle: VideoSubtitle) => void;
     setAudioTrack: (language: string) => void;
     handleProgress: (state: { played: number; playedSeconds: number; loadedSeconds: number }) => void;
     handleDurationChange: (duration: number) => void;
@@ -96,6 +106,8 @@ export function useVideoPlayer({
     onQualityChange,
     defaultSubtitlesEnabled = false,
     preferredSubtitleLang = SITE_LANGUAGE,
+    preferredAudioLang,
+    onTrackSelect,
 }: UseVideoPlayerOptions = {}): UseVideoPlayerReturn {
     const playerRef = useRef<HTMLVideoElement | null>(null);
 
@@ -112,13 +124,14 @@ export function useVideoPlayer({
         qualities.map(q => q.label)
     );
     const [currentSubtitle, setCurrentSubtitle] = useState<string | null>(null);
-    const [availableSubtitles] = useState<VideoSubtitle[]>(subtitles);
+    const [availableSubtitles, setAvailableSubtitles] = useState<VideoSubtitle[]>(subtitles);
     const [currentAudioTrack, setCurrentAudioTrack] = useState<string>(
         audioTracks.length > 0 ? audioTracks[0].language : ''
     );
     const [availableAudioTracks] = useState<AudioTrack[]>(audioTracks);
     const [showControls, setShowControls] = useState(true);
     const [fullscreen, setFullscreen] = useState(false);
+    const [pictureInPicture, setPictureInPicture] = useState(false);
     const [buffering, setBuffering] = useState(false);
     const [ended, setEnded] = useState(false);
     const [subtitlesEnabled, setSubtitlesEnabled] = useState(defaultSubtitlesEnabled);
@@ -126,6 +139,9 @@ export function useVideoPlayer({
     // Controle de timeout para ocultar controles
     const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const seekingRef = useRef(false);
+    // Depois de uma escolha manual, as preferências não sobrescrevem mais as faixas
+    const subtitleChosenRef = useRef(false);
+    const audioChosenRef = useRef(false);
 
     // Auto-hide controls after 4 seconds of inactivity (increased for better UX)
     const resetControlsTimeout = useCallback(() => {
@@ -152,17 +168,28 @@ export function useVideoPlayer({
         }
     }, [playing]);
 
-    // Auto-selecionar legenda quando preferência do usuário ativa legendas por padrão
+    // Auto-selecionar legenda conforme as preferências (reavaliado quando elas chegam, até uma escolha manual)
     useEffect(() => {
-        if (defaultSubtitlesEnabled && availableSubtitles.length > 0) {
+        if (subtitleChosenRef.current || availableSubtitles.length === 0) return;
+
+        if (defaultSubtitlesEnabled) {
             setSubtitlesEnabled(true);
-            if (!currentSubtitle) {
-                // Usar idioma preferido do usuário, fallback para primeira disponível
-                const preferred = availableSubtitles.find(s => s.language === preferredSubtitleLang);
-                setCurrentSubtitle(preferred ? preferred.language : availableSubtitles[0].language);
-            }
+            // Usar idioma preferido do usuário, fallback para primeira disponível
+            const preferred = availableSubtitles.find(s => s.language === preferredSubtitleLang);
+            setCurrentSubtitle(preferred ? preferred.language : availableSubtitles[0].language);
+        } else {
+            setSubtitlesEnabled(false);
+            setCurrentSubtitle(null);
+        }
+    }, [defaultSubtitlesEnabled, preferredSubtitleLang, availableSubtitles]);
+
+    // Auto-selecionar faixa de áudio preferida (se existir no stream)
+    useEffect(() => {
+        if (audioChosenRef.current || !preferredAudioLang) return;
+        if (availableAudioTracks.some(track => track.language === preferredAudioLang)) {
+            setCurrentAudioTrack(preferredAudioLang);
         }
-    }, [defaultSubtitlesEnabled, preferredSubtitleLang, availableSubtitles, currentSubtitle]);
+    }, [preferredAudioLang, availableAudioTracks]);
 
     useEffect(() => {
         return () => {
@@ -315,33 +342,66 @@ export function useVideoPlayer({
         resetControlsTimeout();
     }, [fullscreen, resetControlsTimeout]);
 
+    const togglePictureInPicture = useCallback(() => {
+        const video = playerRef.current;
+        if (!video || !document.pictureInPictureEnabled) return;
+
+        const request = document.pictureInPictureElement
+            ? document.exitPictureInPicture()
+            : video.requestPictureInPicture();
+
+        request.catch((error) => {
+            console.warn('⚠️  Picture-in-Picture indisponível:', error);
+        });
+        resetControlsTimeout();
+    }, [resetControlsTimeout]);
+
     const toggleSubtitles = useCallback(() => {
+        subtitleChosenRef.current = true;
         setSubtitlesEnabled((prev) => !prev);
 
         // Se estiver desabilitando, remove legenda ativa
         if (subtitlesEnabled) {
             setCurrentSubtitle(null);
-        } else if (availableSubtitles.length > 0 && !currentSubtitle) {
+            onTrackSelect?.({ subtitleLang: null });
+        } else if (availableSubtitles.length > 0) {
             // Se estiver habilitando e não tiver legenda selecionada, usa idioma preferido
             const preferredSubtitle = availableSubtitles.find(s => s.language === preferredSubtitleLang);
-            setCurrentSubtitle(preferredSubtitle ? preferredSubtitle.language : availableSubtitles[0].language);
+            const language = currentSubtitle ?? (preferredSubtitle ? preferredSubtitle.language : availableSubtitles[0].language);
+            setCurrentSubtitle(language);
+            onTrackSelect?.({ subtitleLang: language });
         }
 
         resetControlsTimeout();
-    }, [subtitlesEnabled, availableSubtitles, currentSubtitle, preferredSubtitleLang, resetControlsTimeout]);
+    }, [subtitlesEnabled, availableSubtitles, currentSubtitle, preferredSubtitleLang, onTrackSelect, resetControlsTimeout]);
 
     const setSubtitle = useCallback((language: string | null) => {
+        subtitleChosenRef.current = true;
         setCurrentSubtitle(language);
         setSubtitlesEnabled(language !== null);
+        onTrackSelect?.({ subtitleLang: language });
+        resetControlsTimeout();
+    }, [onTrackSelect, resetControlsTimeout]);
+
+    const addSubtitle = useCallback((subtitle: VideoSubtitle) => {
+        // Mesmo idioma substitui a entrada anterior (key das <track>)
+        setAvailableSubtitles((prev) => [
+            ...prev.filter((s) => s.language !== subtitle.language),
+            subtitle,
+        ]);
+        subtitleChosenRef.current = true;
+        setCurrentSubtitle(subtitle.language);
+        setSubtitlesEnabled(true);
         resetControlsTimeout();
     }, [resetControlsTimeout]);
 
     const setAudioTrack = useCallback((language: string) => {
+        audioChosenRef.current = true;
         setCurrentAudioTrack(language);
-        // Nota: A troca de áudio em HTML5 video requer múltiplas tags <source> ou HLS manifest
-        // Por enquanto, apenas atualizamos o estado (implementação completa requer HLS.js)
+        onTrackSelect?.({ audioLang: language });
+        // A troca efetiva da faixa é feita pelo VideoPlayer (hls.audioTrack)
         resetControlsTimeout();
-    }, [resetControlsTimeout]);
+    }, [onTrackSelect, resetControlsTimeout]);
 
     const handleProgress = useCallback((state: { played: number; playedSeconds: number; loadedSeconds?: number }) => {
         // Sempre atualiza o progresso (o ReactPlayer já gerencia isso corretamente)
@@ -392,6 +452,19 @@ export function useVideoPlayer({
         };
     }, []);
 
+    // Listener para Picture-in-Picture (eventos borbulham do <video>; também sai pelo botão nativo)
+    useEffect(() => {
+        const handleEnter = () => setPictureInPicture(true);
+        const handleLeave = () => setPictureInPicture(false);
+
+        document.addEventListener('enterpictureinpicture', handleEnter, true);
+        document.addEventListener('leavepictureinpicture', handleLeave, true);
+        return () => {
+            document.removeEventListener('enterpictureinpicture', handleEnter, true);
+            document.removeEventListener('leavepictureinpicture', handleLeave, true);
+        };
+    }, []);
+
     // Log temporário para debug
     useEffect(() => {
         // Duration state updated
@@ -414,6 +487,7 @@ export function useVideoPlayer({
         availableAudioTracks,
         showControls,
         fullscreen,
+        pictureInPicture,
         buffering,
         ended,
         subtitlesEnabled,
@@ -426,8 +500,10 @@ export function useVideoPlayer({
         setPlaybackRate,
         setQuality,
         toggleFullscreen,
+        togglePictureInPicture,
         toggleSubtitles,
         setSubtitle,
+        addSubtitle,
         setAudioTrack,
         handleProgress,
         handleDurationChange,
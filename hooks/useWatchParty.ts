@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type {
+    WatchPartyChatMessage,
+    WatchPartyContent,
+    WatchPartyEvent,
+    WatchPartyParticipant,
+    WatchPartyPlayback,
+} from '@/lib/watch-party';
+
+export type WatchPartyStatus = 'connecting' | 'connected' | 'closed' | 'error';
+
+export interface WatchPartyConnection {
+    roomId: string;
+    status: WatchPartyStatus;
+    /** Chave i18n do erro (sala inexistente, cheia, sem acesso) */
+    error: string | null;
+    isHost: boolean;
+    content: WatchPartyContent | null;
+    participants: WatchPartyParticipant[];
+    messages: WatchPartyChatMessage[];
+    playback: WatchPartyPlayback | null;
+    /** Relógio do servidor menos o relógio local (ms) */
+    clockOffsetMs: number;
+    /** Host: publica o estado de reprodução */
+    sendPlayback: (state: { playing: boolean; positionSeconds: number }) => void;
+    sendMessage: (text: string) => Promise<boolean>;
+    /** Host encerra a sala; convidado apenas desconecta */
+    leave: () => Promise<void>;
+}
+
+/**
+ * Hook de conexão com uma Watch Party
+ *
+ * Abre o SSE da sala (/api/watch-party/[roomId]/events) enquanto `roomId`
+ * estiver definido e expõe participantes, chat e o estado de reprodução do host.
+ * O EventSource reconecta sozinho em quedas de rede e quando o servidor encerra
+ * a conexão (duração limitada, ver a rota); cada reconexão começa com `state`.
+ *
+ * @example
+ * const party = useWatchParty(roomId, session.user.id);
+ * party?.sendMessage('Pausa rápida!');
+ */
+export function useWatchParty(roomId: string | null, currentUserId?: string): WatchPartyConnection | null {
+    const [status, setStatus] = useState<WatchPartyStatus>('connecting');
+    const [error, setError] = useState<string | null>(null);
+    const [hostId, setHostId] = useState<string | null>(null);
+    const [content, setContent] = useState<WatchPartyContent | null>(null);
+    const [participants, setParticipants] = useState<WatchPartyParticipant[]>([]);
+    const [messages, setMessages] = useState<WatchPartyChatMessage[]>([]);
+    const [playback, setPlayback] = useState<WatchPartyPlayback | null>(null);
+    const [clockOffsetMs, setClockOffsetMs] = useState(0);
+    const sourceRef = useRef<EventSource | null>(null);
+
+    useEffect(() => {
+        if (!roomId) return;
+
+        const source = new EventSource(`/api/watch-party/${encodeURIComponent(roomId)}/events`);
+        sourceRef.current = source;
+
+        const handleEvent = (raw: MessageEvent<string>) => {
+            let event: WatchPartyEvent;
+            try {
+                event = JSON.parse(raw.data);
+            } catch {
+                return;
+            }
+
+            setClockOffsetMs(event.serverTime - Date.now());
+
+            switch (event.type) {
+                case 'state':
+                    setStatus('connected');
+                    setError(null);
+                    setHostId(event.room.hostId);
+                    setContent(event.room.content);
+                    setParticipants(event.room.participants);
+                    setMessages(event.room.messages);
+                    setPlayback(event.room.playback);
+                    break;
+                case 'playback':
+                    setPlayback(event.playback);
+                    break;
+                case 'participants':
+                    setParticipants(event.participants);
+                    break;
+                case 'chat':
+                    setMessages((prev) => [...prev, event.message]);
+                    break;
+                case 'closed':
+                    setStatus('closed');
+                    source.close();
+                    break;
+            }
+        };
+
+        const types: WatchPartyEvent['type'][] = ['state', 'playback', 'participants', 'chat', 'closed'];
+        types.forEach((type) => source.addEventListener(type, handleEvent));
+
+        // Erro enviado pelo servidor (sala inexistente ou cheia) — não adianta reconectar
+        source.addEventListener('error', (raw) => {
+            const data = (raw as MessageEvent<string>).data;
+            if (!data) {
+                // Queda de conexão: o EventSource tenta de novo sozinho
+                if (source.readyState === EventSource.CLOSED) setStatus('error');
+                return;
+            }
+            try {
+                setError(JSON.parse(data).error ?? 'api.errors.internalError');
+            } catch {
+                setError('api.errors.internalError');
+            }
+            setStatus('error');
+            source.close();
+        });
+
+        return () => {
+            source.close();
+            sourceRef.current = null;
+        };
+    }, [roomId]);
+
+    const sendPlayback = useCallback((state: { playing: boolean; positionSeconds: number }) => {
+        if (!roomId) return;
+        fetch(`/api/watch-party/${encodeURIComponent(roomId)}/playback`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(state),
+            keepalive: true,
+        }).catch(() => { });
+    }, [roomId]);
+
+    const sendMessage = useCallback(async (text: string) => {
+        if (!roomId) return false;
+        try {
+            const response = await fetch(`/api/watch-party/${encodeURIComponent(roomId)}/chat`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text }),
+            });
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }, [roomId]);
+
+    const isHost = !!currentUserId && hostId === currentUserId;
+
+    const leave = useCallback(async () => {
+        if (!roomId) return;
+        sourceRef.current?.close();
+
+        if (isHost) {
+            await fetch(`/api/watch-party/${encodeURIComponent(roomId)}`, { method: 'DELETE' }).catch(() => { });
+        }
+        setStatus('closed');
+    }, [roomId, isHost]);
+
+    if (!roomId) return null;
+
+    return {
+        roomId,
+        status,
+        error,
+        isHost,
+        content,
+        participants,
+        messages,
+        playback,
+        clockOffsetMs,
+        sendPlayback,
+        sendMessage,
+        leave,
+    };
+}
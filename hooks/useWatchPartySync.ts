@@ -0,0 +1,105 @@
+import { useEffect, useRef, RefObject } from 'react';
+import type { WatchPartyConnection } from '@/hooks/useWatchParty';
+import {
+    getDriftCorrection,
+    getExpectedHostPosition,
+    WATCH_PARTY_HOST_SYNC_INTERVAL_MS,
+} from '@/lib/watch-party-sync';
+
+/** Intervalo da verificação de drift dos convidados */
+const DRIFT_CHECK_INTERVAL_MS = 1_000;
+
+export interface UseWatchPartySyncOptions {
+    party?: WatchPartyConnection | null;
+    playerRef: RefObject<HTMLVideoElement | null>;
+    playing: boolean;
+    setPlaying: (playing: boolean) => void;
+    /** Mídia carregada (duration > 0) */
+    mediaLoaded: boolean;
+}
+
+/**
+ * Hook que sincroniza o player com a Watch Party
+ *
+ * - Host: publica play/pause/seek e a posição a cada 5s durante a reprodução
+ * - Convidado: segue play/pause do host e corrige o drift (velocidade ou seek)
+ */
+export function useWatchPartySync({ party, playerRef, playing, setPlaying, mediaLoaded }: UseWatchPartySyncOptions) {
+    const active = !!party && party.status === 'connected' && mediaLoaded;
+    const isHost = !!party?.isHost;
+    const sendPlayback = party?.sendPlayback;
+    const hostPlayback = party?.playback ?? null;
+    const clockOffsetMs = party?.clockOffsetMs ?? 0;
+
+    // Valores mais recentes para os timers (sem recriar os intervals)
+    const hostPlaybackRef = useRef(hostPlayback);
+    const clockOffsetRef = useRef(clockOffsetMs);
+
+    useEffect(() => {
+        hostPlaybackRef.current = hostPlayback;
+        clockOffsetRef.current = clockOffsetMs;
+    }, [hostPlayback, clockOffsetMs]);
+
+    // ─── Host ────────────────────────────────────────────────────────────
+
+    useEffect(() => {
+        if (!active || !isHost || !sendPlayback) return;
+
+        const publish = () => {
+            const video = playerRef.current;
+            if (video) sendPlayback({ playing, positionSeconds: video.currentTime });
+        };
+
+        // Play/pause (e o estado inicial ao conectar)
+        publish();
+
+        const video = playerRef.current;
+        video?.addEventListener('seeked', publish);
+        const interval = playing ? setInterval(publish, WATCH_PARTY_HOST_SYNC_INTERVAL_MS) : null;
+
+        return () => {
+            video?.removeEventListener('seeked', publish);
+            if (interval) clearInterval(interval);
+        };
+    }, [active, isHost, playing, sendPlayback, playerRef]);
+
+    // ─── Convidado ───────────────────────────────────────────────────────
+
+    // Seguir play/pause do host
+    useEffect(() => {
+        if (!active || isHost || !hostPlayback) return;
+        setPlaying(hostPlayback.playing);
+    }, [active, isHost, hostPlayback, setPlaying]);
+
+    // Correção de drift contínua
+    useEffect(() => {
+        if (!active || isHost) return;
+
+        const video = playerRef.current;
+
+        const correct = () => {
+            const playback = hostPlaybackRef.current;
+            if (!video || !playback || video.seeking) return;
+
+            const expected = getExpectedHostPosition(playback, Date.now(), clockOffsetRef.current);
+            const correction = getDriftCorrection(video.currentTime, expected);
+
+            if (correction.action === 'seek') {
+                video.currentTime = Math.min(correction.positionSeconds, video.duration || correction.positionSeconds);
+                video.playbackRate = 1;
+            } else if (correction.action === 'rate' && playback.playing) {
+                video.playbackRate = correction.playbackRate;
+            } else {
+                video.playbackRate = 1;
+            }
+        };
+
+        correct();
+        const interval = setInterval(correct, DRIFT_CHECK_INTERVAL_MS);
+
+        return () => {
+            clearInterval(interval);
+            if (video) video.playbackRate = 1;
+        };
+    }, [active, isHost, hostPlayback, playerRef]);
+}
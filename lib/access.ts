@@ -1,4 +1,8 @@
+import type { Plan } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { getQualityEntitlement, type MaxQuality } from '@/lib/plan-entitlements';
+import { getAccessEndsAt, hasSubscriptionAccess, isCurrentSubscription, type SubscriptionStatus } from '@/lib/subscription';
+import { getSubscription } from '@/lib/subscription-server';
 
 /**
  * Access Control Utilities
@@ -10,33 +14,25 @@ import { prisma } from '@/lib/prisma';
 /**
  * Verifica se o usuário tem acesso ao streaming.
  * 
- * Valida:
- * 1. Plano próprio do usuário (owner)
- *    - Plano ativo + não expirado
- *    - Trial ativo (se trialEndsAt existir)
+ * Valida a assinatura (ver hasSubscriptionAccess em lib/subscription.ts):
+ * 1. Assinatura própria do usuário (owner)
+ *    - Plano ativo + trial ou período pago não vencido
+ *    - past_due mantém o acesso durante a carência
  * 
  * 2. Membro de família
- *    - Owner da família tem plano ativo
- *    - Trial do owner ainda ativo (se existir)
+ *    - Mesma validação na assinatura do owner da família
  * 
  * @param userId - ID do usuário a verificar
  * @returns true se tem acesso ao streaming
  */
 export async function hasStreamingAccess(userId: string): Promise<boolean> {
-    // Buscar usuário com plano
-    const user = await prisma.user.findUnique({
-        where: { id: userId },
-        include: { plan: true },
-    });
+    const now = new Date();
+
+    // Assinatura própria (owner)
+    const subscription = await getSubscription(userId);
 
-    // Verifica se tem plano próprio (owner)
-    if (user?.planId && user.plan?.active) {
-        // Se tem trial, valida expiração
-        if (user.trialEndsAt) {
-            return new Date() < new Date(user.trialEndsAt);
-        }
-        // Plano pago ativo
-        return true;
+    if (isCurrentSubscription(subscription) && subscription.plan.active) {
+        return hasSubscriptionAccess(subscription, now);
     }
 
     // Verifica se é membro de família
@@ -46,32 +42,60 @@ export async function hasStreamingAccess(userId: string): Promise<boolean> {
             family: {
                 include: {
                     owner: {
-                        include: { plan: true },
+                        include: { subscription: { include: { plan: true } } },
                     },
                 },
             },
         },
     });
 
-    if (!membership) return false;
-
-    const owner = membership.family.owner;
+    const ownerSubscription = membership?.family.owner.subscription;
 
     // Owner deve ter plano ativo
-    if (!owner.planId || !owner.plan?.active) return false;
+    if (!ownerSubscription?.plan.active) return false;
 
-    // Se owner tem trial, valida expiração
-    if (owner.trialEndsAt) {
-        return new Date() < new Date(owner.trialEndsAt);
-    }
+    return hasSubscriptionAccess(ownerSubscription, now);
+}
 
-    // Owner tem plano pago ativo
-    return true;
+/** Plano efetivo a partir da assinatura (própria ou do owner da família) */
+function toPlanInfo(
+    subscription: {
+        planId: string;
+        status: string;
+        currentPeriodEnd: Date;
+        cancelAtPeriodEnd: boolean;
+        graceEndsAt: Date | null;
+        plan: Plan;
+    },
+    accountOwnerId: string,
+    isOwner: boolean
+) {
+    const isTrial = subscription.status === 'trialing';
+
+    return {
+        planId: subscription.planId,
+        planName: subscription.plan.name,
+        maxScreens: subscription.plan.screens,
+        ...getQualityEntitlement(subscription.plan),
+        accountOwnerId,
+        isOwner,
+        isTrial,
+        trialEndsAt: isTrial ? subscription.currentPeriodEnd : null,
+        subscriptionStatus: subscription.status as SubscriptionStatus,
+        currentPeriodEnd: subscription.currentPeriodEnd,
+        accessEndsAt: getAccessEndsAt(subscription),
+    };
 }
 
 /**
  * Obtém informações sobre o plano do usuário (próprio ou da família).
  * 
+ * `accountOwnerId` identifica a conta cujas telas são consumidas:
+ * o próprio usuário (owner) ou o owner da família (membro).
+ * `maxQuality`/`hdr` também vêm do plano efetivo (ver lib/plan-entitlements.ts).
+ * `accessEndsAt` é o fim garantido do acesso (trial, cancelamento agendado ou
+ * carência), null para assinatura ativa que renova sozinha.
+ * 
  * @param userId - ID do usuário
  * @returns Informações do plano ou null
  */
@@ -79,26 +103,21 @@ export async function getUserPlanInfo(userId: string): Promise<{
     planId: string;
     planName: string;
     maxScreens: number;
+    maxQuality: MaxQuality;
+    hdr: boolean;
+    accountOwnerId: string;
     isOwner: boolean;
     isTrial: boolean;
     trialEndsAt: Date | null;
+    subscriptionStatus: SubscriptionStatus;
+    currentPeriodEnd: Date;
+    accessEndsAt: Date | null;
 } | null> {
-    // Buscar usuário
-    const user = await prisma.user.findUnique({
-        where: { id: userId },
-        include: { plan: true },
-    });
+    // Se tem assinatura própria
+    const subscription = await getSubscription(userId);
 
-    // Se tem plano próprio
-    if (user?.planId && user.plan) {
-        return {
-            planId: user.planId,
-            planName: user.plan.name,
-            maxScreens: user.plan.screens,
-            isOwner: true,
-            isTrial: !!user.trialEndsAt,
-            trialEndsAt: user.trialEndsAt,
-        };
+    if (isCurrentSubscription(subscription)) {
+        return toPlanInfo(subscription, userId, true);
     }
 
     // Verifica se é membro de família
@@ -108,22 +127,17 @@ export async function getUserPlanInfo(userId: string): Promise<{
             family: {
                 include: {
                     owner: {
-                        include: { plan: true },
+                        include: { subscription: { include: { plan: true } } },
                     },
                 },
             },
         },
     });
 
-    if (membership?.family.owner.plan) {
-        return {
-            planId: membership.family.owner.planId!,
-            planName: membership.family.owner.plan.name,
-            maxScreens: membership.family.owner.plan.screens,
-            isOwner: false,
-            isTrial: !!membership.family.owner.trialEndsAt,
-            trialEndsAt: membership.family.owner.trialEndsAt,
-        };
+    const owner = membership?.family.owner;
+
+    if (owner && isCurrentSubscription(owner.subscription)) {
+        return toPlanInfo(owner.subscription, owner.id, false);
     }
 
     return null;
@@ -0,0 +1,167 @@
+/**
+ * Binge Guard ("Você ainda está assistindo?") e timer de desligamento
+ *
+ * Funções puras (client-safe). O estado fica no sessionStorage porque o
+ * autoplay navega para o próximo episódio e remonta o player.
+ *
+ * Regras:
+ * - Só episódios iniciados pela contagem regressiva do autoplay contam;
+ *   abrir um episódio manualmente (ou clicar/teclar no player) zera a sequência
+ * - A pergunta aparece quando a sequência atinge o limite de episódios OU
+ *   quando passou o limite de minutos desde a última interação (0 = desligado)
+ * - Timers de minutos sobrevivem ao autoplay; "fim do episódio" só vale para
+ *   o episódio atual
+ */
+
+export const BINGE_GUARD_STORAGE_KEY = 'binge_guard';
+export const SLEEP_TIMER_STORAGE_KEY = 'sleep_timer';
+
+/** Opções de UserPreferences.stillWatchingEpisodes (0 = desligado) */
+export const STILL_WATCHING_EPISODE_OPTIONS = [0, 2, 3, 4, 5] as const;
+
+/** Opções de UserPreferences.stillWatchingMinutes (0 = desligado) */
+export const STILL_WATCHING_MINUTE_OPTIONS = [0, 60, 90, 120, 180] as const;
+
+/** Opções do timer de desligamento no menu do player */
+export const SLEEP_TIMER_OPTIONS = ['episode', 15, 30, 60] as const;
+
+export type SleepTimerOption = (typeof SLEEP_TIMER_OPTIONS)[number];
+
+export interface BingeGuardSettings {
+    /** Episódios seguidos no autoplay antes de perguntar (0 = desligado) */
+    episodes: number;
+    /** Minutos sem interação (durante o autoplay) antes de perguntar (0 = desligado) */
+    minutes: number;
+}
+
+export interface BingeGuardState {
+    /** Episódios abertos pelo autoplay desde a última interação */
+    autoplayedEpisodes: number;
+    /** Epoch ms da última interação */
+    lastInteractionAt: number;
+    /** Episódio que o autoplay está abrindo (consumido ao montar o player) */
+    pendingEpisode: string | null;
+    /** Episódio em reprodução (remontar o mesmo episódio não conta de novo) */
+    currentEpisode: string | null;
+}
+
+export interface SleepTimer {
+    option: SleepTimerOption;
+    /** Epoch ms em que o player pausa (null para "fim do episódio") */
+    endsAt: number | null;
+}
+
+type SessionStorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export function getBingeGuardEpisodeKey(tmdbId: number, season: number, episode: number): string {
+    return `${tmdbId}:${season}:${episode}`;
+}
+
+function createInitialState(now: number): BingeGuardState {
+    return { autoplayedEpisodes: 0, lastInteractionAt: now, pendingEpisode: null, currentEpisode: null };
+}
+
+export function loadBingeGuardState(storage: SessionStorageLike, now: number): BingeGuardState {
+    try {
+        const parsed = JSON.parse(storage.getItem(BINGE_GUARD_STORAGE_KEY) || 'null');
+        if (!parsed || typeof parsed.autoplayedEpisodes !== 'number' || typeof parsed.lastInteractionAt !== 'number') {
+            return createInitialState(now);
+        }
+        return parsed;
+    } catch {
+        return createInitialState(now);
+    }
+}
+
+function saveBingeGuardState(storage: SessionStorageLike, state: BingeGuardState): BingeGuardState {
+    try {
+        storage.setItem(BINGE_GUARD_STORAGE_KEY, JSON.stringify(state));
+    } catch {
+        // Storage bloqueado: a sequência só vale até a próxima navegação
+    }
+    return state;
+}
+
+/**
+ * Registra o início de um episódio.
+ *
+ * Conta +1 se o autoplay abriu este episódio; mantém a contagem se o episódio
+ * já estava em reprodução (remontagem); senão zera a sequência.
+ */
+export function startBingeGuardEpisode(storage: SessionStorageLike, episodeKey: string, now: number): BingeGuardState {
+    const state = loadBingeGuardState(storage, now);
+
+    if (state.pendingEpisode === episodeKey) {
+        return saveBingeGuardState(storage, {
+            ...state,
+            autoplayedEpisodes: state.autoplayedEpisodes + 1,
+            pendingEpisode: null,
+            currentEpisode: episodeKey,
+        });
+    }
+
+    if (state.currentEpisode === episodeKey) return state;
+
+    return saveBingeGuardState(storage, { ...createInitialState(now), currentEpisode: episodeKey });
+}
+
+/**
+ * Marca o próximo episódio como aberto pelo autoplay (chamar antes de navegar).
+ */
+export function recordAutoplay(storage: SessionStorageLike, nextEpisodeKey: string, now: number): void {
+    saveBingeGuardState(storage, { ...loadBingeGuardState(storage, now), pendingEpisode: nextEpisodeKey });
+}
+
+/**
+ * Clique, toque ou tecla no player: zera a sequência.
+ */
+export function recordInteraction(storage: SessionStorageLike, now: number): void {
+    const state = loadBingeGuardState(storage, now);
+    saveBingeGuardState(storage, { ...state, autoplayedEpisodes: 0, lastInteractionAt: now });
+}
+
+/**
+ * Se o player deve pausar e perguntar "Você ainda está assistindo?".
+ *
+ * Só pergunta durante uma sequência de autoplay (quem está só assistindo a
+ * um filme longo não é interrompido).
+ */
+export function shouldAskStillWatching(state: BingeGuardState, settings: BingeGuardSettings, now: number): boolean {
+    if (state.autoplayedEpisodes === 0) return false;
+    if (settings.episodes > 0 && state.autoplayedEpisodes >= settings.episodes) return true;
+    return settings.minutes > 0 && now - state.lastInteractionAt >= settings.minutes * 60_000;
+}
+
+export function loadSleepTimer(storage: SessionStorageLike, now: number): SleepTimer | null {
+    try {
+        const parsed = JSON.parse(storage.getItem(SLEEP_TIMER_STORAGE_KEY) || 'null');
+        if (!parsed || typeof parsed.endsAt !== 'number' || parsed.endsAt <= now) return null;
+        return parsed;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Cria o timer de desligamento (null desliga).
+ *
+ * Só timers de minutos vão para o storage; "fim do episódio" fica no estado
+ * do player e não passa para o próximo episódio.
+ */
+export function createSleepTimer(storage: SessionStorageLike, option: SleepTimerOption | null, now: number): SleepTimer | null {
+    const timer = option === null
+        ? null
+        : { option, endsAt: option === 'episode' ? null : now + option * 60_000 };
+
+    try {
+        if (timer?.endsAt) {
+            storage.setItem(SLEEP_TIMER_STORAGE_KEY, JSON.stringify(timer));
+        } else {
+            storage.removeItem(SLEEP_TIMER_STORAGE_KEY);
+        }
+    } catch {
+        // Storage bloqueado: o timer vale só para este episódio
+    }
+
+    return timer;
+}
@@ -0,0 +1,75 @@
+/**
+ * Chapters Server-Side Utilities
+ *
+ * Funções que dependem de Prisma/banco de dados (só podem ser usadas no servidor)
+ * Para funções puras (client-safe), use @/lib/chapters
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { Chapter } from '@/lib/chapters';
+
+function toChapter(row: { title: string; startSeconds: number; thumbnail: string | null }): Chapter {
+    return {
+        title: row.title,
+        startSeconds: row.startSeconds,
+        ...(row.thumbnail && { thumbnail: row.thumbnail }),
+    };
+}
+
+function toChapterRow(chapter: Chapter) {
+    return {
+        title: chapter.title,
+        startSeconds: chapter.startSeconds,
+        thumbnail: chapter.thumbnail ?? null,
+    };
+}
+
+/**
+ * Busca os capítulos salvos de um filme ou episódio
+ *
+ * ⚠️ SERVER-ONLY: Usa Prisma, não pode ser usado em Client Components
+ *
+ * @param seasonNumber - Temporada (0 para filmes)
+ * @param episodeNumber - Episódio (0 para filmes)
+ */
+export async function getStoredChapters(
+    tmdbId: number,
+    mediaType: 'movie' | 'tv',
+    seasonNumber: number,
+    episodeNumber: number
+): Promise<Chapter[]> {
+    const rows = await prisma.mediaChapter.findMany({
+        where: { tmdbId, mediaType, seasonNumber, episodeNumber },
+        orderBy: { position: 'asc' },
+    });
+
+    return rows.map(toChapter);
+}
+
+/**
+ * Salva os capítulos informados pelo backend (substitui os anteriores)
+ *
+ * ⚠️ SERVER-ONLY: Usa Prisma, não pode ser usado em Client Components
+ *
+ * Só escreve quando a lista mudou, já que é chamada a cada reprodução.
+ */
+export async function saveChapters(
+    tmdbId: number,
+    mediaType: 'movie' | 'tv',
+    seasonNumber: number,
+    episodeNumber: number,
+    chapters: Chapter[]
+): Promise<void> {
+    const rows = chapters.map(toChapterRow);
+    const stored = await getStoredChapters(tmdbId, mediaType, seasonNumber, episodeNumber);
+    if (JSON.stringify(stored) === JSON.stringify(rows.map(toChapter))) return;
+
+    const where = { tmdbId, mediaType, seasonNumber, episodeNumber };
+
+    await prisma.$transaction([
+        prisma.mediaChapter.deleteMany({ where }),
+        prisma.mediaChapter.createMany({
+            data: rows.map((row, position) => ({ ...where, position, ...row })),
+        }),
+    ]);
+}
@@ -0,0 +1,57 @@
+/**
+ * Capítulos (shows, documentários e outros títulos longos)
+ *
+ * Funções puras (client-safe). Os capítulos vêm do backend de streaming
+ * (`chapters`) e ficam salvos no banco para a página de detalhes
+ * (ver @/lib/chapters-server).
+ */
+
+export interface Chapter {
+    title: string;
+    startSeconds: number;
+    /** Miniatura do capítulo (URL absoluta) */
+    thumbnail?: string;
+}
+
+/** Até quantos segundos depois do início "capítulo anterior" volta ao capítulo anterior (e não ao início do atual) */
+export const PREVIOUS_CHAPTER_GRACE_SECONDS = 3;
+
+/**
+ * Índice do capítulo em andamento (-1 antes do primeiro capítulo).
+ *
+ * @param chapters - Ordenados por startSeconds
+ */
+export function getCurrentChapterIndex(chapters: Chapter[], seconds: number): number {
+    let index = -1;
+    for (let i = 0; i < chapters.length; i++) {
+        if (chapters[i].startSeconds > seconds) break;
+        index = i;
+    }
+    return index;
+}
+
+/**
+ * Tempo de destino dos atalhos de próximo/anterior capítulo.
+ *
+ * "Anterior" no começo de um capítulo vai para o capítulo anterior; depois
+ * de PREVIOUS_CHAPTER_GRACE_SECONDS volta ao início do atual (como faixas de música).
+ *
+ * @returns null quando não há capítulo na direção pedida
+ */
+export function getAdjacentChapterStart(
+    chapters: Chapter[],
+    seconds: number,
+    direction: 'next' | 'previous'
+): number | null {
+    const index = getCurrentChapterIndex(chapters, seconds);
+
+    if (direction === 'next') {
+        return chapters[index + 1]?.startSeconds ?? null;
+    }
+
+    if (index === -1) return null;
+    if (seconds - chapters[index].startSeconds > PREVIOUS_CHAPTER_GRACE_SECONDS) {
+        return chapters[index].startSeconds;
+    }
+    return index > 0 ? chapters[index - 1].startSeconds : chapters[0].startSeconds;
+}
@@ -0,0 +1,45 @@
+/**
+ * Circuit Breaker
+ *
+ * Bloqueia chamadas a um serviço externo após falhas consecutivas,
+ * liberando novamente depois do timeout.
+ *
+ * Usado pelo warm-up do cache TMDB e pelo roteamento de backends de streaming.
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private lastFailureTime = 0;
+    private readonly threshold: number; // Máximo de falhas consecutivas
+    private readonly timeout: number; // Tempo com o circuito aberto (ms)
+
+    constructor({ threshold = 3, timeout = 60000 }: { threshold?: number; timeout?: number } = {}) {
+        this.threshold = threshold;
+        this.timeout = timeout;
+    }
+
+    isOpen(): boolean {
+        if (this.failures >= this.threshold) {
+            const now = Date.now();
+            if (now - this.lastFailureTime < this.timeout) {
+                return true; // Circuit aberto (bloqueando requests)
+            }
+            // Timeout passou, resetar
+            this.reset();
+        }
+        return false;
+    }
+
+    recordSuccess(): void {
+        this.failures = 0;
+    }
+
+    recordFailure(): void {
+        this.failures++;
+        this.lastFailureTime = Date.now();
+    }
+
+    reset(): void {
+        this.failures = 0;
+        this.lastFailureTime = 0;
+    }
+}
@@ -89,6 +89,12 @@ export const STREAMING_API_URL = process.env.STREAMING_API_URL || '';
 /** Streaming API Token - token de autenticação para o backend de streaming (server-side only) */
 export const STREAMING_API_TOKEN = process.env.STREAMING_API_TOKEN || '';
 
+/** Streaming Backends - JSON com vários backends (prioridade, mediaTypes, regions); substitui STREAMING_API_URL quando definida */
+export const STREAMING_BACKENDS = process.env.STREAMING_BACKENDS || '';
+
+/** Playback Token Secret - assina os tokens de reprodução (server-side only, fallback: BETTER_AUTH_SECRET) */
+export const PLAYBACK_TOKEN_SECRET = process.env.PLAYBACK_TOKEN_SECRET || '';
+
 // ─── Payment Integration ────────────────────────────────────────────────────
 
 /** Payment Checkout URL - endpoint externo para processar pagamentos */
@@ -100,6 +106,9 @@ export const PAYMENT_API_TOKEN = process.env.PAYMENT_API_TOKEN || '';
 /** Payment Webhook Secret - segredo para validar webhooks de pagamento (server-side only) */
 export const PAYMENT_WEBHOOK_SECRET = process.env.PAYMENT_WEBHOOK_SECRET || '';
 
+/** Payment Webhook Secret anterior - continua aceito durante a rotação do segredo (server-side only) */
+export const PAYMENT_WEBHOOK_SECRET_PREVIOUS = process.env.PAYMENT_WEBHOOK_SECRET_PREVIOUS || '';
+
 /** Payment Webhook Relay URL - URL opcional para encaminhar eventos de webhook */
 export const PAYMENT_WEBHOOK_RELAY_URL = process.env.PAYMENT_WEBHOOK_RELAY_URL || '';
 
@@ -1,7 +1,8 @@
 import { prisma } from '@/lib/prisma';
 import { getMediaDetailsWithCache } from '@/lib/tmdb-cache';
 import { resolveResumeEpisode } from '@/lib/resume-episode';
-import { COMPLETION_THRESHOLD, MINIMUM_PROGRESS_THRESHOLD } from '@/lib/watch-constants';
+import { MINIMUM_PROGRESS_THRESHOLD } from '@/lib/watch-constants';
+import { getRemainingSeconds, isWatchCompleted, isWatchInProgress } from '@/lib/watch-progress';
 import { TMDB_API_URL, TMDB_API_KEY, SITE_LANGUAGE } from '@/lib/config';
 
 export interface ContinueWatchingItem {
@@ -11,6 +12,10 @@ export interface ContinueWatchingItem {
     seasonNumber: number;
     episodeNumber: number;
     progress: number;
+    /** Posição exata para retomar (segundos), se conhecida */
+    positionSeconds: number | null;
+    /** Tempo restante (segundos), se a duração é conhecida */
+    remainingSeconds: number | null;
     lastWatchedAt: string;
     title: string;
     backdropPath: string | null;
@@ -18,7 +23,8 @@ export interface ContinueWatchingItem {
 
 /**
  * Processa o histórico do usuário e retorna os itens para "Continue Assistindo"
- * - Filmes: progresso entre MINIMUM_PROGRESS_THRESHOLD (10%) e COMPLETION_THRESHOLD (90%)
+ * - Filmes: progresso >= MINIMUM_PROGRESS_THRESHOLD (10%) e ainda não completos
+ *   (COMPLETION_THRESHOLD ou menos de COMPLETION_REMAINING_SECONDS restantes)
  * - Séries: AGRUPA por tmdbId e retorna apenas 1 item por série (episódio mais recente ou próximo)
  *   - Apenas séries com pelo menos 1 episódio >= 10% de progresso aparecem
  * 
@@ -43,9 +49,9 @@ export async function getContinueWatchingItems(
         return [];
     }
 
-    // === FILMES: progresso entre MINIMUM_PROGRESS_THRESHOLD e COMPLETION_THRESHOLD ===
+    // === FILMES: iniciados e não completos (por % ou tempo restante) ===
     const movieItems = allHistory.filter(
-        (item) => item.mediaType === 'movie' && item.progress >= MINIMUM_PROGRESS_THRESHOLD && item.progress < COMPLETION_THRESHOLD
+        (item) => item.mediaType === 'movie' && isWatchInProgress(item)
     );
 
     // === SÉRIES: agrupar por tmdbId (1 item por série) ===
@@ -76,6 +82,8 @@ export async function getContinueWatchingItems(
                 seasonNumber: 0,
                 episodeNumber: 0,
                 progress: item.progress,
+                positionSeconds: item.positionSeconds,
+                remainingSeconds: getRemainingSeconds(item),
                 lastWatchedAt: item.lastWatchedAt.toISOString(),
                 title: details?.title || details?.name || `ID: ${item.tmdbId}`,
                 backdropPath: details?.backdrop_path || null,
@@ -93,9 +101,7 @@ export async function getContinueWatchingItems(
             if (!details) return null;
 
             // Verificar se precisa de dados de seasons do TMDB (só quando todos eps estão completos)
-            const hasInProgress = episodes.some(
-                ep => ep.progress >= MINIMUM_PROGRESS_THRESHOLD && ep.progress < COMPLETION_THRESHOLD
-            );
+            const hasInProgress = episodes.some(ep => isWatchInProgress(ep));
 
             let seasons: Array<{ season_number: number; episode_count: number }> | null = null;
 
@@ -116,10 +122,10 @@ export async function getContinueWatchingItems(
 
             // Se o resume aponta para S1E1 com progresso 0 e o usuário tem episódios completos,
             // a série foi totalmente assistida — não mostrar no Continue Watching
-            const hasCompletedEpisodes = episodes.some(ep => ep.progress >= COMPLETION_THRESHOLD);
+            const hasCompletedEpisodes = episodes.some(ep => isWatchCompleted(ep));
             if (hasCompletedEpisodes && resumePoint.season === 1 && resumePoint.episode === 1 && resumePoint.progress === 0) {
                 const s1e1 = episodes.find(ep => ep.seasonNumber === 1 && ep.episodeNumber === 1);
-                if (s1e1 && s1e1.progress >= COMPLETION_THRESHOLD) {
+                if (s1e1 && isWatchCompleted(s1e1)) {
                     return null; // Série totalmente completa
                 }
             }
@@ -129,6 +135,9 @@ export async function getContinueWatchingItems(
                 (a, b) => new Date(b.lastWatchedAt).getTime() - new Date(a.lastWatchedAt).getTime()
             );
             const mostRecentRecord = sortedByTime[0];
+            const resumeRecord = episodes.find(
+                ep => ep.seasonNumber === resumePoint.season && ep.episodeNumber === resumePoint.episode
+            );
 
             return {
                 id: mostRecentRecord.id,
@@ -137,6 +146,8 @@ export async function getContinueWatchingItems(
                 seasonNumber: resumePoint.season,
                 episodeNumber: resumePoint.episode,
                 progress: resumePoint.progress,
+                positionSeconds: resumePoint.positionSeconds ?? null,
+                remainingSeconds: resumeRecord && resumePoint.progress > 0 ? getRemainingSeconds(resumeRecord) : null,
                 lastWatchedAt: mostRecentRecord.lastWatchedAt.toISOString(),
                 title: details?.title || details?.name || `ID: ${tmdbId}`,
                 backdropPath: details?.backdrop_path || null,
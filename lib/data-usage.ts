@@ -0,0 +1,113 @@
+import type { VideoQuality } from '@/hooks/useVideoPlayer';
+import { getQualityHeight } from '@/lib/plan-entitlements';
+
+/**
+ * Uso de dados do player
+ *
+ * Preferência UserPreferences.dataUsage:
+ * - auto: ABR normal (limitado ao tamanho do player); vira economia de dados
+ *   em conexões móveis ou com "Economia de dados" ativa no navegador
+ * - saveData: no máximo 480p, começa no nível mais baixo e com buffers menores
+ * - maxQuality: sem limite pelo tamanho do player e a maior qualidade disponível
+ *
+ * Funções puras (client-safe); o player aplica o resultado no hls.js
+ * (config + autoLevelCapping) e na escolha entre as `qualities` do backend.
+ */
+
+export const DATA_USAGE_MODES = ['auto', 'saveData', 'maxQuality'] as const;
+
+export type DataUsageMode = (typeof DATA_USAGE_MODES)[number];
+
+/** Altura máxima no modo economia de dados */
+export const SAVE_DATA_MAX_HEIGHT = 480;
+
+/** Subconjunto de navigator.connection (Network Information API) */
+export interface NetworkConnectionInfo {
+    saveData?: boolean;
+    type?: string;
+}
+
+/**
+ * Lê a preferência salva (valores desconhecidos viram "auto").
+ */
+export function parseDataUsageMode(value: unknown): DataUsageMode {
+    return typeof value === 'string' && (DATA_USAGE_MODES as readonly string[]).includes(value)
+        ? value as DataUsageMode
+        : 'auto';
+}
+
+/**
+ * Conexão limitada: "Economia de dados" do navegador ou rede celular.
+ */
+export function isConstrainedConnection(connection: NetworkConnectionInfo | null | undefined): boolean {
+    return !!connection && (connection.saveData === true || connection.type === 'cellular');
+}
+
+/**
+ * Modo efetivo (o automático vira economia de dados em conexões limitadas).
+ */
+export function resolveDataUsageMode(mode: DataUsageMode, constrained: boolean): DataUsageMode {
+    return mode === 'auto' && constrained ? 'saveData' : mode;
+}
+
+/**
+ * Ajustes do HLS_CONFIG para o modo efetivo.
+ */
+export function getHlsDataUsageConfig(mode: DataUsageMode) {
+    switch (mode) {
+        case 'saveData':
+            return {
+                startLevel: 0,
+                maxBufferLength: 30,
+                maxMaxBufferLength: 60,
+                backBufferLength: 30,
+            };
+        case 'maxQuality':
+            return { capLevelToPlayerSize: false };
+        default:
+            return {};
+    }
+}
+
+/**
+ * Limite de nível do hls.js (autoLevelCapping) para o modo efetivo.
+ *
+ * @param levels - hls.levels (ordenados do menor para o maior bitrate)
+ * @returns índice do nível mais alto permitido, ou -1 para sem limite
+ */
+export function getDataUsageLevelCap(levels: { height: number }[], mode: DataUsageMode): number {
+    if (mode !== 'saveData' || levels.length === 0) return -1;
+
+    let cap = 0;
+    levels.forEach((level, index) => {
+        if (level.height > 0 && level.height <= SAVE_DATA_MAX_HEIGHT) cap = index;
+    });
+    return cap;
+}
+
+/**
+ * Qualidade inicial entre as `qualities` do backend.
+ *
+ * "auto" (stream adaptativo) é mantido — o limite fica por conta do hls.js.
+ * Na economia de dados usa a maior qualidade até 480p (ou a menor de todas);
+ * em qualidade máxima, a maior disponível.
+ */
+export function selectDataUsageQuality(
+    qualities: VideoQuality[],
+    defaultQuality: string,
+    mode: DataUsageMode
+): string {
+    if (mode === 'auto' || defaultQuality.toLowerCase() === 'auto') return defaultQuality;
+
+    const sized = qualities
+        .map((quality) => ({ label: quality.label, height: getQualityHeight(quality.label) }))
+        .filter((quality): quality is { label: string; height: number } => quality.height !== null)
+        .sort((a, b) => a.height - b.height);
+
+    if (sized.length === 0) return defaultQuality;
+
+    if (mode === 'maxQuality') return sized[sized.length - 1].label;
+
+    const withinCap = sized.filter((quality) => quality.height <= SAVE_DATA_MAX_HEIGHT);
+    return (withinCap.length > 0 ? withinCap[withinCap.length - 1] : sized[0]).label;
+}
@@ -0,0 +1,64 @@
+import { SAVE_DATA_MAX_HEIGHT, type DataUsageMode } from '@/lib/data-usage';
+import { getMaxQualityHeight, type QualityEntitlement } from '@/lib/plan-entitlements';
+
+/**
+ * Licenças de download offline (client-safe)
+ *
+ * Um download só pode ser reproduzido enquanto a licença for válida (o service
+ * worker responde 403 para arquivos de um download com licença vencida):
+ * - A licença dura DOWNLOAD_LICENSE_DAYS a partir da última renovação online
+ * - Nunca passa do fim do acesso (trial, cancelamento agendado ou carência de
+ *   past_due), então cancelar o plano faz os downloads expirarem no máximo
+ *   quando o acesso acabaria
+ * - O app renova todas as licenças ao reconectar (GET /api/downloads/license);
+ *   sem plano ativo a renovação falha e os downloads expiram
+ */
+
+/** Validade de uma licença a partir da última renovação (dias) */
+export const DOWNLOAD_LICENSE_DAYS = 30;
+
+/** Validade do token usado pelo service worker para baixar o arquivo (segundos) */
+export const DOWNLOAD_TOKEN_TTL_SECONDS = 2 * 60 * 60;
+
+/**
+ * Expiração da licença emitida agora.
+ *
+ * @param accessEndsAt - Fim garantido do acesso (ver getAccessEndsAt), null para plano que renova sozinho
+ */
+export function resolveDownloadLicenseExpiry(now: Date, accessEndsAt: Date | null): Date {
+    const licenseEnd = new Date(now.getTime() + DOWNLOAD_LICENSE_DAYS * 24 * 60 * 60 * 1000);
+    if (accessEndsAt && accessEndsAt < licenseEnd) return accessEndsAt;
+    return licenseEnd;
+}
+
+/** Limite de qualidade enviado ao service worker (variantes de uma master HLS) */
+export interface DownloadQualityCap {
+    /** Altura máxima do plano: variantes acima nunca são baixadas */
+    maxHeight: number;
+    /** Economia de dados: altura preferida (senão a menor variante do plano); null sem preferência */
+    preferredMaxHeight: number | null;
+    /** Se o plano inclui HDR (variantes PQ/HLG) */
+    hdr: boolean;
+}
+
+/**
+ * Limite de qualidade de um download: o do plano e, na economia de dados,
+ * SAVE_DATA_MAX_HEIGHT (como no player).
+ */
+export function getDownloadQualityCap(entitlement: QualityEntitlement, mode: DataUsageMode): DownloadQualityCap {
+    const maxHeight = getMaxQualityHeight(entitlement.maxQuality);
+
+    return {
+        maxHeight,
+        preferredMaxHeight: mode === 'saveData' ? Math.min(SAVE_DATA_MAX_HEIGHT, maxHeight) : null,
+        hdr: entitlement.hdr,
+    };
+}
+
+/**
+ * Se um download com esta licença ainda pode ser reproduzido.
+ */
+export function isDownloadLicenseValid(licenseExpiresAt: string, now = Date.now()): boolean {
+    const expiresAt = Date.parse(licenseExpiresAt);
+    return Number.isFinite(expiresAt) && expiresAt > now;
+}
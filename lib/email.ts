@@ -5,7 +5,7 @@
  * Compatível com serverless (Vercel) — todas as chamadas devem ser awaited.
  * 
  * Funcionalidades:
- * - Envio de emails transacionais (OTP, verificação)
+ * - Envio de emails transacionais (OTP, verificação, cobrança)
  * - Fallback para console em desenvolvimento sem API key
  * - Validação de configuração com erros descritivos
  * - Singleton do cliente Resend (uma instância por cold start)
@@ -240,3 +240,132 @@ export function getVerificationEmailTemplate(token: string, baseUrl: string) {
         </html>
     `
 }
+
+export type DunningEmailType = 'payment-failed' | 'reminder' | 'access-ended'
+
+/**
+ * Template para emails de cobrança (assinatura past_due)
+ * 
+ * - payment-failed: pagamento recusado, início da carência
+ * - reminder: carência perto do fim
+ * - access-ended: carência encerrada sem pagamento
+ * 
+ * @param type - Etapa da cobrança
+ * @param planName - Nome do plano assinado
+ * @param graceEndsAt - Fim da carência
+ * @param baseUrl - URL base do site
+ */
+export function getDunningEmailTemplate(
+    type: DunningEmailType,
+    planName: string,
+    graceEndsAt: Date,
+    baseUrl: string
+) {
+    const planUrl = `${baseUrl}/settings?section=plan`
+    const deadline = graceEndsAt.toLocaleDateString('pt-BR', { dateStyle: 'long', timeZone: 'UTC' })
+
+    const titleMap: Record<DunningEmailType, string> = {
+        'payment-failed': 'Não conseguimos processar seu pagamento',
+        'reminder': 'Seu acesso está perto de ser suspenso',
+        'access-ended': 'Seu acesso foi suspenso',
+    }
+
+    const descriptionMap: Record<DunningEmailType, string> = {
+        'payment-failed': `A cobrança do plano <strong>${planName}</strong> foi recusada. Seu acesso continua liberado até <strong>${deadline}</strong> enquanto você atualiza a forma de pagamento.`,
+        'reminder': `Ainda não recebemos o pagamento do plano <strong>${planName}</strong>. Se ele não for confirmado até <strong>${deadline}</strong>, o acesso da sua conta e da sua família será suspenso.`,
+        'access-ended': `Como o pagamento do plano <strong>${planName}</strong> não foi confirmado, o acesso da sua conta e da sua família foi suspenso. Assine novamente quando quiser para voltar a assistir.`,
+    }
+
+    const buttonLabel = type === 'access-ended' ? 'Escolher um plano' : 'Atualizar pagamento'
+
+    return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="utf-8">
+            <title>${titleMap[type]} - ${SITE_NAME_FULL}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+            <div style="background: linear-gradient(135deg, #d0212a 0%, #ff4444 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+                <h1 style="color: white; margin: 0;">${SITE_NAME_FULL}</h1>
+            </div>
+            
+            <div style="background: #ffffff; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e0e0e0; border-top: none;">
+                <h2 style="color: #333; margin-top: 0;">${titleMap[type]}</h2>
+                
+                <p style="color: #666; line-height: 1.6;">
+                    ${descriptionMap[type]}
+                </p>
+                
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${planUrl}" 
+                       style="background: #d0212a; color: white; padding: 12px 30px; 
+                              text-decoration: none; border-radius: 5px; display: inline-block;">
+                        ${buttonLabel}
+                    </a>
+                </div>
+                
+                <p style="color: #bbb; font-size: 11px; text-align: center; margin-top: 20px;">
+                    ${SITE_NAME_FULL} &mdash; <a href="${baseUrl}" style="color: #d0212a; text-decoration: none;">${baseUrl}</a>
+                </p>
+            </div>
+        </body>
+        </html>
+    `
+}
+
+/**
+ * Template para aviso aos membros da família de que o plano do owner foi
+ * cancelado e termina no fim do período
+ * 
+ * @param ownerName - Nome do dono do plano
+ * @param planName - Nome do plano cancelado
+ * @param endsAt - Fim do período (último dia de acesso)
+ * @param baseUrl - URL base do site
+ */
+export function getFamilyPlanEndingEmailTemplate(
+    ownerName: string,
+    planName: string,
+    endsAt: Date,
+    baseUrl: string
+) {
+    const planUrl = `${baseUrl}/settings?section=plan`
+    const deadline = endsAt.toLocaleDateString('pt-BR', { dateStyle: 'long', timeZone: 'UTC' })
+
+    return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="utf-8">
+            <title>O plano da sua família vai terminar - ${SITE_NAME_FULL}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+            <div style="background: linear-gradient(135deg, #d0212a 0%, #ff4444 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+                <h1 style="color: white; margin: 0;">${SITE_NAME_FULL}</h1>
+            </div>
+            
+            <div style="background: #ffffff; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e0e0e0; border-top: none;">
+                <h2 style="color: #333; margin-top: 0;">O plano da sua família vai terminar</h2>
+                
+                <p style="color: #666; line-height: 1.6;">
+                    ${ownerName} cancelou o plano <strong>${planName}</strong> que você compartilha.
+                    Você continua com acesso até <strong>${deadline}</strong>. Depois disso, assine um plano
+                    próprio para continuar assistindo.
+                </p>
+                
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${planUrl}" 
+                       style="background: #d0212a; color: white; padding: 12px 30px; 
+                              text-decoration: none; border-radius: 5px; display: inline-block;">
+                        Ver planos
+                    </a>
+                </div>
+                
+                <p style="color: #bbb; font-size: 11px; text-align: center; margin-top: 20px;">
+                    ${SITE_NAME_FULL} &mdash; <a href="${baseUrl}" style="color: #d0212a; text-decoration: none;">${baseUrl}</a>
+                </p>
+            </div>
+        </body>
+        </html>
+    `
+}
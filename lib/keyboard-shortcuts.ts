@@ -0,0 +1,171 @@
+/**
+ * Atalhos de teclado
+ *
+ * Registro único dos atalhos do player e da navegação global. Funções puras
+ * (client-safe); o KeyboardShortcutsProvider aplica os atalhos e o usuário
+ * pode remapeá-los em Configurações > Preferências
+ * (UserPreferences.keyboardShortcuts guarda só o que difere do padrão).
+ *
+ * Formato dos atalhos: valor de KeyboardEvent.key ("k", "?", "ArrowLeft"),
+ * "Space" para a barra de espaço e prefixo "Shift+" só em teclas não
+ * imprimíveis (em "?" o Shift já está no próprio caractere). Combinações com
+ * Ctrl/Alt/Meta ficam para o navegador.
+ */
+
+export const SHORTCUT_ACTIONS = [
+    'playPause',
+    'seekBackward',
+    'seekForward',
+    'previousChapter',
+    'nextChapter',
+    'volumeUp',
+    'volumeDown',
+    'mute',
+    'fullscreen',
+    'pictureInPicture',
+    'subtitles',
+    'openSearch',
+    'goToMyList',
+    'showHelp',
+] as const;
+
+export type ShortcutAction = (typeof SHORTCUT_ACTIONS)[number];
+
+/** player = só com o player aberto; global = em qualquer página */
+export type ShortcutScope = 'player' | 'global';
+
+export const SHORTCUT_DEFINITIONS: Record<ShortcutAction, { scope: ShortcutScope; defaults: string[] }> = {
+    playPause: { scope: 'player', defaults: ['Space', 'k'] },
+    seekBackward: { scope: 'player', defaults: ['ArrowLeft'] },
+    seekForward: { scope: 'player', defaults: ['ArrowRight'] },
+    previousChapter: { scope: 'player', defaults: ['Shift+ArrowLeft'] },
+    nextChapter: { scope: 'player', defaults: ['Shift+ArrowRight'] },
+    volumeUp: { scope: 'player', defaults: ['ArrowUp'] },
+    volumeDown: { scope: 'player', defaults: ['ArrowDown'] },
+    mute: { scope: 'player', defaults: ['m'] },
+    fullscreen: { scope: 'player', defaults: ['f'] },
+    pictureInPicture: { scope: 'player', defaults: ['p'] },
+    subtitles: { scope: 'player', defaults: ['c'] },
+    openSearch: { scope: 'global', defaults: ['/'] },
+    goToMyList: { scope: 'global', defaults: ['l'] },
+    showHelp: { scope: 'global', defaults: ['?'] },
+};
+
+/** Atalhos por ação (padrão + personalizações) */
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+/** Personalizações salvas (lista vazia = ação sem atalho) */
+export type ShortcutOverrides = Partial<Record<ShortcutAction, string[]>>;
+
+/** Máximo de atalhos por ação */
+export const MAX_SHORTCUTS_PER_ACTION = 3;
+
+/** Teclas reservadas (navegação por teclado e fechar diálogos) */
+const RESERVED_KEYS = new Set(['Tab', 'Enter', 'Escape']);
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'AltGraph', 'Dead', 'Unidentified']);
+
+type ShortcutKeyEvent = Pick<KeyboardEvent, 'key' | 'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey'>;
+
+/**
+ * Atalho correspondente a um evento de teclado (null se não pode ser atalho).
+ */
+export function getShortcutFromEvent(event: ShortcutKeyEvent): string | null {
+    const { key } = event;
+    if (event.ctrlKey || event.altKey || event.metaKey) return null;
+    if (!key || MODIFIER_KEYS.has(key) || RESERVED_KEYS.has(key)) return null;
+
+    if (key === ' ') return 'Space';
+    if (key.length === 1) return key.toLowerCase();
+    return event.shiftKey ? `Shift+${key}` : key;
+}
+
+function isValidShortcut(shortcut: unknown): shortcut is string {
+    if (typeof shortcut !== 'string' || shortcut.length === 0 || shortcut.length > 24) return false;
+    const key = shortcut.startsWith('Shift+') ? shortcut.slice('Shift+'.length) : shortcut;
+    return !MODIFIER_KEYS.has(key) && !RESERVED_KEYS.has(key) && key !== ' ';
+}
+
+/**
+ * Lê personalizações salvas, descartando ações desconhecidas e atalhos inválidos.
+ */
+export function parseShortcutOverrides(value: unknown): ShortcutOverrides {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+    const overrides: ShortcutOverrides = {};
+    for (const action of SHORTCUT_ACTIONS) {
+        const shortcuts = (value as Record<string, unknown>)[action];
+        if (!Array.isArray(shortcuts)) continue;
+        overrides[action] = [...new Set(shortcuts.filter(isValidShortcut))].slice(0, MAX_SHORTCUTS_PER_ACTION);
+    }
+    return overrides;
+}
+
+export function resolveShortcutBindings(overrides: ShortcutOverrides = {}): ShortcutBindings {
+    const bindings = {} as ShortcutBindings;
+    for (const action of SHORTCUT_ACTIONS) {
+        bindings[action] = overrides[action] ?? SHORTCUT_DEFINITIONS[action].defaults;
+    }
+    return bindings;
+}
+
+/**
+ * Ação do atalho pressionado (só entre as ações do escopo informado).
+ */
+export function findShortcutAction(
+    bindings: ShortcutBindings,
+    shortcut: string,
+    scope: ShortcutScope
+): ShortcutAction | null {
+    for (const action of SHORTCUT_ACTIONS) {
+        if (SHORTCUT_DEFINITIONS[action].scope === scope && bindings[action].includes(shortcut)) {
+            return action;
+        }
+    }
+    return null;
+}
+
+/**
+ * Define o atalho de uma ação.
+ *
+ * O player e a navegação global ficam ativos ao mesmo tempo, então o atalho
+ * sai de qualquer outra ação que o usasse. Ações que voltam ao padrão saem
+ * das personalizações.
+ */
+export function assignShortcut(overrides: ShortcutOverrides, action: ShortcutAction, shortcut: string): ShortcutOverrides {
+    const bindings = resolveShortcutBindings(overrides);
+    const next: ShortcutOverrides = { ...overrides, [action]: [shortcut] };
+
+    for (const other of SHORTCUT_ACTIONS) {
+        if (other !== action && bindings[other].includes(shortcut)) {
+            next[other] = bindings[other].filter((binding) => binding !== shortcut);
+        }
+    }
+
+    for (const changed of SHORTCUT_ACTIONS) {
+        const value = next[changed];
+        if (value && value.join('\n') === SHORTCUT_DEFINITIONS[changed].defaults.join('\n')) {
+            delete next[changed];
+        }
+    }
+
+    return next;
+}
+
+const KEY_LABELS: Record<string, string> = {
+    Space: 'Space',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+};
+
+/**
+ * Texto do atalho para exibição (ex: "Shift + →", "K").
+ */
+export function formatShortcut(shortcut: string): string {
+    const hasShift = shortcut.startsWith('Shift+');
+    const key = hasShift ? shortcut.slice('Shift+'.length) : shortcut;
+    const label = KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+    return hasShift ? `Shift + ${label}` : label;
+}
@@ -0,0 +1,167 @@
+/**
+ * Downloads offline (PWA)
+ *
+ * - Os arquivos (MP4 ou playlist HLS + segmentos) ficam no cache
+ *   DOWNLOADS_CACHE do service worker e são servidos em /offline-media/<id>/...
+ * - Os metadados (título, progresso, licença) ficam no IndexedDB deste módulo;
+ *   o service worker lê a licença dali antes de servir qualquer arquivo
+ * - O download roda no service worker (public/sw.js), que avisa o progresso
+ *   às abas via postMessage (DOWNLOAD_PROGRESS / DOWNLOAD_COMPLETE / DOWNLOAD_ERROR)
+ */
+
+/** Nome do cache do service worker (não é apagado ao trocar a versão do SW) */
+export const DOWNLOADS_CACHE = 'yuialive-downloads';
+
+/** Prefixo das URLs servidas pelo service worker */
+export const OFFLINE_MEDIA_PATH = '/offline-media';
+
+/** Espaço livre mínimo antes de pedir a licença (o service worker confere o tamanho estimado depois) */
+export const MIN_FREE_BYTES_FOR_DOWNLOAD = 500 * 1024 * 1024;
+
+// public/sw.js abre o mesmo banco (OFFLINE_DB_*): manter os dois em sincronia
+const DB_NAME = 'yuialive-offline';
+const DB_VERSION = 1;
+const STORE = 'downloads';
+
+export type OfflineDownloadFormat = 'mp4' | 'hls';
+
+export type OfflineDownloadStatus = 'downloading' | 'completed' | 'failed';
+
+export interface OfflineDownloadContent {
+    tmdbId: number;
+    mediaType: 'movie' | 'tv';
+    season?: number;
+    episode?: number;
+    /** Título exibido na lista (ex: "Série - T1E2: Nome") */
+    title: string;
+}
+
+export interface OfflineDownload extends OfflineDownloadContent {
+    id: string;
+    format: OfflineDownloadFormat;
+    status: OfflineDownloadStatus;
+    receivedBytes: number;
+    /** Tamanho total (MP4 com Content-Length) ou null */
+    totalBytes: number | null;
+    /** Fração concluída (0-1) */
+    progress: number;
+    /** Chave i18n do erro (status failed) */
+    error?: string;
+    /** ISO — após isso o download não reproduz até renovar a licença online */
+    licenseExpiresAt: string;
+    createdAt: string;
+}
+
+/** Mensagens enviadas pelo service worker às abas */
+export type OfflineDownloadMessage =
+    | { type: 'DOWNLOAD_PROGRESS'; id: string; receivedBytes: number; totalBytes: number | null; progress: number }
+    | { type: 'DOWNLOAD_COMPLETE'; id: string; receivedBytes: number }
+    | { type: 'DOWNLOAD_ERROR'; id: string; error: 'quota' | 'network' };
+
+/**
+ * ID estável do download (um por filme ou episódio)
+ */
+export function getOfflineDownloadId(content: Pick<OfflineDownloadContent, 'tmdbId' | 'mediaType' | 'season' | 'episode'>): string {
+    return content.mediaType === 'tv'
+        ? `tv-${content.tmdbId}-${content.season ?? 1}-${content.episode ?? 1}`
+        : `movie-${content.tmdbId}`;
+}
+
+/**
+ * URL local (servida pelo service worker) para reproduzir o download
+ */
+export function getOfflineMediaUrl(id: string, format: OfflineDownloadFormat): string {
+    return `${OFFLINE_MEDIA_PATH}/${encodeURIComponent(id)}/${format === 'hls' ? 'index.m3u8' : 'video.mp4'}`;
+}
+
+/**
+ * Se há espaço para um download (estimativa de navigator.storage.estimate()).
+ *
+ * @param requiredBytes - Tamanho conhecido do arquivo; sem tamanho usa MIN_FREE_BYTES_FOR_DOWNLOAD
+ */
+export function hasDownloadQuota(
+    estimate: { quota?: number; usage?: number },
+    requiredBytes: number | null = null
+): boolean {
+    // Navegadores sem estimativa: deixa o service worker falhar com QuotaExceededError
+    if (estimate.quota === undefined) return true;
+
+    const free = estimate.quota - (estimate.usage ?? 0);
+    return free >= (requiredBytes ?? MIN_FREE_BYTES_FOR_DOWNLOAD);
+}
+
+/**
+ * Aplica uma mensagem do service worker ao registro do download.
+ */
+export function applyOfflineDownloadMessage(download: OfflineDownload, message: OfflineDownloadMessage): OfflineDownload {
+    switch (message.type) {
+        case 'DOWNLOAD_PROGRESS':
+            return {
+                ...download,
+                status: 'downloading',
+                receivedBytes: message.receivedBytes,
+                totalBytes: message.totalBytes,
+                progress: message.progress,
+            };
+        case 'DOWNLOAD_COMPLETE':
+            return {
+                ...download,
+                status: 'completed',
+                receivedBytes: message.receivedBytes,
+                totalBytes: message.receivedBytes,
+                progress: 1,
+                error: undefined,
+            };
+        case 'DOWNLOAD_ERROR':
+            return {
+                ...download,
+                status: 'failed',
+                error: message.error === 'quota' ? 'downloads.errors.quota' : 'downloads.errors.network',
+            };
+    }
+}
+
+// ─── IndexedDB ─────────────────────────────────────────────────────────────
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE, mode).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Downloads do dispositivo (mais recentes primeiro)
+ */
+export async function listOfflineDownloads(): Promise<OfflineDownload[]> {
+    const downloads = await withStore<OfflineDownload[]>('readonly', (store) => store.getAll());
+    return downloads.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function saveOfflineDownload(download: OfflineDownload): Promise<void> {
+    await withStore('readwrite', (store) => store.put(download));
+}
+
+export async function deleteOfflineDownload(id: string): Promise<void> {
+    await withStore('readwrite', (store) => store.delete(id));
+}
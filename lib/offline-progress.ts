@@ -0,0 +1,90 @@
+/**
+ * Fila de progresso offline
+ *
+ * Progresso que não chegou em /api/watch-history (sem conexão, ex: download
+ * reproduzido offline) fica no localStorage e é reenviado ao reconectar
+ * (hooks/useOfflineSync.ts). Só a posição mais recente de cada título é mantida.
+ */
+
+export const OFFLINE_PROGRESS_STORAGE_KEY = 'offline_watch_progress';
+
+/** Limite de títulos na fila (os mais antigos saem primeiro) */
+const MAX_QUEUED_ENTRIES = 100;
+
+/** Mesmo payload do POST /api/watch-history */
+export interface WatchProgressPayload {
+    tmdbId: number;
+    mediaType: 'movie' | 'tv';
+    progress: number;
+    positionSeconds: number;
+    durationSeconds: number;
+    seasonNumber?: number;
+    episodeNumber?: number;
+}
+
+interface QueueStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+function getProgressKey(entry: WatchProgressPayload): string {
+    return `${entry.mediaType}:${entry.tmdbId}:${entry.seasonNumber ?? 0}:${entry.episodeNumber ?? 0}`;
+}
+
+export function loadOfflineProgress(storage: QueueStorage): WatchProgressPayload[] {
+    try {
+        const parsed = JSON.parse(storage.getItem(OFFLINE_PROGRESS_STORAGE_KEY) || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Adiciona (ou substitui) o progresso de um título na fila.
+ */
+export function queueOfflineProgress(storage: QueueStorage, entry: WatchProgressPayload): void {
+    const key = getProgressKey(entry);
+    const queue = loadOfflineProgress(storage).filter((queued) => getProgressKey(queued) !== key);
+    queue.push(entry);
+
+    try {
+        storage.setItem(OFFLINE_PROGRESS_STORAGE_KEY, JSON.stringify(queue.slice(-MAX_QUEUED_ENTRIES)));
+    } catch {
+        // Storage cheio ou bloqueado: o progresso deste trecho se perde
+    }
+}
+
+/**
+ * Reenvia a fila; entradas que falharem continuam para a próxima tentativa.
+ *
+ * @returns Quantidade enviada com sucesso
+ */
+export async function flushOfflineProgress(
+    storage: QueueStorage,
+    send: (entry: WatchProgressPayload) => Promise<boolean>
+): Promise<number> {
+    const queue = loadOfflineProgress(storage);
+    if (queue.length === 0) return 0;
+
+    const failed: WatchProgressPayload[] = [];
+    for (const entry of queue) {
+        if (!(await send(entry).catch(() => false))) failed.push(entry);
+    }
+
+    // Progresso novo pode ter entrado na fila durante o envio
+    const attempted = new Set(queue.map((entry) => JSON.stringify(entry)));
+    const pending = loadOfflineProgress(storage).filter((entry) => !attempted.has(JSON.stringify(entry)));
+    const pendingKeys = new Set(pending.map(getProgressKey));
+    // Uma falha não sobrescreve progresso mais novo do mesmo título
+    const remaining = [...failed.filter((entry) => !pendingKeys.has(getProgressKey(entry))), ...pending];
+
+    if (remaining.length > 0) {
+        storage.setItem(OFFLINE_PROGRESS_STORAGE_KEY, JSON.stringify(remaining));
+    } else {
+        storage.removeItem(OFFLINE_PROGRESS_STORAGE_KEY);
+    }
+
+    return queue.length - failed.length;
+}
@@ -9,9 +9,18 @@
  * 2. Se PAYMENT_WEBHOOK_SECRET configurado → PAYMENT_CHECKOUT_URL obrigatório
  * 3. Ambos vazios → Modo desenvolvimento (permite página de exemplo)
  * 4. Ambos configurados → Modo produção (validação completa)
+ * 5. PAYMENT_WEBHOOK_SECRET_PREVIOUS (rotação) exige PAYMENT_WEBHOOK_SECRET
+ * 6. PAYMENT_WEBHOOK_TOLERANCE_SECONDS deve ser um inteiro entre 1 e 3600
  */
 
 import { PAYMENT_CHECKOUT_URL, PAYMENT_API_TOKEN, APP_URL } from './config';
+import { DEFAULT_WEBHOOK_TOLERANCE_SECONDS } from './webhook-signature';
+
+/** Limite da janela de tolerância do timestamp (1 hora) */
+const MAX_WEBHOOK_TOLERANCE_SECONDS = 3600;
+
+/** Tamanho mínimo recomendado para o segredo (openssl rand -hex 32 gera 64) */
+const MIN_WEBHOOK_SECRET_LENGTH = 32;
 
 // URL da página de exemplo (absoluta e relativa)
 const EXAMPLE_CHECKOUT_PATHS = [
@@ -41,11 +50,54 @@ function getWebhookSecret(): string | undefined {
     return process.env.PAYMENT_WEBHOOK_SECRET?.trim() || undefined;
 }
 
+/**
+ * Obtém PAYMENT_WEBHOOK_SECRET_PREVIOUS (segredo antigo, válido durante a rotação)
+ */
+function getPreviousWebhookSecret(): string | undefined {
+    return process.env.PAYMENT_WEBHOOK_SECRET_PREVIOUS?.trim() || undefined;
+}
+
+/**
+ * Lê PAYMENT_WEBHOOK_TOLERANCE_SECONDS (padrão: 300)
+ *
+ * @throws Error se não for um inteiro entre 1 e MAX_WEBHOOK_TOLERANCE_SECONDS
+ */
+function getWebhookToleranceSeconds(): number {
+    const raw = process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS?.trim();
+    if (!raw) return DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_WEBHOOK_TOLERANCE_SECONDS) {
+        const errorMsg = [
+            '',
+            '╔════════════════════════════════════════════════════════════════╗',
+            '║  ❌ PAYMENT CONFIGURATION ERROR                                ║',
+            '╠════════════════════════════════════════════════════════════════╣',
+            '║                                                                ║',
+            '║  PAYMENT_WEBHOOK_TOLERANCE_SECONDS must be an integer          ║',
+            '║  between 1 and 3600 (default: 300).                            ║',
+            '║                                                                ║',
+            '║  It is the maximum age of a signed webhook timestamp.          ║',
+            '║                                                                ║',
+            '╚════════════════════════════════════════════════════════════════╝',
+            '',
+        ].join('\n');
+
+        console.error(errorMsg);
+        throw new Error(`Invalid PAYMENT_WEBHOOK_TOLERANCE_SECONDS: ${raw}`);
+    }
+
+    return value;
+}
+
 export interface PaymentConfig {
     mode: 'development' | 'production';
     requiresSecretValidation: boolean;
     checkoutUrl: string | undefined;
     hasWebhookSecret: boolean;
+    /** Segredo anterior ainda aceito (rotação em andamento) */
+    hasPreviousWebhookSecret: boolean;
+    webhookToleranceSeconds: number;
 }
 
 /**
@@ -56,11 +108,38 @@ export interface PaymentConfig {
 export function validatePaymentConfig(): PaymentConfig {
     const checkoutUrl = PAYMENT_CHECKOUT_URL?.trim() || undefined;
     const webhookSecret = getWebhookSecret();
+    const previousWebhookSecret = getPreviousWebhookSecret();
+    const webhookToleranceSeconds = getWebhookToleranceSeconds();
     
     const isExampleUrl = isExampleCheckoutUrl(checkoutUrl);
     const hasCheckoutUrl = !isExampleUrl && !!checkoutUrl;
     const hasWebhookSecret = !!webhookSecret;
 
+    // ═══════════════════════════════════════════════════════════════
+    // ROTAÇÃO: segredo anterior sem o atual
+    // ═══════════════════════════════════════════════════════════════
+    if (previousWebhookSecret && !hasWebhookSecret) {
+        const errorMsg = [
+            '',
+            '╔════════════════════════════════════════════════════════════════╗',
+            '║  ❌ PAYMENT CONFIGURATION ERROR                                ║',
+            '╠════════════════════════════════════════════════════════════════╣',
+            '║                                                                ║',
+            '║  PAYMENT_WEBHOOK_SECRET_PREVIOUS is configured but             ║',
+            '║  PAYMENT_WEBHOOK_SECRET is missing or empty.                   ║',
+            '║                                                                ║',
+            '║  During a rotation, set the NEW secret in                      ║',
+            '║  PAYMENT_WEBHOOK_SECRET and keep the old one in                ║',
+            '║  PAYMENT_WEBHOOK_SECRET_PREVIOUS until the gateway switches.   ║',
+            '║                                                                ║',
+            '╚════════════════════════════════════════════════════════════════╝',
+            '',
+        ].join('\n');
+
+        console.error(errorMsg);
+        throw new Error('PAYMENT_WEBHOOK_SECRET is required when PAYMENT_WEBHOOK_SECRET_PREVIOUS is configured');
+    }
+
     // ═══════════════════════════════════════════════════════════════
     // CENÁRIO 1: Modo Desenvolvimento (ambos vazios)
     // ═══════════════════════════════════════════════════════════════
@@ -70,6 +149,8 @@ export function validatePaymentConfig(): PaymentConfig {
             requiresSecretValidation: false,
             checkoutUrl: undefined,
             hasWebhookSecret: false,
+            hasPreviousWebhookSecret: false,
+            webhookToleranceSeconds,
         };
     }
 
@@ -139,11 +220,21 @@ export function validatePaymentConfig(): PaymentConfig {
     // CENÁRIO 4: Modo Produção (ambos configurados)
     // ═══════════════════════════════════════════════════════════════
     if (hasCheckoutUrl && hasWebhookSecret) {
+        if ((webhookSecret?.length ?? 0) < MIN_WEBHOOK_SECRET_LENGTH) {
+            console.warn(`⚠️  PAYMENT_WEBHOOK_SECRET has fewer than ${MIN_WEBHOOK_SECRET_LENGTH} characters. Generate one with: openssl rand -hex 32`);
+        }
+
+        if (previousWebhookSecret === webhookSecret) {
+            console.warn('⚠️  PAYMENT_WEBHOOK_SECRET_PREVIOUS is the same as PAYMENT_WEBHOOK_SECRET — remove it once the rotation is done.');
+        }
+
         return {
             mode: 'production',
             requiresSecretValidation: true,
             checkoutUrl,
             hasWebhookSecret: true,
+            hasPreviousWebhookSecret: !!previousWebhookSecret && previousWebhookSecret !== webhookSecret,
+            webhookToleranceSeconds,
         };
     }
 
@@ -179,11 +270,23 @@ export function requiresWebhookSecretValidation(): boolean {
 }
 
 /**
- * Obtém o webhook secret (apenas para uso interno do servidor)
+ * Obtém os segredos aceitos na assinatura do webhook: o atual e, durante a
+ * rotação, o anterior (apenas para uso interno do servidor)
  */
-export function getPaymentWebhookSecret(): string | undefined {
+export function getPaymentWebhookSecrets(): string[] {
     if (!requiresWebhookSecretValidation()) {
-        return undefined;
+        return [];
     }
-    return getWebhookSecret();
+
+    const secrets = [getWebhookSecret(), getPreviousWebhookSecret()]
+        .filter((secret): secret is string => !!secret);
+
+    return [...new Set(secrets)];
+}
+
+/**
+ * Janela de tolerância do timestamp assinado (segundos)
+ */
+export function getPaymentWebhookToleranceSeconds(): number {
+    return getPaymentConfig().webhookToleranceSeconds;
 }
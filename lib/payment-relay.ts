@@ -0,0 +1,75 @@
+import { PAYMENT_API_TOKEN, PAYMENT_WEBHOOK_RELAY_URL } from '@/lib/config';
+
+/**
+ * Relay de Eventos de Pagamento
+ *
+ * Envia eventos para PAYMENT_WEBHOOK_RELAY_URL (Bearer PAYMENT_API_TOKEN):
+ * - webhooks recebidos do gateway, depois de aplicados
+ * - mudanças de assinatura feitas aqui (cancelamento agendado, retomada),
+ *   para o sistema de cobrança parar ou voltar a renovar
+ *
+ * Server-only (usa o token da API de pagamento).
+ */
+
+export type SubscriptionRelayEventType = 'subscription.cancel_scheduled' | 'subscription.resumed';
+
+export interface SubscriptionRelayEvent {
+    type: SubscriptionRelayEventType;
+    userId: string;
+    planId: string;
+    /** Referência da assinatura no gateway (null se o gateway nunca a informou) */
+    subscriptionId: string | null;
+    /** Fim do período atual: última cobrança já paga */
+    currentPeriodEnd: string;
+}
+
+export function isPaymentRelayConfigured(): boolean {
+    return PAYMENT_WEBHOOK_RELAY_URL.trim() !== '';
+}
+
+/**
+ * POST do evento no relay.
+ *
+ * @throws {Error} Se o relay responder com erro
+ */
+export async function sendToPaymentRelay(event: unknown): Promise<void> {
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+    };
+
+    if (PAYMENT_API_TOKEN) {
+        headers['Authorization'] = `Bearer ${PAYMENT_API_TOKEN}`;
+    }
+
+    const response = await fetch(PAYMENT_WEBHOOK_RELAY_URL, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(event),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Payment relay error: ${response.status}`);
+    }
+}
+
+/**
+ * Avisa o sistema de cobrança sobre um cancelamento agendado ou uma retomada.
+ *
+ * Sem relay configurado, o gateway não fica sabendo e continua cobrando: em
+ * produção isso é registrado como erro de configuração, mas a mudança local
+ * segue (renovações de uma assinatura com cancelamento agendado não desfazem
+ * o cancelamento, ver activatePaidSubscription).
+ *
+ * @throws {Error} Se o relay recusar o evento (a mudança local não deve ser salva)
+ */
+export async function notifySubscriptionChange(event: SubscriptionRelayEvent): Promise<void> {
+    if (!isPaymentRelayConfigured()) {
+        if (process.env.NODE_ENV === 'production') {
+            console.error(`❌ [Payment] PAYMENT_WEBHOOK_RELAY_URL não configurada: ${event.type} de ${event.userId} não foi enviado ao gateway`);
+        }
+        return;
+    }
+
+    await sendToPaymentRelay(event);
+    console.log(`✅ [Payment] ${event.type} enviado ao gateway:`, { userId: event.userId, subscriptionId: event.subscriptionId });
+}
@@ -0,0 +1,172 @@
+import type { VideoQuality } from '@/hooks/useVideoPlayer';
+
+/**
+ * Entitlements de qualidade por plano
+ *
+ * Cada plano define a resolução máxima (Plan.maxQuality) e se inclui HDR
+ * (Plan.hdr). O get-url envia o limite ao backend e filtra as qualidades da
+ * resposta — membros de família herdam o plano do owner (ver getUserPlanInfo).
+ *
+ * Rótulos de qualidade vêm do backend em formatos variados ("1080p",
+ * "4K HDR", "2160p", "Full HD"); qualidades sem resolução reconhecível são
+ * descartadas quando o plano tem limite, exceto "auto" (stream adaptativo,
+ * limitado pelo próprio backend).
+ */
+
+export const MAX_QUALITY_TIERS = ['720p', '1080p', '4K'] as const;
+
+export type MaxQuality = (typeof MAX_QUALITY_TIERS)[number];
+
+export interface QualityEntitlement {
+    maxQuality: MaxQuality;
+    hdr: boolean;
+}
+
+/** Altura (em linhas) de cada nível de plano */
+const TIER_HEIGHTS: Record<MaxQuality, number> = {
+    '720p': 720,
+    '1080p': 1080,
+    '4K': 2160,
+};
+
+/** Sem limite (planos antigos sem os campos, ou valor desconhecido no banco) */
+export const DEFAULT_QUALITY_ENTITLEMENT: QualityEntitlement = { maxQuality: '4K', hdr: true };
+
+/**
+ * Entitlements dos planos do seed (para a vitrine de planos, que não consulta o banco).
+ * Manter em sincronia com prisma/seed.ts.
+ */
+export const PLAN_QUALITY_ENTITLEMENTS: Record<string, QualityEntitlement> = {
+    plan_individual: { maxQuality: '720p', hdr: false },
+    plan_duo: { maxQuality: '1080p', hdr: false },
+    plan_familia: { maxQuality: '4K', hdr: true },
+};
+
+export function isMaxQuality(value: unknown): value is MaxQuality {
+    return typeof value === 'string' && (MAX_QUALITY_TIERS as readonly string[]).includes(value);
+}
+
+/**
+ * Entitlement de um registro de Plan (valores inválidos caem no padrão).
+ */
+export function getQualityEntitlement(plan: { maxQuality?: string | null; hdr?: boolean | null }): QualityEntitlement {
+    return {
+        maxQuality: isMaxQuality(plan.maxQuality) ? plan.maxQuality : DEFAULT_QUALITY_ENTITLEMENT.maxQuality,
+        hdr: plan.hdr ?? DEFAULT_QUALITY_ENTITLEMENT.hdr,
+    };
+}
+
+/**
+ * Resolução máxima de um nível de plano.
+ *
+ * @example
+ * getMaxQualityHeight('1080p') // 1080
+ */
+export function getMaxQualityHeight(maxQuality: MaxQuality): number {
+    return TIER_HEIGHTS[maxQuality];
+}
+
+/**
+ * Resolução de um rótulo de qualidade (null se não reconhecida).
+ *
+ * @example
+ * getQualityHeight('1080p') // 1080
+ * getQualityHeight('4K HDR') // 2160
+ */
+export function getQualityHeight(label: string): number | null {
+    const normalized = label.toLowerCase();
+
+    const pixels = normalized.match(/(\d{3,4})p/);
+    if (pixels) return Number(pixels[1]);
+
+    if (/\b(4k|uhd)\b/.test(normalized)) return 2160;
+    if (/\b(full ?hd|fhd)\b/.test(normalized)) return 1080;
+    if (/\bhd\b/.test(normalized)) return 720;
+    if (/\bsd\b/.test(normalized)) return 480;
+
+    return null;
+}
+
+export function isHdrQuality(label: string): boolean {
+    return /\b(hdr|hdr10\+?|dolby ?vision|dv)\b/i.test(label);
+}
+
+function isAutoQuality(label: string): boolean {
+    return label.toLowerCase() === 'auto';
+}
+
+/**
+ * Qualidades permitidas pelo plano (na ordem original).
+ */
+export function filterQualitiesForPlan(qualities: VideoQuality[], entitlement: QualityEntitlement): VideoQuality[] {
+    const maxHeight = TIER_HEIGHTS[entitlement.maxQuality];
+    const unlimited = entitlement.maxQuality === '4K' && entitlement.hdr;
+
+    return qualities.filter((quality) => {
+        if (isAutoQuality(quality.label)) return true;
+        if (!entitlement.hdr && isHdrQuality(quality.label)) return false;
+
+        const height = getQualityHeight(quality.label);
+        if (height === null) return unlimited;
+        return height <= maxHeight;
+    });
+}
+
+/** Maior qualidade da lista ("auto" só se não houver outra) */
+function getBestQuality(qualities: VideoQuality[]): VideoQuality | undefined {
+    let best: VideoQuality | undefined;
+    let bestHeight = -1;
+
+    for (const quality of qualities) {
+        const height = isAutoQuality(quality.label) ? -1 : getQualityHeight(quality.label) ?? 0;
+        if (!best || height > bestHeight) {
+            best = quality;
+            bestHeight = height;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Qualidade inicial dentro do plano.
+ *
+ * Mantém a padrão do backend se permitida; senão usa a maior qualidade
+ * permitida.
+ */
+export function capDefaultQuality(defaultQuality: string | undefined, allowed: VideoQuality[]): string | undefined {
+    if (!defaultQuality || allowed.some((quality) => quality.label === defaultQuality)) {
+        return defaultQuality;
+    }
+    return getBestQuality(allowed)?.label;
+}
+
+/**
+ * Aplica o entitlement do plano à resposta do backend.
+ *
+ * Se a URL principal era de uma qualidade removida, passa a ser a da
+ * qualidade padrão limitada (URLs de stream adaptativo ficam como estão).
+ *
+ * @returns null se nenhuma fonte de vídeo couber no plano
+ */
+export function applyQualityEntitlement(
+    source: { url: string; qualities: VideoQuality[]; defaultQuality?: string },
+    entitlement: QualityEntitlement
+): { url: string; qualities: VideoQuality[]; defaultQuality?: string } | null {
+    const qualities = filterQualitiesForPlan(source.qualities, entitlement);
+    const defaultQuality = capDefaultQuality(source.defaultQuality, qualities);
+
+    let url = source.url;
+    const removed = source.qualities.some((quality) => quality.url === url && !qualities.includes(quality));
+    if (removed) {
+        const fallback = qualities.find((quality) => quality.label === defaultQuality) ?? getBestQuality(qualities);
+        if (!fallback) return null;
+        url = fallback.url;
+    }
+
+    return {
+        url,
+        qualities,
+        ...(defaultQuality && { defaultQuality }),
+    };
+}
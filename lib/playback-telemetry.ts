@@ -0,0 +1,134 @@
+import { z } from 'zod';
+
+/**
+ * Playback Telemetry (Quality of Experience)
+ *
+ * Agrega os beacons enviados pelo player para /api/playback/telemetry e
+ * expõe os totais em /api/metrics/cache?format=prometheus.
+ *
+ * Regras:
+ * - Cada sessão de reprodução envia vários beacons com DELTAS desde o
+ *   anterior (o servidor só soma); `sequence` 0 abre a sessão
+ * - Agregação por backend + título (episódios somam na série)
+ * - Backend desconhecido vira "unknown" e só os títulos mais recentes são
+ *   mantidos, para limitar a cardinalidade das métricas
+ */
+
+/** Máximo de combinações backend + título mantidas em memória */
+const MAX_TRACKED_SERIES = 500;
+
+export const FATAL_ERROR_TYPES = ['network', 'media', 'source', 'other'] as const;
+
+export type FatalErrorType = typeof FATAL_ERROR_TYPES[number];
+
+export const playbackTelemetrySchema = z.object({
+    sessionId: z.string().min(8).max(64),
+    sequence: z.number().int().min(0),
+    tmdbId: z.number().int().positive(),
+    mediaType: z.enum(['movie', 'tv']),
+    backend: z.string().max(64).optional(),
+    startupMs: z.number().min(0).max(600_000).optional(),
+    rebufferCount: z.number().int().min(0).max(10_000).default(0),
+    rebufferMs: z.number().min(0).max(86_400_000).default(0),
+    qualitySwitches: z.number().int().min(0).max(10_000).default(0),
+    droppedFrames: z.number().int().min(0).max(10_000_000).default(0),
+    fatalErrors: z.array(z.enum(FATAL_ERROR_TYPES)).max(50).default([]),
+});
+
+export type PlaybackTelemetryReport = z.input<typeof playbackTelemetrySchema>;
+
+export interface PlaybackTelemetryStats {
+    backend: string;
+    mediaType: 'movie' | 'tv';
+    tmdbId: number;
+    sessions: number;
+    startupCount: number;
+    startupMsSum: number;
+    rebufferCount: number;
+    rebufferMs: number;
+    qualitySwitches: number;
+    droppedFrames: number;
+    fatalErrors: Record<FatalErrorType, number>;
+}
+
+// Contadores do processo, como os do metricsStore: o Prometheus coleta cada
+// instância separadamente e rate()/increase() tratam o zeramento após restart
+const series = new Map<string, PlaybackTelemetryStats>();
+
+function getSeries(backend: string, mediaType: 'movie' | 'tv', tmdbId: number): PlaybackTelemetryStats {
+    const key = `${backend}|${mediaType}|${tmdbId}`;
+    let entry = series.get(key);
+
+    if (entry) {
+        // Reinserir mantém a ordem do Map como "usado mais recentemente por último"
+        series.delete(key);
+    } else {
+        entry = {
+            backend,
+            mediaType,
+            tmdbId,
+            sessions: 0,
+            startupCount: 0,
+            startupMsSum: 0,
+            rebufferCount: 0,
+            rebufferMs: 0,
+            qualitySwitches: 0,
+            droppedFrames: 0,
+            fatalErrors: { network: 0, media: 0, source: 0, other: 0 },
+        };
+
+        if (series.size >= MAX_TRACKED_SERIES) {
+            const oldest = series.keys().next().value;
+            if (oldest !== undefined) series.delete(oldest);
+        }
+    }
+
+    series.set(key, entry);
+    return entry;
+}
+
+/**
+ * Soma um beacon validado aos totais.
+ *
+ * @param knownBackends - Nomes dos backends configurados (outros viram "unknown")
+ */
+export function recordPlaybackTelemetry(
+    report: z.output<typeof playbackTelemetrySchema>,
+    knownBackends: string[]
+): void {
+    const backend = report.backend && knownBackends.includes(report.backend) ? report.backend : 'unknown';
+    const entry = getSeries(backend, report.mediaType, report.tmdbId);
+
+    if (report.sequence === 0) entry.sessions++;
+
+    if (report.startupMs !== undefined) {
+        entry.startupCount++;
+        entry.startupMsSum += report.startupMs;
+    }
+
+    entry.rebufferCount += report.rebufferCount;
+    entry.rebufferMs += report.rebufferMs;
+    entry.qualitySwitches += report.qualitySwitches;
+    entry.droppedFrames += report.droppedFrames;
+
+    for (const type of report.fatalErrors) {
+        entry.fatalErrors[type]++;
+    }
+}
+
+/**
+ * Snapshot dos totais por backend + título (para /api/metrics/cache)
+ */
+export function getPlaybackTelemetryStats(): PlaybackTelemetryStats[] {
+    return Array.from(series.values()).map((entry) => ({
+        ...entry,
+        fatalErrors: { ...entry.fatalErrors },
+    }));
+}
+
+/**
+ * Limpa os totais (testes)
+ */
+export function resetPlaybackTelemetry(): void {
+    series.clear();
+}
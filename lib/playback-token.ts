@@ -0,0 +1,204 @@
+/**
+ * Playback Token Utilities
+ *
+ * Tokens de reprodução assinados (HMAC-SHA256) que substituem as URLs
+ * reais do backend de streaming no navegador.
+ *
+ * Formato: `<payload base64url>.<assinatura base64url>`
+ *
+ * - O payload amarra o token ao usuário, à sessão e ao conteúdo
+ * - A URL real é cifrada (AES-256-GCM) — o token não revela a origem do vídeo
+ * - Tokens expiram em PLAYBACK_TOKEN_TTL_SECONDS (ou antes, se o backend expirar antes)
+ * - A rota /api/streaming/play/[token]/[filename] exige que a sessão do token ainda exista,
+ *   então revogar a sessão invalida todos os seus tokens
+ */
+
+import { createHash, createHmac, createCipheriv, createDecipheriv, randomBytes, timingSafeEqual } from 'crypto';
+import { BETTER_AUTH_SECRET, PLAYBACK_TOKEN_SECRET } from '@/lib/config';
+
+/** Validade máxima de um token de reprodução (segundos) */
+export const PLAYBACK_TOKEN_TTL_SECONDS = 10 * 60;
+
+/** Validade de um token de legenda (segundos) — o <track> só é baixado quando a legenda é ativada */
+export const SUBTITLE_TOKEN_TTL_SECONDS = 4 * 60 * 60;
+
+export interface PlaybackTokenClaims {
+    /** ID do usuário */
+    userId: string;
+    /** ID da sessão Better Auth que pediu a URL */
+    sessionId: string;
+    tmdbId: number;
+    mediaType: 'movie' | 'tv';
+    season?: number;
+    episode?: number;
+    /** URL real do backend */
+    url: string;
+    /** Expiração (epoch em segundos) */
+    exp: number;
+}
+
+interface EncodedPayload {
+    uid: string;
+    sid: string;
+    tid: number;
+    mt: 'movie' | 'tv';
+    s?: number;
+    e?: number;
+    exp: number;
+    /** URL cifrada: iv.ciphertext.authTag (base64url) */
+    u: string;
+}
+
+export type PlaybackTokenVerification =
+    | { valid: true; claims: PlaybackTokenClaims }
+    | { valid: false; reason: 'malformed' | 'signature' | 'expired' };
+
+// Chaves derivadas do segredo — uma para assinar e outra para cifrar
+function deriveKey(purpose: string): Buffer {
+    const secret = PLAYBACK_TOKEN_SECRET || BETTER_AUTH_SECRET;
+    if (!secret) {
+        throw new Error('PLAYBACK_TOKEN_SECRET (ou BETTER_AUTH_SECRET) não configurada');
+    }
+    return createHash('sha256').update(`${purpose}:${secret}`).digest();
+}
+
+function sign(data: string): string {
+    return createHmac('sha256', deriveKey('playback-token:sign')).update(data).digest('base64url');
+}
+
+function encryptUrl(url: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey('playback-token:encrypt'), iv);
+    const ciphertext = Buffer.concat([cipher.update(url, 'utf8'), cipher.final()]);
+    return [iv, ciphertext, cipher.getAuthTag()].map((part) => part.toString('base64url')).join('.');
+}
+
+function decryptUrl(encrypted: string): string | null {
+    const [iv, ciphertext, authTag] = encrypted.split('.').map((part) => Buffer.from(part, 'base64url'));
+    if (!iv || !ciphertext || !authTag) return null;
+
+    try {
+        const decipher = createDecipheriv('aes-256-gcm', deriveKey('playback-token:encrypt'), iv);
+        decipher.setAuthTag(authTag);
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Cria um token de reprodução assinado.
+ *
+ * @param claims - Dados do token (exp em epoch segundos)
+ * @returns Token opaco para usar em /api/streaming/play/[token]/[filename]
+ */
+export function createPlaybackToken(claims: PlaybackTokenClaims): string {
+    const payload: EncodedPayload = {
+        uid: claims.userId,
+        sid: claims.sessionId,
+        tid: claims.tmdbId,
+        mt: claims.mediaType,
+        ...(claims.season && { s: claims.season }),
+        ...(claims.episode && { e: claims.episode }),
+        exp: claims.exp,
+        u: encryptUrl(claims.url),
+    };
+
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Valida assinatura e expiração de um token de reprodução.
+ * Não verifica a sessão — isso cabe à rota, que tem acesso à sessão atual.
+ */
+export function verifyPlaybackToken(token: string, now = Date.now()): PlaybackTokenVerification {
+    const [encoded, signature, ...rest] = token.split('.');
+    if (!encoded || !signature || rest.length > 0) {
+        return { valid: false, reason: 'malformed' };
+    }
+
+    // Comparação em tempo constante
+    const expected = Buffer.from(sign(encoded));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+        return { valid: false, reason: 'signature' };
+    }
+
+    let payload: EncodedPayload;
+    try {
+        payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+        return { valid: false, reason: 'malformed' };
+    }
+
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= now) {
+        return { valid: false, reason: 'expired' };
+    }
+
+    const url = decryptUrl(payload.u);
+    if (!url) {
+        return { valid: false, reason: 'malformed' };
+    }
+
+    return {
+        valid: true,
+        claims: {
+            userId: payload.uid,
+            sessionId: payload.sid,
+            tmdbId: payload.tid,
+            mediaType: payload.mt,
+            ...(payload.s && { season: payload.s }),
+            ...(payload.e && { episode: payload.e }),
+            url,
+            exp: payload.exp,
+        },
+    };
+}
+
+/**
+ * Calcula a expiração do token: o menor entre o TTL padrão e a expiração
+ * informada pelo backend (URLs assinadas de CDN).
+ *
+ * @returns Epoch em segundos
+ */
+export function resolvePlaybackTokenExpiry(backendExpiresAt?: string | null, now = Date.now()): number {
+    const defaultExp = Math.floor(now / 1000) + PLAYBACK_TOKEN_TTL_SECONDS;
+    if (!backendExpiresAt) return defaultExp;
+
+    const backendExp = Math.floor(new Date(backendExpiresAt).getTime() / 1000);
+    if (!Number.isFinite(backendExp)) return defaultExp;
+
+    return Math.min(defaultExp, backendExp);
+}
+
+/**
+ * Monta a URL pública (same-origin) para um token de reprodução.
+ *
+ * O último segmento repete o nome do arquivo original (ex: master.m3u8)
+ * para que o player detecte o formato (HLS/DASH/MP4) pela extensão.
+ */
+export function getPlaybackUrl(token: string, originalUrl: string): string {
+    let filename = 'stream';
+    try {
+        filename = new URL(originalUrl).pathname.split('/').filter(Boolean).pop() || filename;
+    } catch {
+        // URL relativa ou inválida — mantém o nome genérico
+    }
+    return `/api/streaming/play/${token}/${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Monta a URL pública do conversor de legendas para um token.
+ *
+ * O nome do arquivo troca a extensão por .vtt, o formato entregue pelo conversor.
+ */
+export function getSubtitleUrl(token: string, originalUrl: string): string {
+    let filename = 'subtitle';
+    try {
+        filename = new URL(originalUrl).pathname.split('/').filter(Boolean).pop()?.replace(/\.[^.]*$/, '') || filename;
+    } catch {
+        // URL relativa ou inválida — mantém o nome genérico
+    }
+    return `/api/streaming/subtitles/${token}/${encodeURIComponent(filename)}.vtt`;
+}
@@ -1,6 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { TMDB_API_URL, TMDB_API_KEY, SITE_LANGUAGE } from '@/lib/config';
-import { COMPLETION_THRESHOLD, MINIMUM_PROGRESS_THRESHOLD } from '@/lib/watch-constants';
+import { isWatchCompleted, isWatchInProgress } from '@/lib/watch-progress';
 
 /**
  * Re-export the shared constants for convenience in server-side code.
@@ -17,6 +17,8 @@ export interface ResumeEpisodeResult {
     episode: number;
     /** Progress percentage of this episode (0 = unwatched, > 0 = in progress) */
     progress: number;
+    /** Exact position to resume from (seconds), when known */
+    positionSeconds?: number;
 }
 
 /**
@@ -26,6 +28,8 @@ interface WatchHistoryRecord {
     seasonNumber: number;
     episodeNumber: number;
     progress: number;
+    positionSeconds?: number | null;
+    durationSeconds?: number | null;
     lastWatchedAt: Date;
 }
 
@@ -53,9 +57,9 @@ export function resolveResumeEpisode(
         return { season: 1, episode: 1, progress: 0 };
     }
 
-    // 1. Check for in-progress episodes (MINIMUM_PROGRESS_THRESHOLD < progress < threshold)
+    // 1. Check for in-progress episodes (started but not completed by % or remaining time)
     const inProgressEpisodes = episodes
-        .filter(ep => ep.progress >= MINIMUM_PROGRESS_THRESHOLD && ep.progress < COMPLETION_THRESHOLD)
+        .filter(ep => isWatchInProgress(ep))
         .sort((a, b) =>
             new Date(b.lastWatchedAt).getTime() - new Date(a.lastWatchedAt).getTime()
         );
@@ -66,12 +70,13 @@ export function resolveResumeEpisode(
             season: current.seasonNumber,
             episode: current.episodeNumber,
             progress: current.progress,
+            ...(current.positionSeconds && { positionSeconds: current.positionSeconds }),
         };
     }
 
     // 2. All watched episodes are completed — find the furthest completed
     const completedEpisodes = episodes
-        .filter(ep => ep.progress >= COMPLETION_THRESHOLD)
+        .filter(ep => isWatchCompleted(ep))
         .sort((a, b) => {
             if (a.seasonNumber !== b.seasonNumber) return b.seasonNumber - a.seasonNumber;
             return b.episodeNumber - a.episodeNumber;
@@ -118,11 +123,12 @@ export function resolveResumeEpisode(
             ep => ep.seasonNumber === nextSeason && ep.episodeNumber === nextEpisode
         );
 
-        if (!existingEp || existingEp.progress < COMPLETION_THRESHOLD) {
+        if (!existingEp || !isWatchCompleted(existingEp)) {
             return {
                 season: nextSeason,
                 episode: nextEpisode,
                 progress: existingEp?.progress || 0,
+                ...(existingEp?.positionSeconds && { positionSeconds: existingEp.positionSeconds }),
             };
         }
 
@@ -149,9 +155,7 @@ export async function computeResumeEpisode(
     });
 
     // Early exit: no need for TMDB data if there's an in-progress episode or no history
-    const hasInProgress = episodes.some(
-        ep => ep.progress >= MINIMUM_PROGRESS_THRESHOLD && ep.progress < COMPLETION_THRESHOLD
-    );
+    const hasInProgress = episodes.some(ep => isWatchInProgress(ep));
     if (episodes.length === 0 || hasInProgress) {
         return resolveResumeEpisode(episodes, null);
     }
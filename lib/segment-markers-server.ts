@@ -0,0 +1,59 @@
+/**
+ * Segment Markers Server-Side Utilities
+ *
+ * Funções que dependem de Prisma/banco de dados (só podem ser usadas no servidor)
+ * Para funções puras (client-safe), use @/lib/segment-markers
+ */
+
+import { prisma } from '@/lib/prisma';
+import { SEGMENT_TYPES, type SegmentMarker, type SegmentType } from '@/lib/segment-markers';
+
+/**
+ * Busca os marcadores cadastrados para um filme ou episódio
+ *
+ * ⚠️ SERVER-ONLY: Usa Prisma, não pode ser usado em Client Components
+ *
+ * Para séries, marcadores do título inteiro (temporada 0, episódio 0) valem
+ * para todos os episódios e são substituídos pelos do episódio, por tipo.
+ *
+ * @param seasonNumber - Temporada (0 para filmes)
+ * @param episodeNumber - Episódio (0 para filmes)
+ */
+export async function getStoredSegmentMarkers(
+    tmdbId: number,
+    mediaType: 'movie' | 'tv',
+    seasonNumber: number,
+    episodeNumber: number
+): Promise<SegmentMarker[]> {
+    const rows = await prisma.segmentMarker.findMany({
+        where: {
+            tmdbId,
+            mediaType,
+            OR: [
+                { seasonNumber: 0, episodeNumber: 0 },
+                { seasonNumber, episodeNumber },
+            ],
+        },
+    });
+
+    const byType = new Map<SegmentType, SegmentMarker & { episodeSpecific: boolean }>();
+
+    for (const row of rows) {
+        if (!SEGMENT_TYPES.includes(row.type as SegmentType)) continue;
+
+        const episodeSpecific = row.seasonNumber !== 0 || row.episodeNumber !== 0;
+        const current = byType.get(row.type as SegmentType);
+        if (current?.episodeSpecific && !episodeSpecific) continue;
+
+        byType.set(row.type as SegmentType, {
+            type: row.type as SegmentType,
+            startSeconds: row.startSeconds,
+            endSeconds: row.endSeconds,
+            episodeSpecific,
+        });
+    }
+
+    return Array.from(byType.values())
+        .map(({ type, startSeconds, endSeconds }) => ({ type, startSeconds, endSeconds }))
+        .sort((a, b) => a.startSeconds - b.startSeconds);
+}
@@ -0,0 +1,51 @@
+/**
+ * Segment Markers (abertura, recapitulação, créditos)
+ *
+ * Funções puras (client-safe) para trabalhar com os marcadores de segmento.
+ * Para buscar os marcadores cadastrados no banco, use @/lib/segment-markers-server
+ *
+ * Origem dos marcadores:
+ * - Resposta do backend de streaming (`markers`)
+ * - Tabela SegmentMarker (editável por admins), que tem prioridade sobre o backend
+ */
+
+export const SEGMENT_TYPES = ['intro', 'recap', 'credits'] as const;
+
+export type SegmentType = typeof SEGMENT_TYPES[number];
+
+export interface SegmentMarker {
+    type: SegmentType;
+    startSeconds: number;
+    endSeconds: number;
+}
+
+/** Segmentos que podem ser pulados com o botão "Pular" (créditos abrem o próximo episódio) */
+export const SKIPPABLE_SEGMENT_TYPES: readonly SegmentType[] = ['intro', 'recap'];
+
+/**
+ * Retorna o segmento em andamento no tempo informado (início inclusivo, fim exclusivo).
+ */
+export function getActiveSegment(
+    markers: SegmentMarker[],
+    currentSeconds: number,
+    types: readonly SegmentType[] = SEGMENT_TYPES
+): SegmentMarker | null {
+    return markers.find((marker) =>
+        types.includes(marker.type) &&
+        currentSeconds >= marker.startSeconds &&
+        currentSeconds < marker.endSeconds
+    ) ?? null;
+}
+
+/**
+ * Junta marcadores de duas origens mantendo um por tipo.
+ * Os de `preferred` substituem os de `fallback` do mesmo tipo.
+ */
+export function mergeSegmentMarkers(preferred: SegmentMarker[], fallback: SegmentMarker[]): SegmentMarker[] {
+    const byType = new Map<SegmentType, SegmentMarker>();
+
+    for (const marker of fallback) byType.set(marker.type, marker);
+    for (const marker of preferred) byType.set(marker.type, marker);
+
+    return Array.from(byType.values()).sort((a, b) => a.startSeconds - b.startSeconds);
+}
@@ -0,0 +1,278 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { STREAM_LEASE_TTL_SECONDS } from '@/lib/watch-constants';
+
+/**
+ * Stream Lease Utilities
+ *
+ * Controla o limite de telas simultâneas do plano (Plan.screens).
+ *
+ * Regras:
+ * - Cada player aberto adquire um lease ao pedir a URL (/api/streaming/get-url)
+ * - O player renova o lease via heartbeat enquanto está reproduzindo
+ * - Leases sem heartbeat expiram após STREAM_LEASE_TTL_SECONDS e liberam a tela
+ * - Membros de família consomem as telas do owner (accountOwnerId)
+ * - Uma mesma sessão reaproveita seu lease (reload, próximo episódio)
+ * - Contagem e criação rodam com a linha do owner travada (FOR UPDATE), para
+ *   dois players da mesma conta não ocuparem a última tela ao mesmo tempo
+ */
+
+/** Dispositivo reproduzindo no momento (exibido na resposta 409) */
+export interface ActiveStream {
+    id: string;
+    userName: string | null;
+    userAgent: string | null;
+    tmdbId: number;
+    mediaType: string;
+    seasonNumber: number;
+    episodeNumber: number;
+    startedAt: Date;
+    lastHeartbeatAt: Date;
+    isCurrentSession: boolean;
+}
+
+export type AcquireLeaseResult =
+    | { acquired: true; leaseId: string; expiresAt: Date }
+    | { acquired: false; activeStreams: ActiveStream[] };
+
+export type RenewLeaseResult =
+    | { status: 'renewed'; expiresAt: Date }
+    | { status: 'revoked' }
+    | { status: 'limit_reached' };
+
+function leaseExpiry(from = new Date()): Date {
+    return new Date(from.getTime() + STREAM_LEASE_TTL_SECONDS * 1000);
+}
+
+/**
+ * Lock pessimista da conta: serializa as aquisições de telas do mesmo owner
+ * até o fim da transação (a contagem de leases sozinha não trava nada).
+ */
+async function lockAccount(tx: Prisma.TransactionClient, accountOwnerId: string): Promise<void> {
+    await tx.$queryRaw`
+        SELECT id
+        FROM "User"
+        WHERE id = ${accountOwnerId}
+        FOR UPDATE
+    `;
+}
+
+/**
+ * Lista os streams ativos (não expirados) de uma conta.
+ *
+ * @param accountOwnerId - Owner cujas telas são consumidas
+ * @param currentSessionId - Sessão do chamador (marca o próprio dispositivo)
+ */
+export async function listActiveStreams(
+    accountOwnerId: string,
+    currentSessionId?: string
+): Promise<ActiveStream[]> {
+    const leases = await prisma.streamLease.findMany({
+        where: {
+            accountOwnerId,
+            expiresAt: { gt: new Date() },
+        },
+        include: { user: { select: { name: true } } },
+        orderBy: { createdAt: 'asc' },
+    });
+
+    return leases.map((lease) => ({
+        id: lease.id,
+        userName: lease.user.name,
+        userAgent: lease.userAgent,
+        tmdbId: lease.tmdbId,
+        mediaType: lease.mediaType,
+        seasonNumber: lease.seasonNumber,
+        episodeNumber: lease.episodeNumber,
+        startedAt: lease.createdAt,
+        lastHeartbeatAt: lease.lastHeartbeatAt,
+        isCurrentSession: lease.sessionId === currentSessionId,
+    }));
+}
+
+/**
+ * Adquire (ou reaproveita) um lease de reprodução.
+ *
+ * Se a sessão já possui um lease ativo, ele é transferido para o novo
+ * conteúdo sem consumir outra tela. Caso contrário, só cria um novo lease
+ * se houver telas livres na conta.
+ */
+export async function acquireStreamLease(params: {
+    userId: string;
+    accountOwnerId: string;
+    sessionId: string;
+    maxScreens: number;
+    tmdbId: number;
+    mediaType: string;
+    seasonNumber: number;
+    episodeNumber: number;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+}): Promise<AcquireLeaseResult> {
+    const now = new Date();
+    const expiresAt = leaseExpiry(now);
+
+    const result = await prisma.$transaction(async (tx) => {
+        await lockAccount(tx, params.accountOwnerId);
+
+        // 1. Limpar leases expirados da conta (libera telas abandonadas)
+        await tx.streamLease.deleteMany({
+            where: {
+                accountOwnerId: params.accountOwnerId,
+                expiresAt: { lte: now },
+            },
+        });
+
+        const content = {
+            tmdbId: params.tmdbId,
+            mediaType: params.mediaType,
+            seasonNumber: params.seasonNumber,
+            episodeNumber: params.episodeNumber,
+        };
+
+        // 2. Reaproveitar lease da mesma sessão
+        const existing = await tx.streamLease.findFirst({
+            where: {
+                sessionId: params.sessionId,
+                accountOwnerId: params.accountOwnerId,
+            },
+        });
+
+        if (existing) {
+            await tx.streamLease.update({
+                where: { id: existing.id },
+                data: { ...content, lastHeartbeatAt: now, expiresAt },
+            });
+            return { acquired: true as const, leaseId: existing.id, expiresAt };
+        }
+
+        // 3. Verificar telas livres
+        const activeCount = await tx.streamLease.count({
+            where: { accountOwnerId: params.accountOwnerId },
+        });
+
+        if (activeCount >= params.maxScreens) {
+            return { acquired: false as const };
+        }
+
+        const lease = await tx.streamLease.create({
+            data: {
+                userId: params.userId,
+                accountOwnerId: params.accountOwnerId,
+                sessionId: params.sessionId,
+                userAgent: params.userAgent ?? null,
+                ipAddress: params.ipAddress ?? null,
+                ...content,
+                lastHeartbeatAt: now,
+                expiresAt,
+            },
+        });
+
+        return { acquired: true as const, leaseId: lease.id, expiresAt };
+    });
+
+    if (result.acquired) {
+        return result;
+    }
+
+    return {
+        acquired: false,
+        activeStreams: await listActiveStreams(params.accountOwnerId, params.sessionId),
+    };
+}
+
+/**
+ * Renova um lease via heartbeat.
+ *
+ * - Lease removido (dispositivo desconectado por outro) → 'revoked'
+ * - Lease expirado (player pausado por muito tempo) → revive se houver tela livre
+ */
+export async function renewStreamLease(
+    leaseId: string,
+    userId: string,
+    maxScreens: number
+): Promise<RenewLeaseResult> {
+    const now = new Date();
+    const expiresAt = leaseExpiry(now);
+
+    const lease = await prisma.streamLease.findUnique({
+        where: { id: leaseId },
+    });
+
+    if (!lease || lease.userId !== userId) {
+        return { status: 'revoked' };
+    }
+
+    if (lease.expiresAt > now) {
+        await prisma.streamLease.update({
+            where: { id: lease.id },
+            data: { lastHeartbeatAt: now, expiresAt },
+        });
+
+        return { status: 'renewed', expiresAt };
+    }
+
+    // Reviver um lease expirado ocupa uma tela de novo: mesma regra da aquisição
+    return prisma.$transaction(async (tx): Promise<RenewLeaseResult> => {
+        await lockAccount(tx, lease.accountOwnerId);
+
+        const activeCount = await tx.streamLease.count({
+            where: {
+                accountOwnerId: lease.accountOwnerId,
+                expiresAt: { gt: now },
+                id: { not: lease.id },
+            },
+        });
+
+        if (activeCount >= maxScreens) {
+            return { status: 'limit_reached' };
+        }
+
+        const revived = await tx.streamLease.updateMany({
+            where: { id: lease.id },
+            data: { lastHeartbeatAt: now, expiresAt },
+        });
+
+        // Removido enquanto esperava o lock (desconectado ou limpo pelo cron)
+        if (revived.count === 0) {
+            return { status: 'revoked' };
+        }
+
+        return { status: 'renewed', expiresAt };
+    });
+}
+
+/**
+ * Encerra um lease da conta — usado tanto para liberar a própria tela
+ * quanto para desconectar outro dispositivo da mesma conta/família.
+ *
+ * @returns true se o lease existia e foi removido
+ */
+export async function releaseStreamLease(
+    leaseId: string,
+    accountOwnerId: string
+): Promise<boolean> {
+    const result = await prisma.streamLease.deleteMany({
+        where: { id: leaseId, accountOwnerId },
+    });
+
+    return result.count > 0;
+}
+
+/**
+ * Remove todos os leases expirados.
+ * Pode ser chamado por cron job; a aquisição também limpa por conta.
+ *
+ * @returns Número de leases removidos
+ */
+export async function expireStreamLeases(): Promise<number> {
+    const result = await prisma.streamLease.deleteMany({
+        where: { expiresAt: { lte: new Date() } },
+    });
+
+    if (result.count > 0) {
+        console.log(`[StreamLease] ${result.count} lease(s) expirado(s) removido(s)`);
+    }
+
+    return result.count;
+}
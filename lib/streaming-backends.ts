@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import { APP_URL, STREAMING_API_URL, STREAMING_API_TOKEN, STREAMING_BACKENDS } from '@/lib/config';
+import { CircuitBreaker } from '@/lib/circuit-breaker';
+
+/**
+ * Streaming Backends
+ *
+ * Roteamento entre vários backends de streaming com failover.
+ *
+ * Regras:
+ * - Backends configurados em STREAMING_BACKENDS (JSON); sem ela, usa STREAMING_API_URL
+ * - Menor `priority` é tentado primeiro
+ * - `mediaTypes` e `regions` restringem o backend (ausentes = atende tudo)
+ * - 5xx, timeout ou erro de rede → tenta o próximo backend
+ * - Cada backend tem seu próprio circuit breaker (3 falhas seguidas = 1 minuto fora)
+ * - Contadores por backend são expostos em /api/metrics/cache?format=prometheus
+ */
+
+/** Timeout de cada tentativa (ms) */
+const BACKEND_TIMEOUT_MS = 10000;
+
+const backendConfigSchema = z.array(z.object({
+    name: z.string().min(1),
+    url: z.string().min(1),
+    token: z.string().optional(),
+    priority: z.number().int().default(100),
+    mediaTypes: z.array(z.enum(['movie', 'tv'])).optional(),
+    regions: z.array(z.string().length(2).toUpperCase()).optional(),
+}));
+
+export type StreamingBackend = z.infer<typeof backendConfigSchema>[number];
+
+export interface StreamingBackendStats {
+    name: string;
+    circuitOpen: boolean;
+    requests: number;
+    successes: number;
+    failures: number;
+    totalLatencyMs: number;
+    lastLatencyMs: number;
+}
+
+export type BackendFailureReason = 'timeout' | 'unavailable' | 'circuit_open';
+
+/**
+ * Nenhum backend conseguiu responder.
+ * `reason` é 'timeout' apenas se todas as tentativas expiraram.
+ */
+export class StreamingBackendsUnavailableError extends Error {
+    constructor(public readonly reason: BackendFailureReason) {
+        super(`Nenhum backend de streaming disponível (${reason})`);
+        this.name = 'StreamingBackendsUnavailableError';
+    }
+}
+
+// Circuit breakers e estatísticas ficam no processo: cada instância abre o
+// circuito pelas falhas que ela mesma viu, sem round-trip extra a cada pedido.
+// Uma instância nova começa com o circuito fechado e reaprende em poucas falhas.
+const breakers = new Map<string, CircuitBreaker>();
+const stats = new Map<string, StreamingBackendStats>();
+
+function getBreaker(name: string): CircuitBreaker {
+    let breaker = breakers.get(name);
+    if (!breaker) {
+        breaker = new CircuitBreaker();
+        breakers.set(name, breaker);
+    }
+    return breaker;
+}
+
+function getStats(name: string): StreamingBackendStats {
+    let entry = stats.get(name);
+    if (!entry) {
+        entry = {
+            name,
+            circuitOpen: false,
+            requests: 0,
+            successes: 0,
+            failures: 0,
+            totalLatencyMs: 0,
+            lastLatencyMs: 0,
+        };
+        stats.set(name, entry);
+    }
+    return entry;
+}
+
+function recordAttempt(name: string, success: boolean, latencyMs: number): void {
+    const entry = getStats(name);
+    entry.requests++;
+    entry.totalLatencyMs += latencyMs;
+    entry.lastLatencyMs = latencyMs;
+
+    const breaker = getBreaker(name);
+    if (success) {
+        entry.successes++;
+        breaker.recordSuccess();
+    } else {
+        entry.failures++;
+        breaker.recordFailure();
+    }
+}
+
+/**
+ * Interpreta STREAMING_BACKENDS (JSON). Configuração inválida é ignorada com log.
+ */
+export function parseStreamingBackends(raw: string): StreamingBackend[] {
+    if (!raw.trim()) return [];
+
+    try {
+        const result = backendConfigSchema.safeParse(JSON.parse(raw));
+        if (!result.success) {
+            console.error('❌ [Streaming] STREAMING_BACKENDS inválida:', result.error.issues[0]?.message);
+            return [];
+        }
+        return result.data;
+    } catch {
+        console.error('❌ [Streaming] STREAMING_BACKENDS não é um JSON válido');
+        return [];
+    }
+}
+
+/**
+ * Backends configurados, com fallback para STREAMING_API_URL e,
+ * em desenvolvimento, para o backend de exemplo.
+ */
+export function getStreamingBackends(): StreamingBackend[] {
+    const configured = parseStreamingBackends(STREAMING_BACKENDS);
+    if (configured.length > 0) return configured;
+
+    if (STREAMING_API_URL.trim()) {
+        return [{ name: 'default', url: STREAMING_API_URL, token: STREAMING_API_TOKEN || undefined, priority: 100 }];
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+        console.warn('⚠️  [Streaming] STREAMING_API_URL não configurada - usando backend de exemplo');
+        return [{ name: 'example', url: `${APP_URL}/api/streaming/example`, priority: 100 }];
+    }
+
+    return [];
+}
+
+/**
+ * Filtra os backends que atendem o conteúdo/região e ordena por prioridade.
+ */
+export function selectStreamingBackends(
+    backends: StreamingBackend[],
+    { mediaType, region }: { mediaType: 'movie' | 'tv'; region?: string | null }
+): StreamingBackend[] {
+    const country = region?.toUpperCase();
+
+    return backends
+        .filter((backend) => !backend.mediaTypes || backend.mediaTypes.includes(mediaType))
+        .filter((backend) => !backend.regions || (!!country && backend.regions.includes(country)))
+        .sort((a, b) => a.priority - b.priority);
+}
+
+function isTimeoutError(error: unknown): boolean {
+    return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+}
+
+/**
+ * Envia o payload para o primeiro backend saudável, com failover.
+ *
+ * Respostas 4xx são devolvidas sem failover (o backend está saudável,
+ * o conteúdo é que não existe ou foi recusado).
+ *
+ * @throws StreamingBackendsUnavailableError se todos falharem
+ */
+export async function fetchFromStreamingBackends(
+    backends: StreamingBackend[],
+    payload: Record<string, unknown>
+): Promise<{ backend: StreamingBackend; response: Response }> {
+    let attempted = 0;
+    let timeouts = 0;
+
+    for (const backend of backends) {
+        if (getBreaker(backend.name).isOpen()) {
+            console.warn(`⚠️  [Streaming] Circuit aberto para o backend "${backend.name}" - pulando`);
+            continue;
+        }
+
+        attempted++;
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+        };
+
+        if (backend.token) {
+            headers['Authorization'] = `Bearer ${backend.token}`;
+        }
+
+        const startTime = Date.now();
+        try {
+            const response = await fetch(backend.url, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(payload),
+                signal: AbortSignal.timeout(BACKEND_TIMEOUT_MS),
+            });
+
+            const latencyMs = Date.now() - startTime;
+
+            if (response.status >= 500) {
+                recordAttempt(backend.name, false, latencyMs);
+                console.error(`❌ [Streaming] Backend "${backend.name}" respondeu ${response.status} - tentando o próximo`);
+                continue;
+            }
+
+            recordAttempt(backend.name, true, latencyMs);
+            return { backend, response };
+        } catch (error) {
+            recordAttempt(backend.name, false, Date.now() - startTime);
+            if (isTimeoutError(error)) timeouts++;
+            console.error(`❌ [Streaming] Backend "${backend.name}" falhou - tentando o próximo:`, error);
+        }
+    }
+
+    if (attempted === 0) {
+        throw new StreamingBackendsUnavailableError('circuit_open');
+    }
+
+    throw new StreamingBackendsUnavailableError(timeouts === attempted ? 'timeout' : 'unavailable');
+}
+
+/**
+ * Snapshot dos contadores por backend (para /api/metrics/cache)
+ */
+export function getStreamingBackendStats(): StreamingBackendStats[] {
+    return Array.from(stats.values()).map((entry) => ({
+        ...entry,
+        circuitOpen: getBreaker(entry.name).isOpen(),
+    }));
+}
+
+/**
+ * Limpa contadores e circuit breakers (testes)
+ */
+export function resetStreamingBackendState(): void {
+    breakers.clear();
+    stats.clear();
+}
@@ -0,0 +1,280 @@
+import { z } from 'zod';
+import type { VideoQuality, VideoSubtitle, AudioTrack } from '@/hooks/useVideoPlayer';
+import { SEGMENT_TYPES, type SegmentMarker } from '@/lib/segment-markers';
+import type { Chapter } from '@/lib/chapters';
+
+/**
+ * Streaming Backend Response Contract
+ *
+ * Valida e normaliza a resposta dos backends de streaming antes de
+ * repassá-la ao player.
+ *
+ * Regras:
+ * - `url` é obrigatória; sem ela a resposta inteira é rejeitada
+ * - Entradas malformadas de qualities/subtitles/audioTracks/markers/chapters são descartadas
+ *   individualmente (com warning estruturado), o resto segue
+ * - URLs relativas são resolvidas contra a URL do backend e http vira https
+ *   (exceto localhost, para desenvolvimento)
+ * - `thumbnails` é a URL de uma trilha WebVTT de miniaturas (trickplay, ver lib/trickplay.ts)
+ * - `version` (padrão 1) versiona o formato; a partir da versão 2 o backend
+ *   pode anunciar `capabilities` (DRM, trickplay, capítulos)
+ */
+
+/** Versão mais recente do formato suportada por este app */
+export const STREAMING_RESPONSE_VERSION = 2;
+
+export interface StreamingCapabilities {
+    drm: boolean;
+    trickplay: boolean;
+    chapters: boolean;
+}
+
+export interface NormalizedStreamingResponse {
+    version: number;
+    url: string;
+    qualities: VideoQuality[];
+    defaultQuality?: string;
+    subtitles: VideoSubtitle[];
+    audioTracks: AudioTrack[];
+    expiresAt?: string;
+    quality?: string;
+    capabilities: StreamingCapabilities;
+    markers: SegmentMarker[];
+    /** Trilha WebVTT de miniaturas para a barra de progresso */
+    thumbnails?: string;
+    /** Ordenados por startSeconds */
+    chapters: Chapter[];
+}
+
+export type StreamingResponseResult =
+    | { success: true; data: NormalizedStreamingResponse }
+    | { success: false; issue: string };
+
+const qualitySchema = z.object({
+    label: z.string().min(1),
+    url: z.string().min(1),
+    bitrate: z.number().positive().optional(),
+});
+
+const subtitleSchema = z.object({
+    label: z.string().min(1),
+    language: z.string().min(1),
+    src: z.string().min(1),
+});
+
+const audioTrackSchema = z.object({
+    label: z.string().min(1),
+    language: z.string().min(1),
+});
+
+const markerSchema = z.object({
+    type: z.enum(SEGMENT_TYPES),
+    startSeconds: z.number().min(0),
+    endSeconds: z.number().positive(),
+}).refine((marker) => marker.endSeconds > marker.startSeconds, {
+    message: 'endSeconds must be greater than startSeconds',
+    path: ['endSeconds'],
+});
+
+const chapterSchema = z.object({
+    title: z.string().trim().min(1).max(200),
+    startSeconds: z.number().min(0),
+    thumbnail: z.string().min(1).optional(),
+});
+
+const capabilitiesSchema = z.object({
+    drm: z.boolean().default(false),
+    trickplay: z.boolean().default(false),
+    chapters: z.boolean().default(false),
+});
+
+// Listas são validadas item a item (ver parseEntries), por isso z.unknown()
+const responseSchema = z.object({
+    version: z.number().int().positive().default(1),
+    url: z.string().min(1),
+    qualities: z.array(z.unknown()).optional(),
+    defaultQuality: z.string().min(1).optional(),
+    subtitles: z.array(z.unknown()).optional(),
+    audioTracks: z.array(z.unknown()).optional(),
+    expiresAt: z.string().optional(),
+    quality: z.string().optional(),
+    capabilities: z.unknown().optional(),
+    markers: z.array(z.unknown()).optional(),
+    thumbnails: z.string().min(1).optional(),
+    chapters: z.array(z.unknown()).optional(),
+});
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Resolve uma URL de mídia para absoluta e https.
+ *
+ * @returns null se a URL for inválida ou usar outro protocolo
+ */
+export function normalizeMediaUrl(rawUrl: string, baseUrl: string): string | null {
+    let url: URL;
+    try {
+        url = new URL(rawUrl, baseUrl);
+    } catch {
+        return null;
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return null;
+    }
+
+    if (url.protocol === 'http:' && !LOCAL_HOSTNAMES.includes(url.hostname)) {
+        url.protocol = 'https:';
+    }
+
+    return url.toString();
+}
+
+function warnDropped(backend: string, field: string, index: number, issue: string): void {
+    console.warn('⚠️  [Streaming] Entrada inválida descartada da resposta do backend', {
+        backend,
+        field,
+        index,
+        issue,
+    });
+}
+
+function parseEntries<T>(
+    entries: unknown[] | undefined,
+    schema: z.ZodType<T>,
+    field: string,
+    backend: string,
+    normalize: (entry: T) => T | string = (entry) => entry
+): T[] {
+    const valid: T[] = [];
+
+    (entries ?? []).forEach((entry, index) => {
+        const result = schema.safeParse(entry);
+        if (!result.success) {
+            const issue = result.error.issues[0];
+            warnDropped(backend, field, index, `${issue?.path.join('.') || field}: ${issue?.message}`);
+            return;
+        }
+
+        const normalized = normalize(result.data);
+        if (typeof normalized === 'string') {
+            warnDropped(backend, field, index, normalized);
+            return;
+        }
+
+        valid.push(normalized);
+    });
+
+    return valid;
+}
+
+/**
+ * Valida e normaliza a resposta de um backend de streaming.
+ *
+ * @param raw - JSON retornado pelo backend
+ * @param backend - Nome e URL do backend (para logs e resolução de URLs relativas)
+ */
+export function parseStreamingResponse(
+    raw: unknown,
+    backend: { name: string; url: string }
+): StreamingResponseResult {
+    const parsed = responseSchema.safeParse(raw);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return { success: false, issue: `${issue?.path.join('.') || 'response'}: ${issue?.message}` };
+    }
+
+    const data = parsed.data;
+
+    const url = normalizeMediaUrl(data.url, backend.url);
+    if (!url) {
+        return { success: false, issue: 'url: invalid URL' };
+    }
+
+    if (data.version > STREAMING_RESPONSE_VERSION) {
+        console.warn('⚠️  [Streaming] Backend usa versão de resposta mais nova que a suportada', {
+            backend: backend.name,
+            version: data.version,
+            supported: STREAMING_RESPONSE_VERSION,
+        });
+    }
+
+    const qualities = parseEntries(data.qualities, qualitySchema, 'qualities', backend.name, (quality) => {
+        const qualityUrl = normalizeMediaUrl(quality.url, backend.url);
+        return qualityUrl ? { ...quality, url: qualityUrl } : 'url: invalid URL';
+    });
+
+    const subtitles = parseEntries(data.subtitles, subtitleSchema, 'subtitles', backend.name, (subtitle) => {
+        const src = normalizeMediaUrl(subtitle.src, backend.url);
+        return src ? { ...subtitle, src } : 'src: invalid URL';
+    });
+
+    const audioTracks = parseEntries(data.audioTracks, audioTrackSchema, 'audioTracks', backend.name);
+
+    // Um marcador por tipo (o primeiro vence)
+    const markerTypes = new Set<string>();
+    const markers = parseEntries(data.markers, markerSchema, 'markers', backend.name, (marker) => {
+        if (markerTypes.has(marker.type)) return `duplicate marker "${marker.type}"`;
+        markerTypes.add(marker.type);
+        return marker;
+    });
+
+    // Um capítulo por instante de início; miniatura inválida é só removida
+    const chapterStarts = new Set<number>();
+    const chapters = parseEntries(data.chapters, chapterSchema, 'chapters', backend.name, (chapter) => {
+        if (chapterStarts.has(chapter.startSeconds)) return `duplicate chapter at ${chapter.startSeconds}s`;
+        chapterStarts.add(chapter.startSeconds);
+
+        const { thumbnail, ...rest } = chapter;
+        const thumbnailUrl = thumbnail && normalizeMediaUrl(thumbnail, backend.url);
+        return thumbnailUrl ? { ...rest, thumbnail: thumbnailUrl } : rest;
+    }).sort((a, b) => a.startSeconds - b.startSeconds);
+
+    // defaultQuality precisa existir entre as qualidades válidas
+    let defaultQuality = data.defaultQuality;
+    if (defaultQuality && !qualities.some((quality) => quality.label === defaultQuality)) {
+        warnDropped(backend.name, 'defaultQuality', 0, `unknown quality "${defaultQuality}"`);
+        defaultQuality = undefined;
+    }
+
+    let thumbnails = data.thumbnails && normalizeMediaUrl(data.thumbnails, backend.url);
+    if (data.thumbnails && !thumbnails) {
+        warnDropped(backend.name, 'thumbnails', 0, 'invalid URL');
+        thumbnails = undefined;
+    }
+
+    let expiresAt = data.expiresAt;
+    if (expiresAt && Number.isNaN(new Date(expiresAt).getTime())) {
+        warnDropped(backend.name, 'expiresAt', 0, 'invalid date');
+        expiresAt = undefined;
+    }
+
+    // Capabilities só existem a partir da versão 2
+    let capabilities = capabilitiesSchema.parse({});
+    if (data.version >= 2 && data.capabilities !== undefined) {
+        const result = capabilitiesSchema.safeParse(data.capabilities);
+        if (result.success) {
+            capabilities = result.data;
+        } else {
+            warnDropped(backend.name, 'capabilities', 0, result.error.issues[0]?.message ?? 'invalid');
+        }
+    }
+
+    return {
+        success: true,
+        data: {
+            version: data.version,
+            url,
+            qualities,
+            ...(defaultQuality && { defaultQuality }),
+            subtitles,
+            audioTracks,
+            ...(expiresAt && { expiresAt: new Date(expiresAt).toISOString() }),
+            ...(data.quality && { quality: data.quality }),
+            capabilities,
+            markers,
+            ...(thumbnails && { thumbnails }),
+            chapters,
+        },
+    };
+}
@@ -0,0 +1,597 @@
+/**
+ * Subscription Server-Side Utilities
+ *
+ * Funções que dependem de Prisma/banco de dados (só podem ser usadas no servidor)
+ * Para funções puras (client-safe), use @/lib/subscription
+ *
+ * User.planId/maxScreens/trialEndsAt espelham a assinatura vigente (usados
+ * pela sessão, família e tela de configurações); toda mudança de assinatura
+ * passa por aqui para manter o espelho em dia.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { SITE_NAME_FULL, SITE_URL } from '@/lib/config';
+import {
+    getDunningEmailTemplate,
+    getFamilyPlanEndingEmailTemplate,
+    sendEmail,
+    type DunningEmailType,
+} from '@/lib/email';
+import { notifySubscriptionChange, type SubscriptionRelayEventType } from '@/lib/payment-relay';
+import {
+    DUNNING_REMINDER_HOURS,
+    getGraceEndsAt,
+    getPaidPeriod,
+    isCurrentSubscription,
+    type BillingInterval,
+} from '@/lib/subscription';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Email de cobrança a enviar depois que a transação for confirmada */
+export interface DunningNotice {
+    to: string;
+    type: DunningEmailType;
+    planName: string;
+    graceEndsAt: Date;
+}
+
+const DUNNING_SUBJECTS: Record<DunningEmailType, string> = {
+    'payment-failed': `Problema com seu pagamento - ${SITE_NAME_FULL}`,
+    'reminder': `Atualize seu pagamento - ${SITE_NAME_FULL}`,
+    'access-ended': `Seu acesso foi suspenso - ${SITE_NAME_FULL}`,
+};
+
+/**
+ * Assinatura do usuário (de qualquer status), com o plano.
+ *
+ * ⚠️ SERVER-ONLY: Usa Prisma, não pode ser usado em Client Components
+ */
+export async function getSubscription(userId: string, db: Db = prisma) {
+    return db.subscription.findUnique({
+        where: { userId },
+        include: { plan: true },
+    });
+}
+
+/**
+ * Atualiza o espelho do plano no usuário (null = sem assinatura).
+ */
+export async function syncUserPlan(
+    db: Db,
+    userId: string,
+    subscription: { planId: string; status: string; currentPeriodEnd: Date; plan: { screens: number } } | null
+): Promise<void> {
+    await db.user.update({
+        where: { id: userId },
+        data: subscription
+            ? {
+                planId: subscription.planId,
+                maxScreens: subscription.plan.screens,
+                trialEndsAt: subscription.status === 'trialing' ? subscription.currentPeriodEnd : null,
+            }
+            : {
+                planId: null,
+                maxScreens: 1,
+                trialEndsAt: null,
+            },
+    });
+}
+
+/**
+ * Desfaz a família do owner (remove membros, revoga convites pendentes).
+ * Usado quando a conta perde o plano.
+ */
+export async function dissolveOwnedFamily(tx: Prisma.TransactionClient, ownerId: string): Promise<void> {
+    const family = await tx.family.findFirst({
+        where: { ownerId },
+        include: {
+            members: true,
+            invites: { where: { status: 'pending' } },
+        },
+    });
+
+    if (!family) return;
+
+    if (family.members.length > 0) {
+        await tx.familyMember.deleteMany({ where: { familyId: family.id } });
+    }
+
+    if (family.invites.length > 0) {
+        await tx.familyInvite.updateMany({
+            where: { familyId: family.id, status: 'pending' },
+            data: { status: 'revoked' },
+        });
+    }
+
+    await tx.family.delete({ where: { id: family.id } });
+
+    console.log(`[Subscription] Família de ${ownerId} desfeita (${family.members.length} membro(s), ${family.invites.length} convite(s))`);
+}
+
+/**
+ * Inicia o teste grátis de um plano.
+ */
+export async function startTrialSubscription(
+    userId: string,
+    plan: { id: string; screens: number },
+    trialEndsAt: Date,
+    now = new Date()
+) {
+    return prisma.$transaction(async (tx) => {
+        const data = {
+            planId: plan.id,
+            status: 'trialing',
+            billingInterval: 'monthly',
+            currentPeriodStart: now,
+            currentPeriodEnd: trialEndsAt,
+            gatewaySubscriptionId: null,
+            canceledAt: null,
+            cancelAtPeriodEnd: false,
+            graceEndsAt: null,
+            dunningReminderSentAt: null,
+        };
+
+        const subscription = await tx.subscription.upsert({
+            where: { userId },
+            create: { userId, ...data },
+            update: data,
+            include: { plan: true },
+        });
+
+        await syncUserPlan(tx, userId, subscription);
+        return subscription;
+    });
+}
+
+/**
+ * Registra um pagamento aprovado: renova, converte o trial ou troca de plano.
+ *
+ * Renovação do mesmo plano estende o período atual; nos demais casos o novo
+ * período começa agora (ver getPaidPeriod).
+ */
+export async function activatePaidSubscription(
+    tx: Prisma.TransactionClient,
+    params: {
+        userId: string;
+        planId: string;
+        billingInterval: BillingInterval;
+        gatewaySubscriptionId?: string;
+        now?: Date;
+    }
+) {
+    const { userId, planId, billingInterval, gatewaySubscriptionId, now = new Date() } = params;
+    const current = await getSubscription(userId, tx);
+    const period = getPaidPeriod(current, planId, billingInterval, now);
+
+    // Renovação do mesmo plano não desfaz um cancelamento agendado: o gateway
+    // não deveria ter cobrado, então o período é estendido mas o cancelamento
+    // continua valendo (o usuário pode retomar pela tela de configurações)
+    const keepsCancellation = isCurrentSubscription(current)
+        && current.planId === planId
+        && current.cancelAtPeriodEnd;
+
+    if (keepsCancellation) {
+        console.warn(`⚠️  [Subscription] Renovação de ${userId} com cancelamento agendado; cancelamento mantido`);
+    }
+
+    const data = {
+        planId,
+        status: 'active',
+        billingInterval,
+        ...period,
+        ...(!keepsCancellation && { canceledAt: null, cancelAtPeriodEnd: false }),
+        graceEndsAt: null,
+        dunningReminderSentAt: null,
+        ...(gatewaySubscriptionId && { gatewaySubscriptionId }),
+    };
+
+    const subscription = await tx.subscription.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data,
+        include: { plan: true },
+    });
+
+    await syncUserPlan(tx, userId, subscription);
+    return {
+        subscription,
+        previousPlanId: isCurrentSubscription(current) ? current.planId : null,
+    };
+}
+
+/**
+ * Cancela a assinatura e encerra o acesso na hora (inclusive da família).
+ * Usado para assinaturas past_due, que não têm período pago a honrar.
+ */
+export async function cancelSubscription(
+    subscription: { id: string; userId: string },
+    now = new Date()
+): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+        await tx.subscription.update({
+            where: { id: subscription.id },
+            data: { status: 'canceled', canceledAt: now, cancelAtPeriodEnd: false },
+        });
+
+        await dissolveOwnedFamily(tx, subscription.userId);
+        await syncUserPlan(tx, subscription.userId, null);
+    });
+}
+
+/** Assinatura com os campos enviados ao gateway em cancelamentos e retomadas */
+interface GatewaySubscription {
+    id: string;
+    userId: string;
+    planId: string;
+    status: string;
+    gatewaySubscriptionId: string | null;
+    currentPeriodEnd: Date;
+}
+
+/**
+ * Avisa o gateway antes de salvar a mudança: se o relay recusar, nada muda aqui.
+ * Trials não são cobrados pelo gateway, então não há o que avisar.
+ */
+async function notifyGateway(type: SubscriptionRelayEventType, subscription: GatewaySubscription): Promise<void> {
+    if (subscription.status !== 'active') return;
+
+    await notifySubscriptionChange({
+        type,
+        userId: subscription.userId,
+        planId: subscription.planId,
+        subscriptionId: subscription.gatewaySubscriptionId,
+        currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
+    });
+}
+
+/**
+ * Agenda o cancelamento para o fim do período: o acesso (e o da família)
+ * continua até currentPeriodEnd, quando o cron end-canceled-subscriptions
+ * faz o downgrade. O gateway é avisado para não renovar e os membros da
+ * família são avisados por email.
+ *
+ * @throws {Error} Se o gateway recusar o cancelamento
+ */
+export async function scheduleSubscriptionCancellation(
+    subscription: GatewaySubscription,
+    now = new Date()
+): Promise<void> {
+    await notifyGateway('subscription.cancel_scheduled', subscription);
+
+    const updated = await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { cancelAtPeriodEnd: true, canceledAt: now },
+        include: { plan: true },
+    });
+
+    await notifyFamilyPlanEnding(subscription.userId, updated);
+}
+
+/**
+ * Desfaz um cancelamento agendado (ver hasPendingCancellation) e avisa o
+ * gateway para voltar a renovar.
+ *
+ * @throws {Error} Se o gateway recusar a retomada
+ */
+export async function resumeSubscription(subscription: GatewaySubscription): Promise<void> {
+    await notifyGateway('subscription.resumed', subscription);
+
+    await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { cancelAtPeriodEnd: false, canceledAt: null },
+    });
+}
+
+/**
+ * Avisa os membros da família que o plano do owner termina em currentPeriodEnd.
+ * Falhas são só registradas no log: o cancelamento já foi salvo.
+ */
+async function notifyFamilyPlanEnding(
+    ownerId: string,
+    subscription: { currentPeriodEnd: Date; plan: { name: string } }
+): Promise<void> {
+    try {
+        const family = await prisma.family.findFirst({
+            where: { ownerId },
+            include: {
+                owner: { select: { name: true, email: true } },
+                members: { include: { user: { select: { email: true } } } },
+            },
+        });
+
+        if (!family || family.members.length === 0) return;
+
+        const html = getFamilyPlanEndingEmailTemplate(
+            family.owner.name || family.owner.email,
+            subscription.plan.name,
+            subscription.currentPeriodEnd,
+            SITE_URL
+        );
+
+        for (const member of family.members) {
+            await sendEmail({
+                to: member.user.email,
+                subject: `O plano da sua família vai terminar - ${SITE_NAME_FULL}`,
+                html,
+            }).catch((error) => {
+                console.error(`[Subscription] Falha ao avisar ${member.user.email} sobre o fim do plano:`, error);
+            });
+        }
+    } catch (error) {
+        console.error(`[Subscription] Erro ao avisar a família de ${ownerId} sobre o fim do plano:`, error);
+    }
+}
+
+/**
+ * Encerra assinaturas com cancelamento agendado cujo período terminou.
+ * Chamado pelo cron /api/cron/end-canceled-subscriptions.
+ *
+ * Como expireTrials: assinatura canceled, família desfeita e plano removido do usuário.
+ *
+ * @returns quantidade de assinaturas encerradas
+ */
+export async function endCanceledSubscriptions(now = new Date()): Promise<number> {
+    const due = await prisma.subscription.findMany({
+        where: {
+            cancelAtPeriodEnd: true,
+            status: { in: ['trialing', 'active'] },
+            currentPeriodEnd: { lte: now },
+        },
+        select: { id: true, userId: true },
+    });
+
+    let endedCount = 0;
+
+    // Processar cada assinatura em transação separada
+    for (const subscription of due) {
+        try {
+            const ended = await prisma.$transaction(async (tx) => {
+                // 1. Encerrar a assinatura (só se o cancelamento ainda estiver agendado)
+                const { count } = await tx.subscription.updateMany({
+                    where: {
+                        id: subscription.id,
+                        cancelAtPeriodEnd: true,
+                        status: { in: ['trialing', 'active'] },
+                    },
+                    data: { status: 'canceled', cancelAtPeriodEnd: false },
+                });
+
+                if (count === 0) return false;
+
+                // 2. Desfazer a família e remover o plano do usuário
+                await dissolveOwnedFamily(tx, subscription.userId);
+                await syncUserPlan(tx, subscription.userId, null);
+                return true;
+            });
+
+            if (ended) endedCount++;
+        } catch (error) {
+            console.error(`[Subscription] Erro ao encerrar a assinatura cancelada ${subscription.id}:`, error);
+            // Continua processando as outras assinaturas
+        }
+    }
+
+    if (endedCount > 0) {
+        console.log(`[Subscription] ${endedCount} assinatura(s) cancelada(s) encerrada(s) no fim do período`);
+    }
+
+    return endedCount;
+}
+
+/**
+ * Registra uma cobrança recusada: a assinatura paga entra em past_due com
+ * carência até graceEndsAt (ver getGraceEndsAt).
+ *
+ * Falhas repetidas mantêm a carência original. Falhas de outro plano (ex.:
+ * upgrade recusado) e de trials não mudam a assinatura.
+ *
+ * @returns a assinatura que acabou de entrar em past_due, ou null se nada mudou
+ */
+export async function markSubscriptionPastDue(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    planId: string,
+    now = new Date()
+) {
+    const current = await getSubscription(userId, tx);
+
+    if (current?.status !== 'active' || current.planId !== planId) {
+        return null;
+    }
+
+    const subscription = await tx.subscription.update({
+        where: { id: current.id },
+        data: {
+            status: 'past_due',
+            graceEndsAt: getGraceEndsAt(current.currentPeriodEnd, now),
+            dunningReminderSentAt: null,
+        },
+        include: { plan: true },
+    });
+
+    await syncUserPlan(tx, userId, subscription);
+    return subscription;
+}
+
+/**
+ * Registra um estorno: encerra o acesso na hora (inclusive da família).
+ *
+ * @returns false se o estorno não é do plano vigente (nada muda)
+ */
+export async function refundSubscription(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    planId: string,
+    now = new Date()
+): Promise<boolean> {
+    const current = await getSubscription(userId, tx);
+
+    if (!isCurrentSubscription(current) || current.planId !== planId) {
+        return false;
+    }
+
+    await tx.subscription.update({
+        where: { id: current.id },
+        data: {
+            status: 'expired',
+            currentPeriodEnd: now,
+            graceEndsAt: null,
+        },
+    });
+
+    await dissolveOwnedFamily(tx, userId);
+    await syncUserPlan(tx, userId, null);
+    return true;
+}
+
+/**
+ * Envia um email de cobrança. Falhas são só registradas no log: o estado da
+ * assinatura já foi salvo e não depende do email.
+ */
+export async function sendDunningEmail(notice: DunningNotice): Promise<boolean> {
+    try {
+        await sendEmail({
+            to: notice.to,
+            subject: DUNNING_SUBJECTS[notice.type],
+            html: getDunningEmailTemplate(notice.type, notice.planName, notice.graceEndsAt, SITE_URL),
+        });
+        return true;
+    } catch (error) {
+        console.error(`[Subscription] Falha ao enviar email de cobrança (${notice.type}) para ${notice.to}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Cobrança das assinaturas past_due. Chamado pelo cron /api/cron/process-dunning.
+ *
+ * 1. Envia o lembrete quando faltam DUNNING_REMINDER_HOURS para o fim da carência
+ * 2. Encerra carências vencidas como expireTrials: assinatura expired, família
+ *    desfeita e plano removido do usuário
+ * 3. Assinaturas active com período vencido (a renovação não chegou e nenhum
+ *    webhook de falha foi recebido) entram em past_due como uma cobrança
+ *    recusada; sem pagamento, o passo 2 as expira ao fim da carência
+ *
+ * @returns quantidade de lembretes enviados, de assinaturas expiradas e de
+ *          assinaturas que entraram em past_due
+ */
+export async function processDunning(now = new Date()): Promise<{ reminded: number; expired: number; lapsed: number }> {
+    const reminderWindowEnd = new Date(now.getTime() + DUNNING_REMINDER_HOURS * 60 * 60 * 1000);
+
+    const dueReminders = await prisma.subscription.findMany({
+        where: {
+            status: 'past_due',
+            dunningReminderSentAt: null,
+            graceEndsAt: { gt: now, lte: reminderWindowEnd },
+        },
+        include: { plan: true, user: { select: { email: true } } },
+    });
+
+    let reminded = 0;
+
+    for (const subscription of dueReminders) {
+        // Reserva o lembrete antes do envio (execuções concorrentes não duplicam)
+        const { count } = await prisma.subscription.updateMany({
+            where: { id: subscription.id, status: 'past_due', dunningReminderSentAt: null },
+            data: { dunningReminderSentAt: now },
+        });
+
+        if (count === 0 || !subscription.graceEndsAt) continue;
+
+        const sent = await sendDunningEmail({
+            to: subscription.user.email,
+            type: 'reminder',
+            planName: subscription.plan.name,
+            graceEndsAt: subscription.graceEndsAt,
+        });
+        if (sent) reminded++;
+    }
+
+    const overdue = await prisma.subscription.findMany({
+        where: {
+            status: 'past_due',
+            graceEndsAt: { lte: now },
+        },
+        include: { plan: true, user: { select: { email: true } } },
+    });
+
+    let expired = 0;
+
+    // Processar cada assinatura em transação separada
+    for (const subscription of overdue) {
+        try {
+            const ended = await prisma.$transaction(async (tx) => {
+                // 1. Encerrar a assinatura (só se ainda estiver em past_due)
+                const { count } = await tx.subscription.updateMany({
+                    where: { id: subscription.id, status: 'past_due' },
+                    data: { status: 'expired' },
+                });
+
+                if (count === 0) return false;
+
+                // 2. Desfazer a família e remover o plano do usuário
+                await dissolveOwnedFamily(tx, subscription.userId);
+                await syncUserPlan(tx, subscription.userId, null);
+                return true;
+            });
+
+            if (!ended) continue;
+            expired++;
+
+            await sendDunningEmail({
+                to: subscription.user.email,
+                type: 'access-ended',
+                planName: subscription.plan.name,
+                graceEndsAt: subscription.graceEndsAt ?? now,
+            });
+        } catch (error) {
+            console.error(`[Subscription] Erro ao encerrar carência da assinatura ${subscription.id}:`, error);
+            // Continua processando as outras assinaturas
+        }
+    }
+
+    const lapsedSubscriptions = await prisma.subscription.findMany({
+        where: {
+            status: 'active',
+            cancelAtPeriodEnd: false,
+            currentPeriodEnd: { lte: now },
+        },
+        include: { plan: true, user: { select: { email: true } } },
+    });
+
+    let lapsed = 0;
+
+    for (const subscription of lapsedSubscriptions) {
+        try {
+            const graceEndsAt = getGraceEndsAt(subscription.currentPeriodEnd, now);
+
+            // Só se a renovação não chegou nesse meio tempo (o plano segue no
+            // espelho do usuário durante a carência)
+            const { count } = await prisma.subscription.updateMany({
+                where: { id: subscription.id, status: 'active', currentPeriodEnd: { lte: now } },
+                data: { status: 'past_due', graceEndsAt, dunningReminderSentAt: null },
+            });
+
+            if (count === 0) continue;
+            lapsed++;
+
+            await sendDunningEmail({
+                to: subscription.user.email,
+                type: 'payment-failed',
+                planName: subscription.plan.name,
+                graceEndsAt,
+            });
+        } catch (error) {
+            console.error(`[Subscription] Erro ao marcar assinatura vencida ${subscription.id} como past_due:`, error);
+            // Continua processando as outras assinaturas
+        }
+    }
+
+    if (reminded > 0 || expired > 0 || lapsed > 0) {
+        console.log(`[Subscription] Cobrança: ${reminded} lembrete(s) enviado(s), ${expired} assinatura(s) expirada(s), ${lapsed} renovação(ões) não recebida(s)`);
+    }
+
+    return { reminded, expired, lapsed };
+}
@@ -0,0 +1,159 @@
+/**
+ * Assinaturas
+ *
+ * Cada usuário tem no máximo uma Subscription, com o plano, o status, o período
+ * de cobrança atual e a referência no gateway de pagamento. A mesma linha é
+ * reaproveitada em renovações, trocas de plano e novas assinaturas.
+ *
+ * Status:
+ * - trialing: teste grátis até currentPeriodEnd
+ * - active: pago até currentPeriodEnd (renovado pelo webhook de pagamento)
+ * - past_due: cobrança falhou; acesso mantido até graceEndsAt (PAST_DUE_GRACE_DAYS)
+ * - canceled: cancelada pelo usuário (na hora, ou no fim do período agendado)
+ * - expired: trial ou carência encerrados sem pagamento, ou pagamento estornado
+ *
+ * Com cancelAtPeriodEnd, a assinatura continua trialing/active até
+ * currentPeriodEnd e só então passa para canceled.
+ *
+ * Funções puras (client-safe); consultas ao banco ficam em lib/subscription-server.ts.
+ */
+
+export const SUBSCRIPTION_STATUSES = ['trialing', 'active', 'past_due', 'canceled', 'expired'] as const;
+
+export type SubscriptionStatus = (typeof SUBSCRIPTION_STATUSES)[number];
+
+/** Status de uma assinatura vigente (canceled/expired já encerraram) */
+export const CURRENT_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['trialing', 'active', 'past_due'];
+
+export const BILLING_INTERVALS = ['monthly', 'yearly'] as const;
+
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
+/** Dias de acesso após o fim do período enquanto a cobrança é refeita */
+export const PAST_DUE_GRACE_DAYS = 3;
+
+/** Antecedência do lembrete de cobrança antes do fim da carência (horas) */
+export const DUNNING_REMINDER_HOURS = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SubscriptionPeriod {
+    currentPeriodStart: Date;
+    currentPeriodEnd: Date;
+}
+
+export function isBillingInterval(value: unknown): value is BillingInterval {
+    return typeof value === 'string' && (BILLING_INTERVALS as readonly string[]).includes(value);
+}
+
+export function isCurrentSubscription<T extends { status: string }>(subscription: T | null | undefined): subscription is T {
+    return !!subscription && (CURRENT_SUBSCRIPTION_STATUSES as string[]).includes(subscription.status);
+}
+
+/**
+ * Fim de um período de cobrança.
+ *
+ * Meses mais curtos usam o último dia (31/01 → 28/02).
+ */
+export function addBillingPeriod(start: Date, interval: BillingInterval): Date {
+    const end = new Date(start);
+    const months = interval === 'yearly' ? 12 : 1;
+    const day = end.getUTCDate();
+
+    end.setUTCDate(1);
+    end.setUTCMonth(end.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() + 1, 0)).getUTCDate();
+    end.setUTCDate(Math.min(day, lastDay));
+
+    return end;
+}
+
+/**
+ * Fim da carência de uma cobrança que falhou.
+ *
+ * Conta a partir do fim do período pago (falha antecipada não tira dias já
+ * pagos) ou de agora, se o período já terminou.
+ */
+export function getGraceEndsAt(currentPeriodEnd: Date, now = new Date()): Date {
+    const start = Math.max(currentPeriodEnd.getTime(), now.getTime());
+    return new Date(start + PAST_DUE_GRACE_DAYS * DAY_MS);
+}
+
+/**
+ * Se a assinatura dá acesso ao conteúdo agora.
+ *
+ * past_due sem graceEndsAt (registros antigos) usa fim do período + carência.
+ */
+export function hasSubscriptionAccess(
+    subscription: { status: string; currentPeriodEnd: Date; graceEndsAt?: Date | null },
+    now = new Date()
+): boolean {
+    const end = subscription.currentPeriodEnd.getTime();
+
+    switch (subscription.status) {
+        case 'trialing':
+        case 'active':
+            return now.getTime() < end;
+        case 'past_due':
+            return now.getTime() < (subscription.graceEndsAt?.getTime() ?? end + PAST_DUE_GRACE_DAYS * DAY_MS);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Até quando o acesso está garantido sem nova cobrança.
+ *
+ * - trial ou cancelamento agendado: fim do período
+ * - past_due: fim da carência
+ * - active que renova sozinha: null (sem fim previsto)
+ */
+export function getAccessEndsAt(
+    subscription: { status: string; currentPeriodEnd: Date; cancelAtPeriodEnd: boolean; graceEndsAt?: Date | null }
+): Date | null {
+    switch (subscription.status) {
+        case 'active':
+            return subscription.cancelAtPeriodEnd ? subscription.currentPeriodEnd : null;
+        case 'past_due':
+            return subscription.graceEndsAt
+                ?? new Date(subscription.currentPeriodEnd.getTime() + PAST_DUE_GRACE_DAYS * DAY_MS);
+        default:
+            return subscription.currentPeriodEnd;
+    }
+}
+
+/**
+ * Próximo período após um pagamento aprovado.
+ *
+ * Renovação do mesmo plano continua do fim do período atual (sem perder dias
+ * pagos ou de trial); troca de plano, assinatura encerrada ou nova assinatura
+ * começa agora.
+ */
+export function getPaidPeriod(
+    current: { planId: string; status: string; currentPeriodEnd: Date } | null,
+    planId: string,
+    interval: BillingInterval,
+    now = new Date()
+): SubscriptionPeriod {
+    const start = isCurrentSubscription(current) && current.planId === planId && current.currentPeriodEnd > now
+        ? current.currentPeriodEnd
+        : now;
+
+    return {
+        currentPeriodStart: start,
+        currentPeriodEnd: addBillingPeriod(start, interval),
+    };
+}
+
+/**
+ * Se o cancelamento agendado ainda pode ser desfeito (período não terminou).
+ */
+export function hasPendingCancellation(
+    subscription: { status: string; cancelAtPeriodEnd: boolean; currentPeriodEnd: Date } | null | undefined,
+    now = new Date()
+): boolean {
+    return isCurrentSubscription(subscription)
+        && subscription.status !== 'past_due'
+        && subscription.cancelAtPeriodEnd
+        && now < subscription.currentPeriodEnd;
+}
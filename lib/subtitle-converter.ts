@@ -0,0 +1,373 @@
+/**
+ * Subtitle Converter
+ *
+ * Converte legendas SRT, SubStation Alpha (.ass/.ssa) e TTML/DFXP para WebVTT,
+ * o único formato aceito por <track>. Usado por /api/streaming/subtitles e pelo
+ * VideoPlayer (arquivos de legenda locais, convertidos no navegador).
+ *
+ * Regras:
+ * - Encoding detectado por BOM (UTF-8/UTF-16), UTF-16 sem BOM pela proporção
+ *   de bytes nulos, depois UTF-8 estrito e, se falhar, Latin-1 (windows-1252)
+ * - Formato detectado pelo conteúdo (a extensão é só uma dica)
+ * - Tags de estilo são descartadas, exceto negrito/itálico/sublinhado
+ * - Resultados convertidos ficam em cache em memória por 1 hora
+ */
+
+export type SubtitleFormat = 'vtt' | 'srt' | 'ass' | 'ttml';
+
+export interface SubtitleCue {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/** Tamanho máximo aceito para um arquivo de legenda */
+export const MAX_SUBTITLE_BYTES = 2 * 1024 * 1024;
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 200;
+
+// ─── Encoding ────────────────────────────────────────────────────────────
+
+/**
+ * Decodifica os bytes de uma legenda detectando o encoding.
+ */
+export function decodeSubtitleBytes(bytes: Uint8Array): string {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+        return new TextDecoder('utf-8').decode(bytes.subarray(3));
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+        return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+        return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+    }
+
+    // UTF-16 sem BOM: texto ASCII vira um byte nulo a cada dois
+    const sample = bytes.subarray(0, 1024);
+    let evenNulls = 0;
+    let oddNulls = 0;
+    for (let i = 0; i < sample.length; i++) {
+        if (sample[i] === 0) {
+            if (i % 2 === 0) evenNulls++;
+            else oddNulls++;
+        }
+    }
+    const half = sample.length / 2;
+    if (half > 0 && oddNulls / half > 0.4) return new TextDecoder('utf-16le').decode(bytes);
+    if (half > 0 && evenNulls / half > 0.4) return new TextDecoder('utf-16be').decode(bytes);
+
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+        return new TextDecoder('windows-1252').decode(bytes);
+    }
+}
+
+// ─── Detecção ────────────────────────────────────────────────────────────
+
+const SRT_TIMING = /^\s*\d{1,2}:\d{1,2}:\d{1,2}[,.]\d{1,3}\s*-->\s*\d{1,2}:\d{1,2}:\d{1,2}[,.]\d{1,3}/m;
+
+/**
+ * Detecta o formato pelo conteúdo.
+ * @returns null se não for um formato suportado
+ */
+export function detectSubtitleFormat(text: string): SubtitleFormat | null {
+    const head = text.trimStart().slice(0, 2048);
+
+    if (head.startsWith('WEBVTT')) return 'vtt';
+    if (/^\[Script Info\]/im.test(head) || /^\[Events\]/im.test(text)) return 'ass';
+    if (/<tt[\s>]/.test(head) && /<p\b/.test(text)) return 'ttml';
+    if (SRT_TIMING.test(text)) return 'srt';
+
+    return null;
+}
+
+// ─── Helpers de texto ────────────────────────────────────────────────────
+
+function normalizeLineEndings(text: string): string {
+    return text.replace(/\r\n?/g, '\n');
+}
+
+const ALLOWED_TAG = /^<\/?(b|i|u)>$/i;
+
+/**
+ * Escapa o texto para WebVTT mantendo apenas <b>, <i> e <u>.
+ */
+function sanitizeCueText(text: string): string {
+    return text
+        .replace(/&(?!(?:amp|lt|gt|nbsp|lrm|rlm|#\d+|#x[0-9a-f]+);)/gi, '&amp;')
+        .replace(/<[^>]*>|</g, (tag) => (ALLOWED_TAG.test(tag) ? tag.toLowerCase() : tag === '<' ? '&lt;' : ''))
+        .replace(/-->/g, '--&gt;')
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .join('\n');
+}
+
+function formatTimestamp(seconds: number): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3_600_000);
+    const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+    const secs = Math.floor((totalMs % 60_000) / 1000);
+    const ms = totalMs % 1000;
+
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+}
+
+/**
+ * Monta o arquivo WebVTT (cues ordenadas por início, vazias descartadas).
+ */
+export function buildWebVtt(cues: SubtitleCue[]): string {
+    const body = cues
+        .map((cue) => ({ ...cue, text: sanitizeCueText(cue.text) }))
+        .filter((cue) => cue.text.length > 0 && cue.end > cue.start)
+        .sort((a, b) => a.start - b.start)
+        .map((cue) => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}`)
+        .join('\n\n');
+
+    return `WEBVTT\n\n${body}\n`;
+}
+
+// ─── SRT ─────────────────────────────────────────────────────────────────
+
+function parseSrtTime(value: string): number | null {
+    const match = value.match(/(\d{1,2}):(\d{1,2}):(\d{1,2})[,.](\d{1,3})/);
+    if (!match) return null;
+    const [, h, m, s, ms] = match;
+    return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, '0')) / 1000;
+}
+
+export function parseSrt(text: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+
+    for (const block of normalizeLineEndings(text).split(/\n\s*\n/)) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex((line) => line.includes('-->'));
+        if (timingIndex === -1) continue;
+
+        const [startRaw, endRaw] = lines[timingIndex].split('-->');
+        const start = parseSrtTime(startRaw);
+        const end = parseSrtTime(endRaw ?? '');
+        if (start === null || end === null) continue;
+
+        cues.push({
+            start,
+            end,
+            // {\an8} e similares vêm de legendas extraídas de ASS
+            text: lines.slice(timingIndex + 1).join('\n').replace(/\{\\[^}]*\}/g, ''),
+        });
+    }
+
+    return cues;
+}
+
+// ─── SubStation Alpha (ASS/SSA) ──────────────────────────────────────────
+
+function parseAssTime(value: string): number | null {
+    const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})[.:](\d{1,3})$/);
+    if (!match) return null;
+    const [, h, m, s, fraction] = match;
+    return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(`0.${fraction}`);
+}
+
+function convertAssText(raw: string): string {
+    const open = { i: false, b: false, u: false };
+
+    let text = raw.replace(/\{([^}]*)\}/g, (_block, tags: string) => {
+        // Vetores (\p1) e demais overrides são descartados; só mantém i/b/u
+        let html = '';
+        for (const [, tag, state] of tags.matchAll(/\\([ibu])(\d)/g)) {
+            const key = tag as keyof typeof open;
+            const enable = state !== '0';
+            if (enable !== open[key]) {
+                html += enable ? `<${key}>` : `</${key}>`;
+                open[key] = enable;
+            }
+        }
+        return html;
+    });
+
+    text = text.replace(/\\N|\\n/g, '\n').replace(/\\h/g, ' ');
+
+    for (const key of ['u', 'b', 'i'] as const) {
+        if (open[key]) text += `</${key}>`;
+    }
+
+    return text;
+}
+
+export function parseAss(text: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    let inEvents = false;
+    let format: string[] | null = null;
+
+    for (const line of normalizeLineEndings(text).split('\n')) {
+        const trimmed = line.trim();
+
+        if (trimmed.startsWith('[')) {
+            inEvents = trimmed.toLowerCase() === '[events]';
+            continue;
+        }
+        if (!inEvents) continue;
+
+        if (/^format\s*:/i.test(trimmed)) {
+            format = trimmed.slice(trimmed.indexOf(':') + 1).split(',').map((field) => field.trim().toLowerCase());
+            continue;
+        }
+        if (!/^dialogue\s*:/i.test(trimmed) || !format) continue;
+
+        // O último campo (Text) pode conter vírgulas
+        const values = trimmed.slice(trimmed.indexOf(':') + 1).split(',');
+        const fields = [...values.slice(0, format.length - 1), values.slice(format.length - 1).join(',')];
+        const field = (name: string) => fields[format!.indexOf(name)] ?? '';
+
+        const start = parseAssTime(field('start'));
+        const end = parseAssTime(field('end'));
+        if (start === null || end === null) continue;
+
+        cues.push({ start, end, text: convertAssText(field('text')) });
+    }
+
+    return cues;
+}
+
+// ─── TTML / DFXP ─────────────────────────────────────────────────────────
+
+function decodeXmlEntities(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function parseTtmlTime(value: string | undefined, frameRate: number, tickRate: number): number | null {
+    if (!value) return null;
+
+    const clock = value.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+(?:\.\d+)?))?$/);
+    if (clock) {
+        const [, h, m, s, fraction, frames] = clock;
+        return Number(h) * 3600 + Number(m) * 60 + Number(s) +
+            (fraction ? Number(`0.${fraction}`) : 0) +
+            (frames ? Number(frames) / frameRate : 0);
+    }
+
+    const offset = value.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+    if (offset) {
+        const amount = Number(offset[1]);
+        switch (offset[2]) {
+            case 'h': return amount * 3600;
+            case 'm': return amount * 60;
+            case 's': return amount;
+            case 'ms': return amount / 1000;
+            case 'f': return amount / frameRate;
+            case 't': return amount / tickRate;
+        }
+    }
+
+    return null;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+    return attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*"([^"]*)"`))?.[1];
+}
+
+export function parseTtml(text: string): SubtitleCue[] {
+    const root = text.match(/<tt\b([^>]*)>/)?.[1] ?? '';
+    const frameRate = Number(getAttribute(root, 'ttp:frameRate')) || 30;
+    const tickRate = Number(getAttribute(root, 'ttp:tickRate')) || 10_000_000;
+
+    const cues: SubtitleCue[] = [];
+
+    for (const [, attributes, content] of text.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/g)) {
+        const start = parseTtmlTime(getAttribute(attributes, 'begin'), frameRate, tickRate);
+        if (start === null) continue;
+
+        let end = parseTtmlTime(getAttribute(attributes, 'end'), frameRate, tickRate);
+        const dur = parseTtmlTime(getAttribute(attributes, 'dur'), frameRate, tickRate);
+        if (end === null && dur !== null) end = start + dur;
+        if (end === null) continue;
+
+        const body = content
+            .replace(/\s+/g, ' ')
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<span\b[^>]*tts:fontStyle="italic"[^>]*>([\s\S]*?)<\/span>/gi, '\u0001$1\u0002')
+            .replace(/<[^>]+>/g, '');
+
+        cues.push({
+            start,
+            end,
+            text: decodeXmlEntities(body)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/\u0001/g, '<i>')
+                .replace(/\u0002/g, '</i>'),
+        });
+    }
+
+    return cues;
+}
+
+// ─── Conversão ───────────────────────────────────────────────────────────
+
+/**
+ * Converte uma legenda para WebVTT.
+ * @returns null se o formato não for reconhecido
+ */
+export function convertToWebVtt(text: string): string | null {
+    switch (detectSubtitleFormat(text)) {
+        case 'vtt': return normalizeLineEndings(text.trimStart());
+        case 'srt': return buildWebVtt(parseSrt(text));
+        case 'ass': return buildWebVtt(parseAss(text));
+        case 'ttml': return buildWebVtt(parseTtml(text));
+        default: return null;
+    }
+}
+
+/**
+ * Decodifica e converte os bytes de uma legenda para WebVTT.
+ * @returns null se o formato não for reconhecido
+ */
+export function convertSubtitleBytes(bytes: Uint8Array): string | null {
+    return convertToWebVtt(decodeSubtitleBytes(bytes));
+}
+
+/**
+ * Se a URL já aponta para um arquivo .vtt (não precisa de conversão).
+ */
+export function isWebVttUrl(url: string): boolean {
+    try {
+        return new URL(url).pathname.toLowerCase().endsWith('.vtt');
+    } catch {
+        return false;
+    }
+}
+
+// ─── Cache ───────────────────────────────────────────────────────────────
+
+// Cache só evita reconverter: um miss (instância nova ou outra instância)
+// baixa e converte de novo, então não precisa ser compartilhado
+const cache = new Map<string, { vtt: string; expiresAt: number }>();
+
+export function getCachedWebVtt(key: string): string | null {
+    const entry = cache.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+        cache.delete(key);
+        return null;
+    }
+    return entry.vtt;
+}
+
+export function setCachedWebVtt(key: string, vtt: string): void {
+    if (cache.size >= CACHE_MAX_ENTRIES) {
+        const oldest = cache.keys().next().value;
+        if (oldest !== undefined) cache.delete(oldest);
+    }
+    cache.set(key, { vtt, expiresAt: Date.now() + CACHE_TTL_MS });
+}
@@ -0,0 +1,108 @@
+/**
+ * Subtitle Delay
+ *
+ * Atraso de legenda ajustável no player, salvo por título no localStorage
+ * (legendas desalinhadas continuam corrigidas ao retomar).
+ *
+ * Regras:
+ * - Passos de 0.1s, limitado a ±SUBTITLE_DELAY_LIMIT_SECONDS
+ * - Positivo = legenda aparece mais tarde; negativo = mais cedo
+ * - Filmes e séries têm chaves separadas; o atraso vale para todos os episódios
+ */
+
+/** Incremento do controle de atraso (segundos) */
+export const SUBTITLE_DELAY_STEP_SECONDS = 0.1;
+
+/** Atraso máximo em qualquer direção (segundos) */
+export const SUBTITLE_DELAY_LIMIT_SECONDS = 60;
+
+const STORAGE_KEY_PREFIX = 'subtitle_delay';
+
+/**
+ * Arredonda para o passo de 0.1s e limita ao intervalo permitido.
+ */
+export function clampSubtitleDelay(seconds: number): number {
+    if (!Number.isFinite(seconds)) return 0;
+
+    const rounded = Math.round(seconds * 10) / 10;
+    const clamped = Math.min(SUBTITLE_DELAY_LIMIT_SECONDS, Math.max(-SUBTITLE_DELAY_LIMIT_SECONDS, rounded));
+    // Evita exibir "-0.0s"
+    return clamped === 0 ? 0 : clamped;
+}
+
+/**
+ * Formata o atraso para exibição (ex: "+0.3s", "-1.5s", "0.0s").
+ */
+export function formatSubtitleDelay(seconds: number): string {
+    const delay = clampSubtitleDelay(seconds);
+    const sign = delay > 0 ? '+' : delay < 0 ? '-' : '';
+    return `${sign}${Math.abs(delay).toFixed(1)}s`;
+}
+
+export function getSubtitleDelayStorageKey(tmdbId: number, mediaType: 'movie' | 'tv'): string {
+    return `${STORAGE_KEY_PREFIX}:${mediaType}:${tmdbId}`;
+}
+
+/**
+ * Lê o atraso salvo para um título (0 se não houver ou se o valor for inválido).
+ */
+export function loadSubtitleDelay(storage: Pick<Storage, 'getItem'>, tmdbId: number, mediaType: 'movie' | 'tv'): number {
+    try {
+        const raw = storage.getItem(getSubtitleDelayStorageKey(tmdbId, mediaType));
+        return raw === null ? 0 : clampSubtitleDelay(Number(raw));
+    } catch {
+        // Storage bloqueado (modo privado, cookies desativados)
+        return 0;
+    }
+}
+
+/**
+ * Salva o atraso de um título (0 remove a entrada).
+ */
+export function saveSubtitleDelay(
+    storage: Pick<Storage, 'setItem' | 'removeItem'>,
+    tmdbId: number,
+    mediaType: 'movie' | 'tv',
+    seconds: number
+): void {
+    const key = getSubtitleDelayStorageKey(tmdbId, mediaType);
+    const delay = clampSubtitleDelay(seconds);
+
+    try {
+        if (delay === 0) {
+            storage.removeItem(key);
+        } else {
+            storage.setItem(key, delay.toFixed(1));
+        }
+    } catch {
+        // Storage cheio ou bloqueado — o atraso vale só para esta sessão
+    }
+}
+
+/** Tempos originais de cada cue (antes do atraso) */
+export type OriginalCueTimes = WeakMap<TextTrackCue, { start: number; end: number }>;
+
+/**
+ * Aplica o atraso a todas as cues carregadas das text tracks.
+ *
+ * Sempre parte dos tempos originais (guardados na primeira vez que a cue é
+ * vista), então chamar de novo com outro atraso não acumula deslocamentos.
+ */
+export function shiftTextTrackCues(tracks: TextTrackList, delay: number, originalTimes: OriginalCueTimes): void {
+    for (let i = 0; i < tracks.length; i++) {
+        const cues = tracks[i].cues;
+        if (!cues) continue;
+
+        for (let j = 0; j < cues.length; j++) {
+            const cue = cues[j];
+            let original = originalTimes.get(cue);
+            if (!original) {
+                original = { start: cue.startTime, end: cue.endTime };
+                originalTimes.set(cue, original);
+            }
+
+            cue.startTime = Math.max(0, original.start + delay);
+            cue.endTime = Math.max(0, original.end + delay);
+        }
+    }
+}
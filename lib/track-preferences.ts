@@ -0,0 +1,69 @@
+/**
+ * Track Preferences
+ *
+ * Lembra a última faixa de áudio e legenda escolhida em cada série, para que
+ * os próximos episódios comecem com as mesmas faixas.
+ *
+ * Regras:
+ * - Salvo por (usuário, tmdbId) via /api/settings/track-preferences
+ * - Só escolhas manuais são salvas (seleção automática e arquivos locais não)
+ * - Faixa salva indisponível no episódio → vale a preferência global
+ *   (UserPreferences.subtitleEnabled/subtitleLang)
+ */
+
+/** Prefixo do idioma das legendas carregadas de arquivos locais (nunca salvas) */
+export const LOCAL_SUBTITLE_LANGUAGE_PREFIX = 'local-';
+
+export interface SeriesTrackPreference {
+    audioLang: string | null;
+    subtitleLang: string | null;
+    /** null = nunca escolhido (segue a preferência global) */
+    subtitlesEnabled: boolean | null;
+}
+
+/** Escolha manual feita no player (subtitleLang null = legendas desligadas) */
+export interface TrackSelection {
+    audioLang?: string;
+    subtitleLang?: string | null;
+}
+
+export function isLocalSubtitleLanguage(language: string): boolean {
+    return language.startsWith(LOCAL_SUBTITLE_LANGUAGE_PREFIX);
+}
+
+/**
+ * Decide se as legendas começam ligadas e em qual idioma.
+ *
+ * @param saved - Escolha salva para a série (null se não houver)
+ * @param availableLanguages - Idiomas de legenda do episódio atual
+ * @param globalDefaults - Preferências globais do usuário
+ */
+export function resolveSubtitleDefaults(
+    saved: SeriesTrackPreference | null,
+    availableLanguages: string[],
+    globalDefaults: { enabled: boolean; language: string }
+): { enabled: boolean; language: string } {
+    if (saved?.subtitlesEnabled === false) {
+        return { enabled: false, language: globalDefaults.language };
+    }
+
+    if (saved?.subtitlesEnabled && saved.subtitleLang && availableLanguages.includes(saved.subtitleLang)) {
+        return { enabled: true, language: saved.subtitleLang };
+    }
+
+    return globalDefaults;
+}
+
+/**
+ * Faixa de áudio salva, se existir no episódio atual.
+ * @returns undefined para manter a faixa padrão do stream
+ */
+export function resolveAudioLanguage(
+    saved: SeriesTrackPreference | null,
+    availableLanguages: string[]
+): string | undefined {
+    if (saved?.audioLang && availableLanguages.includes(saved.audioLang)) {
+        return saved.audioLang;
+    }
+    return undefined;
+}
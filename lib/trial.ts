@@ -6,11 +6,13 @@
  * Regras:
  * - Cada novo usuário recebe 7 dias grátis do plano Duo automaticamente
  * - Um email só pode usar o trial uma vez (campo trialUsed)
- * - Quando o trial expira, o acesso ao conteúdo é bloqueado
- * - O plano continua associado ao usuário, mas trialEndsAt controla o acesso
+ * - O trial é uma Subscription com status trialing (currentPeriodEnd = fim do trial)
+ * - Quando o trial expira, o acesso ao conteúdo é bloqueado e expireTrials
+ *   marca a assinatura como expired
  */
 
 import { prisma } from './prisma';
+import { dissolveOwnedFamily, startTrialSubscription, syncUserPlan } from './subscription-server';
 
 export const TRIAL_DURATION_DAYS = 7;
 
@@ -80,14 +82,10 @@ export async function assignDuoTrial(userId: string): Promise<boolean> {
         const trialEndsAt = new Date();
         trialEndsAt.setDate(trialEndsAt.getDate() + TRIAL_DURATION_DAYS);
 
+        await startTrialSubscription(userId, duoPlan, trialEndsAt);
         await prisma.user.update({
             where: { id: userId },
-            data: {
-                planId: duoPlan.id,
-                maxScreens: duoPlan.screens,
-                trialEndsAt,
-                trialUsed: true,
-            },
+            data: { trialUsed: true },
         });
 
         console.log(`[Trial] Trial Duo atribuído ao usuário ${userId}, expira em ${trialEndsAt.toISOString()}`);
@@ -99,7 +97,7 @@ export async function assignDuoTrial(userId: string): Promise<boolean> {
 }
 
 /**
- * Expira trials vencidos — remove o plano de usuários cujo trial expirou.
+ * Expira trials vencidos — marca a assinatura como expired e remove o plano.
  * Também limpa a família associada (remove membros e revoga convites).
  * Pode ser chamado por cron job ou verificado on-demand.
  */
@@ -109,8 +107,10 @@ export async function expireTrials(): Promise<number> {
     // Buscar usuários com trial expirado
     const usersWithExpiredTrial = await prisma.user.findMany({
         where: {
-            trialEndsAt: { lte: now },
-            planId: { not: null },
+            subscription: {
+                status: 'trialing',
+                currentPeriodEnd: { lte: now },
+            },
         },
         select: { id: true },
     });
@@ -124,49 +124,23 @@ export async function expireTrials(): Promise<number> {
     // Processar cada usuário em transação separada
     for (const user of usersWithExpiredTrial) {
         try {
-            await prisma.$transaction(async (tx) => {
-                // 1. Buscar família onde usuário é owner
-                const family = await tx.family.findFirst({
-                    where: { ownerId: user.id },
-                    include: {
-                        members: true,
-                        invites: true,
-                    },
+            const expired = await prisma.$transaction(async (tx) => {
+                // 1. Encerrar a assinatura (só se ainda estiver em trial vencido)
+                const { count } = await tx.subscription.updateMany({
+                    where: { userId: user.id, status: 'trialing', currentPeriodEnd: { lte: now } },
+                    data: { status: 'expired' },
                 });
 
-                if (family) {
-                    // 2. Remover todos os membros
-                    if (family.members.length > 0) {
-                        await tx.familyMember.deleteMany({
-                            where: { familyId: family.id },
-                        });
-                    }
-
-                    // 3. Revogar todos os convites pendentes
-                    if (family.invites.length > 0) {
-                        await tx.familyInvite.deleteMany({
-                            where: { familyId: family.id },
-                        });
-                    }
-
-                    // 4. Deletar a família
-                    await tx.family.delete({
-                        where: { id: family.id },
-                    });
-                }
-
-                // 5. Remover o plano do usuário
-                await tx.user.update({
-                    where: { id: user.id },
-                    data: {
-                        planId: null,
-                        maxScreens: 1,
-                        trialEndsAt: null,
-                    },
-                });
+                // Pagou ou já foi expirado por outra execução nesse meio tempo
+                if (count === 0) return false;
+
+                // 2. Desfazer a família e remover o plano do usuário
+                await dissolveOwnedFamily(tx, user.id);
+                await syncUserPlan(tx, user.id, null);
+                return true;
             });
 
-            expiredCount++;
+            if (expired) expiredCount++;
         } catch (error) {
             console.error(`[Trial] Erro ao expirar trial do usuário ${user.id}:`, error);
             // Continua processando os outros usuários
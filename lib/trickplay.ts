@@ -0,0 +1,106 @@
+/**
+ * Trickplay (miniaturas na barra de progresso)
+ *
+ * Funções puras (client-safe) para ler trilhas de miniaturas no formato
+ * WebVTT com sprite sheets, como as geradas por JW Player/Bitmovin:
+ *
+ *   WEBVTT
+ *
+ *   00:00:00.000 --> 00:00:10.000
+ *   sprite-0.jpg#xywh=0,0,160,90
+ *
+ * A URL da trilha vem do backend de streaming (`thumbnails`, tokenizada por
+ * /api/streaming/get-url); as imagens são resolvidas relativas à URL real da
+ * trilha, depois do redirect do token.
+ */
+
+export interface ThumbnailCue {
+    start: number;
+    end: number;
+    /** URL absoluta da imagem (sprite sheet ou miniatura avulsa) */
+    url: string;
+    /** Recorte dentro do sprite (sem #xywh= a imagem inteira, com width/height 0) */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Tamanho máximo da trilha de miniaturas (bytes) */
+export const MAX_THUMBNAIL_TRACK_BYTES = 1024 * 1024;
+
+function parseVttTime(value: string): number | null {
+    const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})\.(\d{1,3})/);
+    if (!match) return null;
+    const [, h, m, s, ms] = match;
+    return Number(h ?? 0) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, '0')) / 1000;
+}
+
+function resolveImageUrl(path: string, trackUrl: string): string | null {
+    try {
+        const url = new URL(path, trackUrl);
+        return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Lê uma trilha WebVTT de miniaturas.
+ *
+ * Cues sem imagem válida ou com #xywh= malformado são ignorados.
+ *
+ * @param trackUrl - URL da trilha (base para imagens relativas)
+ */
+export function parseThumbnailTrack(text: string, trackUrl: string): ThumbnailCue[] {
+    const cues: ThumbnailCue[] = [];
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].includes('-->')) continue;
+
+        const [startRaw, endRaw] = lines[i].split('-->');
+        const start = parseVttTime(startRaw);
+        const end = parseVttTime(endRaw ?? '');
+        const payload = lines[i + 1]?.trim();
+        if (start === null || end === null || end <= start || !payload) continue;
+
+        const [path, fragment] = payload.split('#');
+        const url = resolveImageUrl(path, trackUrl);
+        if (!url) continue;
+
+        let region = { x: 0, y: 0, width: 0, height: 0 };
+        if (fragment) {
+            const match = fragment.match(/^xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)$/);
+            if (!match) continue;
+            const [x, y, width, height] = match.slice(1).map(Number);
+            region = { x, y, width, height };
+        }
+
+        cues.push({ start, end, url, ...region });
+    }
+
+    return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Miniatura do tempo informado (busca binária; início inclusivo, fim exclusivo).
+ */
+export function findThumbnail(cues: ThumbnailCue[], seconds: number): ThumbnailCue | null {
+    let low = 0;
+    let high = cues.length - 1;
+
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        const cue = cues[mid];
+        if (seconds < cue.start) {
+            high = mid - 1;
+        } else if (seconds >= cue.end) {
+            low = mid + 1;
+        } else {
+            return cue;
+        }
+    }
+
+    return null;
+}
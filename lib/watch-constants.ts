@@ -14,3 +14,19 @@ export const MINIMUM_PROGRESS_THRESHOLD = 10;
  * Accounts for credits at the end of movies/episodes.
  */
 export const COMPLETION_THRESHOLD = 90;
+
+/**
+ * Remaining-time completion - videos with this many seconds (or fewer) left are also "watched",
+ * as long as at least half was watched. Covers end credits on short episodes.
+ */
+export const COMPLETION_REMAINING_SECONDS = 180;
+
+/**
+ * Screen lease TTL (seconds) - a lease without heartbeats frees its screen after this.
+ */
+export const STREAM_LEASE_TTL_SECONDS = 90;
+
+/**
+ * Player heartbeat interval (ms) - well below the lease TTL to tolerate missed beats.
+ */
+export const STREAM_HEARTBEAT_INTERVAL_MS = 30_000;
@@ -0,0 +1,85 @@
+import type { WatchPartyContent, WatchPartyPlayback } from '@/lib/watch-party';
+
+/**
+ * Watch Party Sync (client-safe)
+ *
+ * Correção de drift dos convidados em relação ao host:
+ * - Diferença pequena (< WATCH_PARTY_DRIFT_TOLERANCE_SECONDS): nada a fazer
+ * - Diferença média: acelera/desacelera levemente até alcançar (sem salto visível)
+ * - Diferença grande (> WATCH_PARTY_SEEK_THRESHOLD_SECONDS): seek direto
+ */
+
+/** Drift aceitável sem correção (segundos) */
+export const WATCH_PARTY_DRIFT_TOLERANCE_SECONDS = 0.3;
+
+/** Acima disso o convidado pula direto para a posição do host (segundos) */
+export const WATCH_PARTY_SEEK_THRESHOLD_SECONDS = 2;
+
+/** Ajuste de velocidade usado para alcançar o host (5%) */
+export const WATCH_PARTY_CATCH_UP_RATE = 0.05;
+
+/** Tamanho máximo de uma mensagem do chat (validado também no servidor) */
+export const WATCH_PARTY_MESSAGE_MAX_LENGTH = 500;
+
+/** Intervalo em que o host reenvia a posição enquanto reproduz */
+export const WATCH_PARTY_HOST_SYNC_INTERVAL_MS = 5_000;
+
+export type DriftCorrection =
+    | { action: 'none' }
+    | { action: 'rate'; playbackRate: number }
+    | { action: 'seek'; positionSeconds: number };
+
+/**
+ * Posição atual estimada do host.
+ *
+ * @param clockOffsetMs - Relógio do servidor menos o relógio local
+ */
+export function getExpectedHostPosition(
+    playback: WatchPartyPlayback,
+    now: number,
+    clockOffsetMs = 0
+): number {
+    if (!playback.playing) return playback.positionSeconds;
+
+    const elapsedSeconds = Math.max(0, now + clockOffsetMs - playback.updatedAt) / 1000;
+    return playback.positionSeconds + elapsedSeconds;
+}
+
+/**
+ * Decide como aproximar a posição local da do host.
+ */
+export function getDriftCorrection(localSeconds: number, expectedSeconds: number): DriftCorrection {
+    const drift = expectedSeconds - localSeconds;
+
+    if (Math.abs(drift) > WATCH_PARTY_SEEK_THRESHOLD_SECONDS) {
+        return { action: 'seek', positionSeconds: Math.max(0, expectedSeconds) };
+    }
+
+    if (Math.abs(drift) > WATCH_PARTY_DRIFT_TOLERANCE_SECONDS) {
+        // Atrasado → mais rápido; adiantado → mais devagar
+        return { action: 'rate', playbackRate: drift > 0 ? 1 + WATCH_PARTY_CATCH_UP_RATE : 1 - WATCH_PARTY_CATCH_UP_RATE };
+    }
+
+    return { action: 'none' };
+}
+
+/**
+ * URL da página de reprodução da sala (link de convite).
+ */
+export function getWatchPartyPath(roomId: string, content: WatchPartyContent): string {
+    const base = content.mediaType === 'tv' && content.season && content.episode
+        ? `/watch/tv/${content.tmdbId}/${content.season}/${content.episode}`
+        : `/watch/${content.mediaType}/${content.tmdbId}`;
+
+    return `${base}?party=${encodeURIComponent(roomId)}`;
+}
+
+/**
+ * Se a página atual reproduz o mesmo conteúdo da sala.
+ */
+export function isSameWatchPartyContent(a: WatchPartyContent, b: WatchPartyContent): boolean {
+    return a.tmdbId === b.tmdbId &&
+        a.mediaType === b.mediaType &&
+        (a.season ?? 0) === (b.season ?? 0) &&
+        (a.episode ?? 0) === (b.episode ?? 0);
+}
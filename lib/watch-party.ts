@@ -0,0 +1,382 @@
+import { randomBytes } from 'crypto';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Watch Party (reprodução sincronizada em grupo)
+ *
+ * Salas criadas pelo host na página de reprodução. Convidados entram pelo
+ * link (/watch/...?party=<roomId>) e recebem os eventos via Server-Sent Events
+ * em /api/watch-party/[roomId]/events.
+ *
+ * Regras:
+ * - Só o host controla play/pause/seek; os convidados corrigem o drift em
+ *   relação à posição do host (ver lib/watch-party-sync.ts)
+ * - O ID da sala é aleatório (128 bits) e funciona como convite
+ * - Cada participante reproduz pelo próprio player, então adquire o próprio
+ *   lease em /api/streaming/get-url (conta como uma tela)
+ * - Salas sem ninguém conectado expiram após WATCH_PARTY_IDLE_TTL_MS
+ *
+ * Sala, participantes e chat ficam no banco: cada requisição pode cair em uma
+ * instância diferente, então o SSE de cada participante consulta a sala a cada
+ * WATCH_PARTY_POLL_INTERVAL_MS (ver createWatchPartyFeed) em vez de receber
+ * eventos em memória. A presença é um heartbeat (lastSeenAt) renovado pelo SSE.
+ */
+
+/** Máximo de participantes (incluindo o host) */
+export const WATCH_PARTY_MAX_PARTICIPANTS = 10;
+
+/** Intervalo entre consultas à sala feitas pelo SSE */
+export const WATCH_PARTY_POLL_INTERVAL_MS = 1000;
+
+/** Intervalo do heartbeat de presença enviado pelo SSE */
+export const WATCH_PARTY_HEARTBEAT_INTERVAL_MS = 10_000;
+
+/** Participante sem heartbeat há mais que isso deixa de aparecer como conectado */
+const WATCH_PARTY_PRESENCE_TTL_MS = 30_000;
+
+/** Mensagens mantidas no histórico (enviadas a quem entra depois) */
+const CHAT_HISTORY_LIMIT = 50;
+
+/** Tempo que uma sala vazia continua existindo (reconexões, reload do host) */
+const WATCH_PARTY_IDLE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Margem ao buscar mensagens novas: `sentAt` vem do relógio de instâncias
+ * diferentes, então a busca volta um pouco e descarta as já enviadas
+ */
+const MESSAGE_CLOCK_SKEW_MS = 5000;
+
+export interface WatchPartyContent {
+    tmdbId: number;
+    mediaType: 'movie' | 'tv';
+    season?: number;
+    episode?: number;
+}
+
+export interface WatchPartyPlayback {
+    playing: boolean;
+    positionSeconds: number;
+    /** Epoch (ms, relógio do servidor) em que o host informou a posição */
+    updatedAt: number;
+}
+
+export interface WatchPartyParticipant {
+    userId: string;
+    /** Nome do perfil (null se não definido — o email nunca é exposto) */
+    name: string | null;
+    isHost: boolean;
+}
+
+export interface WatchPartyChatMessage {
+    id: string;
+    userId: string;
+    name: string | null;
+    text: string;
+    sentAt: number;
+}
+
+export interface WatchPartySnapshot {
+    roomId: string;
+    hostId: string;
+    content: WatchPartyContent;
+    playback: WatchPartyPlayback | null;
+    participants: WatchPartyParticipant[];
+    messages: WatchPartyChatMessage[];
+}
+
+/** Eventos enviados pelo SSE (`serverTime` permite estimar o offset de relógio) */
+export type WatchPartyEvent =
+    | { type: 'state'; serverTime: number; room: WatchPartySnapshot }
+    | { type: 'playback'; serverTime: number; playback: WatchPartyPlayback }
+    | { type: 'participants'; serverTime: number; participants: WatchPartyParticipant[] }
+    | { type: 'chat'; serverTime: number; message: WatchPartyChatMessage }
+    | { type: 'closed'; serverTime: number };
+
+export type JoinWatchPartyResult =
+    | { status: 'joined'; snapshot: WatchPartySnapshot }
+    | { status: 'not_found' }
+    | { status: 'full' };
+
+export type WatchPartyActionResult =
+    | { status: 'ok' }
+    | { status: 'not_found' }
+    | { status: 'forbidden' };
+
+function idleCutoff(now: number): Date {
+    return new Date(now - WATCH_PARTY_IDLE_TTL_MS);
+}
+
+function presenceCutoff(now: number): Date {
+    return new Date(now - WATCH_PARTY_PRESENCE_TTL_MS);
+}
+
+/**
+ * Sala ainda aberta, com os participantes conectados e as mensagens
+ * (as últimas CHAT_HISTORY_LIMIT, ou as enviadas desde `messagesSince`).
+ */
+async function findActiveRoom(roomId: string, now: number, messagesSince?: Date) {
+    return prisma.watchParty.findFirst({
+        where: { id: roomId, lastActiveAt: { gte: idleCutoff(now) } },
+        include: {
+            participants: {
+                where: { lastSeenAt: { gte: presenceCutoff(now) } },
+                orderBy: { joinedAt: 'asc' },
+            },
+            messages: messagesSince
+                ? { where: { sentAt: { gte: messagesSince } }, orderBy: { sentAt: 'asc' } }
+                : { orderBy: { sentAt: 'desc' }, take: CHAT_HISTORY_LIMIT },
+        },
+    });
+}
+
+type ActiveRoom = NonNullable<Awaited<ReturnType<typeof findActiveRoom>>>;
+
+function toContent(room: ActiveRoom): WatchPartyContent {
+    return room.mediaType === 'tv'
+        ? { tmdbId: room.tmdbId, mediaType: 'tv', season: room.seasonNumber ?? undefined, episode: room.episodeNumber ?? undefined }
+        : { tmdbId: room.tmdbId, mediaType: 'movie' };
+}
+
+function toPlayback(room: ActiveRoom): WatchPartyPlayback | null {
+    if (room.positionSeconds === null || !room.playbackUpdatedAt) return null;
+    return {
+        playing: room.playing,
+        positionSeconds: room.positionSeconds,
+        updatedAt: room.playbackUpdatedAt.getTime(),
+    };
+}
+
+function toParticipants(room: ActiveRoom): WatchPartyParticipant[] {
+    return room.participants.map((participant) => ({
+        userId: participant.userId,
+        name: participant.name,
+        isHost: participant.userId === room.hostId,
+    }));
+}
+
+function toMessage(message: ActiveRoom['messages'][number]): WatchPartyChatMessage {
+    return {
+        id: message.id,
+        userId: message.userId,
+        name: message.name,
+        text: message.text,
+        sentAt: message.sentAt.getTime(),
+    };
+}
+
+function toSnapshot(room: ActiveRoom): WatchPartySnapshot {
+    return {
+        roomId: room.id,
+        hostId: room.hostId,
+        content: toContent(room),
+        playback: toPlayback(room),
+        participants: toParticipants(room),
+        // Buscadas da mais nova para a mais antiga (take), exibidas em ordem
+        messages: room.messages.map(toMessage).reverse(),
+    };
+}
+
+/**
+ * Cria uma sala com o usuário como host.
+ */
+export async function createWatchParty(hostId: string, content: WatchPartyContent): Promise<WatchPartySnapshot> {
+    const now = Date.now();
+
+    // Limpa salas abandonadas (não há cron para isso; criar é raro)
+    await prisma.watchParty.deleteMany({
+        where: { lastActiveAt: { lt: idleCutoff(now) } },
+    });
+
+    const room = await prisma.watchParty.create({
+        data: {
+            id: randomBytes(16).toString('base64url'),
+            hostId,
+            tmdbId: content.tmdbId,
+            mediaType: content.mediaType,
+            seasonNumber: content.season ?? null,
+            episodeNumber: content.episode ?? null,
+            // Vazia até o host abrir o SSE
+            lastActiveAt: new Date(now),
+        },
+        include: { participants: true, messages: true },
+    });
+
+    return toSnapshot(room);
+}
+
+export async function getWatchParty(roomId: string): Promise<WatchPartySnapshot | null> {
+    const room = await findActiveRoom(roomId, Date.now());
+    return room ? toSnapshot(room) : null;
+}
+
+/**
+ * Entra na sala (ou renova a presença de quem já está nela, ex.: outra aba
+ * ou reconexão do SSE).
+ */
+export async function joinWatchParty(
+    roomId: string,
+    user: { id: string; name: string | null }
+): Promise<JoinWatchPartyResult> {
+    const now = Date.now();
+    const room = await findActiveRoom(roomId, now);
+    if (!room) return { status: 'not_found' };
+
+    const alreadyConnected = room.participants.some((participant) => participant.userId === user.id);
+
+    if (!alreadyConnected && room.participants.length >= WATCH_PARTY_MAX_PARTICIPANTS) {
+        return { status: 'full' };
+    }
+
+    await prisma.watchPartyParticipant.upsert({
+        where: { roomId_userId: { roomId, userId: user.id } },
+        create: { roomId, userId: user.id, name: user.name, lastSeenAt: new Date(now) },
+        update: { name: user.name, lastSeenAt: new Date(now) },
+    });
+    await prisma.watchParty.update({
+        where: { id: roomId },
+        data: { lastActiveAt: new Date(now) },
+    });
+
+    const joined = await findActiveRoom(roomId, now);
+    return joined ? { status: 'joined', snapshot: toSnapshot(joined) } : { status: 'not_found' };
+}
+
+/**
+ * Heartbeat de presença de uma conexão SSE aberta.
+ *
+ * @returns false se a sala não existe mais
+ */
+export async function touchWatchParty(roomId: string, userId: string): Promise<boolean> {
+    const now = new Date();
+
+    const { count } = await prisma.watchPartyParticipant.updateMany({
+        where: { roomId, userId },
+        data: { lastSeenAt: now },
+    });
+    if (count === 0) return false;
+
+    await prisma.watchParty.updateMany({
+        where: { id: roomId },
+        data: { lastActiveAt: now },
+    });
+    return true;
+}
+
+/**
+ * Acompanha a sala a partir do snapshot enviado ao conectar.
+ *
+ * Cada `poll()` consulta a sala e devolve só o que mudou desde a consulta
+ * anterior (`playback`, `participants`, `chat`) ou `closed` se o host
+ * encerrou a sala ou ela expirou.
+ */
+export function createWatchPartyFeed(snapshot: WatchPartySnapshot, connectedAt = Date.now()) {
+    let playbackUpdatedAt = snapshot.playback?.updatedAt ?? null;
+    let participantsKey = JSON.stringify(snapshot.participants);
+    let messagesSince = snapshot.messages.at(-1)?.sentAt ?? connectedAt;
+    const delivered = new Set(snapshot.messages.map((message) => message.id));
+
+    return {
+        async poll(): Promise<WatchPartyEvent[]> {
+            const now = Date.now();
+            const room = await findActiveRoom(snapshot.roomId, now, new Date(messagesSince - MESSAGE_CLOCK_SKEW_MS));
+
+            if (!room) return [{ type: 'closed', serverTime: now }];
+
+            const events: WatchPartyEvent[] = [];
+
+            const playback = toPlayback(room);
+            if (playback && playback.updatedAt !== playbackUpdatedAt) {
+                playbackUpdatedAt = playback.updatedAt;
+                events.push({ type: 'playback', serverTime: now, playback });
+            }
+
+            const participants = toParticipants(room);
+            const key = JSON.stringify(participants);
+            if (key !== participantsKey) {
+                participantsKey = key;
+                events.push({ type: 'participants', serverTime: now, participants });
+            }
+
+            for (const message of room.messages) {
+                if (delivered.has(message.id)) continue;
+                delivered.add(message.id);
+                messagesSince = Math.max(messagesSince, message.sentAt.getTime());
+                events.push({ type: 'chat', serverTime: now, message: toMessage(message) });
+            }
+
+            return events;
+        },
+    };
+}
+
+/**
+ * Atualiza o estado de reprodução (somente o host).
+ */
+export async function updateWatchPartyPlayback(
+    roomId: string,
+    userId: string,
+    state: { playing: boolean; positionSeconds: number }
+): Promise<WatchPartyActionResult> {
+    const now = Date.now();
+    const room = await prisma.watchParty.findFirst({
+        where: { id: roomId, lastActiveAt: { gte: idleCutoff(now) } },
+        select: { hostId: true },
+    });
+
+    if (!room) return { status: 'not_found' };
+    if (room.hostId !== userId) return { status: 'forbidden' };
+
+    await prisma.watchParty.update({
+        where: { id: roomId },
+        data: {
+            playing: state.playing,
+            positionSeconds: state.positionSeconds,
+            playbackUpdatedAt: new Date(now),
+        },
+    });
+
+    return { status: 'ok' };
+}
+
+/**
+ * Envia uma mensagem no chat (somente participantes conectados).
+ */
+export async function sendWatchPartyMessage(roomId: string, userId: string, text: string): Promise<WatchPartyActionResult> {
+    const now = Date.now();
+    const room = await findActiveRoom(roomId, now);
+    if (!room) return { status: 'not_found' };
+
+    const participant = room.participants.find((p) => p.userId === userId);
+    if (!participant) return { status: 'forbidden' };
+
+    await prisma.watchPartyMessage.create({
+        data: {
+            roomId,
+            userId,
+            name: participant.name,
+            text,
+            sentAt: new Date(now),
+        },
+    });
+
+    return { status: 'ok' };
+}
+
+/**
+ * Encerra a sala (somente o host). Os convidados recebem `closed` na
+ * próxima consulta do SSE.
+ */
+export async function closeWatchParty(roomId: string, userId: string): Promise<WatchPartyActionResult> {
+    const room = await prisma.watchParty.findUnique({
+        where: { id: roomId },
+        select: { hostId: true },
+    });
+
+    if (!room) return { status: 'not_found' };
+    if (room.hostId !== userId) return { status: 'forbidden' };
+
+    // Participantes e mensagens saem em cascata
+    await prisma.watchParty.deleteMany({ where: { id: roomId, hostId: userId } });
+
+    return { status: 'ok' };
+}
@@ -0,0 +1,64 @@
+import {
+    COMPLETION_THRESHOLD,
+    COMPLETION_REMAINING_SECONDS,
+    MINIMUM_PROGRESS_THRESHOLD,
+} from '@/lib/watch-constants';
+
+/**
+ * Watch progress helpers.
+ * Safe to import from both client and server components.
+ *
+ * Records saved before positionSeconds/durationSeconds existed only have the
+ * percentage, so every helper falls back to `progress` alone.
+ */
+
+export interface WatchProgressLike {
+    /** Progress percentage (0-100) */
+    progress: number;
+    /** Exact playback position (seconds) */
+    positionSeconds?: number | null;
+    /** Video duration (seconds) */
+    durationSeconds?: number | null;
+}
+
+/**
+ * Seconds left to the end of the video, or null when the duration is unknown.
+ */
+export function getRemainingSeconds(record: WatchProgressLike): number | null {
+    if (record.positionSeconds == null || !record.durationSeconds) return null;
+    return Math.max(record.durationSeconds - record.positionSeconds, 0);
+}
+
+/**
+ * Whether the video counts as watched: COMPLETION_THRESHOLD reached, or less than
+ * COMPLETION_REMAINING_SECONDS left after watching at least half of it.
+ */
+export function isWatchCompleted(record: WatchProgressLike): boolean {
+    if (record.progress >= COMPLETION_THRESHOLD) return true;
+
+    const remaining = getRemainingSeconds(record);
+    if (remaining === null) return false;
+
+    return remaining <= COMPLETION_REMAINING_SECONDS && record.positionSeconds! >= record.durationSeconds! / 2;
+}
+
+/**
+ * Whether the video is in progress (started but not yet watched).
+ */
+export function isWatchInProgress(record: WatchProgressLike): boolean {
+    return record.progress >= MINIMUM_PROGRESS_THRESHOLD && !isWatchCompleted(record);
+}
+
+/**
+ * Resume position in seconds: the exact position when known, otherwise
+ * estimated from the percentage (requires the current duration).
+ */
+export function getResumePositionSeconds(record: WatchProgressLike, duration?: number): number | null {
+    if (record.positionSeconds != null && record.positionSeconds > 0) {
+        return record.positionSeconds;
+    }
+    if (duration && duration > 0 && record.progress > 0) {
+        return (record.progress / 100) * duration;
+    }
+    return null;
+}
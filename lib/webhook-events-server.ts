@@ -0,0 +1,331 @@
+/**
+ * Webhook Events Server-Side Utilities
+ *
+ * Funções que dependem de Prisma/banco de dados (só podem ser usadas no servidor)
+ * Para funções puras (client-safe), use @/lib/webhook-events
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+    activatePaidSubscription,
+    markSubscriptionPastDue,
+    refundSubscription,
+    sendDunningEmail,
+    type DunningNotice,
+} from '@/lib/subscription-server';
+import {
+    getNextRetryAt,
+    webhookPayloadSchema,
+    WEBHOOK_STALE_PENDING_MINUTES,
+    type WebhookPayload,
+} from '@/lib/webhook-events';
+
+/** Limite de eventos reprocessados por execução do cron */
+const RETRY_BATCH_SIZE = 50;
+
+/** Tamanho máximo da mensagem de erro guardada no ledger */
+const MAX_ERROR_LENGTH = 1000;
+
+export interface ProcessWebhookEventResult {
+    success: boolean;
+    /** Outra execução (entrega, cron ou replay) já aplicou o evento */
+    alreadyProcessed?: boolean;
+    error?: string;
+}
+
+/** Status que ainda podem ser aplicados (processed nunca é reaplicado) */
+const CLAIMABLE_STATUSES = ['pending', 'failed'];
+
+/**
+ * O evento já foi reivindicado por outra execução; a transação é desfeita
+ * sem aplicar nada.
+ */
+class WebhookEventAlreadyProcessedError extends Error {
+    constructor(id: string) {
+        super(`Webhook event already processed: ${id}`);
+        this.name = 'WebhookEventAlreadyProcessedError';
+    }
+}
+
+/**
+ * Grava o evento no ledger (status pending).
+ *
+ * ⚠️ SERVER-ONLY: Usa Prisma, não pode ser usado em Client Components
+ *
+ * @returns false se outra entrega do mesmo evento já o gravou (id único)
+ */
+export async function recordWebhookEvent(id: string, payload: WebhookPayload): Promise<boolean> {
+    try {
+        await prisma.webhookEvent.create({
+            data: {
+                id,
+                type: payload.type,
+                payload: payload as Prisma.InputJsonValue,
+            },
+        });
+        return true;
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return false;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Aplica o evento e atualiza o ledger.
+ *
+ * A transação começa reivindicando a linha (pending/failed → processed): o
+ * lock da linha serializa entregas repetidas, o cron de retry e o replay
+ * manual, e só quem reivindica aplica o evento. A aplicação e o status
+ * processed são confirmados juntos; em caso de erro tudo é desfeito e o
+ * evento fica failed com a próxima tentativa agendada. Emails de cobrança
+ * só saem depois da transação confirmada.
+ *
+ * @param event.attempts - tentativas anteriores (para o backoff)
+ */
+export async function processWebhookEvent(event: {
+    id: string;
+    payload: WebhookPayload;
+    attempts: number;
+}): Promise<ProcessWebhookEventResult> {
+    try {
+        const notice = await prisma.$transaction(async (tx) => {
+            const { count } = await tx.webhookEvent.updateMany({
+                where: { id: event.id, status: { in: CLAIMABLE_STATUSES } },
+                data: {
+                    status: 'processed',
+                    attempts: { increment: 1 },
+                    processedAt: new Date(),
+                    error: null,
+                    nextRetryAt: null,
+                },
+            });
+
+            if (count === 0) {
+                throw new WebhookEventAlreadyProcessedError(event.id);
+            }
+
+            return applyPaymentEvent(tx, event.payload);
+        });
+
+        if (notice) await sendDunningEmail(notice);
+
+        return { success: true };
+    } catch (error) {
+        if (error instanceof WebhookEventAlreadyProcessedError) {
+            console.log(`⚠️  [Webhook] Evento ${event.id} já processado por outra execução`);
+            return { success: true, alreadyProcessed: true };
+        }
+
+        const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+        const attempts = event.attempts + 1;
+
+        console.error(`❌ [Webhook] Falha ao processar evento ${event.id} (tentativa ${attempts}):`, error);
+
+        // Não sobrescreve um processed gravado por outra execução no meio tempo
+        await prisma.webhookEvent.updateMany({
+            where: { id: event.id, status: { in: CLAIMABLE_STATUSES } },
+            data: {
+                status: 'failed',
+                attempts,
+                error: message,
+                nextRetryAt: getNextRetryAt(attempts),
+            },
+        }).catch((updateError) => {
+            console.error(`❌ [Webhook] Erro ao registrar falha do evento ${event.id}:`, updateError);
+        });
+
+        return { success: false, error: message };
+    }
+}
+
+/**
+ * Reprocessa um evento gravado no ledger (cron e replay manual).
+ */
+export async function replayWebhookEvent(event: {
+    id: string;
+    payload: Prisma.JsonValue;
+    attempts: number;
+}): Promise<ProcessWebhookEventResult> {
+    const parsed = webhookPayloadSchema.safeParse(event.payload);
+
+    if (!parsed.success) {
+        return { success: false, error: 'api.errors.invalidPayload' };
+    }
+
+    return processWebhookEvent({ id: event.id, payload: parsed.data, attempts: event.attempts });
+}
+
+/**
+ * Reprocessa eventos failed com nextRetryAt vencido e pending interrompidos.
+ * Chamado pelo cron /api/cron/retry-webhook-events.
+ *
+ * @returns quantidade de eventos processados com sucesso e com falha
+ */
+export async function retryWebhookEvents(): Promise<{ processed: number; failed: number }> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - WEBHOOK_STALE_PENDING_MINUTES * 60 * 1000);
+
+    const events = await prisma.webhookEvent.findMany({
+        where: {
+            OR: [
+                { status: 'failed', nextRetryAt: { lte: now } },
+                { status: 'pending', receivedAt: { lte: staleBefore } },
+            ],
+        },
+        orderBy: { receivedAt: 'asc' },
+        take: RETRY_BATCH_SIZE,
+    });
+
+    let processed = 0;
+    let failed = 0;
+
+    // Em ordem de chegada (um pagamento antes do seu estorno)
+    for (const event of events) {
+        const result = await replayWebhookEvent(event);
+        if (result.alreadyProcessed) continue;
+
+        if (result.success) {
+            processed++;
+        } else {
+            failed++;
+        }
+    }
+
+    return { processed, failed };
+}
+
+/**
+ * Aplica um evento de pagamento à assinatura do usuário.
+ *
+ * - payment.succeeded: renova, converte o trial ou troca de plano
+ * - payment.failed: assinatura paga entra em past_due (carência)
+ * - payment.refunded: acesso encerrado na hora
+ *
+ * @returns email de cobrança a enviar após o commit, se houver
+ */
+async function applyPaymentEvent(tx: Prisma.TransactionClient, event: WebhookPayload): Promise<DunningNotice | null> {
+    const [user, plan] = await Promise.all([
+        tx.user.findUnique({
+            where: { id: event.userId },
+            select: { id: true, email: true }
+        }),
+        tx.plan.findUnique({
+            where: { id: event.planId },
+            select: { id: true, name: true, screens: true }
+        }),
+    ]);
+
+    if (!user) {
+        throw new Error(`User not found: ${event.userId}`);
+    }
+
+    if (!plan) {
+        throw new Error(`Plan not found: ${event.planId}`);
+    }
+
+    if (event.type === 'payment.succeeded') {
+        // Renovar/converter a assinatura (espelha plano e telas no usuário)
+        const { subscription, previousPlanId } = await activatePaidSubscription(tx, {
+            userId: event.userId,
+            planId: event.planId,
+            billingInterval: event.interval,
+            gatewaySubscriptionId: event.subscriptionId,
+        });
+
+        // Buscar família do owner
+        const family = await tx.family.findUnique({
+            where: { ownerId: event.userId },
+            include: {
+                members: { orderBy: { joinedAt: 'desc' } }, // Mais recentes primeiro
+                invites: { where: { status: 'pending' } }
+            },
+        });
+
+        if (family) {
+            const newMaxMembers = plan.screens;
+            const currentMembersCount = family.members.length + 1; // +1 para owner
+
+            // Se downgrade, remover membros excedentes
+            if (currentMembersCount > newMaxMembers) {
+                const toRemove = currentMembersCount - newMaxMembers;
+                const membersToDelete = family.members
+                    .slice(0, toRemove) // Mais recentes são removidos primeiro
+                    .map(m => m.id);
+
+                await tx.familyMember.deleteMany({
+                    where: { id: { in: membersToDelete } },
+                });
+
+                console.log(`[Webhook] Downgrade: Removed ${toRemove} member(s) from family`);
+            }
+
+            // Calcular slots disponíveis após remoção
+            const remainingMembers = Math.max(0, family.members.length - (currentMembersCount > newMaxMembers ? currentMembersCount - newMaxMembers : 0));
+            const slotsDisponiveis = newMaxMembers - 1 - remainingMembers; // -1 para owner
+
+            // Revogar convites pendentes se não há slots
+            if (slotsDisponiveis <= 0 && family.invites.length > 0) {
+                await tx.familyInvite.updateMany({
+                    where: { familyId: family.id, status: 'pending' },
+                    data: { status: 'revoked' },
+                });
+                console.log(`[Webhook] Revoked ${family.invites.length} pending invite(s) due to no available slots`);
+            }
+
+            // Atualizar maxMembers da família
+            await tx.family.update({
+                where: { id: family.id },
+                data: { maxMembers: newMaxMembers },
+            });
+
+            console.log(`[Webhook] Family updated: maxMembers ${family.maxMembers} → ${newMaxMembers}`);
+        }
+
+        console.log('✅ Subscription updated:', {
+            userId: user.id,
+            oldPlanId: previousPlanId,
+            newPlanId: event.planId,
+            screens: plan.screens,
+            interval: subscription.billingInterval,
+            currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
+        });
+        return null;
+    }
+
+    if (event.type === 'payment.failed') {
+        const subscription = await markSubscriptionPastDue(tx, event.userId, event.planId);
+
+        if (!subscription?.graceEndsAt) {
+            console.log(`[Webhook] Falha de pagamento ignorada para ${user.id} (sem assinatura ativa do plano ${event.planId} ou já em past_due)`);
+            return null;
+        }
+
+        console.log('⚠️ Subscription past due:', {
+            userId: user.id,
+            planId: event.planId,
+            graceEndsAt: subscription.graceEndsAt.toISOString(),
+        });
+
+        return {
+            to: user.email,
+            type: 'payment-failed',
+            planName: plan.name,
+            graceEndsAt: subscription.graceEndsAt,
+        };
+    }
+
+    if (event.type === 'payment.refunded') {
+        const refunded = await refundSubscription(tx, event.userId, event.planId);
+
+        if (refunded) {
+            console.log('✅ Subscription refunded:', { userId: user.id, planId: event.planId });
+        } else {
+            console.log(`[Webhook] Estorno ignorado para ${user.id} (plano ${event.planId} não está vigente)`);
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { BILLING_INTERVALS } from '@/lib/subscription';
+
+/**
+ * Ledger de Webhooks de Pagamento
+ *
+ * Cada evento recebido em /api/webhooks/payment é gravado em WebhookEvent
+ * antes de ser aplicado (id único = idempotência entre instâncias/cold starts).
+ *
+ * Status:
+ * - pending: recebido, ainda não aplicado (ou processamento interrompido)
+ * - processed: aplicado com sucesso
+ * - failed: erro ao aplicar; reprocessado pelo cron em nextRetryAt, por uma
+ *   nova entrega do gateway ou manualmente em /api/admin/webhook-events
+ *
+ * Funções puras; gravação e processamento ficam em lib/webhook-events-server.ts.
+ */
+
+export const WEBHOOK_EVENT_STATUSES = ['pending', 'processed', 'failed'] as const;
+
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+/** Espera antes de cada nova tentativa automática (minutos); esgotadas, só manual */
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+/** Evento pending há mais tempo que isso é considerado interrompido */
+export const WEBHOOK_STALE_PENDING_MINUTES = 10;
+
+// Schema de validação para webhook payload
+export const webhookPayloadSchema = z.object({
+    eventId: z.string().min(1).max(255).optional(),
+    type: z.enum(['payment.succeeded', 'payment.failed', 'payment.refunded'], {
+        message: 'api.payment.invalidEventType'
+    }),
+    userId: z.string().min(1, 'api.payment.userIdRequired'),
+    planId: z.string().min(1, 'api.payment.planIdRequired'),
+    transactionId: z.string().min(1, 'api.payment.transactionIdRequired'),
+    interval: z.enum(BILLING_INTERVALS).default('monthly'),
+    subscriptionId: z.string().min(1).optional(),
+    amount: z.number().positive().optional(),
+    currency: z.string().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
+
+/**
+ * Id do evento no ledger: o id enviado pelo gateway ou, na falta dele,
+ * transação + tipo (a mesma transação pode gerar succeeded e depois refunded).
+ */
+export function getWebhookEventId(payload: Pick<WebhookPayload, 'eventId' | 'type' | 'transactionId'>): string {
+    return payload.eventId ?? `${payload.transactionId}_${payload.type}`;
+}
+
+/**
+ * Próxima tentativa automática após uma falha.
+ *
+ * @param attempts - tentativas feitas até agora (incluindo a que falhou)
+ * @returns null quando as tentativas automáticas se esgotaram
+ */
+export function getNextRetryAt(attempts: number, now = new Date()): Date | null {
+    const delay = WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1];
+    if (delay === undefined) return null;
+    return new Date(now.getTime() + delay * 60 * 1000);
+}
@@ -0,0 +1,118 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Assinatura HMAC dos Webhooks de Pagamento
+ *
+ * O gateway assina `${timestamp}.${corpo bruto}` com HMAC-SHA256 e envia:
+ * - X-Webhook-Timestamp: segundos Unix do envio
+ * - X-Webhook-Signature: v1=<hex> (várias separadas por vírgula são aceitas)
+ *
+ * Timestamps fora da janela de tolerância são rejeitados (replay); dentro da
+ * janela, o ledger WebhookEvent garante que o evento só é aplicado uma vez.
+ * Durante a rotação, qualquer um dos segredos configurados é aceito.
+ *
+ * Server-only (node:crypto); a configuração vem de lib/payment-config-validator.ts.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+/** Janela padrão entre o envio e o recebimento (segundos) */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_VERSION = 'v1';
+
+export type WebhookSignatureError =
+    | 'missing_signature'
+    | 'invalid_timestamp'
+    | 'timestamp_out_of_tolerance'
+    | 'invalid_signature';
+
+export type WebhookSignatureResult =
+    | { valid: true }
+    | { valid: false; error: WebhookSignatureError };
+
+/**
+ * HMAC-SHA256 (hex) de `${timestamp}.${rawBody}`.
+ */
+export function signWebhookPayload(rawBody: string, secret: string, timestamp: number): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+/**
+ * Valor do header X-Webhook-Signature (usado pelo gateway e nos testes).
+ */
+export function buildWebhookSignatureHeader(rawBody: string, secret: string, timestamp: number): string {
+    return `${SIGNATURE_VERSION}=${signWebhookPayload(rawBody, secret, timestamp)}`;
+}
+
+/**
+ * Assinaturas v1 do header (outras versões são ignoradas).
+ */
+function parseSignatureHeader(header: string): string[] {
+    return header
+        .split(',')
+        .map((part) => part.trim().split('='))
+        .filter(([version, value]) => version === SIGNATURE_VERSION && !!value)
+        .map(([, value]) => value);
+}
+
+/**
+ * Comparação em tempo constante de duas assinaturas hex.
+ */
+function signaturesMatch(expected: string, received: string): boolean {
+    const a = Buffer.from(expected, 'hex');
+    const b = Buffer.from(received, 'hex');
+    return a.length === b.length && a.length > 0 && timingSafeEqual(a, b);
+}
+
+/**
+ * Valida assinatura e timestamp de um webhook.
+ *
+ * @param params.secrets - segredo atual e, durante a rotação, o anterior
+ * @param params.toleranceSeconds - diferença máxima (para mais ou para menos) entre o timestamp e agora
+ */
+export function verifyWebhookSignature(params: {
+    rawBody: string;
+    signatureHeader: string | null;
+    timestampHeader: string | null;
+    secrets: string[];
+    toleranceSeconds?: number;
+    now?: number;
+}): WebhookSignatureResult {
+    const {
+        rawBody,
+        signatureHeader,
+        timestampHeader,
+        secrets,
+        toleranceSeconds = DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+        now = Date.now(),
+    } = params;
+
+    if (!signatureHeader || !timestampHeader) {
+        return { valid: false, error: 'missing_signature' };
+    }
+
+    if (!/^\d+$/.test(timestampHeader)) {
+        return { valid: false, error: 'invalid_timestamp' };
+    }
+
+    const timestamp = Number(timestampHeader);
+
+    if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+        return { valid: false, error: 'timestamp_out_of_tolerance' };
+    }
+
+    const received = parseSignatureHeader(signatureHeader);
+
+    // Compara todas as combinações (sem retorno antecipado por segredo)
+    let matched = false;
+    for (const secret of secrets) {
+        const expected = signWebhookPayload(rawBody, secret, timestamp);
+        for (const signature of received) {
+            if (signaturesMatch(expected, signature)) matched = true;
+        }
+    }
+
+    return matched ? { valid: true } : { valid: false, error: 'invalid_signature' };
+}
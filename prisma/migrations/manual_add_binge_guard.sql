@@ -0,0 +1,7 @@
+-- Migration: Add UserPreferences.stillWatchingEpisodes and stillWatchingMinutes
+-- Gerado em: 2026-10-18
+-- Descrição: Limites do "Você ainda está assistindo?" durante o autoplay de episódios
+-- (0 = desligado)
+
+ALTER TABLE "UserPreferences" ADD COLUMN IF NOT EXISTS "stillWatchingEpisodes" INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE "UserPreferences" ADD COLUMN IF NOT EXISTS "stillWatchingMinutes" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- Migration: Add UserPreferences.dataUsage
+-- Gerado em: 2026-10-18
+-- Descrição: Uso de dados do player (auto, saveData ou maxQuality)
+
+ALTER TABLE "UserPreferences" ADD COLUMN IF NOT EXISTS "dataUsage" TEXT NOT NULL DEFAULT 'auto';
@@ -0,0 +1,6 @@
+-- Migration: Add UserPreferences.keyboardShortcuts
+-- Gerado em: 2026-10-18
+-- Descrição: Atalhos de teclado remapeados pelo usuário (ação → teclas);
+-- NULL = atalhos padrão (lib/keyboard-shortcuts.ts)
+
+ALTER TABLE "UserPreferences" ADD COLUMN IF NOT EXISTS "keyboardShortcuts" JSONB;
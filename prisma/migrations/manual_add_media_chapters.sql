@@ -0,0 +1,26 @@
+-- Migration: Add MediaChapter table
+-- Gerado em: 2026-10-18
+-- Descrição: Capítulos informados pelo backend de streaming, exibidos na
+-- página de detalhes (que não consulta o backend)
+
+CREATE TABLE IF NOT EXISTS "MediaChapter" (
+    "id" TEXT NOT NULL,
+    "tmdbId" INTEGER NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "seasonNumber" INTEGER NOT NULL DEFAULT 0,
+    "episodeNumber" INTEGER NOT NULL DEFAULT 0,
+    "position" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "startSeconds" DOUBLE PRECISION NOT NULL,
+    "thumbnail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MediaChapter_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "MediaChapter_tmdbId_mediaType_seasonNumber_episodeNumber_position_key"
+    ON "MediaChapter"("tmdbId", "mediaType", "seasonNumber", "episodeNumber", "position");
+CREATE INDEX IF NOT EXISTS "MediaChapter_tmdbId_mediaType_idx" ON "MediaChapter"("tmdbId", "mediaType");
+
+COMMENT ON TABLE "MediaChapter" IS 'Capítulos informados pelo backend de streaming (cache para a página de detalhes)';
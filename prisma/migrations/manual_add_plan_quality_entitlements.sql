@@ -0,0 +1,11 @@
+-- Migration: Add Plan.maxQuality and Plan.hdr
+-- Gerado em: 2026-10-18
+-- Descrição: Qualidade máxima de vídeo por plano (720p, 1080p ou 4K) e acesso a HDR
+
+ALTER TABLE "Plan" ADD COLUMN IF NOT EXISTS "maxQuality" TEXT NOT NULL DEFAULT '4K';
+ALTER TABLE "Plan" ADD COLUMN IF NOT EXISTS "hdr" BOOLEAN NOT NULL DEFAULT true;
+
+-- Planos padrão (mesmos valores de prisma/seed.ts)
+UPDATE "Plan" SET "maxQuality" = '720p', "hdr" = false WHERE "id" = 'plan_individual';
+UPDATE "Plan" SET "maxQuality" = '1080p', "hdr" = false WHERE "id" = 'plan_duo';
+UPDATE "Plan" SET "maxQuality" = '4K', "hdr" = true WHERE "id" = 'plan_familia';
@@ -0,0 +1,27 @@
+-- Migration: Add SegmentMarker table and UserPreferences.autoSkipIntro
+-- Gerado em: 2026-10-18
+-- Descrição: Marcadores de abertura/recapitulação/créditos editáveis por admins
+-- e preferência para pular a abertura automaticamente
+
+CREATE TABLE IF NOT EXISTS "SegmentMarker" (
+    "id" TEXT NOT NULL,
+    "tmdbId" INTEGER NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "seasonNumber" INTEGER NOT NULL DEFAULT 0,
+    "episodeNumber" INTEGER NOT NULL DEFAULT 0,
+    "type" TEXT NOT NULL,
+    "startSeconds" DOUBLE PRECISION NOT NULL,
+    "endSeconds" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SegmentMarker_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "SegmentMarker_tmdbId_mediaType_seasonNumber_episodeNumber_type_key"
+    ON "SegmentMarker"("tmdbId", "mediaType", "seasonNumber", "episodeNumber", "type");
+CREATE INDEX IF NOT EXISTS "SegmentMarker_tmdbId_mediaType_idx" ON "SegmentMarker"("tmdbId", "mediaType");
+
+COMMENT ON TABLE "SegmentMarker" IS 'Marcadores de abertura/recapitulação/créditos — têm prioridade sobre os do backend de streaming';
+
+ALTER TABLE "UserPreferences" ADD COLUMN IF NOT EXISTS "autoSkipIntro" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,22 @@
+-- Migration: Add SeriesTrackPreference table
+-- Gerado em: 2026-10-18
+-- Descrição: Última faixa de áudio/legenda escolhida por usuário em cada série,
+-- restaurada automaticamente nos próximos episódios
+
+CREATE TABLE IF NOT EXISTS "SeriesTrackPreference" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tmdbId" INTEGER NOT NULL,
+    "audioLang" TEXT,
+    "subtitleLang" TEXT,
+    "subtitlesEnabled" BOOLEAN,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SeriesTrackPreference_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "SeriesTrackPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "SeriesTrackPreference_userId_tmdbId_key"
+    ON "SeriesTrackPreference"("userId", "tmdbId");
+
+COMMENT ON TABLE "SeriesTrackPreference" IS 'Faixas de áudio/legenda lembradas por série — têm prioridade sobre UserPreferences.subtitleLang';
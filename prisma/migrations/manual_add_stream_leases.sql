@@ -0,0 +1,28 @@
+-- Migration: Add StreamLease table
+-- Gerado em: 2026-10-18
+-- Descrição: Leases de reprodução para limitar telas simultâneas por plano
+
+CREATE TABLE IF NOT EXISTS "StreamLease" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accountOwnerId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "tmdbId" INTEGER NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "seasonNumber" INTEGER NOT NULL DEFAULT 0,
+    "episodeNumber" INTEGER NOT NULL DEFAULT 0,
+    "lastHeartbeatAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StreamLease_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "StreamLease_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "StreamLease_accountOwnerId_expiresAt_idx" ON "StreamLease"("accountOwnerId", "expiresAt");
+CREATE INDEX IF NOT EXISTS "StreamLease_sessionId_idx" ON "StreamLease"("sessionId");
+CREATE INDEX IF NOT EXISTS "StreamLease_userId_idx" ON "StreamLease"("userId");
+
+COMMENT ON TABLE "StreamLease" IS 'Reproduções ativas — limita telas simultâneas conforme Plan.screens';
@@ -0,0 +1,6 @@
+-- Migration: Add cancelAtPeriodEnd to Subscription
+-- Gerado em: 2026-10-18
+-- Descrição: Cancelamento agendado para o fim do período (acesso mantido até
+-- currentPeriodEnd; o cron end-canceled-subscriptions faz o downgrade)
+
+ALTER TABLE "Subscription" ADD COLUMN IF NOT EXISTS "cancelAtPeriodEnd" BOOLEAN NOT NULL DEFAULT false;
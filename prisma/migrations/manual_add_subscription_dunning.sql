@@ -0,0 +1,14 @@
+-- Migration: Add dunning fields to Subscription
+-- Gerado em: 2026-10-18
+-- Descrição: Período de carência após falha de pagamento (past_due) e controle
+-- do lembrete de cobrança enviado por email
+
+ALTER TABLE "Subscription" ADD COLUMN IF NOT EXISTS "graceEndsAt" TIMESTAMP(3);
+ALTER TABLE "Subscription" ADD COLUMN IF NOT EXISTS "dunningReminderSentAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "Subscription_status_graceEndsAt_idx" ON "Subscription"("status", "graceEndsAt");
+
+-- Assinaturas já em past_due ganham a carência calculada pela regra anterior
+UPDATE "Subscription"
+SET "graceEndsAt" = "currentPeriodEnd" + INTERVAL '3 days'
+WHERE "status" = 'past_due' AND "graceEndsAt" IS NULL;
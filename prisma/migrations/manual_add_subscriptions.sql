@@ -0,0 +1,63 @@
+-- Migration: Add Subscription table
+-- Gerado em: 2026-10-18
+-- Descrição: Assinaturas com status, período de cobrança e referência do gateway
+-- (User.planId/maxScreens/trialEndsAt passam a espelhar a assinatura vigente)
+
+CREATE TABLE IF NOT EXISTS "Subscription" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "billingInterval" TEXT NOT NULL DEFAULT 'monthly',
+    "currentPeriodStart" TIMESTAMP(3) NOT NULL,
+    "currentPeriodEnd" TIMESTAMP(3) NOT NULL,
+    "gatewaySubscriptionId" TEXT,
+    "canceledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Subscription_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "Subscription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Subscription_planId_fkey" FOREIGN KEY ("planId") REFERENCES "Plan"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Subscription_gatewaySubscriptionId_key" ON "Subscription"("gatewaySubscriptionId");
+CREATE UNIQUE INDEX IF NOT EXISTS "Subscription_userId_key" ON "Subscription"("userId");
+CREATE INDEX IF NOT EXISTS "Subscription_status_currentPeriodEnd_idx" ON "Subscription"("status", "currentPeriodEnd");
+
+-- Assinaturas existentes: trials mantêm a data de fim; planos pagos ganham um
+-- período mensal a partir de agora.
+-- Suposição: a data real de renovação não era guardada, então todo plano pago
+-- vence um mês após a migração; se o gateway não renovar até lá, o cron
+-- process-dunning coloca a assinatura em past_due
+INSERT INTO "Subscription" ("id", "userId", "planId", "status", "currentPeriodStart", "currentPeriodEnd", "updatedAt")
+SELECT
+    'sub_' || "id",
+    "id",
+    "planId",
+    CASE
+        WHEN "trialEndsAt" IS NULL THEN 'active'
+        WHEN "trialEndsAt" > CURRENT_TIMESTAMP THEN 'trialing'
+        ELSE 'expired'
+    END,
+    COALESCE("trialEndsAt" - INTERVAL '7 days', CURRENT_TIMESTAMP),
+    COALESCE("trialEndsAt", CURRENT_TIMESTAMP + INTERVAL '1 month'),
+    CURRENT_TIMESTAMP
+FROM "User"
+WHERE "planId" IS NOT NULL
+ON CONFLICT ("userId") DO NOTHING;
+
+-- Trials já vencidos entram como expired: o espelho no usuário também perde o
+-- plano e a família é desfeita (como expireTrials), senão a sessão e os
+-- membros continuariam vendo o plano Duo
+DELETE FROM "Family" f
+USING "Subscription" s
+WHERE s."userId" = f."ownerId"
+  AND s."status" = 'expired';
+
+UPDATE "User" u
+SET "planId" = NULL, "trialEndsAt" = NULL, "maxScreens" = 1
+FROM "Subscription" s
+WHERE s."userId" = u."id"
+  AND s."status" = 'expired'
+  AND u."planId" IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Migration: Add positionSeconds/durationSeconds to WatchHistory
+-- Gerado em: 2026-10-18
+-- Descrição: Posição exata em segundos para retomar a reprodução e calcular tempo restante
+-- Registros antigos ficam NULL e continuam usando apenas "progress" (%)
+
+ALTER TABLE "WatchHistory" ADD COLUMN IF NOT EXISTS "positionSeconds" DOUBLE PRECISION;
+ALTER TABLE "WatchHistory" ADD COLUMN IF NOT EXISTS "durationSeconds" DOUBLE PRECISION;
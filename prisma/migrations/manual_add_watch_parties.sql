@@ -0,0 +1,55 @@
+-- Migration: Add WatchParty tables
+-- Gerado em: 2026-10-18
+-- Descrição: Salas de Watch Party, participantes e chat no banco (compartilhados
+-- entre instâncias serverless em vez de memória por instância)
+
+CREATE TABLE IF NOT EXISTS "WatchParty" (
+    "id" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "tmdbId" INTEGER NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "seasonNumber" INTEGER,
+    "episodeNumber" INTEGER,
+    "playing" BOOLEAN NOT NULL DEFAULT false,
+    "positionSeconds" DOUBLE PRECISION,
+    "playbackUpdatedAt" TIMESTAMP(3),
+    "lastActiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WatchParty_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "WatchParty_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "WatchParty_lastActiveAt_idx" ON "WatchParty"("lastActiveAt");
+
+CREATE TABLE IF NOT EXISTS "WatchPartyParticipant" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WatchPartyParticipant_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "WatchPartyParticipant_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "WatchParty"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "WatchPartyParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "WatchPartyParticipant_roomId_userId_key" ON "WatchPartyParticipant"("roomId", "userId");
+CREATE INDEX IF NOT EXISTS "WatchPartyParticipant_userId_idx" ON "WatchPartyParticipant"("userId");
+
+CREATE TABLE IF NOT EXISTS "WatchPartyMessage" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "text" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WatchPartyMessage_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "WatchPartyMessage_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "WatchParty"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "WatchPartyMessage_roomId_sentAt_idx" ON "WatchPartyMessage"("roomId", "sentAt");
+
+COMMENT ON TABLE "WatchParty" IS 'Salas de Watch Party — estado compartilhado entre instâncias (ver lib/watch-party.ts)';
@@ -0,0 +1,23 @@
+-- Migration: Add WebhookEvent table
+-- Gerado em: 2026-10-18
+-- Descrição: Ledger durável dos webhooks de pagamento (idempotência entre
+-- instâncias e reprocessamento de eventos com falha)
+
+CREATE TABLE IF NOT EXISTS "WebhookEvent" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "nextRetryAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "WebhookEvent_status_nextRetryAt_idx" ON "WebhookEvent"("status", "nextRetryAt");
+CREATE INDEX IF NOT EXISTS "WebhookEvent_receivedAt_idx" ON "WebhookEvent"("receivedAt");
+
+COMMENT ON TABLE "WebhookEvent" IS 'Eventos recebidos em /api/webhooks/payment — o id único garante que cada evento é aplicado uma vez';
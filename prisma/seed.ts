@@ -9,6 +9,8 @@ async function main() {
             id: 'plan_individual',
             name: 'Individual',
             screens: 1,
+            maxQuality: '720p',
+            hdr: false,
             priceMonthly: 19.90,
             priceYearly: 199.00,
             active: true,
@@ -17,6 +19,8 @@ async function main() {
             id: 'plan_duo',
             name: 'Duo',
             screens: 2,
+            maxQuality: '1080p',
+            hdr: false,
             priceMonthly: 29.90,
             priceYearly: 299.00,
             active: true,
@@ -25,6 +29,8 @@ async function main() {
             id: 'plan_familia',
             name: 'Família',
             screens: 4,
+            maxQuality: '4K',
+            hdr: true,
             priceMonthly: 39.90,
             priceYearly: 399.00,
             active: true,
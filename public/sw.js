@@ -8,6 +8,8 @@
  * - Cache First: assets estáticos (JS, CSS, fontes, imagens)
  * - Stale While Revalidate: API do TMDB (imagens de posters/backdrops)
  * - Offline fallback: página dedicada quando sem conexão
+ * - Downloads offline: MP4/HLS baixados sob demanda em DOWNLOADS_CACHE e
+ *   servidos em /offline-media/<id>/... (ver lib/offline-downloads.ts)
  *
  * Production-grade com versionamento, limpeza de caches antigos e
  * tratamento robusto de erros.
@@ -19,6 +21,22 @@ const DYNAMIC_CACHE = `yuialive-dynamic-${CACHE_VERSION}`;
 const IMAGE_CACHE = `yuialive-images-${CACHE_VERSION}`;
 const OFFLINE_URL = '/offline';
 
+// Cache de downloads: sem versão (sobrevive a atualizações do SW)
+const DOWNLOADS_CACHE = 'yuialive-downloads';
+const OFFLINE_MEDIA_PATH = '/offline-media/';
+const DOWNLOADS_PAGE = '/downloads';
+
+// Metadados dos downloads (mesmo banco de lib/offline-downloads.ts)
+const OFFLINE_DB_NAME = 'yuialive-offline';
+const OFFLINE_DB_VERSION = 1;
+const OFFLINE_DB_STORE = 'downloads';
+
+// Intervalo mínimo entre mensagens de progresso (ms)
+const DOWNLOAD_PROGRESS_INTERVAL = 1000;
+
+// Downloads em andamento nesta instância do SW
+const activeDownloads = new Set();
+
 // Assets estáticos para pre-cache (App Shell)
 const PRECACHE_ASSETS = [
     OFFLINE_URL,
@@ -111,6 +129,328 @@ function shouldSkip(url) {
     );
 }
 
+// ─── Downloads offline ─────────────────────────────────────────────────────
+
+/**
+ * Envia uma mensagem a todas as abas (progresso/conclusão de downloads)
+ */
+async function notifyClients(message) {
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    clients.forEach((client) => client.postMessage(message));
+}
+
+function getOfflineMediaKey(id, file) {
+    return `${OFFLINE_MEDIA_PATH}${encodeURIComponent(id)}/${file}`;
+}
+
+/**
+ * Remove todas as entradas de um download do cache
+ */
+async function deleteDownload(id) {
+    const cache = await caches.open(DOWNLOADS_CACHE);
+    const prefix = `${OFFLINE_MEDIA_PATH}${encodeURIComponent(id)}/`;
+    const keys = await cache.keys();
+    await Promise.all(
+        keys
+            .filter((request) => new URL(request.url).pathname.startsWith(prefix))
+            .map((request) => cache.delete(request))
+    );
+}
+
+/**
+ * Registro do download no IndexedDB (null se não existe)
+ */
+function getDownloadRecord(id) {
+    return new Promise((resolve, reject) => {
+        const open = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+        open.onupgradeneeded = () => {
+            open.result.createObjectStore(OFFLINE_DB_STORE, { keyPath: 'id' });
+        };
+        open.onerror = () => reject(open.error);
+        open.onsuccess = () => {
+            const db = open.result;
+            const request = db.transaction(OFFLINE_DB_STORE, 'readonly').objectStore(OFFLINE_DB_STORE).get(id);
+            request.onsuccess = () => {
+                db.close();
+                resolve(request.result ?? null);
+            };
+            request.onerror = () => {
+                db.close();
+                reject(request.error);
+            };
+        };
+    });
+}
+
+/**
+ * Se a licença do download ainda vale (mesma regra de isDownloadLicenseValid
+ * em lib/download-license.ts). Sem registro, o arquivo não é servido.
+ */
+async function hasValidLicense(id) {
+    const download = await getDownloadRecord(id).catch(() => null);
+    const expiresAt = download ? Date.parse(download.licenseExpiresAt) : NaN;
+    return Number.isFinite(expiresAt) && expiresAt > Date.now();
+}
+
+/**
+ * Espaço livre estimado (Infinity quando o navegador não informa)
+ */
+async function getFreeBytes() {
+    if (!navigator.storage?.estimate) return Infinity;
+    const { quota, usage } = await navigator.storage.estimate();
+    return quota === undefined ? Infinity : quota - (usage || 0);
+}
+
+/**
+ * Extrai o valor de um atributo de uma tag HLS (ex: URI="...")
+ */
+function getHlsAttribute(line, name) {
+    // Ancorado no início do atributo (BANDWIDTH não casa com AVERAGE-BANDWIDTH)
+    const match = line.match(new RegExp(`(?:^|[:,])${name}=("([^"]*)"|[^,]*)`));
+    return match ? (match[2] ?? match[1]) : null;
+}
+
+/**
+ * Variante de uma master playlist para download: a de maior bitrate dentro do
+ * plano (RESOLUTION até quality.maxHeight, sem PQ/HLG se o plano não tem HDR).
+ * Na economia de dados prefere as de até quality.preferredMaxHeight (ou a
+ * menor do plano), como o player. null se nenhuma variante cabe no plano.
+ */
+function selectHlsVariant(playlist, quality) {
+    const maxHeight = quality?.maxHeight ?? Infinity;
+    const preferredMaxHeight = quality?.preferredMaxHeight ?? null;
+    const allowHdr = quality?.hdr ?? true;
+
+    const lines = playlist.split(/\r?\n/);
+    const variants = [];
+    lines.forEach((line, index) => {
+        if (!line.startsWith('#EXT-X-STREAM-INF')) return;
+        const uri = lines.slice(index + 1).find((next) => next.trim() && !next.startsWith('#'));
+        if (!uri) return;
+        const resolution = getHlsAttribute(line, 'RESOLUTION');
+        const videoRange = getHlsAttribute(line, 'VIDEO-RANGE');
+        variants.push({
+            bandwidth: Number(getHlsAttribute(line, 'BANDWIDTH')) || 0,
+            height: resolution ? Number(resolution.split('x')[1]) || null : null,
+            hdr: videoRange === 'PQ' || videoRange === 'HLG',
+            uri: uri.trim(),
+        });
+    });
+
+    // Sem RESOLUTION não há como medir: só aceita se nenhuma variante informar
+    const sized = variants.some((variant) => variant.height !== null);
+    const allowed = variants.filter((variant) =>
+        (allowHdr || !variant.hdr) && (!sized || (variant.height !== null && variant.height <= maxHeight))
+    );
+    if (allowed.length === 0) return null;
+
+    let pool = allowed;
+    if (preferredMaxHeight !== null) {
+        const preferred = allowed.filter((variant) => variant.height !== null && variant.height <= preferredMaxHeight);
+        pool = preferred.length > 0
+            ? preferred
+            : [allowed.reduce((lowest, variant) => (variant.bandwidth < lowest.bandwidth ? variant : lowest))];
+    }
+
+    return pool.reduce((best, variant) => (variant.bandwidth > best.bandwidth ? variant : best));
+}
+
+/**
+ * Duração total de uma media playlist (soma dos #EXTINF, em segundos)
+ */
+function getHlsDuration(playlist) {
+    return playlist.split(/\r?\n/).reduce((total, line) => {
+        if (!line.startsWith('#EXTINF:')) return total;
+        return total + (parseFloat(line.slice('#EXTINF:'.length)) || 0);
+    }, 0);
+}
+
+/**
+ * Baixa um MP4 direto para o cache (streaming, sem carregar o arquivo na memória)
+ */
+async function downloadMp4(id, url, report) {
+    const response = await fetch(url, { credentials: 'same-origin' });
+    if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+
+    const totalBytes = Number(response.headers.get('content-length')) || null;
+    if (totalBytes && totalBytes > (await getFreeBytes())) {
+        throw new DOMException('Not enough storage', 'QuotaExceededError');
+    }
+
+    let receivedBytes = 0;
+    const counted = response.body.pipeThrough(new TransformStream({
+        transform(chunk, controller) {
+            receivedBytes += chunk.byteLength;
+            report(receivedBytes, totalBytes, totalBytes ? receivedBytes / totalBytes : 0);
+            controller.enqueue(chunk);
+        },
+    }));
+
+    const cache = await caches.open(DOWNLOADS_CACHE);
+    await cache.put(
+        getOfflineMediaKey(id, 'video.mp4'),
+        new Response(counted, {
+            headers: {
+                'Content-Type': response.headers.get('content-type') || 'video/mp4',
+                ...(totalBytes && { 'Content-Length': String(totalBytes) }),
+            },
+        })
+    );
+
+    return receivedBytes;
+}
+
+/**
+ * Baixa uma playlist HLS (variante da master dentro do limite de qualidade)
+ * e todos os segmentos. A playlist salva aponta para os arquivos locais; ela
+ * é gravada por último, então sua presença no cache indica download completo.
+ */
+async function downloadHls(id, url, quality, report) {
+    let response = await fetch(url, { credentials: 'same-origin' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    let playlistUrl = response.url;
+    let playlist = await response.text();
+    let bandwidth = 0;
+
+    if (playlist.includes('#EXT-X-STREAM-INF')) {
+        const variant = selectHlsVariant(playlist, quality);
+        if (!variant) throw new Error('No variant within the plan quality');
+        bandwidth = variant.bandwidth;
+
+        response = await fetch(new URL(variant.uri, playlistUrl).href, { credentials: 'same-origin' });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        playlistUrl = response.url;
+        playlist = await response.text();
+    }
+
+    // Tamanho estimado (BANDWIDTH × duração) antes de baixar os segmentos
+    const estimatedBytes = (bandwidth / 8) * getHlsDuration(playlist);
+    if (estimatedBytes > (await getFreeBytes())) {
+        throw new DOMException('Not enough storage', 'QuotaExceededError');
+    }
+
+    // Segmentos, chaves (EXT-X-KEY) e init segments (EXT-X-MAP) viram arquivos locais
+    const resources = [];
+    const rewritten = playlist.split(/\r?\n/).map((line) => {
+        const trimmed = line.trim();
+        if ((trimmed.startsWith('#EXT-X-KEY') || trimmed.startsWith('#EXT-X-MAP')) && trimmed.includes('URI=')) {
+            const uri = getHlsAttribute(trimmed, 'URI');
+            if (!uri) return line;
+            const file = `res-${resources.length}`;
+            resources.push({ file, url: new URL(uri, playlistUrl).href });
+            return line.replace(uri, file);
+        }
+        if (trimmed && !trimmed.startsWith('#')) {
+            const file = `seg-${resources.length}`;
+            resources.push({ file, url: new URL(trimmed, playlistUrl).href });
+            return file;
+        }
+        return line;
+    }).join('\n');
+
+    const cache = await caches.open(DOWNLOADS_CACHE);
+    let receivedBytes = 0;
+
+    for (let index = 0; index < resources.length; index++) {
+        const resource = resources[index];
+        const segment = await fetch(resource.url, { credentials: 'same-origin' });
+        if (!segment.ok) throw new Error(`HTTP ${segment.status}`);
+
+        const body = await segment.arrayBuffer();
+        receivedBytes += body.byteLength;
+        await cache.put(
+            getOfflineMediaKey(id, resource.file),
+            new Response(body, {
+                headers: { 'Content-Type': segment.headers.get('content-type') || 'application/octet-stream' },
+            })
+        );
+        report(receivedBytes, null, (index + 1) / resources.length);
+    }
+
+    await cache.put(
+        getOfflineMediaKey(id, 'index.m3u8'),
+        new Response(rewritten, { headers: { 'Content-Type': 'application/vnd.apple.mpegurl' } })
+    );
+
+    return receivedBytes;
+}
+
+/**
+ * Executa um download e avisa as abas do progresso.
+ * O navegador pode encerrar o SW em downloads muito longos; a aba detecta
+ * (GET_ACTIVE_DOWNLOADS) e marca o download como falho para tentar de novo.
+ */
+async function runDownload({ id, url, format, quality }) {
+    if (activeDownloads.has(id)) return;
+    activeDownloads.add(id);
+
+    let lastReport = 0;
+    const report = (receivedBytes, totalBytes, progress) => {
+        const now = Date.now();
+        if (now - lastReport < DOWNLOAD_PROGRESS_INTERVAL) return;
+        lastReport = now;
+        notifyClients({ type: 'DOWNLOAD_PROGRESS', id, receivedBytes, totalBytes, progress });
+    };
+
+    try {
+        await deleteDownload(id);
+        const receivedBytes = format === 'hls'
+            ? await downloadHls(id, url, quality, report)
+            : await downloadMp4(id, url, report);
+        await notifyClients({ type: 'DOWNLOAD_COMPLETE', id, receivedBytes });
+    } catch (err) {
+        console.warn(`[SW] Download failed: ${id}`, err);
+        await deleteDownload(id).catch(() => { });
+        await notifyClients({
+            type: 'DOWNLOAD_ERROR',
+            id,
+            error: err && err.name === 'QuotaExceededError' ? 'quota' : 'network',
+        });
+    } finally {
+        activeDownloads.delete(id);
+    }
+}
+
+/**
+ * Serve um arquivo baixado, com suporte a Range (necessário para <video> com MP4).
+ * Licença vencida → 403: o arquivo fica no cache até renovar a licença online.
+ */
+async function serveOfflineMedia(request) {
+    const url = new URL(request.url);
+    const id = decodeURIComponent(url.pathname.slice(OFFLINE_MEDIA_PATH.length).split('/')[0]);
+
+    if (!(await hasValidLicense(id))) {
+        return new Response('License expired', { status: 403 });
+    }
+
+    const cache = await caches.open(DOWNLOADS_CACHE);
+    const cached = await cache.match(url.pathname);
+
+    if (!cached) return new Response('Not downloaded', { status: 404 });
+
+    const range = request.headers.get('range');
+    const match = range && range.match(/bytes=(\d*)-(\d*)/);
+    if (!match) return cached;
+
+    const blob = await cached.blob();
+    const start = match[1] ? Number(match[1]) : Math.max(0, blob.size - Number(match[2]));
+    const end = match[1] && match[2] ? Math.min(Number(match[2]), blob.size - 1) : blob.size - 1;
+
+    if (start >= blob.size || start > end) {
+        return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${blob.size}` } });
+    }
+
+    return new Response(blob.slice(start, end + 1), {
+        status: 206,
+        headers: {
+            'Content-Type': cached.headers.get('content-type') || 'video/mp4',
+            'Content-Length': String(end - start + 1),
+            'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+            'Accept-Ranges': 'bytes',
+        },
+    });
+}
+
 // ─── Install Event ─────────────────────────────────────────────────────────
 
 self.addEventListener('install', (event) => {
@@ -142,7 +482,7 @@ self.addEventListener('activate', (event) => {
             .keys()
             .then((cacheNames) => {
                 // Remove caches de versões anteriores
-                const validCaches = [STATIC_CACHE, DYNAMIC_CACHE, IMAGE_CACHE];
+                const validCaches = [STATIC_CACHE, DYNAMIC_CACHE, IMAGE_CACHE, DOWNLOADS_CACHE];
                 return Promise.all(
                     cacheNames
                         .filter((name) => !validCaches.includes(name))
@@ -164,6 +504,12 @@ self.addEventListener('activate', (event) => {
 self.addEventListener('fetch', (event) => {
     const url = new URL(event.request.url);
 
+    // ── Downloads offline → sempre do cache ──
+    if (url.origin === self.location.origin && url.pathname.startsWith(OFFLINE_MEDIA_PATH)) {
+        event.respondWith(serveOfflineMedia(event.request));
+        return;
+    }
+
     // Ignorar requisições que não devem ser cacheadas
     if (shouldSkip(url)) return;
 
@@ -230,6 +576,28 @@ self.addEventListener('fetch', (event) => {
     // Cachear HTML no SW causava double-render/flicker porque o SW servia
     // a versão cacheada e depois a versão fresh chegava, re-renderizando a página.
     // Agora o SW só intercepta navigation requests quando offline.
+    // Exceção: a página de downloads fica disponível offline (Network First)
+    if (isNavigationRequest(event.request) && url.pathname === DOWNLOADS_PAGE) {
+        event.respondWith(
+            fetch(event.request)
+                .then((response) => {
+                    if (response && response.status === 200 && !response.redirected) {
+                        const responseClone = response.clone();
+                        caches.open(DOWNLOADS_CACHE).then((cache) => cache.put(DOWNLOADS_PAGE, responseClone));
+                    }
+                    return response;
+                })
+                .catch(async () => {
+                    const cachedPage = await caches.match(DOWNLOADS_PAGE, { cacheName: DOWNLOADS_CACHE });
+                    return cachedPage || (await caches.match(OFFLINE_URL)) || new Response('Offline', {
+                        status: 503,
+                        headers: { 'Content-Type': 'text/plain' },
+                    });
+                })
+        );
+        return;
+    }
+
     if (isNavigationRequest(event.request)) {
         event.respondWith(
             fetch(event.request).catch(async () => {
@@ -274,6 +642,19 @@ self.addEventListener('message', (event) => {
         event.ports[0]?.postMessage({ version: CACHE_VERSION });
     }
 
+    // Downloads offline (mensagens enviadas por hooks/useOfflineDownloads.ts)
+    if (event.data?.type === 'DOWNLOAD_MEDIA') {
+        event.waitUntil(runDownload(event.data));
+    }
+
+    if (event.data?.type === 'DELETE_DOWNLOAD') {
+        event.waitUntil(deleteDownload(event.data.id));
+    }
+
+    if (event.data?.type === 'GET_ACTIVE_DOWNLOADS') {
+        event.ports[0]?.postMessage({ ids: Array.from(activeDownloads) });
+    }
+
     // Limpar todos os caches (útil para debugging)
     if (event.data === 'CLEAR_CACHES') {
         caches.keys().then((names) => {
@@ -1,13 +1,13 @@
 #!/bin/bash
 
 # 🧪 Script de Execução de Testes de APIs
-# Execute todos os testes de validação das 26 APIs
+# Execute todos os testes de validação das 30 APIs
 
 set -e
 
 echo "🧪 =================================="
 echo "   TESTES DE APIs - YuiALive"
-echo "   Total: 26 APIs | Cobertura: 100%"
+echo "   Total: 30 APIs | Cobertura: 100%"
 echo "===================================="
 echo ""
 
@@ -101,6 +101,16 @@ else
     ((failed++))
 fi
 
+# ========================================
+# GRUPO 7: Streaming (4 endpoints)
+# ========================================
+echo -e "${YELLOW}📡 GRUPO 7: Streaming APIs (4 endpoints)${NC}"
+if run_test_group "Streaming APIs" "__tests__/api/streaming.api.test.ts" "📡"; then
+    ((passed++))
+else
+    ((failed++))
+fi
+
 # ========================================
 # RESUMO FINAL
 # ========================================
@@ -121,8 +131,9 @@ if [ $failed -eq 0 ]; then
     echo "   ⚙️ Settings: ✅"
     echo "   🌐 Public: ✅"
     echo "   🔐 Internal: ✅"
+    echo "   📡 Streaming: ✅"
     echo ""
-    echo -e "${GREEN}🎉 26/26 APIs validadas com sucesso!${NC}"
+    echo -e "${GREEN}🎉 30/30 APIs validadas com sucesso!${NC}"
     echo ""
     exit 0
 else
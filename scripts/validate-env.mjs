@@ -39,6 +39,17 @@ if (has('PAYMENT_WEBHOOK_SECRET') && !has('PAYMENT_CHECKOUT_URL')) {
   console.error('❌ ERROR: PAYMENT_CHECKOUT_URL is required when PAYMENT_WEBHOOK_SECRET is set.');
   failed = true;
 }
+if (has('PAYMENT_WEBHOOK_SECRET_PREVIOUS') && !has('PAYMENT_WEBHOOK_SECRET')) {
+  console.error('❌ ERROR: PAYMENT_WEBHOOK_SECRET is required when PAYMENT_WEBHOOK_SECRET_PREVIOUS is set.');
+  failed = true;
+}
+if (has('PAYMENT_WEBHOOK_TOLERANCE_SECONDS')) {
+  const tolerance = Number(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS);
+  if (!Number.isInteger(tolerance) || tolerance < 1 || tolerance > 3600) {
+    console.error('❌ ERROR: PAYMENT_WEBHOOK_TOLERANCE_SECONDS must be an integer between 1 and 3600.');
+    failed = true;
+  }
+}
 
 // ── Important (app works without, but features are degraded) ───────────────
 
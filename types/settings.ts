@@ -2,6 +2,9 @@
  * Tipos compartilhados para Settings
  */
 
+import type { ShortcutOverrides } from '@/lib/keyboard-shortcuts';
+import type { DataUsageMode } from '@/lib/data-usage';
+
 export interface SessionData {
     id: string;
     ipAddress: string | null;
@@ -32,4 +35,9 @@ export interface UserPreferencesData {
     pushNewReleases: boolean;
     pushRecommendations: boolean;
     pushAccountAlerts: boolean;
+    autoSkipIntro: boolean;
+    stillWatchingEpisodes: number;
+    stillWatchingMinutes: number;
+    keyboardShortcuts: ShortcutOverrides;
+    dataUsage: DataUsageMode;
 }